@@ -22,7 +22,8 @@ import {
   Scale,
   TrendingUp,
   TrendingDown,
-  Minus
+  Minus,
+  Wind
 } from 'lucide-react';
 
 import MeshBackground from './components/MeshBackground';
@@ -33,6 +34,7 @@ import AnalyticsView from './components/AnalyticsView';
 import HealthImpactView from './components/HealthImpactView';
 import MethodologyView from './components/MethodologyView';
 import AtmosScan from './components/AtmosScan';
+import CitizenAction from './components/CitizenAction';
 import GovSections from './components/GovSections';
 import IndustrialLedger from './components/IndustrialLedger';
 import WardMap from './components/WardMap';
@@ -43,11 +45,20 @@ import Particles from './components/Particles';
 import ArchitectureModal from './components/ArchitectureModal';
 
 import { loadDelhiWards } from './data';
-import { Ward, DashboardTheme, AppView, AQILevel, IntelligentAnalysis } from './types';
-import { fetchLiveCityAQI, LiveAqiData } from './services/aqiService';
+import { formatDataAge } from './services/offlineCache';
+import { fetchCurrentWeather } from './services/meteorology';
+import { Ward, DashboardTheme, AppView, AQILevel, IntelligentAnalysis, AggregationMethod } from './types';
+import { fetchLiveCityAQI, fetchStationsWithFreshness, LiveAqiData, CityAqiOptions } from './services/aqiService';
+import { getAqiCategory } from './services/aqiCategories';
 import { getMitigationInsight } from './services/geminiService';
+import { MessageKey, useI18n } from './services/i18n';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import AlertCenter from './components/AlertCenter';
+import { checkAlerts } from './services/alerts';
+import { pm25FromAqi } from './services/exposure';
 
 const appleEase = [0.25, 1, 0.5, 1];
+const AGGREGATION_METHOD_KEY = 'pureair_aggregation_method';
 
 const Counter: React.FC<{ value: number | null }> = ({ value }) => {
   const [displayValue, setDisplayValue] = useState(value || 0);
@@ -88,7 +99,9 @@ const Counter: React.FC<{ value: number | null }> = ({ value }) => {
   );
 };
 
-const IntelligenceBulletin: React.FC<{ intelligence: IntelligentAnalysis | undefined }> = ({ intelligence }) => (
+const IntelligenceBulletin: React.FC<{ intelligence: IntelligentAnalysis | undefined }> = ({ intelligence }) => {
+  const { t, formatNumber, formatDateTime } = useI18n();
+  return (
   <div className="w-full bg-rose-500/10 border-y border-rose-500/20 py-2.5 overflow-hidden whitespace-nowrap z-[60] backdrop-blur-md alert-ticker-container">
     <motion.div 
       animate={{ x: ["0%", "-50%"] }}
@@ -101,29 +114,38 @@ const IntelligenceBulletin: React.FC<{ intelligence: IntelligentAnalysis | undef
             <>
               {intelligence.grap && (
                 <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-rose-500">
-                  <AlertCircle size={10} /> {intelligence.grap.label}: {intelligence.grap.description}
+                  <AlertCircle size={10} /> {t(`grap.label.${intelligence.grap.stage}` as MessageKey)}{intelligence.grap.basis === 'forecast' ? t('app.bulletin.forecastInvoked') : ''}: {t(`grap.description.${intelligence.grap.stage}` as MessageKey)}
+                  {intelligence.grap.since && ` • ${t('app.bulletin.inForceSince', { time: formatDateTime(intelligence.grap.since, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) })}`}
+                  {!!intelligence.grap.measures?.length && ` • ${t('app.bulletin.measures', { count: intelligence.grap.measures.length })}`}
+                  {intelligence.grap.revocationDueAt && ` • ${t('app.bulletin.revocationReview', { time: formatDateTime(intelligence.grap.revocationDueAt, { day: 'numeric', month: 'short', hour: '2-digit' }) })}`}
                 </div>
               )}
                <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-amber-500">
-                <ShieldAlert size={10} /> Action: {intelligence.recommendation.mask} • {intelligence.recommendation.activity}
+                <ShieldAlert size={10} /> {t('app.bulletin.action', { mask: t(`advisory.${intelligence.advisory}.mask`), activity: t(`advisory.${intelligence.advisory}.activity`) })}
               </div>
               <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-indigo-400">
-                <Activity size={10} /> Exposure Limit: {intelligence.exposureMinutes === 'Unlimited' ? 'No Limit' : `Max ${intelligence.exposureMinutes} Mins Outdoors`}
+                <Activity size={10} /> {typeof intelligence.exposureMinutes === 'number' ? t('app.bulletin.limit', { count: intelligence.exposureMinutes }) : t('app.bulletin.noLimit')}
               </div>
               <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-emerald-400">
-                 <Clock size={10} /> 6H Forecast: {intelligence.prediction === 'increasing' ? 'Levels Rising' : intelligence.prediction === 'decreasing' ? 'Levels Improving' : 'Stable'}
+                 <Clock size={10} /> {intelligence.prediction === 'increasing' ? t('app.bulletin.rising') : intelligence.prediction === 'decreasing' ? t('app.bulletin.improving') : t('app.bulletin.stable')}
               </div>
+              {intelligence.dispersion && (
+                <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-sky-400">
+                  <Wind size={10} /> {t('app.bulletin.ventilation', { value: formatNumber(intelligence.dispersion.ventilationIndex) })} • {t(`dispersion.${intelligence.dispersion.category}`)}{intelligence.dispersion.inversion ? ` • ${t('app.bulletin.inversion')}` : ''}{intelligence.dispersion.rain ? ` • ${t('app.bulletin.rain')}` : ''}
+                </div>
+              )}
             </>
           ) : (
              <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-indigo-400">
-               <Activity size={10} /> Calibrating Intelligence Grid...
+               <Activity size={10} /> {t('app.bulletin.calibrating')}
              </div>
           )}
         </React.Fragment>
       ))}
     </motion.div>
   </div>
-);
+  );
+};
 
 const FeatureCard: React.FC<{ 
   icon: any; 
@@ -131,7 +153,9 @@ const FeatureCard: React.FC<{
   description: string; 
   onClick: () => void;
   isDark: boolean;
-}> = ({ icon: Icon, title, description, onClick, isDark }) => (
+}> = ({ icon: Icon, title, description, onClick, isDark }) => {
+  const { t } = useI18n();
+  return (
   <motion.button
     whileHover={{ y: -10, scale: 1.02 }}
     onClick={onClick}
@@ -147,11 +171,12 @@ const FeatureCard: React.FC<{
       <p className="opacity-40 text-[13px] font-medium leading-relaxed">{description}</p>
     </div>
     <div className="mt-auto pt-6 flex items-center gap-2 opacity-20">
-      <span className="text-[10px] font-black uppercase tracking-widest">Execute Node</span>
-      <ChevronRight size={12} />
+      <span className="text-[10px] font-black uppercase tracking-widest">{t('app.feature.execute')}</span>
+      <ChevronRight size={12} className="rtl:rotate-180" />
     </div>
   </motion.button>
-);
+  );
+};
 
 const App: React.FC = () => {
   const [wards, setWards] = useState<Ward[]>([]);
@@ -161,30 +186,56 @@ const App: React.FC = () => {
   const [searchOpen, setSearchOpen] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showArch, setShowArch] = useState(false);
+  const { locale, t, formatDateTime } = useI18n();
   
   // Live AQI State
   const [liveAqi, setLiveAqi] = useState<LiveAqiData | null>(null);
   const [mitigationInsight, setMitigationInsight] = useState<{ text: string; confidence: string } | null>(null);
+  const [aggregationMethod, setAggregationMethod] = useState<AggregationMethod>(
+    () => (localStorage.getItem(AGGREGATION_METHOD_KEY) as AggregationMethod) || 'max'
+  );
+  const cityOptions = useRef<CityAqiOptions>({ method: aggregationMethod });
 
   const { scrollY } = useScroll();
   const stripOpacity = useTransform(scrollY, [200, 400], [0, 1]);
   const stripY = useTransform(scrollY, [200, 400], [-20, 0]);
 
+  // Ward to open from an alert notification (via the service worker, or ?ward= on a cold start)
+  const [alertWardId, setAlertWardId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('ward')
+  );
+
   // Primary Data Loop
   useEffect(() => {
+    // Wards feed the population-weighted aggregation of the city feed
+    const loadReadings = async () => {
+      const [{ stations, freshness }, weather] = await Promise.all([fetchStationsWithFreshness(), fetchCurrentWeather()]);
+      const wardsData = await loadDelhiWards(stations, weather, freshness);
+      cityOptions.current = {
+        ...cityOptions.current,
+        wards: wardsData
+      };
+      const live = await fetchLiveCityAQI(cityOptions.current);
+      // Alerts fire on fresh observations only, never on cached or fixture readings
+      if (live?.freshness?.source === 'live') {
+        checkAlerts({ wards: wardsData, cityAqi: live.aqi, grapStage: live.intelligence?.grap.stage ?? 0 })
+          .catch(err => console.warn("Alert check failed", err));
+      }
+      return { wardsData, live };
+    };
+
     const init = async () => {
-      // Parallelize initialization steps
       try {
-        const [wardsData, liveAqiData] = await Promise.all([
-          loadDelhiWards(),
-          fetchLiveCityAQI()
-        ]);
+        const { wardsData, live: liveAqiData } = await loadReadings();
         
         setWards(wardsData);
         if (liveAqiData) {
           setLiveAqi(liveAqiData);
           // Mitigation insight can be triggered in background
-          getMitigationInsight(liveAqiData.aqi, liveAqiData.dominant).then(setMitigationInsight);
+          getMitigationInsight(liveAqiData.aqi, liveAqiData.dominant).then(result => {
+            if (result.ok) setMitigationInsight(result.data);
+            else console.warn("Mitigation insight unavailable", result.error);
+          });
         }
       } catch (err) {
         console.error("Initialization System Error", err);
@@ -194,31 +245,62 @@ const App: React.FC = () => {
     };
     init();
 
-    // Auto Refresh every 10 minutes (600,000 ms)
+    // Auto Refresh every 10 minutes (600,000 ms); wards are reloaded too so ward alerts see new readings
     const interval = setInterval(async () => {
-      const live = await fetchLiveCityAQI();
-      if (live) {
-        setLiveAqi(live);
+      try {
+        const { wardsData, live } = await loadReadings();
+        setWards(wardsData);
+        if (live) {
+          setLiveAqi(live);
+        }
+      } catch (err) {
+        console.warn("Refresh failed", err);
       }
     }, 600000);
 
-    return () => clearInterval(interval);
+    const onWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'pureair-alert' && event.data.wardId) setAlertWardId(event.data.wardId);
+    };
+    navigator.serviceWorker?.addEventListener('message', onWorkerMessage);
+
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker?.removeEventListener('message', onWorkerMessage);
+    };
   }, []);
 
+  useEffect(() => {
+    if (!alertWardId) return;
+    const ward = wards.find(w => w.id === alertWardId);
+    if (!ward) return;
+    setSelectedWard(ward);
+    setAlertWardId(null);
+  }, [alertWardId, wards]);
+
+  // Re-aggregate the headline number when the analyst switches method
+  useEffect(() => {
+    localStorage.setItem(AGGREGATION_METHOD_KEY, aggregationMethod);
+    if (cityOptions.current.method === aggregationMethod) return;
+    cityOptions.current = { ...cityOptions.current, method: aggregationMethod };
+    fetchLiveCityAQI(cityOptions.current).then(live => live && setLiveAqi(live));
+  }, [aggregationMethod]);
+
+  // The insight is written in the active language; ask again after a switch
+  const insightLocale = useRef(locale);
+  useEffect(() => {
+    if (insightLocale.current === locale || !liveAqi) return;
+    insightLocale.current = locale;
+    getMitigationInsight(liveAqi.aqi, liveAqi.dominant).then(result => result.ok && setMitigationInsight(result.data));
+  }, [locale]);
+
+
   const avgAqi = liveAqi?.aqi || 0;
   const isDark = theme === 'dark';
 
   const toggleTheme = () => setTheme(prev => prev === 'dark' ? 'light' : 'dark');
 
-  const getAqiStatusLabel = (aqi: number) => {
-    if (aqi > 400) return { label: 'SEVERE', color: 'border-rose-500 text-rose-500', bg: 'bg-rose-500/10' };
-    if (aqi > 300) return { label: 'V. POOR', color: 'border-purple-500 text-purple-500', bg: 'bg-purple-500/10' };
-    if (aqi > 200) return { label: 'POOR', color: 'border-amber-500 text-amber-500', bg: 'bg-amber-500/10' };
-    if (aqi > 100) return { label: 'MODERATE', color: 'border-yellow-500 text-yellow-500', bg: 'bg-yellow-500/10' };
-    return { label: 'GOOD', color: 'border-green-400 text-green-400', bg: 'bg-green-400/10' };
-  };
-
-  const status = getAqiStatusLabel(avgAqi);
+  const category = getAqiCategory(avgAqi);
+  const status = { label: t(`level.${category.level}`), color: `${category.borderClass} ${category.textClass}`, bg: category.bgClass };
 
   const renderTrendIcon = () => {
     if (!liveAqi?.intelligence) return <Minus size={12} />;
@@ -241,14 +323,21 @@ const App: React.FC = () => {
   const renderView = () => {
     switch (view) {
       case 'rankings': return <RankingsView theme={theme} wards={wards} onSelect={setSelectedWard} />;
-      case 'analytics': return <AnalyticsView theme={theme} />;
-      case 'health': return <HealthImpactView theme={theme} pm25={Math.round(avgAqi * 0.7)} />;
+      case 'analytics': return <AnalyticsView theme={theme} liveAqi={liveAqi} onSelectMethod={setAggregationMethod} wards={wards} />;
+      case 'health': return <HealthImpactView theme={theme} pm25={Math.round(pm25FromAqi(avgAqi))} wards={wards} cityAqi={avgAqi} />;
       case 'methodology': return <MethodologyView theme={theme} />;
-      case 'scan': return <AtmosScan theme={theme} />;
+      case 'scan': return (
+        <div>
+           <AtmosScan theme={theme} />
+           <div className="max-w-6xl mx-auto pb-40">
+             <CitizenAction theme={theme} wards={wards} />
+           </div>
+        </div>
+      );
       case 'enforcement': 
       case 'governance': return (
         <div className="space-y-40 pb-40">
-           <GovSections theme={theme} />
+           <GovSections theme={theme} grap={liveAqi?.intelligence?.grap} wards={wards} />
            <IndustrialLedger theme={theme} />
         </div>
       );
@@ -265,7 +354,7 @@ const App: React.FC = () => {
               className="mb-8"
             >
               <span className="text-[10px] font-black uppercase tracking-[1em] opacity-40">
-                {liveAqi?.city || 'DELHI NCT'} ATMOSPHERIC NODE
+                {t('app.hero.node', { city: liveAqi?.city || 'Delhi NCT' })}
               </span>
             </motion.div>
             
@@ -279,21 +368,44 @@ const App: React.FC = () => {
                 <Counter value={liveAqi ? liveAqi.aqi : null} />
                 <motion.div 
                   className="absolute -inset-20 blur-[120px] opacity-20 -z-10"
-                  style={{ backgroundColor: status.color.split(' ')[1].replace('text-', '') }}
+                  style={{ backgroundColor: category.color }}
                 />
               </div>
               
               <div className="flex flex-col items-center gap-6 -mt-10 relative z-10">
                 <div className={`px-10 py-3 rounded-full border-2 ${status.color} ${status.bg} backdrop-blur-3xl font-black text-xs tracking-[0.4em] shadow-2xl flex items-center gap-3`}>
                   {renderTrendIcon()}
-                  {status.label} PHASE
+                  {t('app.hero.phase', { level: status.label })}
                   {renderPredictionIcon()}
                 </div>
                 <div className="flex items-center gap-4 opacity-40">
-                  <span className="text-[11px] font-black uppercase tracking-[0.5em]">{liveAqi?.dominant || 'PM2.5'} Dominant</span>
+                  <span className="text-[11px] font-black uppercase tracking-[0.5em]">{t('common.dominant', { pollutant: liveAqi?.dominant || 'PM2.5' })}</span>
                   <div className="w-1 h-1 rounded-full bg-white/30" />
-                  <span className="text-[11px] font-black uppercase tracking-[0.5em]">Live Feed: {liveAqi?.time || '--:--'}</span>
+                  <span className="text-[11px] font-black uppercase tracking-[0.5em]">{liveAqi?.freshness?.source === 'fixture' ? t('app.hero.demo') : liveAqi?.freshness?.stale ? t('app.hero.lastReading') : t('app.hero.liveFeed')}: {liveAqi?.time || '--:--'}</span>
                 </div>
+                {liveAqi?.freshness?.source === 'fixture' && (
+                  <div className="px-5 py-2 rounded-full border border-sky-500/30 bg-sky-500/10 text-sky-400 text-[9px] font-black uppercase tracking-[0.4em]">
+                    {t('app.hero.fixture')}
+                  </div>
+                )}
+                {liveAqi?.freshness?.stale && (
+                  <div className="px-5 py-2 rounded-full border border-amber-500/30 bg-amber-500/10 text-amber-500 text-[9px] font-black uppercase tracking-[0.4em]">
+                    {liveAqi.freshness.source === 'snapshot' ? t('app.hero.snapshot') : t('app.hero.cached')} • {t('app.hero.age', { age: formatDataAge(Date.now() - liveAqi.freshness.observedAt) })}
+                  </div>
+                )}
+                {!loading && !liveAqi && (
+                  <div className="px-5 py-2 rounded-full border border-white/10 text-[9px] font-black uppercase tracking-[0.4em] opacity-40">
+                    {t('app.hero.noReading')}
+                  </div>
+                )}
+                {liveAqi?.aggregation && (
+                  <button
+                    onClick={() => setView('analytics')}
+                    className="text-[9px] font-black uppercase tracking-[0.4em] opacity-30 hover:opacity-60 transition-opacity"
+                  >
+                    {t('app.hero.aggregation', { method: t(`aggregation.${liveAqi.aggregation.method}`), count: liveAqi.aggregation.stationCount })}
+                  </button>
+                )}
               </div>
             </motion.div>
 
@@ -304,7 +416,7 @@ const App: React.FC = () => {
               className="absolute bottom-10 flex flex-col items-center gap-4"
             >
               <div className="w-[1px] h-20 bg-gradient-to-b from-white/20 to-transparent" />
-              <span className="text-[9px] font-black uppercase tracking-[0.6em] opacity-20">Scroll to Decrypt Intelligence</span>
+              <span className="text-[9px] font-black uppercase tracking-[0.6em] opacity-20">{t('app.hero.scroll')}</span>
             </motion.div>
           </section>
 
@@ -323,17 +435,17 @@ const App: React.FC = () => {
                   </div>
                   <div className="flex items-center gap-4 mb-8">
                     <ShieldCheck size={20} className="text-indigo-400" />
-                    <h4 className="text-[11px] font-black uppercase tracking-[0.4em] text-indigo-400">AI Mitigation Insight</h4>
+                    <h4 className="text-[11px] font-black uppercase tracking-[0.4em] text-indigo-400">{t('app.insight.title')}</h4>
                     <div className="ml-auto flex items-center gap-2">
                        <div className="w-1.5 h-1.5 rounded-full bg-indigo-500/40" />
-                       <span className="text-[9px] font-black uppercase tracking-widest opacity-30">Confidence: {mitigationInsight.confidence}</span>
+                       <span className="text-[9px] font-black uppercase tracking-widest opacity-30">{t('app.insight.confidence', { confidence: mitigationInsight.confidence })}</span>
                     </div>
                   </div>
                   <p className="text-2xl font-black tracking-tight leading-relaxed italic opacity-90 whitespace-pre-wrap">
                     "{mitigationInsight.text}"
                   </p>
                   <div className="mt-10 pt-10 border-t border-indigo-500/10">
-                    <span className="text-[9px] font-black uppercase tracking-widest opacity-20 italic">Generated for Decision Support Node Delhi-NCT</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest opacity-20 italic">{t('app.insight.footer')}</span>
                   </div>
                 </motion.div>
               </section>
@@ -344,50 +456,50 @@ const App: React.FC = () => {
           <section className="px-6 md:px-20 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
             <FeatureCard 
               icon={MapIcon} 
-              title="Spatial Map" 
-              description="Ward-wise micro-climate surveillance for 274 municipal sectors."
+              title={t('app.card.map.title')} 
+              description={t('app.card.map.description')}
               onClick={() => {}} // Map is shown below, but this anchors the thought
               isDark={isDark}
             />
             <FeatureCard 
               icon={Clock} 
-              title="Predictive Forecast" 
-              description="72-hour temporal intelligence powered by atmospheric chemistry models."
+              title={t('app.card.forecast.title')} 
+              description={t('app.card.forecast.description')}
               onClick={() => setView('forecast')}
               isDark={isDark}
             />
             <FeatureCard 
               icon={BarChart3} 
-              title="Analytic Pulse" 
-              description="Deep-dive into hourly exposure trends and pollutant composition profiles."
+              title={t('app.card.analytics.title')} 
+              description={t('app.card.analytics.description')}
               onClick={() => setView('analytics')}
               isDark={isDark}
             />
             <FeatureCard 
               icon={Camera} 
-              title="AtmosScan Vision" 
-              description="Remote AI profiling of particulate visibility using spectral density nodes."
+              title={t('app.card.scan.title')} 
+              description={t('app.card.scan.description')}
               onClick={() => setView('scan')}
               isDark={isDark}
             />
             <FeatureCard 
               icon={Users} 
-              title="Civic Pulse" 
-              description="Real-time crowdsourced reports and neighborhood hotspot validation."
+              title={t('app.card.pulse.title')} 
+              description={t('app.card.pulse.description')}
               onClick={() => setView('pulse')}
               isDark={isDark}
             />
             <FeatureCard 
               icon={Heart} 
-              title="Health Registry" 
-              description="Physiological risk assessment based on tobacco-equivalent toxicity mapping."
+              title={t('app.card.health.title')} 
+              description={t('app.card.health.description')}
               onClick={() => setView('health')}
               isDark={isDark}
             />
             <FeatureCard 
               icon={Scale} 
-              title="Governance" 
-              description="Compliance ledger, GRAP protocols, and strategic enforcement nodes."
+              title={t('app.card.governance.title')} 
+              description={t('app.card.governance.description')}
               onClick={() => setView('governance')}
               isDark={isDark}
             />
@@ -400,11 +512,11 @@ const App: React.FC = () => {
                 <div className="w-10 h-10 rounded-xl glass flex items-center justify-center">
                   <MapIcon size={18} className="opacity-40" />
                 </div>
-                <h2 className="text-xl font-black uppercase tracking-widest">Spatial Monitoring Node</h2>
+                <h2 className="text-xl font-black uppercase tracking-widest">{t('app.map.title')}</h2>
               </div>
               <button onClick={() => setSearchOpen(true)} className="glass px-6 py-3 rounded-full flex items-center gap-3 hover:bg-white/5 transition-all group">
                 <Search size={14} className="opacity-40" />
-                <span className="text-[10px] font-black uppercase tracking-widest opacity-40">Search Sectors</span>
+                <span className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('app.map.search')}</span>
               </button>
             </div>
             <WardMap 
@@ -434,8 +546,8 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex flex-col items-center text-center">
-          <h2 className="text-xl font-black uppercase tracking-[0.4em] text-white/40">PureAir Systems</h2>
-          <p className="text-[9px] font-black uppercase tracking-[0.8em] text-indigo-500/40 mt-2">Initializing Atmospheric Core</p>
+          <h2 className="text-xl font-black uppercase tracking-[0.4em] text-white/40">{t('app.loading.title')}</h2>
+          <p className="text-[9px] font-black uppercase tracking-[0.8em] text-indigo-500/40 mt-2">{t('app.loading.subtitle')}</p>
         </div>
       </div>
     );
@@ -458,16 +570,16 @@ const App: React.FC = () => {
              <div className="w-8 h-8 rounded-xl bg-indigo-500/10 flex items-center justify-center">
                 <Zap size={16} className="text-indigo-400" />
              </div>
-             <span className="text-[16px] font-black tabular-nums">{liveAqi?.aqi || '--'} AQI</span>
+             <span className="text-[16px] font-black tabular-nums">{liveAqi?.aqi || '--'} {t('common.aqi')}</span>
              <div className="w-1 h-1 rounded-full bg-white/20" />
-             <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{liveAqi?.dominant || 'PM2.5'} Dominant</span>
+             <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('common.dominant', { pollutant: liveAqi?.dominant || 'PM2.5' })}</span>
           </div>
           <div className="flex items-center gap-6">
              <div className={`px-4 py-1 rounded-full border text-[9px] font-black tracking-widest ${status.color} ${status.bg} flex items-center gap-2`}>
-                {renderTrendIcon()} {liveAqi?.intelligence?.grap?.label || "GRAP ACTIVE"}
+                {renderTrendIcon()} {liveAqi?.intelligence?.grap ? t(`grap.label.${liveAqi.intelligence.grap.stage}` as MessageKey) : t('app.strip.grapActive')}
              </div>
              <span className="text-[9px] font-black uppercase tracking-widest opacity-20">
-               Last Updated: {liveAqi?.time || new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})} | Public AQI Feed
+               {t('app.strip.updated', { time: liveAqi?.time || formatDateTime(Date.now(), { hour: '2-digit', minute: '2-digit' }) })}
              </span>
           </div>
         </div>
@@ -484,14 +596,14 @@ const App: React.FC = () => {
 
           <nav className="hidden lg:flex glass px-8 py-3 rounded-full border-white/5 items-center gap-6">
             {[
-              { label: 'Map', id: 'home', icon: MapIcon },
-              { label: 'Rankings', id: 'rankings', icon: LayoutGrid },
-              { label: 'Analytics', id: 'analytics', icon: BarChart3 },
-              { label: 'Forecast', id: 'forecast', icon: Clock },
-              { label: 'Health', id: 'health', icon: Heart },
-              { label: 'Vision', id: 'scan', icon: Camera },
-              { label: 'Pulse', id: 'pulse', icon: Users },
-              { label: 'Governance', id: 'governance', icon: Scale },
+              { label: t('nav.map'), id: 'home', icon: MapIcon },
+              { label: t('nav.rankings'), id: 'rankings', icon: LayoutGrid },
+              { label: t('nav.analytics'), id: 'analytics', icon: BarChart3 },
+              { label: t('nav.forecast'), id: 'forecast', icon: Clock },
+              { label: t('nav.health'), id: 'health', icon: Heart },
+              { label: t('nav.scan'), id: 'scan', icon: Camera },
+              { label: t('nav.pulse'), id: 'pulse', icon: Users },
+              { label: t('nav.governance'), id: 'governance', icon: Scale },
             ].map(item => (
               <button 
                 key={item.id} 
@@ -505,6 +617,8 @@ const App: React.FC = () => {
           </nav>
 
           <div className="flex items-center gap-4">
+             <AlertCenter isDark={isDark} wards={wards} selectedWard={selectedWard} onSelectWard={setSelectedWard} />
+             <LanguageSwitcher isDark={isDark} />
              <button onClick={toggleTheme} className="w-12 h-12 rounded-2xl glass flex items-center justify-center hover:scale-105 transition-transform border-white/5">
                 {theme === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
              </button>
@@ -512,7 +626,7 @@ const App: React.FC = () => {
                onClick={() => setView('governance')}
                className="hidden md:flex px-8 py-4 bg-white text-black rounded-full font-black text-[10px] uppercase tracking-widest hover:scale-105 transition-transform shadow-2xl"
              >
-               Registry
+               {t('nav.registry')}
              </button>
           </div>
         </div>
@@ -528,6 +642,7 @@ const App: React.FC = () => {
         theme={theme} 
         selectedWard={selectedWard}
         liveAqi={liveAqi}
+        wards={wards}
       />
 
       {/* Architecture Modal */}
@@ -556,12 +671,12 @@ const App: React.FC = () => {
       {view !== 'pulse' && (
         <footer className="py-20 px-10 border-t border-white/5 text-center flex flex-col items-center gap-4 opacity-40">
            <div className="text-[9px] font-bold uppercase tracking-widest opacity-60">
-             Granular ward-level values are modeled due to limited public API availability.
+             {t('app.footer.modeled')}
            </div>
            <button onClick={() => setShowArch(true)} className="text-[9px] font-black uppercase tracking-[0.2em] border-b border-white/20 hover:border-white/60 transition-colors">
-              View System Architecture
+              {t('app.footer.architecture')}
            </button>
-           <span className="text-[9px] font-black uppercase tracking-[0.8em] mt-4 opacity-50">End of Transmission • Delhi NCT Environment Node</span>
+           <span className="text-[9px] font-black uppercase tracking-[0.8em] mt-4 opacity-50">{t('app.footer.end')}</span>
         </footer>
       )}
     </div>
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { motion, useSpring, useTransform } from 'framer-motion';
 import { AQILevel } from '../types';
+import { getCategoryByLevel } from '../services/aqiCategories';
+import { useI18n } from '../services/i18n';
 
 interface AQIRingProps {
   aqi: number;
@@ -9,6 +11,7 @@ interface AQIRingProps {
 
 const AQIRing: React.FC<AQIRingProps> = ({ aqi, status }) => {
   const [displayValue, setDisplayValue] = useState(0);
+  const { t } = useI18n();
 
   const springValue = useSpring(0, { stiffness: 65, damping: 30, mass: 1 });
   const roundedValue = useTransform(springValue, (latest) => Math.round(latest));
@@ -21,16 +24,7 @@ const AQIRing: React.FC<AQIRingProps> = ({ aqi, status }) => {
     return () => unsubscribe();
   }, [aqi, springValue, roundedValue]);
 
-  const getColor = () => {
-    if (aqi <= 50) return '#34c759';
-    if (aqi <= 100) return '#a3ff33';
-    if (aqi <= 200) return '#ffcc00';
-    if (aqi <= 300) return '#ff9500';
-    if (aqi <= 400) return '#ff3b30';
-    return '#af0000';
-  };
-
-  const color = getColor();
+  const color = getCategoryByLevel(status).color;
   const radius = 100;
   const circumference = 2 * Math.PI * radius;
   const progress = Math.min(aqi / 500, 1);
@@ -93,7 +87,7 @@ const AQIRing: React.FC<AQIRingProps> = ({ aqi, status }) => {
           </span>
           <div className="flex flex-col gap-1 mt-2">
             <span className="text-[9px] font-black uppercase tracking-[0.5em] opacity-30">
-              Response Index
+              {t('ring.responseIndex')}
             </span>
           </div>
         </motion.div>
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Bell, BellRing, BellOff, MoonStar, Plus, Trash2 } from 'lucide-react';
+import { AlertEvent, AlertSettings, AlertTrigger, Ward } from '../types';
+import {
+  DEFAULT_ALERT_THRESHOLD,
+  AlertPermission,
+  alertPermission,
+  clearAlertHistory,
+  createSubscription,
+  loadAlertHistory,
+  loadAlertSettings,
+  markAlertsSeen,
+  requestAlertPermission,
+  saveAlertSettings,
+  subscribeAlerts,
+  unreadAlertCount
+} from '../services/alerts';
+import { useI18n } from '../services/i18n';
+
+const TRIGGERS: AlertTrigger[] = ['threshold', 'category', 'grap', 'forecast-severe'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+interface AlertCenterProps {
+  isDark: boolean;
+  wards: Ward[];
+  selectedWard: Ward | null;
+  onSelectWard: (ward: Ward) => void;
+}
+
+const AlertCenter: React.FC<AlertCenterProps> = ({ isDark, wards, selectedWard, onSelectWard }) => {
+  const { t, formatDateTime } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [history, setHistory] = useState<AlertEvent[]>(loadAlertHistory);
+  const [unread, setUnread] = useState(unreadAlertCount);
+  const [permission, setPermission] = useState<AlertPermission>(alertPermission);
+
+  // New subscription form; the open ward is the default target
+  const [wardId, setWardId] = useState<string>('');
+  const [triggers, setTriggers] = useState<AlertTrigger[]>(['threshold', 'category']);
+  const [threshold, setThreshold] = useState(DEFAULT_ALERT_THRESHOLD);
+
+  useEffect(() => subscribeAlerts(() => {
+    setSettings(loadAlertSettings());
+    setHistory(loadAlertHistory());
+    setUnread(unreadAlertCount());
+  }), []);
+
+  useEffect(() => {
+    if (!open) return;
+    setWardId(selectedWard?.id ?? '');
+    setPermission(alertPermission());
+    markAlertsSeen();
+  }, [open]);
+
+  const wardsByName = useMemo(() => [...wards].sort((a, b) => a.name.localeCompare(b.name)), [wards]);
+  const placeName = (id: string | null) => (id ? wards.find(w => w.id === id)?.name ?? id : t('alerts.city'));
+  const hourLabel = (h: number) => formatDateTime(new Date(2024, 0, 1, h), { hour: 'numeric' });
+
+  const update = (next: AlertSettings) => {
+    setSettings(next);
+    saveAlertSettings(next);
+  };
+
+  const addSubscription = () => {
+    if (triggers.length === 0) return;
+    update({ ...settings, subscriptions: [...settings.subscriptions, createSubscription(wardId || null, triggers, threshold)] });
+  };
+
+  const toggleTrigger = (trigger: AlertTrigger) =>
+    setTriggers(prev => (prev.includes(trigger) ? prev.filter(x => x !== trigger) : [...prev, trigger]));
+
+  const enableNotifications = async () => setPermission(await requestAlertPermission());
+
+  const panel = isDark ? 'bg-black/90 border-white/10' : 'bg-white/90 border-black/10';
+  const field = `rounded-xl border px-3 py-2 text-[11px] font-bold bg-transparent ${isDark ? 'border-white/10' : 'border-black/10'}`;
+  const chip = (active: boolean) => `px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all ${
+    active ? 'bg-indigo-500 text-white border-indigo-500' : 'border-current/10 opacity-50 hover:opacity-100'
+  }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('alerts.title')}
+        className="relative w-12 h-12 rounded-2xl glass flex items-center justify-center hover:scale-105 transition-transform border-white/5"
+      >
+        {settings.subscriptions.length > 0 ? <BellRing size={18} /> : <Bell size={18} />}
+        {unread > 0 && (
+          <span className="absolute -top-1 -end-1 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[9px] font-black flex items-center justify-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className={`absolute top-14 end-0 w-[400px] max-h-[75vh] overflow-y-auto no-scrollbar p-6 rounded-[28px] border shadow-2xl backdrop-blur-3xl z-[100] space-y-6 ${panel}`}
+          >
+            <div>
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('alerts.kicker')}</span>
+              <h4 className="text-lg font-black tracking-tight">{t('alerts.title')}</h4>
+            </div>
+
+            {/* Browser permission */}
+            {permission === 'default' ? (
+              <button onClick={enableNotifications} className="w-full py-3 rounded-full bg-indigo-600 text-white font-black text-[10px] uppercase tracking-[0.2em] hover:bg-indigo-500 transition-all">
+                {t('alerts.enable')}
+              </button>
+            ) : (
+              <p className={`flex items-center gap-2 text-[10px] font-bold ${permission === 'granted' ? 'text-emerald-400' : 'opacity-50'}`}>
+                {permission === 'granted' ? <BellRing size={12} /> : <BellOff size={12} />}
+                {t(permission === 'granted' ? 'alerts.permission.granted' : permission === 'denied' ? 'alerts.permission.denied' : 'alerts.permission.unsupported')}
+              </p>
+            )}
+
+            {/* New subscription */}
+            <div className="space-y-3">
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('alerts.new')}</span>
+              <select value={wardId} onChange={e => setWardId(e.target.value)} className={`w-full ${field}`}>
+                <option value="">{t('alerts.city')}</option>
+                {wardsByName.map(w => <option key={w.id} value={w.id}>{w.name} ({t('common.ward', { no: w.no })})</option>)}
+              </select>
+              <div className="flex flex-wrap gap-2">
+                {TRIGGERS.map(trigger => (
+                  <button key={trigger} onClick={() => toggleTrigger(trigger)} className={chip(triggers.includes(trigger))}>
+                    {t(`alerts.trigger.${trigger}`)}
+                  </button>
+                ))}
+              </div>
+              {triggers.includes('threshold') && (
+                <label className="flex items-center gap-3 text-[10px] font-bold">
+                  <span className="opacity-60">{t('alerts.thresholdLabel')}</span>
+                  <input
+                    type="number"
+                    min={50}
+                    max={500}
+                    step={10}
+                    value={threshold}
+                    onChange={e => setThreshold(Math.max(0, parseInt(e.target.value) || 0))}
+                    className={`w-24 tabular-nums ${field}`}
+                  />
+                </label>
+              )}
+              <button
+                onClick={addSubscription}
+                disabled={triggers.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-full border border-indigo-500/40 text-indigo-400 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500/10 disabled:opacity-30 transition-all"
+              >
+                <Plus size={12} /> {t('alerts.add')}
+              </button>
+            </div>
+
+            {/* Active subscriptions */}
+            <div className="space-y-2">
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('alerts.subscriptions')}</span>
+              {settings.subscriptions.length === 0 && <p className="text-[10px] font-bold opacity-40">{t('alerts.noSubscriptions')}</p>}
+              {settings.subscriptions.map(s => (
+                <div key={s.id} className="group/sub flex items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/5">
+                  <div className="flex-1 min-w-0">
+                    <span className="block text-xs font-bold truncate">{placeName(s.wardId)}</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest opacity-40">
+                      {s.triggers.map(trigger => (trigger === 'threshold'
+                        ? t('alerts.above', { threshold: s.threshold })
+                        : t(`alerts.trigger.${trigger}`))).join(' • ')}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => update({ ...settings, subscriptions: settings.subscriptions.filter(x => x.id !== s.id) })}
+                    title={t('alerts.remove')}
+                    className="p-2 rounded-full opacity-40 hover:opacity-100 hover:text-rose-400 transition-all"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Quiet hours */}
+            <div className="space-y-3">
+              <button
+                onClick={() => update({ ...settings, quietHours: { ...settings.quietHours, enabled: !settings.quietHours.enabled } })}
+                className={chip(settings.quietHours.enabled)}
+              >
+                <span className="flex items-center gap-2"><MoonStar size={12} /> {t('alerts.quietHours')}</span>
+              </button>
+              {settings.quietHours.enabled && (
+                <div className="flex items-center gap-2 text-[10px] font-bold">
+                  <select
+                    value={settings.quietHours.start}
+                    onChange={e => update({ ...settings, quietHours: { ...settings.quietHours, start: Number(e.target.value) } })}
+                    className={field}
+                  >
+                    {HOURS.map(h => <option key={h} value={h}>{hourLabel(h)}</option>)}
+                  </select>
+                  <span className="opacity-40">–</span>
+                  <select
+                    value={settings.quietHours.end}
+                    onChange={e => update({ ...settings, quietHours: { ...settings.quietHours, end: Number(e.target.value) } })}
+                    className={field}
+                  >
+                    {HOURS.map(h => <option key={h} value={h}>{hourLabel(h)}</option>)}
+                  </select>
+                </div>
+              )}
+              <p className="text-[10px] font-medium opacity-40 leading-relaxed">{t('alerts.quietHint')}</p>
+            </div>
+
+            {/* Delivered alerts */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('alerts.history')}</span>
+                {history.length > 0 && (
+                  <button onClick={clearAlertHistory} className="text-[9px] font-black uppercase tracking-widest opacity-40 hover:opacity-100 transition-opacity">
+                    {t('alerts.clear')}
+                  </button>
+                )}
+              </div>
+              {history.length === 0 && <p className="text-[10px] font-bold opacity-40">{t('alerts.noHistory')}</p>}
+              {history.map(e => {
+                const ward = e.wardId ? wards.find(w => w.id === e.wardId) : undefined;
+                return (
+                  <button
+                    key={e.id}
+                    onClick={() => { if (ward) { onSelectWard(ward); setOpen(false); } }}
+                    className={`w-full text-start px-4 py-3 rounded-2xl border border-white/5 transition-all ${ward ? 'hover:border-white/20' : 'cursor-default'} ${e.silenced ? 'opacity-60' : ''}`}
+                  >
+                    <span className="flex items-center gap-2 text-xs font-bold">
+                      {e.silenced && <MoonStar size={12} className="shrink-0 opacity-60" />}
+                      <span className="truncate">{e.title}</span>
+                    </span>
+                    <span className="block text-[10px] font-medium opacity-60">{e.body}</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest opacity-30">
+                      {formatDateTime(e.at, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}{e.silenced ? ` • ${t('alerts.silenced')}` : ''}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AlertCenter;
@@ -1,51 +1,81 @@
 
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, ResponsiveContainer, Cell, Tooltip } from 'recharts';
-import { Leaf, TrendingDown, Activity, Zap } from 'lucide-react';
-import { DashboardTheme } from '../types';
+import { Leaf, TrendingDown, Activity, ShieldAlert, Sigma } from 'lucide-react';
+import { DashboardTheme, LiveAqiData, AggregationMethod, Policy, Ward } from '../types';
+import { AGGREGATION_METHODS } from '../services/aggregation';
+import { getAQIColor } from '../services/aqiCategories';
+import { DEFAULT_POLICIES, REGIONAL_SHARE, simulateScenario } from '../services/policySimulator';
+import { getCityForecastPath, CityForecastPath } from '../services/wardForecast';
+import { MessageKey, useI18n } from '../services/i18n';
 
 const appleBezier = [0.25, 1, 0.5, 1];
 
-const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
+interface AnalyticsViewProps {
+  theme: DashboardTheme;
+  liveAqi?: LiveAqiData | null;
+  onSelectMethod?: (method: AggregationMethod) => void;
+  wards?: Ward[];
+}
+
+const POLICY_COLORS = ['#f43f5e', '#f97316', '#eab308', '#10b981', '#6366f1'];
+
+const AnalyticsView: React.FC<AnalyticsViewProps> = ({ theme, liveAqi, onSelectMethod, wards = [] }) => {
   const isDark = theme === 'dark';
+  const { t, formatNumber, formatDateTime } = useI18n();
+  const grapLabel = (stage: number) => t(`grap.short.${stage}` as MessageKey);
+  const policyLabel = (p: Policy) => t(`policy.${p.id}` as MessageKey);
+  const clockTime = (hour: number) => formatDateTime(new Date(2000, 0, 1, hour), { hour: 'numeric', minute: '2-digit' });
   const hourlyData = Array.from({ length: 24 }).map((_, i) => ({ time: `${i}:00`, aqi: Math.floor(Math.random() * 200) + 100 }));
-  const dailyData = Array.from({ length: 7 }).map((_, i) => ({ day: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'][i], aqi: Math.floor(Math.random() * 150) + 200 }));
+  // 1 Jan 2024 was a Monday
+  const dailyData = Array.from({ length: 7 }).map((_, i) => ({ day: formatDateTime(Date.UTC(2024, 0, 1 + i), { weekday: 'short', timeZone: 'UTC' }), aqi: Math.floor(Math.random() * 150) + 200 }));
   const pollutantData = [
     { name: 'PM2.5', value: 45, color: '#ff3b30' },
     { name: 'PM10', value: 30, color: '#ff9500' },
     { name: 'NO2', value: 15, color: '#ffcc00' },
-    { name: 'Others', value: 10, color: '#34c759' }
+    { name: t('analytics.others'), value: 10, color: '#34c759' }
   ];
 
-  // Mitigation Data Logic
-  const mitigationData = [
-    { name: 'Diesel Ban', reduction: 18, color: '#f43f5e' },
-    { name: 'Traffic Cut', reduction: 14, color: '#f97316' },
-    { name: 'Const. Halt', reduction: 16, color: '#eab308' },
-    { name: 'Dust Supp.', reduction: 11, color: '#10b981' },
-  ];
+  // Policy scenario over the current ward estimates
+  const [policies, setPolicies] = useState<Policy[]>(DEFAULT_POLICIES);
+  const [forecastPath, setForecastPath] = useState<CityForecastPath | null>(null);
+  const scenario = useMemo(() => simulateScenario(wards, policies, liveAqi?.aqi), [wards, policies, liveAqi?.aqi]);
+
+  useEffect(() => {
+    getCityForecastPath(liveAqi?.aqi).then(setForecastPath);
+  }, [liveAqi?.aqi]);
+
+  const togglePolicy = (id: string) =>
+    setPolicies(prev => prev.map(p => (p.id === id ? { ...p, active: !p.active } : p)));
+
+  // Each policy on its own, as a share of population-weighted AQI
+  const mitigationData = useMemo(() => policies.map((p, i) => ({
+    name: policyLabel(p),
+    reduction: Math.round(simulateScenario(wards, [{ ...p, active: true }]).exposureReduction * 1000) / 10,
+    color: POLICY_COLORS[i % POLICY_COLORS.length]
+  })), [wards, policies, t]);
+
+  // Forecast city path with and without the scenario, every 6 hours
+  const exposureData = (forecastPath?.hours || [])
+    .filter(h => h.hoursAhead % 6 === 0)
+    .map(h => ({
+      hour: `+${h.hoursAhead}h`,
+      baseline: h.aqi,
+      intervention: Math.round(h.aqi * (1 - scenario.exposureReduction))
+    }));
 
-  // Exposure Reduction Simulation (72h)
-  const exposureData = Array.from({ length: 12 }).map((_, i) => {
-     const baseline = 300 + Math.sin(i) * 20;
-     const intervention = baseline * (1 - (0.15 + (i * 0.01))); // Gradual improvement
-     return {
-       hour: `+${(i+1)*6}h`,
-       baseline: Math.round(baseline),
-       intervention: Math.round(intervention)
-     };
-  });
+  const mostAffected = [...scenario.wards].sort((a, b) => b.projected - a.projected).slice(0, 5);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
       <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="lg:col-span-2 mb-10">
-        <h2 className="text-5xl font-black tracking-tighter mb-4">Atmospheric Analytics</h2>
-        <p className="opacity-30 font-medium text-lg">Detailed temporal analysis for administrative intelligence.</p>
+        <h2 className="text-5xl font-black tracking-tighter mb-4">{t('analytics.title')}</h2>
+        <p className="opacity-30 font-medium text-lg">{t('analytics.subtitle')}</p>
       </motion.div>
 
       <div className="glass-card p-10 rounded-[40px] flex flex-col gap-8 h-[400px]">
-        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Hourly Exposure Trend (24h)</h4>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">{t('analytics.hourly')}</h4>
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={hourlyData}>
             <XAxis dataKey="time" hide />
@@ -55,7 +85,7 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
       </div>
 
       <div className="glass-card p-10 rounded-[40px] flex flex-col gap-8 h-[400px]">
-        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Daily Median Index (7 Days)</h4>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">{t('analytics.daily')}</h4>
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={dailyData}>
             <Line type="monotone" dataKey="aqi" stroke={isDark ? "white" : "black"} strokeWidth={3} dot={false} />
@@ -64,7 +94,7 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
       </div>
 
       <div className="glass-card p-10 rounded-[40px] flex flex-col gap-8 h-[400px]">
-        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Pollutant Contribution Profile</h4>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">{t('analytics.pollutants')}</h4>
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={pollutantData} layout="vertical" margin={{ left: 40 }}>
             <XAxis type="number" hide />
@@ -77,23 +107,53 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
       </div>
 
       <div className="glass-card p-10 rounded-[40px] flex flex-col justify-center gap-4 h-[400px]">
-        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Intelligence Summary</h4>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">{t('analytics.summary')}</h4>
         <div className="space-y-6">
           <div className="flex justify-between border-b border-current/5 pb-4">
-            <span className="opacity-40 text-sm font-bold uppercase tracking-widest">Peak AQI Timestamp</span>
-            <span className="font-black">11:00 PM (482)</span>
+            <span className="opacity-40 text-sm font-bold uppercase tracking-widest">{t('analytics.peak')}</span>
+            <span className="font-black">{clockTime(23)} ({formatNumber(482)})</span>
           </div>
           <div className="flex justify-between border-b border-current/5 pb-4">
-            <span className="opacity-40 text-sm font-bold uppercase tracking-widest">Baseline Variance</span>
-            <span className="font-black text-rose-500">+12% vs Yesterday</span>
+            <span className="opacity-40 text-sm font-bold uppercase tracking-widest">{t('analytics.variance')}</span>
+            <span className="font-black text-rose-500">{t('analytics.vsYesterday', { change: `+${formatNumber(12)}%` })}</span>
           </div>
           <div className="flex justify-between border-b border-current/5 pb-4">
-            <span className="opacity-40 text-sm font-bold uppercase tracking-widest">Cleanest Interval</span>
-            <span className="font-black">04:00 AM (112)</span>
+            <span className="opacity-40 text-sm font-bold uppercase tracking-widest">{t('analytics.cleanest')}</span>
+            <span className="font-black">{clockTime(4)} ({formatNumber(112)})</span>
           </div>
         </div>
       </div>
 
+      {/* CITY AGGREGATION COMPARISON */}
+      {liveAqi?.alternatives && liveAqi.alternatives.length > 0 && (
+        <div className="lg:col-span-2 glass-card p-10 rounded-[40px] flex flex-col gap-8">
+          <div className="flex items-center justify-between">
+            <h4 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">{t('analytics.aggregation')}</h4>
+            <Sigma size={14} className="opacity-30" />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {liveAqi.alternatives.map(result => {
+              const meta = AGGREGATION_METHODS.find(m => m.id === result.method);
+              const active = liveAqi.aggregation?.method === result.method;
+              return (
+                <button
+                  key={result.method}
+                  onClick={() => onSelectMethod?.(result.method)}
+                  title={meta && t(`aggregation.${meta.id}.description` as MessageKey)}
+                  className={`p-6 rounded-3xl border text-start transition-all ${active ? 'border-indigo-500/40 bg-indigo-500/10' : 'border-current/5 hover:bg-white/[0.03]'}`}
+                >
+                  <span className="text-[8px] font-black uppercase tracking-widest opacity-40 block mb-3">{meta && t(`aggregation.${meta.id}` as MessageKey)}</span>
+                  <div className="text-3xl font-black tabular-nums" style={{ color: result.aqi > 0 ? getAQIColor(result.aqi) : undefined }}>
+                    {result.aqi > 0 ? result.aqi : '--'}
+                  </div>
+                  <span className="text-[8px] font-bold uppercase tracking-widest opacity-30">{t('analytics.stations', { count: result.stationCount })}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* NEW EMISSION REDUCTION QUANTIFICATION LAYER */}
       <motion.div 
         initial={{ opacity: 0, y: 30 }}
@@ -102,25 +162,25 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
         transition={{ duration: 0.8, ease: appleBezier }}
         className="lg:col-span-2 glass-card p-12 rounded-[48px] border-emerald-500/20 bg-emerald-500/[0.02] relative overflow-hidden"
       >
-         <div className="absolute top-0 right-0 p-12 opacity-5"><Leaf size={120} /></div>
+         <div className="absolute top-0 end-0 p-12 opacity-5"><Leaf size={120} /></div>
          
          <div className="flex flex-col md:flex-row items-start justify-between mb-12 gap-8">
             <div>
                <div className="flex items-center gap-3 mb-4">
                   <Leaf size={16} className="text-emerald-500" />
-                  <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-emerald-500">Intervention Modeling</h4>
+                  <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-emerald-500">{t('analytics.intervention')}</h4>
                </div>
-               <h3 className="text-3xl font-black tracking-tight leading-none">Mitigation Impact Simulation</h3>
+               <h3 className="text-3xl font-black tracking-tight leading-none">{t('analytics.mitigation.title')}</h3>
                <p className="opacity-40 text-sm font-medium mt-2 max-w-lg">
-                 Projected outcomes of immediate policy interventions based on current pollutant ratios.
+                 {t('analytics.mitigation.subtitle')}
                </p>
             </div>
             
             <div className="flex gap-4">
                {[
-                 { label: 'Est. PM2.5 Drop', val: '14%', icon: TrendingDown },
-                 { label: 'Exposure Redux', val: '18%', icon: Activity },
-                 { label: 'AI Confidence', val: '82%', icon: Zap }
+                 { label: t('analytics.cityAqi'), val: `${formatNumber(scenario.cityBaseline)} → ${formatNumber(scenario.cityProjected)}`, icon: TrendingDown },
+                 { label: t('analytics.exposureRedux'), val: formatNumber(scenario.exposureReduction, { style: 'percent', maximumFractionDigits: 0 }), icon: Activity },
+                 { label: t('analytics.grapNow', { stage: grapLabel(scenario.grapBaseline) }), val: grapLabel(scenario.grapProjected), icon: ShieldAlert }
                ].map((stat, i) => (
                  <div key={i} className="glass px-6 py-4 rounded-2xl flex flex-col items-center border-white/5 bg-white/5">
                     <stat.icon size={16} className="opacity-40 mb-2" />
@@ -131,9 +191,22 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
             </div>
          </div>
 
+         <div className="flex flex-wrap gap-3 mb-12">
+            {policies.map(p => (
+              <button
+                key={p.id}
+                onClick={() => togglePolicy(p.id)}
+                title={t(`policy.${p.id}.description` as MessageKey)}
+                className={`px-5 py-3 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${p.active ? 'bg-emerald-500 text-black border-emerald-500' : 'border-current/10 opacity-50 hover:opacity-100'}`}
+              >
+                {policyLabel(p)} <span className="opacity-50">−{formatNumber(Math.round(p.impact * 100))}% {t(`grap.sector.${p.sector}` as MessageKey)}</span>
+              </button>
+            ))}
+         </div>
+
          <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
             <div className="h-[240px] flex flex-col gap-6">
-               <h4 className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">Projected PM2.5 Reduction by Intervention</h4>
+               <h4 className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">{t('analytics.byIntervention')}</h4>
                <ResponsiveContainer width="100%" height="100%">
                   <BarChart data={mitigationData} layout="vertical" margin={{ left: 40, right: 20 }}>
                      <XAxis type="number" hide />
@@ -144,7 +217,7 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                          if (active && payload && payload.length) {
                            return (
                              <div className="glass px-3 py-2 rounded-xl text-xs font-bold border-white/10">
-                               {payload[0].value}% Reduction
+                               {t('analytics.reduction', { percent: Number(payload[0].value) })}
                              </div>
                            );
                          }
@@ -161,7 +234,10 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
             </div>
 
             <div className="h-[240px] flex flex-col gap-6">
-               <h4 className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">Exposure Reduction Over 72 Hours</h4>
+               <h4 className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">{t('analytics.forecast72')}</h4>
+               {exposureData.length === 0 ? (
+                 <div className="flex-1 flex items-center justify-center text-[10px] font-black uppercase tracking-widest opacity-20">{t('analytics.awaiting')}</div>
+               ) : (
                <ResponsiveContainer width="100%" height="100%">
                   <LineChart data={exposureData}>
                      <XAxis dataKey="hour" axisLine={false} tickLine={false} tick={{ fill: isDark ? 'white' : 'black', fontSize: 9, opacity: 0.3 }} />
@@ -170,10 +246,10 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                           if (active && payload && payload.length) {
                             return (
                               <div className="glass px-4 py-3 rounded-2xl border-white/10">
-                                <div className="text-[10px] font-black uppercase opacity-40 mb-1">Simulated AQI</div>
+                                <div className="text-[10px] font-black uppercase opacity-40 mb-1">{t('analytics.simulated')}</div>
                                 <div className="flex items-center gap-4">
-                                   <div className="text-xs font-bold text-rose-500">Base: {payload[0].value}</div>
-                                   <div className="text-xs font-bold text-emerald-500">Post-Action: {payload[1].value}</div>
+                                   <div className="text-xs font-bold text-rose-500">{t('analytics.base', { aqi: Number(payload[0].value) })}</div>
+                                   <div className="text-xs font-bold text-emerald-500">{t('analytics.postAction', { aqi: Number(payload[1].value) })}</div>
                                 </div>
                               </div>
                             );
@@ -185,12 +261,35 @@ const AnalyticsView: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                      <Line type="monotone" dataKey="intervention" stroke="#10b981" strokeWidth={3} dot={false} />
                   </LineChart>
                </ResponsiveContainer>
+               )}
             </div>
          </div>
 
+         {mostAffected.length > 0 && (
+           <div className="mt-12">
+              <h4 className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30 mb-4">{t('analytics.highest')}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                 {mostAffected.map(w => (
+                   <div key={w.id} className="glass px-5 py-4 rounded-2xl border-white/5 bg-white/5">
+                      <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-2 truncate">
+                        {w.estimated ? t('analytics.estimatedWard', { name: w.name }) : w.name}
+                      </span>
+                      <div className="flex items-baseline gap-2 tabular-nums">
+                         <span className="text-sm font-bold opacity-30 line-through">{w.baseline}</span>
+                         <span className="text-xl font-black" style={{ color: getAQIColor(w.projected) }}>{w.projected}</span>
+                      </div>
+                   </div>
+                 ))}
+              </div>
+              {scenario.estimatedWards > 0 && (
+                <p className="mt-4 text-[10px] font-bold opacity-40">{t('analytics.estimatedBaselines', { count: scenario.estimatedWards })}</p>
+              )}
+           </div>
+         )}
+
          <div className="mt-8 pt-6 border-t border-emerald-500/10 text-center">
             <span className="text-[8px] font-bold uppercase tracking-[0.1em] opacity-30">
-              Impact values are AI-modeled estimations based on structured pollutant dominance and historical variance patterns.
+              {t('analytics.footnote', { percent: Math.round(REGIONAL_SHARE * 100) })}
             </span>
          </div>
       </motion.div>
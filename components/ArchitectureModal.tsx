@@ -2,6 +2,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { X, Database, BrainCircuit, Activity, Layout, ArrowRight, Server, ShieldCheck } from 'lucide-react';
+import { useI18n } from '../services/i18n';
 
 interface ArchitectureModalProps {
   onClose: () => void;
@@ -10,14 +11,15 @@ interface ArchitectureModalProps {
 
 const ArchitectureModal: React.FC<ArchitectureModalProps> = ({ onClose, theme }) => {
   const isDark = theme === 'dark';
+  const { t } = useI18n();
 
   const steps = [
-    { icon: Activity, label: "User Input", sub: "Location & Query" },
-    { icon: Database, label: "AQI Data Layer", sub: "CPCB/WAQI Ingestion" },
-    { icon: Server, label: "Risk Modeling", sub: "Ward Interpolation" },
-    { icon: BrainCircuit, label: "Gemini Reasoning", sub: "Contextual Analysis" },
-    { icon: ShieldCheck, label: "Action Matrix", sub: "GRAP Protocols" },
-    { icon: Layout, label: "Dashboard", sub: "Visual Intelligence" }
+    { icon: Activity, label: t('architecture.input'), sub: t('architecture.input.sub') },
+    { icon: Database, label: t('architecture.data'), sub: t('architecture.data.sub') },
+    { icon: Server, label: t('architecture.risk'), sub: t('architecture.risk.sub') },
+    { icon: BrainCircuit, label: t('architecture.reasoning'), sub: t('architecture.reasoning.sub') },
+    { icon: ShieldCheck, label: t('architecture.action'), sub: t('architecture.action.sub') },
+    { icon: Layout, label: t('architecture.dashboard'), sub: t('architecture.dashboard.sub') }
   ];
 
   return (
@@ -30,14 +32,14 @@ const ArchitectureModal: React.FC<ArchitectureModalProps> = ({ onClose, theme })
       >
         <button 
           onClick={onClose}
-          className={`absolute top-8 right-8 p-4 rounded-full transition-colors ${isDark ? 'hover:bg-white/10' : 'hover:bg-black/5'}`}
+          className={`absolute top-8 end-8 p-4 rounded-full transition-colors ${isDark ? 'hover:bg-white/10' : 'hover:bg-black/5'}`}
         >
           <X size={24} />
         </button>
 
         <div className="mb-12">
-          <h2 className="text-3xl font-black uppercase tracking-tight mb-2">System Architecture</h2>
-          <p className="opacity-40 font-medium">Data flow pipeline for Environmental Decision Intelligence.</p>
+          <h2 className="text-3xl font-black uppercase tracking-tight mb-2">{t('architecture.title')}</h2>
+          <p className="opacity-40 font-medium">{t('architecture.subtitle')}</p>
         </div>
 
         <div className="flex flex-col md:flex-row items-center justify-between gap-4 overflow-x-auto pb-8">
@@ -54,7 +56,7 @@ const ArchitectureModal: React.FC<ArchitectureModalProps> = ({ onClose, theme })
               </div>
               {i < steps.length - 1 && (
                 <div className="hidden md:block opacity-20">
-                  <ArrowRight size={24} />
+                  <ArrowRight size={24} className="rtl:rotate-180" />
                 </div>
               )}
             </React.Fragment>
@@ -62,7 +64,7 @@ const ArchitectureModal: React.FC<ArchitectureModalProps> = ({ onClose, theme })
         </div>
 
         <div className="mt-8 p-6 rounded-3xl border border-dashed border-current/20 opacity-60 text-xs font-mono">
-          <span className="font-bold">TECH STACK:</span> React 18 • TypeScript • Tailwind • Framer Motion • Leaflet • Recharts • Google Gemini API • WAQI API
+          <span className="font-bold uppercase">{t('architecture.stack')}</span> React 18 • TypeScript • Tailwind • Framer Motion • Leaflet • Recharts • Google Gemini API • WAQI API
         </div>
       </motion.div>
     </div>
@@ -3,7 +3,8 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Camera, RefreshCcw, ShieldCheck, Target, AlertTriangle, Zap, Eye } from 'lucide-react';
 import { DashboardTheme, VisionAnalysisResult } from '../types';
-import { analyzeAtmosphereImage } from '../services/geminiService';
+import { analyzeAtmosphereImage, describeLlmError } from '../services/geminiService';
+import { useI18n } from '../services/i18n';
 
 const appleEase = [0.25, 1, 0.5, 1];
 
@@ -11,7 +12,9 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
   const [image, setImage] = useState<string | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [result, setResult] = useState<VisionAnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const isDark = theme === 'dark';
+  const { t } = useI18n();
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -30,9 +33,11 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
   const triggerAnalysis = async (base64: string) => {
     setAnalyzing(true);
     setResult(null);
+    setError(null);
     try {
       const report = await analyzeAtmosphereImage(base64);
-      setResult(report);
+      if (report.ok) setResult(report.data);
+      else setError(describeLlmError(report.error));
     } catch (err) {
       console.error(err);
     } finally {
@@ -49,9 +54,9 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
   return (
     <div className="max-w-6xl mx-auto flex flex-col items-center pb-40">
       <header className="text-center mb-20 space-y-4">
-        <h4 className="text-[10px] font-black uppercase tracking-[0.5em] text-emerald-500">Intelligence Layer 04</h4>
-        <h2 className="text-6xl font-black tracking-tighter uppercase leading-none">AtmosScan Vision</h2>
-        <p className="opacity-40 text-lg max-w-xl mx-auto font-medium">Remote AI profiling of atmospheric opacity and particulate visibility.</p>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.5em] text-emerald-500">{t('scan.kicker')}</h4>
+        <h2 className="text-6xl font-black tracking-tighter uppercase leading-none">{t('scan.title')}</h2>
+        <p className="opacity-40 text-lg max-w-xl mx-auto font-medium">{t('scan.subtitle')}</p>
       </header>
 
       <div className="w-full grid grid-cols-1 lg:grid-cols-2 gap-20 items-stretch">
@@ -70,11 +75,11 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                 <div className="w-24 h-24 rounded-[32px] glass flex items-center justify-center mb-10 group-hover:scale-110 transition-transform shadow-xl border-white/10">
                   <Camera size={40} className="opacity-30" />
                 </div>
-                <span className="text-xs font-black uppercase tracking-[0.4em] opacity-30">Initiate Visual Feed</span>
+                <span className="text-xs font-black uppercase tracking-[0.4em] opacity-30">{t('scan.upload')}</span>
               </motion.label>
             ) : (
               <motion.div key="preview" className="relative w-full h-full group rounded-[48px] overflow-hidden">
-                <img src={image} className="w-full h-full object-cover" alt="Scan target" />
+                <img src={image} className="w-full h-full object-cover" alt={t('scan.imageAlt')} />
                 
                 {/* SCANNER OVERLAY */}
                 <motion.div 
@@ -86,13 +91,13 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                 {analyzing && (
                   <div className="absolute inset-0 bg-black/60 backdrop-blur-md z-30 flex flex-col items-center justify-center text-center px-10">
                     <RefreshCcw className="animate-spin text-emerald-400 mb-6" size={48} />
-                    <h3 className="text-xl font-black uppercase tracking-widest text-emerald-400 mb-2">Analyzing Spectral Density</h3>
-                    <p className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Cross-referencing PM2.5 scattering coefficients...</p>
+                    <h3 className="text-xl font-black uppercase tracking-widest text-emerald-400 mb-2">{t('scan.analyzing')}</h3>
+                    <p className="text-[10px] font-bold opacity-40 uppercase tracking-widest">{t('scan.analyzingDetail')}</p>
                   </div>
                 )}
                 <button 
-                  onClick={() => { setImage(null); setResult(null); }}
-                  className="absolute top-8 right-8 p-4 rounded-full glass text-white backdrop-blur-3xl opacity-0 group-hover:opacity-100 transition-all border-white/20 hover:bg-white/10 z-40"
+                  onClick={() => { setImage(null); setResult(null); setError(null); }}
+                  className="absolute top-8 end-8 p-4 rounded-full glass text-white backdrop-blur-3xl opacity-0 group-hover:opacity-100 transition-all border-white/20 hover:bg-white/10 z-40"
                 >
                   <RefreshCcw size={20} />
                 </button>
@@ -103,7 +108,18 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
 
         <div className="flex flex-col h-full">
           <AnimatePresence mode="wait">
-            {!result ? (
+            {error ? (
+              <motion.div 
+                key="error"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="glass p-16 rounded-[64px] border border-rose-500/20 bg-rose-500/[0.03] flex-1 flex flex-col items-center justify-center text-center space-y-6"
+              >
+                <AlertTriangle size={48} className="text-rose-500" />
+                <p className="text-sm font-black uppercase tracking-[0.3em] text-rose-500">{t('scan.interrupted')}</p>
+                <p className="text-sm font-medium opacity-60 max-w-sm">{error}</p>
+              </motion.div>
+            ) : !result ? (
               <motion.div 
                 key="empty"
                 initial={{ opacity: 0 }}
@@ -111,7 +127,7 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                 className={`glass p-16 rounded-[64px] border border-white/5 flex-1 flex flex-col items-center justify-center text-center space-y-8 opacity-20`}
               >
                 <Target size={64} />
-                <p className="text-sm font-black uppercase tracking-[0.5em]">System Waiting for Spatial Input</p>
+                <p className="text-sm font-black uppercase tracking-[0.5em]">{t('scan.waiting')}</p>
               </motion.div>
             ) : (
               <motion.div 
@@ -122,10 +138,10 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                 className="flex-1 flex flex-col gap-8"
               >
                 <div className="glass p-10 rounded-[56px] border-emerald-500/20 bg-emerald-500/[0.02] shadow-2xl relative overflow-hidden flex-1">
-                   <div className="absolute -top-10 -right-10 opacity-5"><ShieldCheck size={200} /></div>
+                   <div className="absolute -top-10 -end-10 opacity-5"><ShieldCheck size={200} /></div>
                    <div className="flex items-center gap-4 mb-8">
                       <ShieldCheck size={20} className="text-emerald-500" />
-                      <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-emerald-500">Extraction Complete</h4>
+                      <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-emerald-500">{t('scan.complete')}</h4>
                    </div>
                    
                    <div className="space-y-8">
@@ -135,13 +151,13 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                               <Eye size={20} className="opacity-40" />
                            </div>
                            <div>
-                              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">Visual Pollution Score</span>
+                              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">{t('scan.score')}</span>
                               <span className={`text-2xl font-black ${getScoreColor(result.visualPollutionScore)}`}>{result.visualPollutionScore}/100</span>
                            </div>
                         </div>
-                        <div className="flex items-center gap-4 text-right">
+                        <div className="flex items-center gap-4 text-end">
                            <div>
-                              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">Primary Source</span>
+                              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">{t('scan.source')}</span>
                               <span className="text-lg font-bold">{result.detectedSource}</span>
                            </div>
                            <div className="w-12 h-12 rounded-2xl bg-white/5 flex items-center justify-center">
@@ -151,7 +167,7 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                      </div>
 
                      <div>
-                       <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">Analysis Logic</span>
+                       <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">{t('scan.reasoning')}</span>
                        <p className="text-lg font-medium leading-relaxed opacity-80">"{result.reasoning}"</p>
                      </div>
 
@@ -159,8 +175,8 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
                        <div className="p-6 rounded-3xl bg-rose-500/10 border border-rose-500/20 flex items-center gap-6">
                           <AlertTriangle size={24} className="text-rose-500 animate-pulse" />
                           <div>
-                            <span className="text-[10px] font-black uppercase tracking-widest text-rose-500 block mb-1">High Anomaly Probability ({result.anomalyProbability}%)</span>
-                            <p className="text-xs font-bold opacity-60">This event deviates significantly from baseline atmospheric models.</p>
+                            <span className="text-[10px] font-black uppercase tracking-widest text-rose-500 block mb-1">{t('scan.anomaly', { percent: result.anomalyProbability })}</span>
+                            <p className="text-xs font-bold opacity-60">{t('scan.anomalyDetail')}</p>
                           </div>
                        </div>
                      )}
@@ -169,11 +185,11 @@ const AtmosScan: React.FC<{ theme: DashboardTheme }> = ({ theme }) => {
 
                 <div className="glass p-8 rounded-[48px] border-white/5 flex items-center justify-between">
                    <div className="flex flex-col">
-                      <span className="text-[9px] font-black uppercase opacity-30 tracking-widest mb-1">Confidence Matrix</span>
+                      <span className="text-[9px] font-black uppercase opacity-30 tracking-widest mb-1">{t('scan.confidence')}</span>
                       <span className="text-3xl font-black tabular-nums">{result.confidenceScore}%</span>
                    </div>
-                   <div className="flex flex-col text-right">
-                      <span className="text-[9px] font-black uppercase opacity-30 tracking-widest mb-1">Model Node</span>
+                   <div className="flex flex-col text-end">
+                      <span className="text-[9px] font-black uppercase opacity-30 tracking-widest mb-1">{t('scan.model')}</span>
                       <span className="text-xs font-bold uppercase tracking-widest">Atmos-Vision 3.1</span>
                    </div>
                 </div>
@@ -1,15 +1,47 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, CheckCircle, Camera, MapPin, Send } from 'lucide-react';
-import { DashboardTheme } from '../types';
+import { DashboardTheme, Ward } from '../types';
+import { findWardAt } from '../services/wardGeometry';
+import { useI18n } from '../services/i18n';
 
 interface CitizenActionProps {
   theme: DashboardTheme;
+  wards: Ward[];
 }
 
-const CitizenAction: React.FC<CitizenActionProps> = ({ theme }) => {
+type LocationState =
+  | { status: 'detecting' }
+  | { status: 'unavailable' }
+  | { status: 'located'; lat: number; lng: number };
+
+const CitizenAction: React.FC<CitizenActionProps> = ({ theme, wards }) => {
   const [step, setStep] = useState<'upload' | 'submitting' | 'success'>('upload');
+  const [location, setLocation] = useState<LocationState>({ status: 'detecting' });
   const isDark = theme === 'dark';
+  const { t, formatNumber } = useI18n();
+
+  useEffect(() => {
+    if (!navigator.geolocation) {
+      setLocation({ status: 'unavailable' });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      pos => setLocation({ status: 'located', lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => setLocation({ status: 'unavailable' }),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }, []);
+
+  const reportWard = location.status === 'located' ? findWardAt([location.lat, location.lng], wards) : null;
+
+  const locationLabel = () => {
+    if (location.status === 'detecting') return t('report.locating');
+    if (location.status === 'unavailable') return t('report.noLocation');
+    const coord = (v: number) => formatNumber(v, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+    const coords = `${coord(location.lat)}, ${coord(location.lng)}`;
+    return reportWard ? t('report.inWard', { ward: reportWard.name, no: reportWard.no, coords }) : t('report.outside', { coords });
+  };
 
   const handleSubmit = () => {
     setStep('submitting');
@@ -28,9 +60,9 @@ const CitizenAction: React.FC<CitizenActionProps> = ({ theme }) => {
             className="flex flex-col gap-8"
           >
             <div>
-              <span className="text-indigo-400 text-[10px] font-black uppercase tracking-[0.4em] mb-4 block">Crowdsourced Intelligence</span>
-              <h3 className="text-4xl font-black tracking-tight mb-4 leading-none">Report Hotspot</h3>
-              <p className="opacity-40 text-lg">Direct pipeline to the environmental enforcement division.</p>
+              <span className="text-indigo-400 text-[10px] font-black uppercase tracking-[0.4em] mb-4 block">{t('report.kicker')}</span>
+              <h3 className="text-4xl font-black tracking-tight mb-4 leading-none">{t('report.title')}</h3>
+              <p className="opacity-40 text-lg">{t('report.subtitle')}</p>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -38,20 +70,20 @@ const CitizenAction: React.FC<CitizenActionProps> = ({ theme }) => {
                 <div className={`w-16 h-16 rounded-2xl flex items-center justify-center mb-6 group-hover:scale-110 transition-transform ${isDark ? 'bg-white/5' : 'bg-black/5'}`}>
                   <Camera className="opacity-40" size={28} />
                 </div>
-                <h4 className="text-sm font-bold mb-2">Capture / Drop Media</h4>
-                <p className="text-[10px] opacity-20 uppercase tracking-widest">Image or MP4 Supported</p>
+                <h4 className="text-sm font-bold mb-2">{t('report.media')}</h4>
+                <p className="text-[10px] opacity-20 uppercase tracking-widest">{t('report.mediaHint')}</p>
               </div>
 
               <div className="flex flex-col gap-4">
                 <div className={`rounded-2xl p-6 border flex items-center gap-4 ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/5'}`}>
                   <MapPin className="opacity-20" size={20} />
                   <div className="flex-1">
-                    <p className="text-[10px] opacity-40 uppercase tracking-widest font-bold mb-1">Current Location</p>
-                    <p className="text-sm font-bold">Auto-detecting GPS coordinates...</p>
+                    <p className="text-[10px] opacity-40 uppercase tracking-widest font-bold mb-1">{t('report.location')}</p>
+                    <p className="text-sm font-bold">{locationLabel()}</p>
                   </div>
                 </div>
                 <textarea 
-                  placeholder="Describe the violation (e.g. Garbage burning, industrial discharge)..."
+                  placeholder={t('report.placeholder')}
                   className={`rounded-2xl p-6 border text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500/50 min-h-[140px] resize-none transition-colors ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/5'}`}
                 />
                 <button 
@@ -59,7 +91,7 @@ const CitizenAction: React.FC<CitizenActionProps> = ({ theme }) => {
                   className="w-full py-5 rounded-full bg-indigo-600 text-white font-black text-xs uppercase tracking-[0.2em] hover:bg-indigo-500 transition-all shadow-xl shadow-indigo-500/20 flex items-center justify-center gap-3"
                 >
                   <Send size={16} />
-                  Transmit to Authority
+                  {t('report.submit')}
                 </button>
               </div>
             </div>
@@ -84,8 +116,8 @@ const CitizenAction: React.FC<CitizenActionProps> = ({ theme }) => {
                 <Upload size={32} className="text-indigo-400 animate-bounce" />
               </div>
             </div>
-            <h3 className="text-2xl font-black tracking-tight mb-2">Encrypting Package</h3>
-            <p className="opacity-40 text-sm tracking-widest uppercase">Establishing secure connection to CPCB nodes...</p>
+            <h3 className="text-2xl font-black tracking-tight mb-2">{t('report.sending')}</h3>
+            <p className="opacity-40 text-sm tracking-widest uppercase">{t('report.sendingHint')}</p>
           </motion.div>
         )}
 
@@ -99,15 +131,15 @@ const CitizenAction: React.FC<CitizenActionProps> = ({ theme }) => {
             <div className="w-24 h-24 rounded-full bg-emerald-500/20 flex items-center justify-center mb-8">
               <CheckCircle size={48} className="text-emerald-500" />
             </div>
-            <h3 className="text-4xl font-black tracking-tight mb-4">Transmission Confirmed</h3>
+            <h3 className="text-4xl font-black tracking-tight mb-4">{t('report.done')}</h3>
             <p className="opacity-40 text-lg mb-10 max-w-sm">
-              Your report has been logged under ID #PX-2940 and assigned to the North-West Rapid Response Unit.
+              {t('report.doneBody', { zone: reportWard ? reportWard.zone : 'North-West' })}
             </p>
             <button 
               onClick={() => setStep('upload')}
               className={`px-10 py-4 rounded-full border font-bold transition-colors ${isDark ? 'border-white/10 hover:bg-white/5' : 'border-black/10 hover:bg-black/5'}`}
             >
-              Back to Dashboard
+              {t('report.back')}
             </button>
           </motion.div>
         )}
@@ -21,6 +21,8 @@ import {
   Moon
 } from 'lucide-react';
 import { DashboardTheme, Ward, PollutionPost, AppView } from '../types';
+import { useI18n } from '../services/i18n';
+import { getAqiCategory } from '../services/aqiCategories';
 
 interface CivicPulseProps {
   theme: DashboardTheme;
@@ -64,6 +66,7 @@ const MOCK_POSTS: PollutionPost[] = [
 
 const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTheme }) => {
   const isDark = theme === 'dark';
+  const { t, formatNumber } = useI18n();
   const [posts, setPosts] = useState<PollutionPost[]>(MOCK_POSTS);
   const [newPostContent, setNewPostContent] = useState('');
 
@@ -71,10 +74,10 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
     if (!newPostContent.trim()) return;
     const newPost: PollutionPost = {
       id: Date.now().toString(),
-      user: { name: 'Citizen Observer', handle: 'me_reporter', isVerified: true },
+      user: { name: t('pulse.observer'), handle: 'me_reporter', isVerified: true },
       ward: { id: '131', name: 'Anand Vihar', aqi: 450 },
       content: newPostContent,
-      timestamp: 'Just now',
+      timestamp: t('pulse.justNow'),
       stats: { upvotes: 0, comments: 0, shares: 0 },
       aiConfidence: 'High',
       status: 'Reported'
@@ -87,16 +90,16 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
     <div className="max-w-[1300px] mx-auto grid grid-cols-1 md:grid-cols-[275px_1fr_350px] gap-0 min-h-screen">
       
       {/* LEFT SIDEBAR: X-STYLE NAV */}
-      <aside className="hidden md:flex flex-col border-r border-white/10 py-6 sticky top-0 h-screen pr-4">
+      <aside className="hidden md:flex flex-col border-e border-white/10 py-6 sticky top-0 h-screen pe-4">
         <nav className="space-y-1">
           {[
-            { label: 'Home', icon: Home, active: true, view: 'pulse' as AppView },
-            { label: 'Dashboard', icon: Map, view: 'home' as AppView },
-            { label: 'Explore', icon: Search },
-            { label: 'Communities', icon: Users },
-            { label: 'Bookmarks', icon: Bookmark },
-            { label: 'Profile', icon: User },
-            { label: 'More', icon: MoreHorizontal },
+            { label: t('pulse.nav.home'), icon: Home, active: true, view: 'pulse' as AppView },
+            { label: t('pulse.nav.dashboard'), icon: Map, view: 'home' as AppView },
+            { label: t('pulse.nav.explore'), icon: Search },
+            { label: t('pulse.nav.communities'), icon: Users },
+            { label: t('pulse.nav.bookmarks'), icon: Bookmark },
+            { label: t('pulse.nav.profile'), icon: User },
+            { label: t('pulse.nav.more'), icon: MoreHorizontal },
           ].map((item, i) => (
             <button 
               key={i} 
@@ -110,7 +113,7 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
         </nav>
         
         <button className="mt-6 bg-indigo-600 text-white w-full py-3.5 rounded-full font-black text-base shadow-xl shadow-indigo-500/20 hover:bg-indigo-500 transition-all">
-          Post
+          {t('pulse.post')}
         </button>
 
         <button 
@@ -118,7 +121,7 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
           className="mt-4 flex items-center gap-5 px-4 py-3.5 rounded-full w-full transition-all group hover:bg-white/5 opacity-60 hover:opacity-100"
         >
           {isDark ? <Sun size={26} /> : <Moon size={26} />}
-          <span className="text-lg tracking-tight capitalize">{isDark ? 'Light' : 'Dark'} Mode</span>
+          <span className="text-lg tracking-tight capitalize">{isDark ? t('pulse.lightMode') : t('pulse.darkMode')}</span>
         </button>
 
         {/* Mini Profile Footer */}
@@ -127,8 +130,8 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
              <div className="w-10 h-10 rounded-full bg-indigo-500/20 flex items-center justify-center">
                 <User size={20} className="text-indigo-400" />
              </div>
-             <div className="flex flex-col text-left">
-                <span className="text-[14px] font-bold">Admin Node</span>
+             <div className="flex flex-col text-start">
+                <span className="text-[14px] font-bold">{t('pulse.admin')}</span>
                 <span className="text-[14px] opacity-40">@pureair_admin</span>
              </div>
           </div>
@@ -137,7 +140,7 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
       </aside>
 
       {/* CENTER COLUMN: MAIN FEED */}
-      <main className="border-r border-white/10">
+      <main className="border-e border-white/10">
         {/* COMPOSER (X-Style) */}
         <div className="p-4 border-b border-white/10">
           <div className="flex gap-4">
@@ -148,7 +151,7 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
               <textarea 
                 value={newPostContent}
                 onChange={(e) => setNewPostContent(e.target.value)}
-                placeholder="What pollution issue are you seeing?"
+                placeholder={t('pulse.composer')}
                 className="w-full bg-transparent border-none outline-none text-[20px] font-medium resize-none placeholder:opacity-30 pt-1"
                 rows={2}
               />
@@ -163,7 +166,7 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
                     disabled={!newPostContent.trim() || newPostContent.length > 280}
                     className="bg-indigo-600 text-white px-5 py-2 rounded-full text-[15px] font-bold disabled:opacity-50"
                   >
-                    Post
+                    {t('pulse.post')}
                   </button>
                 </div>
               </div>
@@ -184,29 +187,29 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
       {/* RIGHT SIDEBAR: TRENDS */}
       <aside className="hidden lg:flex flex-col py-6 px-6 sticky top-0 h-screen space-y-6">
         <div className="bg-white/[0.03] p-5 rounded-[20px] border border-white/5">
-           <h4 className="text-[20px] font-black tracking-tight mb-4">What’s happening</h4>
+           <h4 className="text-[20px] font-black tracking-tight mb-4">{t('pulse.happening')}</h4>
            <div className="space-y-6">
               {[
-                { label: '#ConstructionDust', volume: '1.2k reports', region: 'South Delhi' },
-                { label: '#GarbageBurning', volume: '840 reports', region: 'East Delhi' },
-                { label: '#CropStubble', volume: '2.4k reports', region: 'NCT Outer' },
-                { label: '#TrafficToxic', volume: '560 reports', region: 'Central Hub' }
+                { label: '#ConstructionDust', reports: 1200, region: t('pulse.region.south') },
+                { label: '#GarbageBurning', reports: 840, region: t('pulse.region.east') },
+                { label: '#CropStubble', reports: 2400, region: t('pulse.region.outer') },
+                { label: '#TrafficToxic', reports: 560, region: t('pulse.region.central') }
               ].map((trend, i) => (
                 <div key={i} className="group cursor-pointer">
                   <div className="flex justify-between items-center mb-0.5">
-                    <span className="text-[13px] opacity-40 uppercase tracking-widest">{trend.region} · Trending</span>
+                    <span className="text-[13px] opacity-40 uppercase tracking-widest">{t('pulse.trending', { region: trend.region })}</span>
                     <MoreHorizontal size={14} className="opacity-0 group-hover:opacity-40" />
                   </div>
                   <div className="text-[15px] font-bold group-hover:underline transition-colors">{trend.label}</div>
-                  <div className="text-[13px] opacity-40 mt-0.5">{trend.volume}</div>
+                  <div className="text-[13px] opacity-40 mt-0.5">{t('pulse.reports', { count: formatNumber(trend.reports, { notation: 'compact' }) })}</div>
                 </div>
               ))}
            </div>
-           <button className="text-indigo-400 text-[15px] hover:underline mt-6 block">Show more</button>
+           <button className="text-indigo-400 text-[15px] hover:underline mt-6 block">{t('pulse.showMore')}</button>
         </div>
 
         <div className="bg-white/[0.03] p-5 rounded-[20px] border border-white/5">
-           <h4 className="text-[20px] font-black tracking-tight mb-4">Ailing Wards (24h)</h4>
+           <h4 className="text-[20px] font-black tracking-tight mb-4">{t('pulse.ailing')}</h4>
            <div className="space-y-4">
               {wards.slice(0, 3).map((w, i) => (
                 <div key={i} className="flex items-center justify-between group cursor-pointer">
@@ -214,19 +217,19 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
                     <div className="text-[15px] font-bold group-hover:underline">{w.name}</div>
                     <div className="text-[13px] opacity-40">{w.zone}</div>
                   </div>
-                  <div className="text-right">
-                    <div className="text-rose-500 text-[14px] font-bold">+{Math.round(w.aqi*0.2)} AQI</div>
-                    <div className="text-[11px] opacity-20 font-black uppercase tracking-widest">SPIKE</div>
+                  <div className="text-end">
+                    <div className="text-rose-500 text-[14px] font-bold">+{formatNumber(Math.round(w.aqi*0.2))} {t('common.aqi')}</div>
+                    <div className="text-[11px] opacity-20 font-black uppercase tracking-widest">{t('pulse.spike')}</div>
                   </div>
                 </div>
               ))}
            </div>
-           <button className="text-indigo-400 text-[15px] hover:underline mt-6 block">Show more</button>
+           <button className="text-indigo-400 text-[15px] hover:underline mt-6 block">{t('pulse.showMore')}</button>
         </div>
       </aside>
 
       {/* MOBILE FLOATING ACTION */}
-      <button className="md:hidden fixed bottom-24 right-6 w-14 h-14 bg-indigo-600 rounded-full shadow-2xl flex items-center justify-center text-white z-50">
+      <button className="md:hidden fixed bottom-24 end-6 w-14 h-14 bg-indigo-600 rounded-full shadow-2xl flex items-center justify-center text-white z-50">
          <Plus size={28} />
       </button>
     </div>
@@ -234,6 +237,7 @@ const CivicPulse: React.FC<CivicPulseProps> = ({ theme, wards, onNavigate, setTh
 };
 
 const PulsePost: React.FC<{ post: PollutionPost; isDark: boolean }> = ({ post, isDark }) => {
+  const { t } = useI18n();
   return (
     <motion.div 
       initial={{ opacity: 0 }}
@@ -256,8 +260,8 @@ const PulsePost: React.FC<{ post: PollutionPost; isDark: boolean }> = ({ post, i
             <Map size={10} className="opacity-30" />
             <span className="text-[11px] font-bold uppercase tracking-tight">{post.ward.name}</span>
           </div>
-          <div className={`text-[11px] font-black uppercase tracking-tight ${post.ward.aqi > 300 ? 'text-rose-500' : 'text-emerald-500'}`}>
-            AQI: {post.ward.aqi}
+          <div className={`text-[11px] font-black uppercase tracking-tight ${getAqiCategory(post.ward.aqi).textClass}`}>
+            {t('pulse.aqi', { aqi: post.ward.aqi })}
           </div>
         </div>
 
@@ -2,6 +2,8 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Ward, DashboardTheme } from '../types';
 import { ArrowLeftRight, Wind, Droplets, Target, Shield } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+import { dominantSector } from '../services/sourceApportionment';
 
 interface ComparisonViewProps {
   wardA: Ward;
@@ -22,7 +24,7 @@ const ComparisonRow = ({ label, icon: Icon, valueA, valueB, suffix = "", lowerIs
   
   return (
     <div className={`grid grid-cols-12 gap-4 py-6 border-b items-center ${isDark ? 'border-white/5' : 'border-black/5'}`}>
-      <div className="col-span-4 text-right">
+      <div className="col-span-4 text-end">
         <span className={`text-2xl font-black tracking-tight ${winner === 'A' ? accentColor : mutedColor}`}>
           {String(valueA)}{suffix}
         </span>
@@ -31,7 +33,7 @@ const ComparisonRow = ({ label, icon: Icon, valueA, valueB, suffix = "", lowerIs
         <Icon size={16} className="opacity-20" />
         <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-40 text-center">{String(label)}</span>
       </div>
-      <div className="col-span-4 text-left">
+      <div className="col-span-4 text-start">
         <span className={`text-2xl font-black tracking-tight ${winner === 'B' ? accentColor : mutedColor}`}>
           {String(valueB)}{suffix}
         </span>
@@ -42,6 +44,7 @@ const ComparisonRow = ({ label, icon: Icon, valueA, valueB, suffix = "", lowerIs
 
 const ComparisonView: React.FC<ComparisonViewProps> = ({ wardA, wardB, theme, onClose }) => {
   const isDark = theme === 'dark';
+  const { t } = useI18n();
 
   return (
     <motion.div
@@ -56,42 +59,42 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ wardA, wardB, theme, on
              <div className={`w-10 h-10 rounded-xl flex items-center justify-center border ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}>
                 <ArrowLeftRight size={20} className="opacity-60" />
              </div>
-             <h2 className="text-xl font-black uppercase tracking-widest">Comparative Intelligence</h2>
+             <h2 className="text-xl font-black uppercase tracking-widest">{t('comparison.title')}</h2>
           </div>
           <button onClick={onClose} className={`px-6 py-2 rounded-full border text-xs font-bold transition-colors ${isDark ? 'bg-white/5 border-white/10 hover:bg-white/10' : 'bg-black/5 border-black/10 hover:bg-black/10'}`}>
-            Exit Analysis
+            {t('comparison.exit')}
           </button>
         </div>
 
         <div className="flex-1 overflow-y-auto p-12 no-scrollbar">
           <div className="grid grid-cols-12 gap-4 mb-12">
-            <div className="col-span-4 text-right">
+            <div className="col-span-4 text-end">
               <h3 className="text-4xl font-black tracking-tighter mb-2">{String(wardA.name)}</h3>
-              <span className="text-[10px] font-bold uppercase tracking-widest opacity-40">Reference Sector</span>
+              <span className="text-[10px] font-bold uppercase tracking-widest opacity-40">{t('comparison.reference')}</span>
             </div>
             <div className="col-span-4" />
-            <div className="col-span-4 text-left">
+            <div className="col-span-4 text-start">
               <h3 className="text-4xl font-black tracking-tighter mb-2">{String(wardB.name)}</h3>
-              <span className="text-[10px] font-bold uppercase tracking-widest opacity-40">Target Sector</span>
+              <span className="text-[10px] font-bold uppercase tracking-widest opacity-40">{t('comparison.target')}</span>
             </div>
           </div>
 
           <div className="space-y-2">
-            <ComparisonRow isDark={isDark} label="Overall AQI" icon={Shield} valueA={wardA.aqi} valueB={wardB.aqi} />
-            <ComparisonRow isDark={isDark} label="PM 2.5 Density" icon={Target} valueA={wardA.pollutants.pm25} valueB={wardB.pollutants.pm25} suffix=" µg/m³" />
-            <ComparisonRow isDark={isDark} label="PM 10 Density" icon={Target} valueA={wardA.pollutants.pm10} valueB={wardB.pollutants.pm10} suffix=" µg/m³" />
-            <ComparisonRow isDark={isDark} label="Wind Velocity" icon={Wind} valueA={wardA.windSpeed} valueB={wardB.windSpeed} suffix=" km/h" lowerIsBetter={false} />
-            <ComparisonRow isDark={isDark} label="Humidity Level" icon={Droplets} valueA={wardA.humidity} valueB={wardB.humidity} suffix="%" lowerIsBetter={false} />
+            <ComparisonRow isDark={isDark} label={t('comparison.aqi')} icon={Shield} valueA={wardA.aqi} valueB={wardB.aqi} />
+            <ComparisonRow isDark={isDark} label={t('comparison.pm25')} icon={Target} valueA={wardA.pollutants.pm25} valueB={wardB.pollutants.pm25} suffix=" µg/m³" />
+            <ComparisonRow isDark={isDark} label={t('comparison.pm10')} icon={Target} valueA={wardA.pollutants.pm10} valueB={wardB.pollutants.pm10} suffix=" µg/m³" />
+            <ComparisonRow isDark={isDark} label={t('comparison.wind')} icon={Wind} valueA={wardA.windSpeed} valueB={wardB.windSpeed} suffix=" km/h" lowerIsBetter={false} />
+            <ComparisonRow isDark={isDark} label={t('comparison.humidity')} icon={Droplets} valueA={wardA.humidity} valueB={wardB.humidity} suffix="%" lowerIsBetter={false} />
           </div>
 
           <div className="mt-16 grid grid-cols-2 gap-8">
             <div className={`p-8 rounded-[32px] border ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/5'}`}>
-               <h4 className="text-[10px] font-black uppercase tracking-[0.2em] opacity-40 mb-4">Primary Vector: {String(wardA.name)}</h4>
-               <p className="text-lg font-medium opacity-80">{String(wardA.primarySource)}</p>
+               <h4 className="text-[10px] font-black uppercase tracking-[0.2em] opacity-40 mb-4">{t('comparison.vector', { ward: String(wardA.name) })}</h4>
+               <p className="text-lg font-medium opacity-80">{t(`source.${dominantSector(wardA.breakdown)}`)}</p>
             </div>
             <div className={`p-8 rounded-[32px] border ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/5'}`}>
-               <h4 className="text-[10px] font-black uppercase tracking-[0.2em] opacity-40 mb-4">Primary Vector: {String(wardB.name)}</h4>
-               <p className="text-lg font-medium opacity-80">{String(wardB.primarySource)}</p>
+               <h4 className="text-[10px] font-black uppercase tracking-[0.2em] opacity-40 mb-4">{t('comparison.vector', { ward: String(wardB.name) })}</h4>
+               <p className="text-lg font-medium opacity-80">{t(`source.${dominantSector(wardB.breakdown)}`)}</p>
             </div>
           </div>
         </div>
@@ -1,5 +1,6 @@
 import React, { ErrorInfo, ReactNode } from 'react';
 import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { translate } from '../services/i18n';
 
 interface ErrorBoundaryProps {
   children?: ReactNode;
@@ -41,16 +42,16 @@ export class AppErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorB
           <div className="w-20 h-20 bg-rose-500/10 rounded-3xl flex items-center justify-center mb-8">
             <AlertTriangle className="text-rose-500" size={40} />
           </div>
-          <h1 className="text-2xl font-black tracking-tighter text-white mb-4 uppercase">Node Failure</h1>
+          <h1 className="text-2xl font-black tracking-tighter text-white mb-4 uppercase">{translate('error.title')}</h1>
           <p className="text-white/40 max-w-xs mb-8 text-sm uppercase tracking-widest leading-loose">
-            The atmospheric data processor encountered an unhandled instruction.
+            {translate('error.body')}
           </p>
           <button 
             onClick={() => window.location.reload()}
             className="flex items-center gap-3 px-8 py-4 bg-white text-black rounded-full font-black uppercase text-[10px] tracking-[0.2em] hover:scale-105 transition-transform"
           >
             <RefreshCw size={14} />
-            Re-Sync System
+            {translate('error.reload')}
           </button>
         </div>
       );
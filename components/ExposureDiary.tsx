@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { NotebookPen, Save } from 'lucide-react';
+import { ExposureDay, ExposureDiary as Diary, ExposureSetting, HealthProfile, Ward } from '../types';
+import {
+  EXPOSURE_SETTINGS,
+  INFILTRATION,
+  WHO_PM25_24H,
+  defaultExposureHours,
+  exposureDayKey,
+  getExposureDays,
+  loadExposureDiary,
+  logExposure,
+  saveExposureDiary,
+  weeklyExposure
+} from '../services/exposure';
+import { useI18n } from '../services/i18n';
+
+interface ExposureDiaryProps {
+  isDark: boolean;
+  profile: HealthProfile;
+  wards: Ward[];
+  cityAqi: number;
+}
+
+const PLACES = ['home', 'work', 'commute'] as const;
+
+const ExposureDiary: React.FC<ExposureDiaryProps> = ({ isDark, profile, wards, cityAqi }) => {
+  const { t, formatNumber, formatDateTime } = useI18n();
+  const [diary, setDiary] = useState<Diary>(loadExposureDiary);
+  const [date, setDate] = useState(() => exposureDayKey());
+  const [hours, setHours] = useState<Record<ExposureSetting, number>>(() => defaultExposureHours(profile));
+  const [days, setDays] = useState<ExposureDay[]>([]);
+
+  // Editing a day that is already logged starts from its entry
+  useEffect(() => {
+    const entry = diary.entries.find(e => e.date === date);
+    setHours(entry ? entry.hours : defaultExposureHours(profile));
+  }, [date]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getExposureDays(diary, profile, wards, cityAqi).then(result => { if (!cancelled) setDays(result); });
+    return () => { cancelled = true; };
+  }, [diary, profile, wards, cityAqi]);
+
+  const update = (next: Diary) => {
+    setDiary(next);
+    saveExposureDiary(next);
+  };
+
+  const wardsByName = useMemo(() => [...wards].sort((a, b) => a.name.localeCompare(b.name)), [wards]);
+  const weeks = useMemo(() => weeklyExposure(days), [days]);
+  const thisWeek = weeks[weeks.length - 1];
+  const weekDays = days.filter(d => thisWeek && d.date >= thisWeek.start);
+  const unlogged = Math.max(0, 24 - EXPOSURE_SETTINGS.reduce((sum, s) => sum + (hours[s] || 0), 0));
+  const bySetting = EXPOSURE_SETTINGS.map(s => ({ setting: s, dose: weekDays.reduce((sum, d) => sum + d.bySetting[s], 0) }));
+  const ratio = thisWeek && thisWeek.whoDose > 0 ? thisWeek.dose / thisWeek.whoDose : 0;
+  const meanPm25 = weekDays.length > 0 ? weekDays.reduce((sum, d) => sum + d.meanPm25, 0) / weekDays.length : 0;
+
+  const dayLabel = (key: string) => {
+    const [y, m, d] = key.split('-').map(Number);
+    return formatDateTime(new Date(y, m - 1, d), { day: 'numeric', month: 'short' });
+  };
+  const chartData = weeks.map(w => ({ name: dayLabel(w.start), dose: Math.round(w.dose), who: Math.round(w.whoDose), days: w.daysLogged }));
+
+  const field = `rounded-xl border px-3 py-2 text-[11px] font-bold bg-transparent ${isDark ? 'border-white/10' : 'border-black/10'}`;
+  const ug = (value: number) => t('health.diary.ug', { value: formatNumber(Math.round(value)) });
+
+  return (
+    <section className="glass-card p-10 rounded-[48px] border-current/5">
+      <div className="flex items-center gap-4 mb-10">
+        <div className="w-12 h-12 rounded-2xl bg-emerald-500/10 flex items-center justify-center">
+          <NotebookPen size={24} className="text-emerald-400" />
+        </div>
+        <div>
+          <h3 className="text-2xl font-black uppercase tracking-tight">{t('health.diary.title')}</h3>
+          <span className="text-[10px] font-black uppercase tracking-widest text-emerald-400">{t('health.diary.kicker')}</span>
+        </div>
+      </div>
+
+      {/* Where each microenvironment is */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-10">
+        {PLACES.map(place => (
+          <label key={place} className="space-y-2 block">
+            <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t(`health.diary.place.${place}`)}</span>
+            <select
+              value={diary.places[place] ?? ''}
+              onChange={e => update({ ...diary, places: { ...diary.places, [place]: e.target.value || null } })}
+              className={`w-full ${field}`}
+            >
+              <option value="">{t('alerts.city')}</option>
+              {wardsByName.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {/* Day log */}
+      <div className="p-8 rounded-[32px] bg-white/5 border border-white/5 mb-10 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('health.diary.log')}</span>
+          <input type="date" value={date} max={exposureDayKey()} onChange={e => e.target.value && setDate(e.target.value)} className={field} />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {EXPOSURE_SETTINGS.map(s => (
+            <label key={s} className="space-y-2 block">
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t(`health.diary.setting.${s}`)}</span>
+              <input
+                type="number"
+                min={0}
+                max={24}
+                step={0.5}
+                value={hours[s]}
+                onChange={e => setHours(h => ({ ...h, [s]: Math.min(24, Math.max(0, parseFloat(e.target.value) || 0)) }))}
+                className={`w-full tabular-nums ${field}`}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <span className="text-[10px] font-bold opacity-40">
+            {unlogged > 0 ? t('health.diary.unlogged', { count: unlogged }) : t('health.diary.fullDay')}
+          </span>
+          <button
+            onClick={() => update(logExposure(diary, { date, hours }))}
+            className="flex items-center gap-2 px-6 py-3 rounded-full bg-emerald-600 text-white font-black text-[10px] uppercase tracking-[0.2em] hover:bg-emerald-500 transition-all"
+          >
+            <Save size={12} /> {t(diary.entries.some(e => e.date === date) ? 'health.diary.update' : 'health.diary.save')}
+          </button>
+        </div>
+      </div>
+
+      {days.length === 0 ? (
+        <p className="text-sm font-medium opacity-40 text-center">{t('health.diary.empty')}</p>
+      ) : (
+        <div className="space-y-10">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            <div>
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">{t('health.diary.weekDose')}</span>
+              <span className="text-2xl font-black tabular-nums">{ug(thisWeek?.dose ?? 0)}</span>
+            </div>
+            <div>
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">{t('health.diary.vsWho')}</span>
+              <span className={`text-2xl font-black tabular-nums ${ratio > 1 ? 'text-rose-500' : 'text-emerald-500'}`}>
+                {t('health.diary.times', { ratio: formatNumber(ratio, { maximumFractionDigits: 1 }) })}
+              </span>
+            </div>
+            <div>
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">{t('health.diary.mean')}</span>
+              <span className="text-2xl font-black tabular-nums">{t('health.diary.ugm3', { value: formatNumber(Math.round(meanPm25)) })}</span>
+            </div>
+            <div>
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-1">{t('health.diary.daysAbove')}</span>
+              <span className="text-2xl font-black tabular-nums">
+                {t('health.diary.daysOf', { count: thisWeek?.daysAboveWho ?? 0, total: thisWeek?.daysLogged ?? 0 })}
+              </span>
+            </div>
+          </div>
+
+          {/* Weekly trend against the WHO reference for the same logged days */}
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} barGap={4}>
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: isDark ? 'white' : 'black', fontSize: 10, opacity: 0.4 }} />
+                <YAxis hide />
+                <Tooltip
+                  cursor={{ fill: 'transparent' }}
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const week = payload[0].payload as typeof chartData[number];
+                      return (
+                        <div className="glass px-4 py-3 rounded-2xl border-white/10 text-xs font-bold space-y-1">
+                          <div>{t('health.diary.tooltip.dose', { value: ug(week.dose) })}</div>
+                          <div className="opacity-60">{t('health.diary.tooltip.who', { value: ug(week.who) })}</div>
+                          <div className="opacity-40">{t('health.diary.tooltip.days', { count: week.days })}</div>
+                        </div>
+                      );
+                    }
+                    return null;
+                  }}
+                />
+                <Bar dataKey="dose" radius={[8, 8, 0, 0]} fill="#f43f5e" />
+                <Bar dataKey="who" radius={[8, 8, 0, 0]} fill={isDark ? 'white' : 'black'} opacity={0.15} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex flex-wrap gap-6 text-[9px] font-black uppercase tracking-widest opacity-60">
+            <span className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-rose-500" /> {t('health.diary.legend.dose')}</span>
+            <span className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-current opacity-30" /> {t('health.diary.legend.who', { limit: WHO_PM25_24H })}</span>
+          </div>
+
+          {/* Where this week's dose came from */}
+          <div className="space-y-3">
+            <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('health.diary.sources')}</span>
+            {bySetting.map(({ setting, dose }) => {
+              const share = thisWeek && thisWeek.dose > 0 ? dose / thisWeek.dose : 0;
+              return (
+                <div key={setting} className="flex items-center gap-4 text-xs font-bold">
+                  <span className="w-24 opacity-60">{t(`health.diary.setting.${setting}`)}</span>
+                  <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                    <div className="h-full rounded-full bg-emerald-500" style={{ width: `${share * 100}%` }} />
+                  </div>
+                  <span className="w-24 text-end tabular-nums opacity-60">{ug(dose)}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {days.some(d => d.estimated) && (
+            <p className="text-[10px] font-bold opacity-40">{t('health.diary.estimated')}</p>
+          )}
+        </div>
+      )}
+
+      <p className="mt-10 text-[10px] font-medium opacity-30 leading-relaxed">
+        {t('health.diary.method', {
+          home: formatNumber(INFILTRATION.home * 100),
+          work: formatNumber(INFILTRATION.work * 100),
+          commute: formatNumber(INFILTRATION.commute * 100),
+          limit: WHO_PM25_24H
+        })}
+      </p>
+    </section>
+  );
+};
+
+export default ExposureDiary;
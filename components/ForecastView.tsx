@@ -1,10 +1,21 @@
 
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Zap, ShieldAlert, BarChart3, Loader2 } from 'lucide-react';
-import { getAqiForecast } from '../services/geminiService';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Clock, Zap, ShieldAlert, BarChart3, Loader2, History, Target } from 'lucide-react';
+import { getAqiForecast, isLlmAvailable } from '../services/geminiService';
 import { getHistoricalContext, calculateTrendSlope } from '../services/aqiService';
-import { AtmosphericPrediction, DashboardTheme } from '../types';
+import { getStatisticalForecast, getForecastModelLabel } from '../services/forecasting';
+import { archiveForecasts, verifyForecasts } from '../services/forecastVerification';
+import { applyMeteorology, describeWeather, fetchWeatherOutlook } from '../services/meteorology';
+import { useI18n } from '../services/i18n';
+import { AtmosphericPrediction, DashboardTheme, ForecastScore, HistoryPoint } from '../types';
+
+// A week of hourly readings for fitting; the chart shows the last three days
+const FIT_HOURS = 168;
+const CHART_HOURS = 72;
+
+type ForecastSource = 'statistical' | 'llm';
 
 interface ForecastViewProps {
   currentAqi: number;
@@ -12,9 +23,14 @@ interface ForecastViewProps {
 }
 
 const ForecastView: React.FC<ForecastViewProps> = ({ currentAqi, theme }) => {
-  const [predictions, setPredictions] = useState<AtmosphericPrediction[]>([]);
+  const [baseline, setBaseline] = useState<AtmosphericPrediction[]>([]);
+  const [aiPredictions, setAiPredictions] = useState<AtmosphericPrediction[] | null>(null);
+  const [source, setSource] = useState<ForecastSource>('statistical');
+  const [observed, setObserved] = useState<HistoryPoint[]>([]);
+  const [scores, setScores] = useState<ForecastScore[]>([]);
   const [loading, setLoading] = useState(true);
   const isDark = theme === 'dark';
+  const { locale, t } = useI18n();
   
   // Ref to prevent duplicate concurrent loads
   const isFetching = useRef(false);
@@ -34,14 +50,27 @@ const ForecastView: React.FC<ForecastViewProps> = ({ currentAqi, theme }) => {
     setLoading(true);
 
     try {
-      // Defer computational parts to optimize first paint
-      const history = getHistoricalContext(currentAqi);
-      const slope = calculateTrendSlope(history);
-      
-      // The AI call is the primary bottleneck - the service now handles caching
-      const data = await getAqiForecast(currentAqi, slope);
-      
-      setPredictions(data);
+      // Trend over observed city readings; flat until the store has at least two hours
+      const history = await getHistoricalContext(FIT_HOURS);
+      const recent = history.filter(p => p.timestamp >= Date.now() - CHART_HOURS * 3600 * 1000);
+      const slope = calculateTrendSlope(recent);
+      setObserved(recent);
+
+      // Local baseline always, adjusted for ventilation; the LLM projection only when a provider is available
+      const outlook = await fetchWeatherOutlook(72);
+      const statistical = applyMeteorology(getStatisticalForecast(history, { currentAqi }), outlook);
+      setBaseline(statistical);
+
+      if (isLlmAvailable()) {
+        // The AI call is the primary bottleneck - the service now handles caching
+        const data = await getAqiForecast(currentAqi, slope, statistical, describeWeather(outlook));
+        const fromLlm = data.length > 0 && data.every(p => p.model === 'llm');
+        setAiPredictions(fromLlm ? data : null);
+        setSource(fromLlm ? 'llm' : 'statistical');
+        if (fromLlm) archiveForecasts(data, currentAqi);
+      }
+      archiveForecasts(statistical, currentAqi);
+      setScores(await verifyForecasts());
       lastFetchedAqi.current = currentAqi;
       
       const endTime = performance.now();
@@ -58,29 +87,88 @@ const ForecastView: React.FC<ForecastViewProps> = ({ currentAqi, theme }) => {
     fetchForecast();
   }, [fetchForecast]);
 
+  // AI explanations are written in the active language, so fetch them again on a switch
+  const firstLocale = useRef(locale);
+  useEffect(() => {
+    if (locale === firstLocale.current) return;
+    firstLocale.current = locale;
+    fetchForecast(true);
+  }, [locale]);
+
+  const predictions = source === 'llm' && aiPredictions ? aiPredictions : baseline;
+  const meanConfidence = predictions.length
+    ? Math.round(predictions.reduce((s, p) => s + p.confidence, 0) / predictions.length)
+    : null;
+  const baselineLabel = getForecastModelLabel(baseline[0]?.model);
+
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center py-40 gap-6">
         <Loader2 className="animate-spin text-indigo-500" size={48} />
-        <span className="text-[10px] font-black uppercase tracking-[0.8em] opacity-30">Synthesizing Atmospheric Models</span>
+        <span className="text-[10px] font-black uppercase tracking-[0.8em] opacity-30">{t('forecast.loading')}</span>
       </div>
     );
   }
 
   return (
     <div className="max-w-6xl mx-auto space-y-20 pb-40">
-      <header className="text-center md:text-left flex flex-col md:flex-row items-end justify-between gap-10">
+      <header className="text-center md:text-start flex flex-col md:flex-row items-end justify-between gap-10">
         <div className="max-w-xl">
-           <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-8">Intelligence Layer 05</h4>
-           <h2 className="text-6xl font-black tracking-tighter mb-4 leading-none uppercase">Predictive Exposure Node</h2>
-           <p className="opacity-40 text-lg font-medium leading-relaxed">AI-driven temporal projections for the NCT region based on atmospheric chemistry and diurnal patterns.</p>
+           <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-8">{t('forecast.kicker')}</h4>
+           <h2 className="text-6xl font-black tracking-tighter mb-4 leading-none uppercase">{t('forecast.title')}</h2>
+           <p className="opacity-40 text-lg font-medium leading-relaxed">{t('forecast.subtitle')}</p>
         </div>
-        <div className="glass px-10 py-6 rounded-[32px] border-white/5 flex flex-col items-center">
-            <span className="text-[8px] font-black uppercase tracking-widest opacity-30 mb-2">Confidence Matrix</span>
-            <div className="text-4xl font-black text-indigo-400">92%</div>
+        <div className="flex flex-col items-center md:items-end gap-4">
+          <div className="glass px-10 py-6 rounded-[32px] border-white/5 flex flex-col items-center">
+              <span className="text-[8px] font-black uppercase tracking-widest opacity-30 mb-2">{t('forecast.confidenceMatrix')}</span>
+              <div className="text-4xl font-black text-indigo-400">{meanConfidence !== null ? `${meanConfidence}%` : '--'}</div>
+          </div>
+          {aiPredictions && (
+            <div className="glass p-1.5 rounded-2xl border-white/10 flex items-center gap-1">
+              {([['statistical', baselineLabel], ['llm', t('forecast.aiModel')]] as [ForecastSource, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setSource(id)}
+                  className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${source === id ? 'bg-indigo-500 text-white' : 'opacity-40 hover:opacity-100'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </header>
 
+      <div className="glass p-10 rounded-[48px] border border-white/5">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <History size={16} className="text-indigo-400" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">{t('forecast.observed')}</span>
+          </div>
+          <span className="text-[9px] font-black uppercase tracking-widest opacity-30">{t('forecast.readings', { count: observed.length })}</span>
+        </div>
+        {observed.length >= 2 ? (
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={observed}>
+                <defs>
+                  <linearGradient id="observedFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="#6366f1" stopOpacity={0.4} />
+                    <stop offset="100%" stopColor="#6366f1" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <XAxis dataKey="time" tick={{ fontSize: 9, opacity: 0.3 }} axisLine={false} tickLine={false} minTickGap={30} />
+                <YAxis hide domain={['dataMin - 20', 'dataMax + 20']} />
+                <Tooltip contentStyle={{ background: 'rgba(0,0,0,0.8)', border: 'none', borderRadius: 16, fontSize: 11 }} />
+                <Area type="monotone" dataKey="aqi" stroke="#6366f1" strokeWidth={2} fill="url(#observedFill)" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm opacity-30 font-medium">{t('forecast.observedEmpty')}</p>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
         {predictions.map((p, i) => (
           <motion.div
@@ -90,32 +178,35 @@ const ForecastView: React.FC<ForecastViewProps> = ({ currentAqi, theme }) => {
             transition={{ delay: i * 0.05 }} // Faster sequential reveal
             className={`glass p-12 rounded-[56px] border border-white/5 flex flex-col relative overflow-hidden group hover:bg-white/[0.03] transition-all`}
           >
-            <div className="absolute top-0 right-0 p-8 opacity-5 group-hover:opacity-10 transition-opacity"><Clock size={100} /></div>
+            <div className="absolute top-0 end-0 p-8 opacity-5 group-hover:opacity-10 transition-opacity"><Clock size={100} /></div>
             
             <div className="flex items-center gap-4 mb-10">
                <div className="w-10 h-10 rounded-2xl bg-indigo-500/10 flex items-center justify-center">
                   <Zap size={20} className="text-indigo-400" />
                </div>
-               <span className="text-[11px] font-black uppercase tracking-widest text-indigo-400">+{p.hours}H PROJECTION</span>
+               <span className="text-[11px] font-black uppercase tracking-widest text-indigo-400">{t('forecast.projection', { hours: p.hours })}</span>
             </div>
 
             <div className="flex flex-col mb-12">
                <span className="text-[120px] font-black tracking-tighter leading-none text-cutout tabular-nums">{p.aqi}</span>
+               {p.lower !== undefined && p.upper !== undefined && (
+                 <span className="text-[10px] font-black uppercase tracking-widest opacity-30 tabular-nums mt-2">{t('forecast.range', { lower: p.lower, upper: p.upper })}</span>
+               )}
                <div className="flex items-center gap-3 mt-4">
                   <div className={`w-2.5 h-2.5 rounded-full ${p.riskLevel === 'Extreme' || p.riskLevel === 'High' ? 'bg-rose-500' : 'bg-emerald-500'}`} />
                   <span className={`text-[10px] font-black uppercase tracking-widest ${p.riskLevel === 'Extreme' || p.riskLevel === 'High' ? 'text-rose-500' : 'text-emerald-500'}`}>
-                    {p.riskLevel} Risk
+                    {t('health.risk', { level: t(`risk.${p.riskLevel}`) })}
                   </span>
                </div>
             </div>
 
             <div className="space-y-6 flex-1">
                <div className="pb-6 border-b border-white/5">
-                  <span className="text-[9px] font-black uppercase opacity-20 block mb-2 tracking-widest">Primary Vector</span>
+                  <span className="text-[9px] font-black uppercase opacity-20 block mb-2 tracking-widest">{t('forecast.vector')}</span>
                   <div className="text-xl font-bold">{p.primaryPollutant}</div>
                </div>
                <div className="pb-6 border-b border-white/5">
-                  <span className="text-[9px] font-black uppercase opacity-20 block mb-2 tracking-widest">Intelligence Summary</span>
+                  <span className="text-[9px] font-black uppercase opacity-20 block mb-2 tracking-widest">{t('forecast.summary')}</span>
                   <p className="text-sm font-medium opacity-50 leading-relaxed">{p.explanation}</p>
                </div>
             </div>
@@ -123,7 +214,7 @@ const ForecastView: React.FC<ForecastViewProps> = ({ currentAqi, theme }) => {
             <div className="mt-10 flex items-center justify-between opacity-30">
                <div className="flex items-center gap-2">
                   <BarChart3 size={12} />
-                  <span className="text-[9px] font-bold uppercase">Confidence: {p.confidence}%</span>
+                  <span className="text-[9px] font-bold uppercase">{t('forecast.confidence', { percent: p.confidence })}</span>
                </div>
                <ShieldAlert size={14} />
             </div>
@@ -131,9 +222,66 @@ const ForecastView: React.FC<ForecastViewProps> = ({ currentAqi, theme }) => {
         ))}
       </div>
 
+      {aiPredictions && (
+        <div className="glass p-10 rounded-[48px] border border-white/5">
+          <div className="flex items-center gap-3 mb-8">
+            <BarChart3 size={16} className="text-indigo-400" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">{t('forecast.compare', { model: baselineLabel })}</span>
+          </div>
+          <div className="grid grid-cols-4 gap-4 text-[9px] font-black uppercase tracking-widest opacity-30 pb-4 border-b border-white/5">
+            <span>{t('forecast.col.horizon')}</span><span>{t('forecast.col.baseline')}</span><span>{t('forecast.aiModel')}</span><span>{t('forecast.col.difference')}</span>
+          </div>
+          {baseline.map(b => {
+            const ai = aiPredictions.find(p => p.hours === b.hours);
+            const inside = ai && b.lower !== undefined && b.upper !== undefined && ai.aqi >= b.lower && ai.aqi <= b.upper;
+            return (
+              <div key={b.hours} className="grid grid-cols-4 gap-4 py-4 border-b border-white/5 text-sm font-bold tabular-nums">
+                <span className="opacity-50">+{b.hours}H</span>
+                <span>{b.aqi} <span className="opacity-30 text-xs">({b.lower}–{b.upper})</span></span>
+                <span>{ai ? ai.aqi : '--'}</span>
+                <span className={ai ? (inside ? 'text-emerald-500' : 'text-amber-500') : 'opacity-30'}>
+                  {ai ? `${ai.aqi - b.aqi > 0 ? '+' : ''}${ai.aqi - b.aqi}${inside ? '' : ` • ${t('forecast.outside')}`}` : '--'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="glass p-10 rounded-[48px] border border-white/5">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Target size={16} className="text-indigo-400" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">{t('forecast.verification')}</span>
+          </div>
+          <span className="text-[9px] font-black uppercase tracking-widest opacity-30">{t('forecast.skillVsPersistence')}</span>
+        </div>
+        {scores.length > 0 ? (
+          <>
+            <div className="grid grid-cols-7 gap-4 text-[9px] font-black uppercase tracking-widest opacity-30 pb-4 border-b border-white/5">
+              <span className="col-span-2">{t('forecast.col.model')}</span><span>{t('forecast.col.horizon')}</span><span>{t('forecast.col.mae')}</span><span>{t('forecast.col.bias')}</span><span>{t('forecast.col.hit')}</span><span>{t('forecast.col.skill')}</span>
+            </div>
+            {scores.map(s => (
+              <div key={`${s.model}-${s.hours}`} className="grid grid-cols-7 gap-4 py-4 border-b border-white/5 text-sm font-bold tabular-nums">
+                <span className="col-span-2">{s.model === 'llm' ? t('forecast.aiModel') : getForecastModelLabel(s.model)} <span className="opacity-30 text-xs">n={s.count}</span></span>
+                <span className="opacity-50">+{s.hours}H</span>
+                <span>{Math.round(s.mae)}</span>
+                <span>{s.bias > 0 ? '+' : ''}{Math.round(s.bias)}</span>
+                <span>{Math.round(s.categoryHitRate * 100)}%</span>
+                <span className={s.skill === null ? 'opacity-30' : s.skill > 0 ? 'text-emerald-500' : 'text-rose-500'}>
+                  {s.skill === null ? '--' : `${s.skill > 0 ? '+' : ''}${Math.round(s.skill * 100)}%`}
+                </span>
+              </div>
+            ))}
+          </>
+        ) : (
+          <p className="text-sm opacity-30 font-medium">{t('forecast.verificationEmpty')}</p>
+        )}
+      </div>
+
       <div className={`p-14 rounded-[64px] border ${isDark ? 'bg-white/[0.02] border-white/5' : 'bg-black/[0.02] border-black/5'} text-center`}>
-          <h3 className="text-2xl font-black mb-4 uppercase tracking-tight">System Notice</h3>
-          <p className="opacity-40 text-sm max-w-2xl mx-auto font-medium">Predictions are generated by the Gemini AtmosModel 3.0. For operational decisions, always refer to the live regulatory telemetry provided by CPCB/DPCC.</p>
+          <h3 className="text-2xl font-black mb-4 uppercase tracking-tight">{t('forecast.notice.title')}</h3>
+          <p className="opacity-40 text-sm max-w-2xl mx-auto font-medium">{t('forecast.notice.body', { model: baselineLabel })}</p>
       </div>
     </div>
   );
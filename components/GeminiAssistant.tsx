@@ -1,61 +1,120 @@
-
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MessageSquare, X, Send, Sparkles, BrainCircuit, Activity, ShieldCheck, Maximize2, Minimize2 } from 'lucide-react';
+import { MessageSquare, X, Send, Sparkles, BrainCircuit, Activity, ShieldCheck, Maximize2, Minimize2, Database, ChevronDown, Square, History, Plus, Download, Trash2 } from 'lucide-react';
 import { getAssistantResponse } from '../services/geminiService';
-import { Ward, LiveAqiData } from '../types';
+import { toolLabel } from '../services/assistantTools';
+import { createThread, loadThreads, saveThreads, threadToMarkdown, withMessages } from '../services/assistantThreads';
+import { useI18n } from '../services/i18n';
+import { AssistantMessage, AssistantThread, AssistantThreadStore, Ward, LiveAqiData } from '../types';
 
 interface GeminiAssistantProps {
   currentAqi: number;
   theme: 'dark' | 'light';
   selectedWard?: Ward | null;
   liveAqi?: LiveAqiData | null;
+  wards?: Ward[];
 }
 
-const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, selectedWard, liveAqi }) => {
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([k, v]) => `${k}: ${String(v)}`).join(', ');
+
+const downloadMarkdown = (thread: AssistantThread) => {
+  const blob = new Blob([threadToMarkdown(thread)], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'briefing'}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, selectedWard, liveAqi, wards = [] }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [query, setQuery] = useState('');
-  const [messages, setMessages] = useState<{role: 'user' | 'model', text: string}[]>([]);
-  const [isTyping, setIsTyping] = useState(false);
+  const [store, setStore] = useState<AssistantThreadStore>(loadThreads);
+  const [showThreads, setShowThreads] = useState(false);
+  // Answer being streamed, and the thread it belongs to
+  const [pending, setPending] = useState<{ threadId: string; text: string } | null>(null);
+  // Expanded citation lists ("3") and raw tool results ("3:0")
+  const [openCitations, setOpenCitations] = useState<Record<string, boolean>>({});
+  const abortRef = useRef<AbortController | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const isDark = theme === 'dark';
+  const { t, formatDateTime } = useI18n();
+  const activeThread = store.threads.find(th => th.id === store.activeId) ?? null;
+  const messages = activeThread?.messages ?? [];
+  const isTyping = pending !== null;
+  const pendingHere = pending && pending.threadId === activeThread?.id ? pending : null;
+
+  useEffect(() => {
+    saveThreads(store);
+  }, [store]);
+
+  // Stop any in-flight answer when the assistant unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isTyping, isOpen]);
+  }, [messages, pendingHere?.text, isOpen]);
+
+  const putThread = (thread: AssistantThread) =>
+    setStore(prev => ({ activeId: thread.id, threads: [thread, ...prev.threads.filter(th => th.id !== thread.id)] }));
+
+  // Updates a thread in place without switching to it; a thread deleted meanwhile stays deleted
+  const updateThread = (thread: AssistantThread) =>
+    setStore(prev => ({ ...prev, threads: prev.threads.map(th => (th.id === thread.id ? thread : th)) }));
+
+  const selectThread = (id: string | null) => {
+    setStore(prev => ({ ...prev, activeId: id }));
+    setOpenCitations({});
+    setShowThreads(false);
+  };
+
+  const deleteThread = (id: string) =>
+    setStore(prev => ({ activeId: prev.activeId === id ? null : prev.activeId, threads: prev.threads.filter(th => th.id !== id) }));
 
   const handleSend = async () => {
-    if (!query.trim()) return;
+    if (!query.trim() || isTyping) return;
     const userText = query;
     setQuery('');
-    setMessages(prev => [...prev, { role: 'user', text: userText }]);
-    
-    setIsTyping(true);
+
+    const thread = activeThread ?? createThread();
+    const asked: AssistantMessage[] = [...thread.messages, { role: 'user', text: userText, citations: [], time: Date.now() }];
+    putThread(withMessages(thread, asked));
 
     // Prepare context for the service
     const context = {
       ward: selectedWard,
-      cityData: liveAqi
+      cityData: liveAqi,
+      wards
     };
 
-    // Prepare history formatted for Gemini SDK
-    const history = messages.map(m => ({
-      role: m.role,
-      parts: [{ text: m.text }]
-    }));
+    // Earlier tool calls are not replayed; their answers are already in the text
+    const history = thread.messages.map(m => ({ role: m.role, text: m.text }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending({ threadId: thread.id, text: '' });
+
+    const reply = await getAssistantResponse(userText, context, history, {
+      signal: controller.signal,
+      onText: text => setPending({ threadId: thread.id, text })
+    });
 
-    const aiResponse = await getAssistantResponse(userText, context, history);
-    
-    setIsTyping(false);
-    setMessages(prev => [...prev, { role: 'model', text: aiResponse }]);
+    abortRef.current = null;
+    setPending(null);
+    updateThread(withMessages(thread, [...asked, { role: 'model', ...reply, time: Date.now() }]));
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
+  const toggleCitation = (key: string) => setOpenCitations(prev => ({ ...prev, [key]: !prev[key] }));
+
   const toggleOpen = () => setIsOpen(!isOpen);
 
   return (
-    <div className={`fixed bottom-12 right-12 z-[100] flex flex-col items-end gap-4`}>
+    <div className={`fixed bottom-12 end-12 z-[100] flex flex-col items-end gap-4`}>
       <AnimatePresence>
         {isOpen && (
           <motion.div
@@ -72,11 +131,25 @@ const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, se
                   <BrainCircuit size={20} className="text-white" />
                 </div>
                 <div>
-                  <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400">Powered by Gemini</h4>
-                  <span className="text-xs font-bold tracking-tight block">Atmospheric Intelligence Console</span>
+                  <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400">{t('assistant.poweredBy')}</h4>
+                  <span className="text-xs font-bold tracking-tight block">{t('assistant.title')}</span>
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                 <button onClick={() => setShowThreads(!showThreads)} title={t('assistant.threads')} className={`p-2 rounded-full hover:bg-white/10 transition-all ${showThreads ? 'opacity-100 text-indigo-400' : 'opacity-40 hover:opacity-100'}`}>
+                    <History size={16} />
+                 </button>
+                 <button onClick={() => selectThread(null)} title={t('assistant.newThread')} className="p-2 rounded-full hover:bg-white/10 opacity-40 hover:opacity-100 transition-all">
+                    <Plus size={16} />
+                 </button>
+                 <button
+                    onClick={() => activeThread && downloadMarkdown(activeThread)}
+                    disabled={!activeThread || messages.length === 0}
+                    title={t('assistant.export')}
+                    className="p-2 rounded-full hover:bg-white/10 opacity-40 hover:opacity-100 disabled:opacity-10 transition-all"
+                 >
+                    <Download size={16} />
+                 </button>
                  <button onClick={() => setIsExpanded(!isExpanded)} className="p-2 rounded-full hover:bg-white/10 opacity-40 hover:opacity-100 transition-all">
                     {isExpanded ? <Minimize2 size={16} /> : <Maximize2 size={16} />}
                  </button>
@@ -91,30 +164,62 @@ const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, se
                 <div className="flex items-center gap-2">
                    <Activity size={12} className="text-emerald-500" />
                    <span className="text-[9px] font-black uppercase tracking-widest opacity-60">
-                      Target: {selectedWard ? selectedWard.name : 'Delhi NCT'}
+                      {t('assistant.target', { place: selectedWard ? selectedWard.name : t('assistant.delhi') })}
                    </span>
                 </div>
                 <div className="flex items-center gap-2">
                    <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
-                   <span className="text-[9px] font-black uppercase tracking-widest opacity-40">Live Uplink</span>
+                   <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('assistant.uplink')}</span>
                 </div>
             </div>
 
+            {/* Thread List */}
+            {showThreads && (
+              <div className="flex-1 overflow-y-auto p-4 space-y-2 no-scrollbar">
+                {store.threads.length === 0 && (
+                  <p className="text-center text-[10px] font-bold uppercase tracking-widest opacity-40 py-10">{t('assistant.noThreads')}</p>
+                )}
+                {[...store.threads].sort((a, b) => b.updatedAt - a.updatedAt).map(th => (
+                  <div
+                    key={th.id}
+                    className={`group/thread flex items-center gap-3 px-4 py-3 rounded-2xl border transition-all ${
+                      th.id === store.activeId ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-white/5 border-white/5 hover:border-white/20'
+                    }`}
+                  >
+                    <button onClick={() => selectThread(th.id)} className="flex-1 min-w-0 text-start">
+                      <span className="block text-xs font-bold truncate">{th.title}</span>
+                      <span className="text-[9px] font-black uppercase tracking-widest opacity-40">
+                        {formatDateTime(th.updatedAt, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })} • {t('assistant.messages', { count: th.messages.length })}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => deleteThread(th.id)}
+                      disabled={pending?.threadId === th.id}
+                      title={t('assistant.deleteThread')}
+                      className="p-2 rounded-full opacity-0 group-hover/thread:opacity-60 hover:!opacity-100 hover:text-rose-400 disabled:hidden transition-all"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Chat Area */}
-            <div className="flex-1 overflow-y-auto p-6 space-y-6 no-scrollbar">
-              {messages.length === 0 && (
+            <div className={`flex-1 overflow-y-auto p-6 space-y-6 no-scrollbar ${showThreads ? 'hidden' : ''}`}>
+              {messages.length === 0 && !pendingHere && (
                 <div className="h-full flex flex-col items-center justify-center text-center space-y-6 opacity-40">
                   <div className="w-20 h-20 rounded-full bg-indigo-500/10 flex items-center justify-center">
                      <Sparkles size={32} className="text-indigo-400" />
                   </div>
                   <div>
-                    <h5 className="text-sm font-bold uppercase tracking-widest mb-2">Ready for Inquiry</h5>
+                    <h5 className="text-sm font-bold uppercase tracking-widest mb-2">{t('assistant.ready')}</h5>
                     <p className="text-[10px] font-medium max-w-[240px] leading-relaxed">
-                      Analyze ward-specific pollution vectors, get forecast reasoning, or request mitigation strategies.
+                      {t('assistant.readyDetail')}
                     </p>
                   </div>
                   <div className="flex flex-wrap gap-2 justify-center max-w-[280px]">
-                     {["Why is AQI high?", "Mitigation Plan", "Tomorrow's Forecast", "Compare Wards"].map(q => (
+                     {[t('assistant.suggest.why'), t('assistant.suggest.worst'), t('assistant.suggest.forecast'), t('assistant.suggest.factories')].map(q => (
                        <button 
                          key={q} 
                          onClick={() => setQuery(q)}
@@ -131,24 +236,73 @@ const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, se
                 <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-[85%] px-5 py-4 rounded-3xl text-sm font-medium leading-relaxed ${
                     m.role === 'user' 
-                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20 rounded-tr-sm' 
-                      : 'bg-white/5 text-current border border-white/10 rounded-tl-sm'
+                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20 rounded-se-sm' 
+                      : 'bg-white/5 text-current border border-white/10 rounded-ss-sm'
                   }`}>
-                    {m.text}
+                    <span className="whitespace-pre-line">{m.text}</span>
+                    {m.citations.length > 0 && (
+                      <div className="mt-3">
+                        <button
+                          onClick={() => toggleCitation(String(i))}
+                          className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300 transition-colors"
+                        >
+                          <Database size={11} />
+                          {t('assistant.lookups', { count: m.citations.length })}
+                          <ChevronDown size={11} className={`transition-transform ${openCitations[i] ? 'rotate-180' : ''}`} />
+                        </button>
+                        {openCitations[i] && (
+                          <div className="mt-2 space-y-2">
+                            {m.citations.map((c, j) => (
+                              <div key={j} className="rounded-2xl bg-indigo-500/5 border border-indigo-500/10 px-3 py-2">
+                                <button onClick={() => toggleCitation(`${i}:${j}`)} className="w-full text-start">
+                                  <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[9px] font-black uppercase tracking-widest text-indigo-400">{toolLabel(c.tool)}</span>
+                                    <span className="text-[9px] font-mono opacity-40 truncate">{formatArgs(c.args)}</span>
+                                  </div>
+                                  <p className="text-[11px] opacity-70 mt-1 leading-snug">{c.summary}</p>
+                                </button>
+                                {openCitations[`${i}:${j}`] && (
+                                  <pre className="mt-2 max-h-40 overflow-auto text-[9px] font-mono opacity-50 whitespace-pre-wrap">{JSON.stringify(c.result, null, 2)}</pre>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {m.stopped && (
+                      <div className="mt-3 flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-amber-400/80">
+                        <Square size={10} />
+                        {t('assistant.stopped')}
+                      </div>
+                    )}
                     {m.role === 'model' && (
                        <div className="mt-3 pt-3 border-t border-white/10 flex items-center gap-2 opacity-50">
                           <ShieldCheck size={12} />
-                          <span className="text-[8px] font-black uppercase tracking-widest">AI Generated • Verify with CPCB</span>
+                          <span className="text-[8px] font-black uppercase tracking-widest">{t('assistant.disclaimer')}</span>
                        </div>
                     )}
                   </div>
                 </div>
               ))}
               
-              {isTyping && (
+              {pendingHere && pendingHere.text && (
                 <div className="flex justify-start">
-                  <div className="bg-white/5 px-6 py-4 rounded-3xl rounded-tl-sm border border-white/5 flex items-center gap-3">
-                    <div className="text-[10px] font-black uppercase tracking-widest opacity-40">Analysing</div>
+                  <div className="max-w-[85%] px-5 py-4 rounded-3xl rounded-ss-sm text-sm font-medium leading-relaxed bg-white/5 text-current border border-white/10">
+                    <span className="whitespace-pre-line">{pendingHere.text}</span>
+                    <motion.span
+                      animate={{ opacity: [0.2, 1, 0.2] }}
+                      transition={{ repeat: Infinity, duration: 1 }}
+                      className="inline-block w-1.5 h-3.5 ms-1 align-middle bg-indigo-400"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {pendingHere && !pendingHere.text && (
+                <div className="flex justify-start">
+                  <div className="bg-white/5 px-6 py-4 rounded-3xl rounded-ss-sm border border-white/5 flex items-center gap-3">
+                    <div className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('assistant.analysing')}</div>
                     <div className="flex gap-1">
                       {[0,1,2].map(d => (
                         <motion.div 
@@ -170,20 +324,30 @@ const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, se
                <div className="relative group">
                   <input 
                     type="text" 
-                    placeholder="Input command or query..."
-                    className="w-full bg-white/5 border border-white/10 rounded-2xl outline-none text-sm font-medium py-4 pl-5 pr-12 placeholder:opacity-30 focus:bg-white/10 focus:border-indigo-500/30 transition-all"
+                    placeholder={t('assistant.placeholder')}
+                    className="w-full bg-white/5 border border-white/10 rounded-2xl outline-none text-sm font-medium py-4 ps-5 pe-12 placeholder:opacity-30 focus:bg-white/10 focus:border-indigo-500/30 transition-all"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleSend()}
                     disabled={isTyping}
                   />
-                  <button 
-                    onClick={handleSend}
-                    disabled={!query.trim() || isTyping}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-xl bg-indigo-500 text-white opacity-0 group-focus-within:opacity-100 disabled:opacity-0 hover:bg-indigo-400 transition-all shadow-lg"
-                  >
-                    <Send size={16} />
-                  </button>
+                  {isTyping ? (
+                    <button
+                      onClick={handleStop}
+                      title={t('assistant.stop')}
+                      className="absolute end-2 top-1/2 -translate-y-1/2 p-2 rounded-xl bg-rose-500 text-white hover:bg-rose-400 transition-all shadow-lg"
+                    >
+                      <Square size={16} />
+                    </button>
+                  ) : (
+                    <button 
+                      onClick={handleSend}
+                      disabled={!query.trim()}
+                      className="absolute end-2 top-1/2 -translate-y-1/2 p-2 rounded-xl bg-indigo-500 text-white opacity-0 group-focus-within:opacity-100 disabled:opacity-0 hover:bg-indigo-400 transition-all shadow-lg"
+                    >
+                      <Send size={16} className="rtl:-scale-x-100" />
+                    </button>
+                  )}
                </div>
             </div>
           </motion.div>
@@ -194,17 +358,17 @@ const GeminiAssistant: React.FC<GeminiAssistantProps> = ({ currentAqi, theme, se
         whileHover={{ scale: 1.05 }}
         whileTap={{ scale: 0.95 }}
         onClick={toggleOpen}
-        className="group relative flex items-center gap-4 pl-6 pr-2 py-2 rounded-full glass border-white/10 hover:border-indigo-500/50 transition-all"
+        className="group relative flex items-center gap-4 ps-6 pe-2 py-2 rounded-full glass border-white/10 hover:border-indigo-500/50 transition-all"
       >
          <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap hidden md:block">
-            Launch Intelligence
+            {t('assistant.launch')}
          </span>
          <div className="w-14 h-14 rounded-full bg-indigo-600 text-white shadow-xl shadow-indigo-600/30 flex items-center justify-center relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-tr from-indigo-600 to-purple-500" />
             <BrainCircuit size={24} className="relative z-10" />
             {/* Ping animation for status */}
-            <span className="absolute top-3 right-3 w-2 h-2 rounded-full bg-emerald-400 animate-ping" />
-            <span className="absolute top-3 right-3 w-2 h-2 rounded-full bg-emerald-400 border border-indigo-600" />
+            <span className="absolute top-3 end-3 w-2 h-2 rounded-full bg-emerald-400 animate-ping" />
+            <span className="absolute top-3 end-3 w-2 h-2 rounded-full bg-emerald-400 border border-indigo-600" />
          </div>
       </motion.button>
     </div>
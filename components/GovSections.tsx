@@ -1,19 +1,62 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { DashboardTheme, GroundingChunk, DecisionMatrix } from '../types';
-import { ShieldCheck, Truck, Construction, Factory, Zap, Map, TrendingUp, Radio, ExternalLink, Siren, Gavel } from 'lucide-react';
-import { getLiveGovUpdates, runDecisionOrchestrator } from '../services/geminiService';
+import { DashboardTheme, GroundingChunk, DecisionMatrix, GrapStatus, GrapComplianceRecord, Ward } from '../types';
+import { ShieldCheck, ShieldAlert, Truck, Construction, Factory, Zap, Map, TrendingUp, Radio, ExternalLink, Siren, Gavel, History, CheckSquare, Square } from 'lucide-react';
+import { describeLlmError, getLiveGovUpdates, runDecisionOrchestrator } from '../services/geminiService';
+import { GRAP_STAGES, loadGrapState } from '../services/grap';
+import { GRAP_MEASURES } from '../data/grapMeasures';
+import { isImplemented, loadGrapCompliance, relevantWards, setMeasureImplemented, stageCompletion, zoneCompletion } from '../services/grapCompliance';
+import { MessageKey, formatDateTime, translate, useI18n } from '../services/i18n';
 
 interface GovSectionsProps {
   theme: DashboardTheme;
+  grap?: GrapStatus;
+  wards?: Ward[];
 }
 
-const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
+const ROMAN = ['0', 'I', 'II', 'III', 'IV'];
+
+const formatStamp = (t: number) =>
+  formatDateTime(t, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// 'Severe+' has no CPCB category of its own
+const levelLabel = (level: string) =>
+  level.endsWith('+') ? `${translate(`level.${level.slice(0, -1)}` as MessageKey)}+` : translate(`level.${level}` as MessageKey);
+
+const CompletionBar: React.FC<{ rate: number }> = ({ rate }) => (
+  <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
+    <div className={`h-full rounded-full ${rate >= 0.8 ? 'bg-emerald-500' : rate >= 0.4 ? 'bg-amber-500' : 'bg-rose-500'}`} style={{ width: `${Math.round(rate * 100)}%` }} />
+  </div>
+);
+
+const GovSections: React.FC<GovSectionsProps> = ({ theme, grap, wards = [] }) => {
   const [liveNews, setLiveNews] = useState<{ text: string, sources: GroundingChunk[] } | null>(null);
   const [decision, setDecision] = useState<DecisionMatrix | null>(null);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const isDark = theme === 'dark';
+  const { locale, t, formatNumber } = useI18n();
+  const activeStage = grap?.stage ?? 0;
+
+  // Most recent transitions first
+  const stageHistory = useMemo(() => [...loadGrapState().history].reverse().slice(0, 8), [grap]);
+
+  // Compliance checklist
+  const [compliance, setCompliance] = useState<GrapComplianceRecord>(loadGrapCompliance);
+  const [checklistStage, setChecklistStage] = useState(Math.max(activeStage, 1));
+  const zones = useMemo(() => [...new Set(wards.map(w => w.zone))].sort(), [wards]);
+  const [selectedZone, setSelectedZone] = useState<string | null>(null);
+  const zone = selectedZone && zones.includes(selectedZone) ? selectedZone : zones[0];
+  const zoneWards = useMemo(() => wards.filter(w => w.zone === zone), [wards, zone]);
+  const checklist = GRAP_MEASURES.filter(m => m.stage <= checklistStage);
+
+  useEffect(() => { setChecklistStage(Math.max(activeStage, 1)); }, [activeStage]);
+
+  const toggleMeasure = (measureId: string) => {
+    if (!zone) return;
+    setCompliance(setMeasureImplemented(zone, measureId, !isImplemented(compliance, zone, measureId)));
+  };
 
   useEffect(() => {
     const init = async () => {
@@ -24,14 +67,15 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
       ]);
       
       setLiveNews({
-        text: String(newsData.text || "Standard protocols active."),
+        text: String(newsData.text || t('gov.newsFallback')),
         sources: Array.isArray(newsData.sources) ? newsData.sources : []
       });
-      setDecision(decisionData);
+      if (decisionData.ok) setDecision(decisionData.data);
+      else setDecisionError(describeLlmError(decisionData.error));
       setLoading(false);
     };
     init();
-  }, []);
+  }, [locale]);
 
   return (
     <div className="max-w-7xl mx-auto px-12 md:px-32 space-y-40">
@@ -43,36 +87,36 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
             ? 'bg-rose-500/[0.05] border-rose-500/20' 
             : 'bg-indigo-500/[0.05] border-indigo-500/20'
         }`}>
-          <div className="absolute top-0 right-0 p-12 opacity-5"><Siren size={200} /></div>
+          <div className="absolute top-0 end-0 p-12 opacity-5"><Siren size={200} /></div>
           
           <div className="relative z-10">
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-8 mb-12">
               <div>
                  <h4 className={`text-[10px] font-black uppercase tracking-[0.4em] mb-4 ${
                    decision.escalationLevel === 'Emergency' ? 'text-rose-500' : 'text-indigo-500'
-                 }`}>Gemini Decision Orchestrator</h4>
-                 <h2 className="text-4xl font-black tracking-tight">Executive Action Matrix</h2>
+                 }`}>{t('gov.orchestrator')}</h4>
+                 <h2 className="text-4xl font-black tracking-tight">{t('gov.matrix')}</h2>
               </div>
               <div className={`px-8 py-3 rounded-full border-2 text-sm font-black uppercase tracking-widest ${
                  decision.escalationLevel === 'Emergency' || decision.escalationLevel === 'Lockdown'
                   ? 'border-rose-500 text-rose-500 bg-rose-500/10'
                   : 'border-indigo-500 text-indigo-500 bg-indigo-500/10'
               }`}>
-                {decision.escalationLevel} Protocol Active
+                {t('gov.protocol', { level: t(`gov.escalation.${decision.escalationLevel}` as MessageKey) })}
               </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
                <div className="glass p-8 rounded-[40px] border-white/5">
-                  <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">Systemic Risk Score</span>
-                  <div className="text-6xl font-black tabular-nums mb-2">{decision.overallRiskScore}/100</div>
+                  <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">{t('gov.riskScore')}</span>
+                  <div className="text-6xl font-black tabular-nums mb-2">{formatNumber(decision.overallRiskScore)}/{formatNumber(100)}</div>
                   <div className="h-2 w-full bg-white/10 rounded-full overflow-hidden">
                     <div className="h-full bg-current rounded-full" style={{ width: `${decision.overallRiskScore}%` }} />
                   </div>
                </div>
 
                <div className="lg:col-span-2 glass p-8 rounded-[40px] border-white/5 flex flex-col justify-center">
-                  <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">Recommended Escalation</span>
+                  <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">{t('gov.recommended')}</span>
                   <div className="text-2xl font-bold mb-4">{decision.recommendedAction}</div>
                   <p className="opacity-60 text-sm font-medium leading-relaxed">"{decision.reasoningSummary}"</p>
                </div>
@@ -82,18 +126,27 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
                {decision.affectedGroups.map((group, i) => (
                  <div key={i} className="px-4 py-2 rounded-xl bg-white/5 border border-white/5 flex items-center gap-3">
                     <ShieldCheck size={14} className="opacity-40" />
-                    <span className="text-[10px] font-bold uppercase tracking-widest opacity-60">{group} Impacted</span>
+                    <span className="text-[10px] font-bold uppercase tracking-widest opacity-60">{t('gov.impacted', { group })}</span>
                  </div>
                ))}
             </div>
           </div>
         </section>
       )}
+      {!decision && decisionError && (
+        <section className="glass rounded-[48px] p-10 border border-white/5 flex items-center gap-4">
+          <ShieldAlert size={20} className="text-rose-500" />
+          <div>
+            <span className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40 block mb-1">{t('gov.orchestratorUnavailable')}</span>
+            <p className="text-sm font-medium opacity-60">{decisionError}</p>
+          </div>
+        </section>
+      )}
 
       <section className={`rounded-[48px] p-12 overflow-hidden relative border ${isDark ? 'bg-indigo-500/[0.03] border-indigo-500/20' : 'bg-indigo-500/[0.01] border-indigo-500/10'}`}>
         <div className="flex items-center gap-3 mb-8">
           <Radio size={16} className="text-rose-500 animate-pulse" />
-          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-rose-500">Live Regulatory Intelligence</h4>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-rose-500">{t('gov.liveIntel')}</h4>
         </div>
         
         {loading ? (
@@ -104,7 +157,7 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
         ) : (
           <div className="space-y-8">
             <p className="text-2xl font-bold tracking-tight leading-tight max-w-4xl">
-              {String(liveNews?.text || "Telemetry online. Monitoring latest CAQM bulletins.")}
+              {String(liveNews?.text || t('gov.newsIdle'))}
             </p>
             {liveNews?.sources && liveNews.sources.length > 0 && (
               <div className="flex flex-wrap gap-4">
@@ -130,38 +183,167 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
 
       <section className="grid grid-cols-1 lg:grid-cols-2 gap-20">
         <div>
-          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-8">Intelligence Layer 01</h4>
-          <h2 className="text-5xl font-black tracking-tighter mb-8 leading-[0.9]">Government Air Quality Guidelines</h2>
-          <p className="opacity-40 text-lg max-w-lg leading-relaxed font-medium">Official protocols issued by the Commission for Air Quality Management (CAQM) under the Graded Response Action Plan (GRAP).</p>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-8">{t('gov.layer1')}</h4>
+          <h2 className="text-5xl font-black tracking-tighter mb-8 leading-[0.9]">{t('gov.guidelines.title')}</h2>
+          <p className="opacity-40 text-lg max-w-lg leading-relaxed font-medium">{t('gov.guidelines.body')}</p>
+
+          <div className={`mt-12 p-8 rounded-[32px] border ${activeStage > 0 ? 'border-rose-500/20 bg-rose-500/[0.04]' : isDark ? 'border-white/5 bg-white/[0.02]' : 'border-black/5 bg-black/[0.01]'}`}>
+            <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-3">{t('gov.currentStage')}</span>
+            <div className={`text-3xl font-black tracking-tight mb-2 ${activeStage > 0 ? 'text-rose-500' : ''}`}>{grap ? t(`grap.label.${grap.stage}` as MessageKey) : t('gov.awaiting')}</div>
+            {grap && (
+              <div className="text-[10px] font-bold uppercase tracking-widest opacity-40 space-y-1">
+                {grap.basis && <div>{grap.basis === 'forecast' ? t('gov.invokedForecast') : t('gov.invokedObserved')}{grap.since ? ` • ${t('gov.since', { time: formatStamp(grap.since) })}` : ''}</div>}
+                {grap.revocationDueAt && <div>{t('gov.revocation', { time: formatStamp(grap.revocationDueAt) })}</div>}
+                <div>{t('gov.measuresInForce', { count: grap.measures?.length ?? 0 })}</div>
+              </div>
+            )}
+          </div>
+
+          {stageHistory.length > 0 && (
+            <div className="mt-8">
+              <div className="flex items-center gap-2 mb-4 opacity-40">
+                <History size={12} />
+                <span className="text-[9px] font-black uppercase tracking-widest">{t('gov.history')}</span>
+              </div>
+              <div className="space-y-2">
+                {stageHistory.map(h => (
+                  <div key={h.at} className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest">
+                    <span className="opacity-60">{t('gov.transition', { from: ROMAN[h.from], to: ROMAN[h.to] })}</span>
+                    <span className="opacity-30">
+                      {h.basis === 'forecast' ? t('gov.history.forecast', { aqi: h.aqi, hours: h.leadHours ?? 0 }) : h.basis === 'revocation' ? t('gov.history.revoked', { aqi: h.aqi }) : t('gov.history.observed', { aqi: h.aqi })} • {formatStamp(h.at)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          {[
-            { stage: "Stage 1", level: "Poor", desc: "Thermal power plants monitored, construction dust mitigation enforced." },
-            { stage: "Stage 2", level: "Very Poor", desc: "Diesel generator use restricted, coal/firewood burning prohibited." },
-            { stage: "Stage 3", level: "Severe", desc: "All non-essential construction halted, brick kilns suspended." },
-            { stage: "Stage 4", level: "Severe+", desc: "Truck entry restricted, odd-even rules, school closures active." }
-          ].map((item, i) => (
-            <div key={i} className={`p-8 rounded-[32px] border ${isDark ? 'bg-white/[0.02] border-white/5' : 'bg-black/[0.01] border-black/5'}`}>
-              <div className="flex justify-between items-baseline mb-4">
-                <span className="text-[10px] font-black uppercase tracking-widest text-rose-500">{String(item.stage)}</span>
-                <span className="text-[10px] font-bold opacity-30">{String(item.level)}</span>
+          {GRAP_STAGES.map(item => {
+            const inForce = item.stage <= activeStage;
+            return (
+              <div key={item.stage} className={`p-8 rounded-[32px] border ${inForce ? 'border-rose-500/30 bg-rose-500/[0.04]' : isDark ? 'bg-white/[0.02] border-white/5' : 'bg-black/[0.01] border-black/5'}`}>
+                <div className="flex justify-between items-baseline mb-2">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-rose-500">{t('gov.stage', { stage: ROMAN[item.stage] })}</span>
+                  <span className="text-[10px] font-bold opacity-30">{t('gov.threshold', { level: levelLabel(item.level), threshold: item.threshold })}</span>
+                </div>
+                <div className="text-[9px] font-black uppercase tracking-widest opacity-30 mb-4">
+                  {inForce ? t('gov.inForce') : t('gov.leadTime', { hours: item.leadHours })}
+                </div>
+                <ul className="space-y-2">
+                  {GRAP_MEASURES.filter(m => m.stage === item.stage).map(m => (
+                    <li key={m.id} className="text-xs opacity-60 font-medium leading-relaxed">{t(`grap.measure.${m.id}` as MessageKey)}</li>
+                  ))}
+                </ul>
+                {item.stage > 1 && (
+                  <p className="text-[9px] font-black uppercase tracking-widest opacity-20 mt-4">{t('gov.cumulative', { stage: ROMAN[item.stage - 1] })}</p>
+                )}
               </div>
-              <p className="text-xs opacity-60 font-medium leading-relaxed">{String(item.desc)}</p>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </section>
 
+      {zones.length > 0 && (
+        <section>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-8 mb-12">
+            <div>
+              <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-8">{t('gov.checklist.kicker')}</h4>
+              <h2 className="text-5xl font-black tracking-tighter leading-[0.9]">{t('gov.checklist.title')}</h2>
+            </div>
+            <div className={`p-1.5 rounded-2xl border flex items-center gap-1 ${isDark ? 'border-white/10' : 'border-black/10'}`}>
+              {GRAP_STAGES.map(s => (
+                <button
+                  key={s.stage}
+                  onClick={() => setChecklistStage(s.stage)}
+                  className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${checklistStage === s.stage ? 'bg-rose-500 text-white' : 'opacity-40 hover:opacity-100'}`}
+                >
+                  {t('gov.stage', { stage: ROMAN[s.stage] })}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Stage rollup across every zone */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-12">
+            {GRAP_STAGES.map(s => {
+              const c = stageCompletion(compliance, zones, s.stage);
+              return (
+                <div key={s.stage} className={`p-6 rounded-[28px] border ${s.stage <= activeStage ? 'border-rose-500/20' : isDark ? 'border-white/5' : 'border-black/5'}`}>
+                  <div className="flex justify-between items-baseline mb-3">
+                    <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('gov.stage', { stage: ROMAN[s.stage] })}</span>
+                    <span className="text-xl font-black tabular-nums">{formatNumber(c.rate, { style: 'percent', maximumFractionDigits: 0 })}</span>
+                  </div>
+                  <CompletionBar rate={c.rate} />
+                  <span className="text-[9px] font-bold uppercase tracking-widest opacity-30 block mt-3">{t('gov.acrossZones', { implemented: c.implemented, total: c.total, zones: zones.length })}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+            {/* Zone rollup for the selected stage */}
+            <div className={`p-8 rounded-[40px] border space-y-3 ${isDark ? 'bg-white/[0.02] border-white/5' : 'bg-black/[0.01] border-black/5'}`}>
+              <span className="text-[9px] font-black uppercase tracking-widest opacity-40 block mb-4">{t('gov.zonesUpTo', { stage: ROMAN[checklistStage] })}</span>
+              {zones.map(z => {
+                const c = zoneCompletion(compliance, z, checklistStage);
+                return (
+                  <button
+                    key={z}
+                    onClick={() => setSelectedZone(z)}
+                    className={`w-full text-start p-3 rounded-2xl transition-all ${z === zone ? (isDark ? 'bg-white/10' : 'bg-black/5') : 'hover:bg-white/5'}`}
+                  >
+                    <div className="flex justify-between items-baseline mb-2">
+                      <span className="text-[10px] font-black uppercase tracking-widest">{z}</span>
+                      <span className="text-[10px] font-bold tabular-nums opacity-40">{formatNumber(c.implemented)}/{formatNumber(c.total)}</span>
+                    </div>
+                    <CompletionBar rate={c.rate} />
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Measures in force for the selected zone */}
+            <div className="lg:col-span-2 space-y-3">
+              {checklist.map(m => {
+                const done = isImplemented(compliance, zone, m.id);
+                const relevant = relevantWards(m, zoneWards).length;
+                return (
+                  <button
+                    key={m.id}
+                    onClick={() => toggleMeasure(m.id)}
+                    className={`w-full text-start p-5 rounded-[24px] border flex items-start gap-4 transition-all ${done ? 'border-emerald-500/30 bg-emerald-500/[0.04]' : isDark ? 'border-white/5 hover:bg-white/[0.03]' : 'border-black/5 hover:bg-black/[0.02]'}`}
+                  >
+                    {done ? <CheckSquare size={18} className="text-emerald-500 shrink-0 mt-0.5" /> : <Square size={18} className="opacity-30 shrink-0 mt-0.5" />}
+                    <div className="flex-1">
+                      <div className={`text-sm font-bold leading-snug mb-2 ${done ? '' : 'opacity-70'}`}>{t(`grap.measure.${m.id}` as MessageKey)}</div>
+                      <div className="flex flex-wrap items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                        <span className="text-rose-500">{t('gov.stage', { stage: ROMAN[m.stage] })}</span>
+                        <span className="opacity-40">{m.agency}</span>
+                        {m.sectors.map(s => (
+                          <span key={s} className={`px-2 py-0.5 rounded-full border ${isDark ? 'border-white/10' : 'border-black/10'} opacity-50`}>{t(`grap.sector.${s}` as MessageKey)}</span>
+                        ))}
+                        <span className="opacity-30">{m.wardRelevance === 'all' ? t('gov.citywide') : t('gov.wardsRelevant', { relevant, total: zoneWards.length })}</span>
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </section>
+      )}
+
       <section>
         <div className="text-center mb-20">
-          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] opacity-30 mb-8">Intelligence Layer 02</h4>
-          <h2 className="text-5xl font-black tracking-tighter mb-8">Active Enforcement Status</h2>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] opacity-30 mb-8">{t('gov.layer2')}</h4>
+          <h2 className="text-5xl font-black tracking-tighter mb-8">{t('gov.enforcement')}</h2>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-10">
           {[
-            { icon: Truck, label: "Traffic Regulation", status: "Active", detail: "Ban on BS-III Petrol & BS-IV Diesel vehicles in specified zones." },
-            { icon: Construction, label: "Dust Suppression", status: "Active", detail: "24/7 water sprinkling and mechanized sweeping on high-density corridors." },
-            { icon: Factory, label: "Industrial Control", status: "Planned", detail: "Transition of manufacturing units to PNG/Clean-Fuel grid." }
+            { icon: Truck, label: t('gov.enforcement.traffic'), active: true, detail: t('gov.enforcement.traffic.detail') },
+            { icon: Construction, label: t('gov.enforcement.dust'), active: true, detail: t('gov.enforcement.dust.detail') },
+            { icon: Factory, label: t('gov.enforcement.industry'), active: false, detail: t('gov.enforcement.industry.detail') }
           ].map((action, i) => {
             const Icon = action.icon;
             return (
@@ -171,8 +353,8 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
                 </div>
                 <h3 className="text-2xl font-bold mb-4">{String(action.label)}</h3>
                 <p className="text-sm opacity-40 mb-10 leading-relaxed font-medium">{String(action.detail)}</p>
-                <span className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border ${action.status === 'Active' ? 'text-emerald-500 border-emerald-500/20' : 'text-indigo-500 border-indigo-500/20'}`}>
-                  {String(action.status)}
+                <span className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border ${action.active ? 'text-emerald-500 border-emerald-500/20' : 'text-indigo-500 border-indigo-500/20'}`}>
+                  {action.active ? t('gov.status.active') : t('gov.status.planned')}
                 </span>
               </div>
             );
@@ -183,14 +365,14 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
       <section className={`rounded-[64px] p-20 overflow-hidden relative ${isDark ? 'bg-white/[0.02]' : 'bg-black/[0.02]'}`}>
         <div className="relative z-10 flex flex-col lg:flex-row gap-20 items-center">
           <div className="lg:w-1/2">
-            <h4 className="text-[10px] font-black uppercase tracking-[0.4em] opacity-30 mb-8">Intelligence Layer 03</h4>
-            <h2 className="text-5xl font-black tracking-tighter mb-8 leading-[0.95]">Strategic Action Plan</h2>
-            <p className="opacity-40 text-lg leading-relaxed font-medium mb-12">The 2025-2030 roadmap focused on structural decarbonization.</p>
+            <h4 className="text-[10px] font-black uppercase tracking-[0.4em] opacity-30 mb-8">{t('gov.layer3')}</h4>
+            <h2 className="text-5xl font-black tracking-tighter mb-8 leading-[0.95]">{t('gov.plan.title')}</h2>
+            <p className="opacity-40 text-lg leading-relaxed font-medium mb-12">{t('gov.plan.body')}</p>
             <div className="space-y-6">
               {[
-                "Accelerated EV transition for commercial fleets.",
-                "Completion of 33% green buffer zone.",
-                "Real-time micro-sensor deployment."
+                t('gov.plan.ev'),
+                t('gov.plan.green'),
+                t('gov.plan.sensors')
               ].map((text, i) => (
                 <div key={i} className="flex items-center gap-4">
                   <ShieldCheck size={18} className="text-emerald-500 opacity-50" />
@@ -201,10 +383,10 @@ const GovSections: React.FC<GovSectionsProps> = ({ theme }) => {
           </div>
           <div className="lg:w-1/2 grid grid-cols-2 gap-8">
             {[
-              { label: "Public Transport", val: "+2k EVs", icon: Zap },
-              { label: "New Sensors", val: "500+", icon: Map },
-              { label: "Green Cover", val: "+12%", icon: TrendingUp },
-              { label: "Target AQI", val: "-40%", icon: ShieldCheck }
+              { label: t('gov.stat.transport'), val: t('gov.stat.evs', { count: formatNumber(2000, { notation: 'compact' }) }), icon: Zap },
+              { label: t('gov.stat.sensors'), val: `${formatNumber(500)}+`, icon: Map },
+              { label: t('gov.stat.green'), val: `+${formatNumber(12)}%`, icon: TrendingUp },
+              { label: t('gov.stat.target'), val: `-${formatNumber(40)}%`, icon: ShieldCheck }
             ].map((stat, i) => {
               const Icon = stat.icon;
               return (
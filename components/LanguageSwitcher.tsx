@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Languages, Check } from 'lucide-react';
+import { LOCALES, setLocale, useI18n } from '../services/i18n';
+
+const LanguageSwitcher: React.FC<{ isDark: boolean }> = ({ isDark }) => {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('common.language')}
+        className="h-12 px-4 rounded-2xl glass flex items-center gap-2 hover:scale-105 transition-transform border-white/5"
+      >
+        <Languages size={16} />
+        <span className="text-[11px] font-bold">{LOCALES.find(l => l.id === locale)?.name}</span>
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className={`absolute top-14 end-0 w-48 p-2 rounded-2xl border shadow-2xl backdrop-blur-3xl z-[100] ${isDark ? 'bg-black/90 border-white/10' : 'bg-white/90 border-black/10'}`}
+          >
+            {LOCALES.map(l => (
+              <button
+                key={l.id}
+                lang={l.id}
+                dir={l.dir}
+                onClick={() => { setLocale(l.id); setOpen(false); }}
+                className={`w-full flex items-center justify-between gap-3 px-4 py-3 rounded-xl text-sm font-bold transition-colors ${isDark ? 'hover:bg-white/10' : 'hover:bg-black/5'} ${l.id === locale ? 'text-indigo-400' : ''}`}
+              >
+                <span>{l.name}</span>
+                {l.id === locale ? <Check size={14} /> : <span className="text-[9px] font-black uppercase opacity-30" lang="en">{l.englishName}</span>}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -1,7 +1,15 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { DashboardTheme } from '../types';
+import { AQILevel, DashboardTheme } from '../types';
+import { getStatusFromAQI } from '../services/aqiCategories';
+
+// Dark-mode mood tint: red for very poor and worse, orange for poor
+const DARK_TINTS: Partial<Record<AQILevel, string>> = {
+  [AQILevel.POOR]: '#0a0705',
+  [AQILevel.VERY_POOR]: '#120505',
+  [AQILevel.SEVERE]: '#120505'
+};
 
 interface MeshBackgroundProps {
   theme: DashboardTheme;
@@ -13,11 +21,7 @@ const MeshBackground: React.FC<MeshBackgroundProps> = ({ theme, aqi }) => {
   
   const getColors = () => {
     // If Dark Mode: Focus on deep blacks and subtle mood tones
-    if (isDark) {
-      if (aqi > 300) return ['#120505', '#000000']; // Subtle red tint for hazardous
-      if (aqi > 200) return ['#0a0705', '#000000']; // Subtle orange tint for poor
-      return ['#050505', '#000000']; // Neutral deep black
-    }
+    if (isDark) return [DARK_TINTS[getStatusFromAQI(aqi)] ?? '#050505', '#000000'];
     // If Light Mode: Apple-style grey/white
     return ['#fbfbfd', '#f5f5f7'];
   };
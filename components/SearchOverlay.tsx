@@ -3,6 +3,7 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Search, X, MapPin, Hash, Building2, ChevronRight } from 'lucide-react';
 import { Ward } from '../types';
+import { useI18n } from '../services/i18n';
 
 interface SearchOverlayProps {
   onClose: () => void;
@@ -13,6 +14,7 @@ interface SearchOverlayProps {
 const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose, onSelect, wards }) => {
   const [query, setQuery] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
 
   useEffect(() => {
     inputRef.current?.focus();
@@ -44,11 +46,11 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose, onSelect, wards
         onClick={e => e.stopPropagation()}
       >
         <div className="flex items-center px-8 py-6 border-b border-white/10">
-          <Search size={20} className="opacity-20 mr-4" />
+          <Search size={20} className="opacity-20 me-4" />
           <input 
             ref={inputRef}
             type="text" 
-            placeholder="Search 274 Wards or Zones..."
+            placeholder={t('search.placeholder')}
             className="flex-1 bg-transparent border-none outline-none text-lg font-medium placeholder:opacity-20 text-white"
             value={query}
             onChange={e => setQuery(e.target.value)}
@@ -61,12 +63,12 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose, onSelect, wards
         <div className="flex-1 max-h-[60vh] overflow-y-auto no-scrollbar p-4">
           {results.length > 0 ? (
             <div className="space-y-2">
-              <span className="px-4 text-[9px] font-black uppercase tracking-widest opacity-20">Spatial Intelligence Results</span>
+              <span className="px-4 text-[9px] font-black uppercase tracking-widest opacity-20">{t('search.results')}</span>
               {results.map((ward) => (
                 <button
                   key={ward.id}
                   onClick={() => onSelect(ward)}
-                  className="w-full flex items-center justify-between px-6 py-4 rounded-2xl hover:bg-white/5 transition-all group text-left"
+                  className="w-full flex items-center justify-between px-6 py-4 rounded-2xl hover:bg-white/5 transition-all group text-start"
                 >
                   <div className="flex items-center gap-4">
                     <div className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center opacity-40">
@@ -78,11 +80,11 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose, onSelect, wards
                     </div>
                   </div>
                   <div className="flex items-center gap-6">
-                    <div className="text-right">
+                    <div className="text-end">
                        <span className="text-xl font-black tracking-tighter block tabular-nums">{Number(ward.aqi)}</span>
-                       <span className="text-[8px] font-black uppercase opacity-20">AQI</span>
+                       <span className="text-[8px] font-black uppercase opacity-20">{t('common.aqi')}</span>
                     </div>
-                    <ChevronRight size={14} className="opacity-0 group-hover:opacity-40 transition-opacity" />
+                    <ChevronRight size={14} className="rtl:rotate-180 opacity-0 group-hover:opacity-40 transition-opacity" />
                   </div>
                 </button>
               ))}
@@ -90,22 +92,22 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose, onSelect, wards
           ) : query.length >= 2 ? (
             <div className="py-20 text-center opacity-20">
                <Building2 size={40} className="mx-auto mb-4" />
-               <p className="text-sm font-bold uppercase tracking-widest">No matching sectors identified</p>
+               <p className="text-sm font-bold uppercase tracking-widest">{t('search.none')}</p>
             </div>
           ) : (
             <div className="py-20 text-center opacity-20">
                <Hash size={40} className="mx-auto mb-4" />
-               <p className="text-sm font-bold uppercase tracking-widest">Type to search the NCT registry</p>
+               <p className="text-sm font-bold uppercase tracking-widest">{t('search.prompt')}</p>
             </div>
           )}
         </div>
 
         <div className="px-8 py-4 bg-white/[0.02] border-t border-white/5 flex items-center gap-6 opacity-30">
           <div className="flex items-center gap-2 text-[9px] font-black uppercase">
-            <span className="px-1.5 py-0.5 rounded bg-white/10">↑↓</span> <span>Navigate</span>
+            <span className="px-1.5 py-0.5 rounded bg-white/10">↑↓</span> <span>{t('search.navigate')}</span>
           </div>
           <div className="flex items-center gap-2 text-[9px] font-black uppercase">
-            <span className="px-1.5 py-0.5 rounded bg-white/10">↵</span> <span>Select</span>
+            <span className="px-1.5 py-0.5 rounded bg-white/10">↵</span> <span>{t('search.select')}</span>
           </div>
         </div>
       </motion.div>
@@ -12,7 +12,9 @@ import {
   Share2,
   Info
 } from 'lucide-react';
-import { SourceAttribution, DashboardTheme } from '../types';
+import { SourceAttribution, DashboardTheme, WardSourceKey } from '../types';
+import { useI18n } from '../services/i18n';
+import { SOURCE_LABELS } from '../services/sourceApportionment';
 
 interface SourceAttributionCardProps {
   attribution: SourceAttribution;
@@ -21,6 +23,13 @@ interface SourceAttributionCardProps {
 
 const SourceAttributionCard: React.FC<SourceAttributionCardProps> = ({ attribution, theme }) => {
   const isDark = theme === 'dark';
+  const { t } = useI18n();
+
+  // Receptor-model labels have translations; free-form labels are shown as given
+  const sourceLabel = (label: string) => {
+    const sector = (Object.keys(SOURCE_LABELS) as WardSourceKey[]).find(k => SOURCE_LABELS[k] === label);
+    return sector ? t(`source.${sector}`) : label;
+  };
 
   const getSourceIcon = (type: string) => {
     switch (type) {
@@ -41,7 +50,7 @@ const SourceAttributionCard: React.FC<SourceAttributionCardProps> = ({ attributi
         isDark ? 'bg-white/[0.03] border-white/5 shadow-2xl' : 'bg-black/[0.02] border-black/5 shadow-xl'
       }`}
     >
-      <div className="absolute top-0 right-0 p-10 opacity-5 group-hover:opacity-10 transition-opacity">
+      <div className="absolute top-0 end-0 p-10 opacity-5 group-hover:opacity-10 transition-opacity">
         <Zap size={100} />
       </div>
 
@@ -51,11 +60,11 @@ const SourceAttributionCard: React.FC<SourceAttributionCardProps> = ({ attributi
             <ShieldCheck size={24} />
           </div>
           <div>
-            <h4 className="text-[11px] font-black uppercase tracking-[0.4em] text-indigo-400">Source Intelligence Node</h4>
+            <h4 className="text-[11px] font-black uppercase tracking-[0.4em] text-indigo-400">{t('attribution.title')}</h4>
             <div className="flex items-center gap-2 mt-1">
-               <span className="text-[9px] font-bold opacity-30 uppercase tracking-widest">Confidence: {attribution.confidenceScore}%</span>
+               <span className="text-[9px] font-bold opacity-30 uppercase tracking-widest">{t('attribution.confidence', { value: attribution.confidenceScore })}</span>
                <div className="w-1 h-1 rounded-full bg-indigo-500/40" />
-               <span className="text-[9px] font-bold opacity-30 uppercase tracking-widest">AtmosModel v3.1</span>
+               <span className="text-[9px] font-bold opacity-30 uppercase tracking-widest">{t('attribution.model')}{attribution.narratedBy === 'llm' ? t('attribution.narrated') : ''}</span>
             </div>
           </div>
         </div>
@@ -67,26 +76,26 @@ const SourceAttributionCard: React.FC<SourceAttributionCardProps> = ({ attributi
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
         <div className="space-y-10">
           <div className="p-8 rounded-[32px] bg-white/5 border border-white/5">
-             <span className="text-[9px] font-black uppercase tracking-widest opacity-20 block mb-4">Dominant Vector</span>
+             <span className="text-[9px] font-black uppercase tracking-widest opacity-20 block mb-4">{t('attribution.dominant')}</span>
              <div className="flex items-center gap-6">
                 <div className="w-14 h-14 rounded-2xl bg-indigo-600/20 flex items-center justify-center text-indigo-400 border border-indigo-500/20">
                   {getSourceIcon(attribution.dominantSource.type)}
                 </div>
                 <div>
-                   <h3 className="text-3xl font-black tracking-tight leading-none uppercase">{attribution.dominantSource.label}</h3>
+                   <h3 className="text-3xl font-black tracking-tight leading-none uppercase">{sourceLabel(attribution.dominantSource.label)}</h3>
                    <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mt-2 block">
-                     Attribution Certainty: {attribution.dominantSource.confidence}%
+                     {t('attribution.certainty', { value: attribution.dominantSource.confidence })}
                    </span>
                 </div>
              </div>
           </div>
 
           <div className="space-y-6">
-             <span className="text-[9px] font-black uppercase tracking-widest opacity-20 block">Secondary Contributions</span>
+             <span className="text-[9px] font-black uppercase tracking-widest opacity-20 block">{t('attribution.secondary')}</span>
              {attribution.secondarySources.map((source, i) => (
                <div key={i} className="space-y-2">
                  <div className="flex justify-between items-end">
-                    <span className="text-xs font-bold opacity-60 uppercase tracking-tight">{source.label}</span>
+                    <span className="text-xs font-bold opacity-60 uppercase tracking-tight">{sourceLabel(source.label)}</span>
                     <span className="text-[10px] font-black opacity-40">{source.weight}%</span>
                  </div>
                  <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
@@ -106,7 +115,7 @@ const SourceAttributionCard: React.FC<SourceAttributionCardProps> = ({ attributi
            <div className="p-8 rounded-[32px] border border-white/5 flex-1">
               <div className="flex items-center gap-3 mb-6">
                  <Info size={16} className="opacity-20" />
-                 <span className="text-[9px] font-black uppercase tracking-widest opacity-40">Logical Derivation</span>
+                 <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('attribution.derivation')}</span>
               </div>
               <ul className="space-y-4">
                  {attribution.reasoning.map((reason, i) => (
@@ -119,7 +128,7 @@ const SourceAttributionCard: React.FC<SourceAttributionCardProps> = ({ attributi
 
            <div className={`p-8 rounded-[32px] border ${isDark ? 'bg-indigo-500/10 border-indigo-500/20' : 'bg-indigo-500/5 border-indigo-500/10'}`}>
               <div className="flex items-center justify-between mb-4">
-                 <span className="text-[9px] font-black uppercase tracking-widest opacity-40">Intelligence Snippet</span>
+                 <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('attribution.snippet')}</span>
                  <Share2 size={12} className="opacity-20" />
               </div>
               <p className="text-lg font-black tracking-tight leading-tight italic opacity-80">
@@ -1,7 +1,9 @@
 
 import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Ward, AQILevel } from '../types';
+import { Ward } from '../types';
+import { getAQIColor } from '../services/aqiCategories';
+import { useI18n } from '../services/i18n';
 
 interface SpatialNodesProps {
   wards: Ward[];
@@ -12,6 +14,7 @@ interface SpatialNodesProps {
 
 const SpatialNodes: React.FC<SpatialNodesProps> = ({ wards, simulationHour, onSelect, theme }) => {
   const isDark = theme === 'dark';
+  const { t } = useI18n();
 
   // We generate a "pseudo-spatial" grid for all 274 wards
   const nodes = useMemo(() => {
@@ -25,10 +28,7 @@ const SpatialNodes: React.FC<SpatialNodesProps> = ({ wards, simulationHour, onSe
       const shift = Math.sin(simulationHour / 4 + i) * 30;
       const currentAqi = Math.max(10, Math.round(w.aqi + shift));
       
-      let color = '#34c759'; // Good
-      if (currentAqi > 300) color = '#ff3b30'; // Hazardous
-      else if (currentAqi > 200) color = '#ff9500'; // Poor
-      else if (currentAqi > 100) color = '#ffcc00'; // Moderate
+      const color = getAQIColor(currentAqi);
 
       return { ...w, x, y, currentAqi, color };
     });
@@ -64,19 +64,19 @@ const SpatialNodes: React.FC<SpatialNodesProps> = ({ wards, simulationHour, onSe
       </div>
 
       <div className="absolute bottom-10 left-10 flex flex-col gap-2">
-         <span className="text-[10px] font-black uppercase tracking-[0.4em] opacity-30">NCT Spatial Cloud</span>
+         <span className="text-[10px] font-black uppercase tracking-[0.4em] opacity-30">{t('nodes.cloud')}</span>
          <div className="flex gap-4">
             <div className="flex items-center gap-2">
               <div className="w-1.5 h-1.5 rounded-full bg-[#34c759]" />
-              <span className="text-[8px] font-bold opacity-30 uppercase">Nominal</span>
+              <span className="text-[8px] font-bold opacity-30 uppercase">{t('nodes.nominal')}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-1.5 h-1.5 rounded-full bg-[#ffcc00]" />
-              <span className="text-[8px] font-bold opacity-30 uppercase">Elevated</span>
+              <span className="text-[8px] font-bold opacity-30 uppercase">{t('nodes.elevated')}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-1.5 h-1.5 rounded-full bg-[#ff3b30]" />
-              <span className="text-[8px] font-bold opacity-30 uppercase">Critical</span>
+              <span className="text-[8px] font-bold opacity-30 uppercase">{t('nodes.critical')}</span>
             </div>
          </div>
       </div>
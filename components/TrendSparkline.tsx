@@ -1,16 +1,22 @@
 
 import React from 'react';
 import { LineChart, Line, ResponsiveContainer } from 'recharts';
+import { useI18n } from '../services/i18n';
 
 interface TrendSparklineProps {
   color: string;
+  data: { aqi: number }[];
 }
 
-const TrendSparkline: React.FC<TrendSparklineProps> = ({ color }) => {
-  // Generate random trend data
-  const data = Array.from({ length: 12 }).map((_, i) => ({
-    value: Math.floor(Math.random() * 100) + 150
-  }));
+const TrendSparkline: React.FC<TrendSparklineProps> = ({ color, data }) => {
+  const { t } = useI18n();
+  if (data.length < 2) {
+    return (
+      <div className="w-full h-12 flex items-center justify-center opacity-20">
+        <span className="text-[8px] font-black uppercase tracking-widest">{t('sparkline.collecting')}</span>
+      </div>
+    );
+  }
 
   return (
     <div className="w-full h-12 opacity-50 group-hover:opacity-100 transition-opacity">
@@ -18,7 +24,7 @@ const TrendSparkline: React.FC<TrendSparklineProps> = ({ color }) => {
         <LineChart data={data}>
           <Line 
             type="monotone" 
-            dataKey="value" 
+            dataKey="aqi" 
             stroke={color} 
             strokeWidth={2} 
             dot={false} 
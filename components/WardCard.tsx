@@ -1,9 +1,12 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Ward, AQILevel, DashboardTheme } from '../types';
+import { Ward, DashboardTheme } from '../types';
 import { Activity, ArrowUpRight, ShieldCheck } from 'lucide-react';
 import TrendSparkline from './TrendSparkline';
+import { getCategoryByLevel } from '../services/aqiCategories';
+import { useI18n } from '../services/i18n';
+import { dominantSector } from '../services/sourceApportionment';
 
 interface WardCardProps {
   ward: Ward;
@@ -15,19 +18,9 @@ interface WardCardProps {
 const appleBezier = [0.25, 1, 0.5, 1];
 
 const WardCard: React.FC<WardCardProps> = ({ ward, onClick, index, theme }) => {
-  const getStatusColor = (status: AQILevel) => {
-    switch (status) {
-      case AQILevel.HAZARDOUS: return '#af0000';
-      case AQILevel.SEVERE: return '#ff3b30';
-      case AQILevel.POOR: return '#ff9500';
-      case AQILevel.MODERATE: return '#ffcc00';
-      case AQILevel.GOOD: return '#34c759';
-      default: return '#8e8e93';
-    }
-  };
-
-  const statusColor = getStatusColor(ward.status);
+  const statusColor = getCategoryByLevel(ward.status).color;
   const isDark = theme === 'dark';
+  const { t } = useI18n();
 
   return (
     <motion.div
@@ -64,7 +57,7 @@ const WardCard: React.FC<WardCardProps> = ({ ward, onClick, index, theme }) => {
       <div className="relative z-10">
         <div className="flex items-center gap-4 mb-10 opacity-30 group-hover:opacity-100 transition-opacity duration-500">
           <ShieldCheck size={14} className="text-indigo-400" />
-          <span className="text-[9px] font-black uppercase tracking-[0.4em]">Sector Registry Node ${ward.id}</span>
+          <span className="text-[9px] font-black uppercase tracking-[0.4em]">{t('wardCard.node', { id: ward.id })}</span>
           <div className={`h-[1px] flex-1 ${isDark ? 'bg-white/10' : 'bg-black/10'}`} />
         </div>
         
@@ -78,13 +71,13 @@ const WardCard: React.FC<WardCardProps> = ({ ward, onClick, index, theme }) => {
         <div className="flex items-center gap-3">
           <div className="w-1.5 h-1.5 rounded-full animate-pulse" style={{ backgroundColor: statusColor }} />
           <span className="text-[10px] font-black uppercase tracking-[0.3em]" style={{ color: statusColor }}>
-            {ward.status} PHASE
+            {t('app.hero.phase', { level: t(`level.${ward.status}`) })}
           </span>
         </div>
       </div>
 
       <div className="relative z-10 my-8 opacity-40 group-hover:opacity-100 transition-all duration-1000 transform group-hover:scale-[1.05]">
-        <TrendSparkline color={statusColor} />
+        <TrendSparkline color={statusColor} data={ward.history.hourly} />
       </div>
 
       <div className={`relative z-10 flex items-end justify-between pt-10 border-t ${isDark ? 'border-white/10' : 'border-black/10'}`}>
@@ -95,15 +88,15 @@ const WardCard: React.FC<WardCardProps> = ({ ward, onClick, index, theme }) => {
           >
             {ward.aqi}
           </motion.div>
-          <span className="text-[9px] font-black uppercase tracking-[0.4em] opacity-20 mt-4 group-hover:opacity-50 transition-opacity">Response Index</span>
+          <span className="text-[9px] font-black uppercase tracking-[0.4em] opacity-20 mt-4 group-hover:opacity-50 transition-opacity">{t('ring.responseIndex')}</span>
         </div>
         
-        <div className="text-right flex flex-col items-end gap-3 opacity-40 group-hover:opacity-100 transition-opacity">
+        <div className="text-end flex flex-col items-end gap-3 opacity-40 group-hover:opacity-100 transition-opacity">
           <div className={`flex items-center gap-3 px-4 py-1.5 rounded-full border ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}>
-            <Activity size={10} className="animate-pulse" />
-            <span className="text-[9px] font-black uppercase tracking-widest">Live Telemetry</span>
+            <Activity size={10} className={ward.estimated ? '' : 'animate-pulse'} />
+            <span className="text-[9px] font-black uppercase tracking-widest">{t(ward.estimated ? 'wardCard.estimated' : 'wardCard.live')}</span>
           </div>
-          <p className="text-[9px] font-black uppercase tracking-widest opacity-40">{ward.primarySource}</p>
+          <p className="text-[9px] font-black uppercase tracking-widest opacity-40">{t(`source.${dominantSector(ward.breakdown)}`)}</p>
         </div>
       </div>
 
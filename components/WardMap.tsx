@@ -1,10 +1,21 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { MapContainer, TileLayer, GeoJSON, CircleMarker, Tooltip } from 'react-leaflet';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Camera, Crosshair, Zap, ShieldAlert } from 'lucide-react';
-import { Ward, Station, AppView } from '../types';
-import { fetchRealTimeStations, interpolateWardAQI, getStatusFromAQI } from '../services/aqiService';
+import { Ward, Station, AppView, InterpolationMethod, InterpolationResult, DataFreshness, ForecastHour, WeatherObservation } from '../types';
+import { fetchStationsWithFreshness, interpolateWardAQI, getStatusFromAQI } from '../services/aqiService';
+import { AQI_CATEGORIES, getAQIColor } from '../services/aqiCategories';
+import { passesQc } from '../services/stationQc';
+import { fitVariogram, krigeInterpolate } from '../services/kriging';
+import { wardAreaKm2, wardCentroid, findWardAt } from '../services/wardGeometry';
+import { loadWardGeoJson, formatDataAge } from '../services/offlineCache';
+import { getCityForecastPath, buildWardForecastGrid, CityForecastPath, FORECAST_GRID_HOURS } from '../services/wardForecast';
+import { Z_80 } from '../services/forecasting';
+import { apportionSources, dominantSector, SOURCE_LABELS, stationSignature } from '../services/sourceApportionment';
+import { MessageKey, useI18n } from '../services/i18n';
+import { describeUpdate, generatePollutants, wardWeather } from '../data';
+import { fetchCurrentWeather } from '../services/meteorology';
 
 interface WardMapProps {
   wards: Ward[];
@@ -14,48 +25,59 @@ interface WardMapProps {
   onNavigate: (v: AppView) => void;
 }
 
-const getAQIColor = (aqi: number) => {
-  if (aqi > 300) return '#ff3b30'; // Red (Severe/Hazardous)
-  if (aqi > 200) return '#ff9500'; // Orange (Poor)
-  if (aqi > 100) return '#ffcc00'; // Yellow (Moderate)
-  return '#34c759';                // Green (Good)
-};
+// Prediction standard deviation (AQI points) -> variance layer color
+const UNCERTAINTY_STEPS = [
+  { max: 10, color: '#312e81', label: '±10' },
+  { max: 25, color: '#4f46e5', label: '±25' },
+  { max: 50, color: '#a855f7', label: '±50' },
+  { max: Infinity, color: '#f0abfc', label: '>±50' }
+];
+
+// Wards with no station in range: no estimate is shown rather than an invented one
+const NO_COVERAGE_COLOR = '#8e8e93';
+
+const getUncertaintyColor = (sigma: number) =>
+  (UNCERTAINTY_STEPS.find(s => sigma <= s.max) || UNCERTAINTY_STEPS[UNCERTAINTY_STEPS.length - 1]).color;
 
 const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, theme, onNavigate }) => {
   const [geoData, setGeoData] = useState<any>(null);
   const [stations, setStations] = useState<Station[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [surface, setSurface] = useState<InterpolationMethod>('idw');
+  const [showVariance, setShowVariance] = useState(false);
+  const [stationFreshness, setStationFreshness] = useState<DataFreshness | null>(null);
+  const [weather, setWeather] = useState<WeatherObservation | null>(null);
+  const [forecastHour, setForecastHour] = useState(simulationHour);
+  const [forecastPath, setForecastPath] = useState<CityForecastPath | null>(null);
+  const { locale, t, formatNumber, formatDateTime } = useI18n();
+
+  // Flagged stations are always shown so reviewers can see what was excluded
+  const visibleStations = useMemo(() => [
+    ...stations.filter(s => !passesQc(s)),
+    ...stations.filter(passesQc).slice(0, 10)
+  ], [stations]);
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [geojson, liveStations] = await Promise.all([
-          fetch('https://raw.githubusercontent.com/datameet/Municipal_Spatial_Data/master/Delhi/Delhi_Wards.geojson').then(r => r.json()),
-          fetchRealTimeStations()
+        const [geojson, { stations: liveStations, freshness }, currentWeather] = await Promise.all([
+          loadWardGeoJson(),
+          fetchStationsWithFreshness(),
+          fetchCurrentWeather()
         ]);
+        setWeather(currentWeather);
+        const variogram = fitVariogram(liveStations);
 
         const enhancedFeatures = geojson.features.map((feature: any, idx: number) => {
           const p = feature.properties || {};
           const wardName = p.WARD_NAME || p.NAME || `Ward ${idx + 1}`;
           const wardId = String(p.WARD_NO || p.OBJECTID || idx + 1);
           
-          let coords = feature.geometry.coordinates;
-          if (feature.geometry.type === "MultiPolygon") coords = coords[0];
-          const flatCoords = coords[0];
+          const { lat, lng } = wardCentroid(feature.geometry) || { lat: 28.6139, lng: 77.2090 };
           
-          let lat = 28.6139;
-          let lng = 77.2090;
-
-          if (flatCoords && Array.isArray(flatCoords)) {
-            const lats = flatCoords.map((c: any) => c[1]);
-            const lngs = flatCoords.map((c: any) => c[0]);
-            lat = (Math.max(...lats) + Math.min(...lats)) / 2;
-            lng = (Math.max(...lngs) + Math.min(...lngs)) / 2;
-          }
-          
-          const { aqi: baseAqi } = interpolateWardAQI([lat, lng], liveStations);
-          const variation = Math.sin(idx * 0.45) * 60; // Increased variation
-          const aqi = Math.max(10, Math.round(baseAqi + variation));
+          const idw = interpolateWardAQI([lat, lng], liveStations);
+          const kriging = variogram ? krigeInterpolate([lat, lng], liveStations, variogram) : null;
           
           return {
             ...feature,
@@ -63,40 +85,85 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
               ...p,
               ward_name: wardName,
               ward_no: wardId,
-              aqi: aqi,
+              estimates: { idw, kriging },
+              areaKm2: wardAreaKm2(feature.geometry),
               centroid: { lat, lng }
             }
           };
         });
 
         setGeoData({ ...geojson, features: enhancedFeatures });
+
+        // City path starts from the mean ward estimate when no city history exists yet
+        const covered = enhancedFeatures.map((f: any) => f.properties.estimates.idw).filter(Boolean) as InterpolationResult[];
+        if (covered.length > 0) {
+          getCityForecastPath(Math.round(covered.reduce((s, e) => s + e.aqi, 0) / covered.length)).then(setForecastPath);
+        }
         setStations(liveStations);
+        setStationFreshness(freshness);
         setLoading(false);
       } catch (err) {
         console.error("Spatial Pipeline Sync Error", err);
+        setLoadError(true);
+        setLoading(false);
       }
     };
 
     loadData();
   }, []);
 
-  const wardStyle = (feature: any) => ({
-    fillColor: getAQIColor(feature.properties.aqi),
-    weight: 1,
-    opacity: 0.15,
-    color: 'white',
-    fillOpacity: 0.7
-  });
+  // Kriging falls back to IDW for wards where the system could not be solved;
+  // null when no station is in range of the ward
+  const currentEstimate = (p: any): InterpolationResult | null => p.estimates[surface] || p.estimates.idw;
+
+  // Hourly forecast per ward, starting from the estimate of the selected surface
+  const forecastGrid = useMemo<Record<string, ForecastHour[]> | null>(() => {
+    if (!geoData || !forecastPath) return null;
+    return buildWardForecastGrid(
+      geoData.features.flatMap((f: any) => {
+        const estimate = currentEstimate(f.properties);
+        return estimate ? [{ id: f.properties.ward_no, aqi: estimate.aqi }] : [];
+      }),
+      forecastPath
+    );
+  }, [geoData, forecastPath, surface]);
+
+  // At a forecast hour, the value and spread come from the 80% interval
+  const estimateFor = (p: any): InterpolationResult | null => {
+    const now = currentEstimate(p);
+    const hour = forecastHour > 0 ? forecastGrid?.[p.ward_no]?.[forecastHour - 1] : undefined;
+    if (!now || !hour) return now;
+    return { ...now, aqi: hour.aqi, uncertainty: Math.round((hour.upper - hour.lower) / (2 * Z_80)) };
+  };
+
+  const forecastTime = forecastHour > 0 && forecastPath ? forecastPath.hours[forecastHour - 1]?.time : undefined;
+
+  const wardStyle = (feature: any) => {
+    const estimate = estimateFor(feature.properties);
+    if (!estimate) return { fillColor: NO_COVERAGE_COLOR, weight: 1, opacity: 0.15, color: 'white', fillOpacity: 0.25 };
+    return {
+      fillColor: showVariance ? getUncertaintyColor(estimate.uncertainty) : getAQIColor(estimate.aqi),
+      weight: 1,
+      opacity: 0.15,
+      color: 'white',
+      fillOpacity: 0.7
+    };
+  };
 
   const onEachWard = (feature: any, layer: any) => {
-    const p = feature.properties;
+    const estimate = estimateFor(feature.properties);
+    const p = { ...feature.properties, ...estimate };
     
     layer.on({
       click: () => {
         const wardMatch = wards.find(w => w.id === p.ward_no);
         if (wardMatch) {
           onSelect(wardMatch);
-        } else {
+        } else if (estimate) {
+          // Modeled the same way as the loaded wards, from the estimate and nearby station ratios
+          const ratios = stationSignature([p.centroid.lat, p.centroid.lng], stations);
+          const pollutants = generatePollutants(p.aqi, ratios);
+          const { breakdown } = apportionSources({ coordinates: p.centroid, pollutants, ratios });
           onSelect({
             id: p.ward_no,
             name: p.ward_name,
@@ -105,14 +172,15 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
             status: getStatusFromAQI(p.aqi),
             zone: 'NCT Administrative Zone',
             region: 'NCT',
-            primarySource: 'Simulated Matrix',
-            lastUpdated: 'Live',
+            primarySource: SOURCE_LABELS[dominantSector(breakdown)],
+            lastUpdated: describeUpdate(stationFreshness),
             coordinates: p.centroid,
-            pollutants: { pm25: Math.round(p.aqi * 0.7), pm10: Math.round(p.aqi * 1.2), no2: 40, so2: 10, co: 1 },
-            windSpeed: 4.5,
-            humidity: 50,
-            breakdown: { transport: 40, construction: 20, industry: 30, waste: 10 },
-            history: { hourly: [], daily: [], monthly: [] }
+            pollutants,
+            ...wardWeather(weather),
+            breakdown,
+            history: { hourly: [], daily: [], monthly: [] },
+            areaKm2: p.areaKm2,
+            geoJson: feature
           } as Ward);
         }
       },
@@ -120,18 +188,32 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
         e.target.setStyle({ fillOpacity: 0.9, weight: 2.5, color: '#fff' });
       },
       mouseout: (e: any) => {
-        e.target.setStyle({ fillOpacity: 0.7, weight: 1, color: 'white' });
+        e.target.setStyle({ fillOpacity: estimate ? 0.7 : 0.25, weight: 1, color: 'white' });
       }
     });
 
+    if (!estimate) {
+      layer.bindTooltip(`
+        <div class="p-3">
+          <div class="text-[8px] font-black uppercase opacity-40 mb-1">${t('map.node', { no: p.ward_no })}</div>
+          <div class="text-[14px] font-black text-white uppercase tracking-tight">${p.ward_name}</div>
+          <div class="text-[9px] font-black uppercase opacity-50 mt-2">${t('map.noCoverage')}</div>
+        </div>
+      `, { sticky: true, className: 'glass-tooltip' });
+      return;
+    }
+
     layer.bindTooltip(`
       <div class="p-3">
-        <div class="text-[8px] font-black uppercase opacity-40 mb-1">Administrative Node ${p.ward_no}</div>
+        <div class="text-[8px] font-black uppercase opacity-40 mb-1">${t('map.node', { no: p.ward_no })}</div>
         <div class="text-[14px] font-black text-white uppercase tracking-tight">${p.ward_name}</div>
         <div class="flex items-center gap-2 mt-2">
            <div class="w-2.5 h-2.5 rounded-full" style="background: ${getAQIColor(p.aqi)}"></div>
-           <span class="text-xs font-black tabular-nums" style="color: ${getAQIColor(p.aqi)}">${p.aqi} AQI</span>
+           <span class="text-xs font-black tabular-nums" style="color: ${getAQIColor(p.aqi)}">${formatNumber(p.aqi)} ${t('common.aqi')}</span>
+           <span class="text-[9px] font-black tabular-nums opacity-40">±${formatNumber(p.uncertainty)}</span>
         </div>
+        <div class="text-[8px] font-black uppercase opacity-30 mt-1">${forecastHour > 0 ? `${t('map.forecastAt', { hours: forecastHour })} • ` : ''}${t(p.method === 'kriging' ? 'map.method.kriging' : 'map.method.idw')} • ${t('map.stations', { count: p.stationCount })}${p.extrapolated ? ` • ${t('map.extrapolated')}` : ''}</div>
+        <div class="text-[8px] font-black uppercase opacity-30">${formatNumber(p.areaKm2, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} km²</div>
       </div>
     `, { sticky: true, className: 'glass-tooltip' });
   };
@@ -143,7 +225,17 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
           <div className="w-12 h-12 border-2 border-emerald-500/10 border-t-emerald-500 rounded-full animate-spin" />
           <Zap className="absolute inset-0 m-auto text-emerald-500/20" size={16} />
         </div>
-        <span className="text-[10px] font-black uppercase tracking-[0.6em] opacity-30">Decrypting Spatial Telemetry</span>
+        <span className="text-[10px] font-black uppercase tracking-[0.6em] opacity-30">{t('map.loading')}</span>
+      </div>
+    );
+  }
+
+  if (loadError || !geoData) {
+    return (
+      <div className="w-full h-[600px] glass rounded-[56px] flex flex-col items-center justify-center gap-4 text-center px-10">
+        <ShieldAlert className="text-amber-500/60" size={28} />
+        <span className="text-[10px] font-black uppercase tracking-[0.6em] opacity-30">{t('map.unavailable')}</span>
+        <p className="text-sm opacity-30 font-medium max-w-sm">{t('map.unavailableDetail')}</p>
       </div>
     );
   }
@@ -153,42 +245,95 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
       <MapContainer center={[28.6139, 77.2090]} zoom={11} className="w-full h-full" zoomControl={false} attributionControl={false}>
         <TileLayer url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png" />
         <GeoJSON 
+          key={`${surface}-${showVariance}-${forecastHour}-${locale}`}
           data={geoData} 
           style={wardStyle} 
           onEachFeature={onEachWard}
         />
-        {stations.slice(0, 10).map(station => (
-          <CircleMarker 
-            key={station.uid} 
-            center={[station.lat, station.lon]} 
-            radius={8}
-            pathOptions={{
-              fillColor: getAQIColor(station.aqi),
-              fillOpacity: 1,
-              color: 'white',
-              weight: 2,
-              className: 'glow-point'
-            }}
-          >
-            <Tooltip direction="top" offset={[0, -10]} className="glass-tooltip">
-              <div className="text-[9px] font-black uppercase text-indigo-400 mb-0.5 tracking-widest">CPCB Station</div>
-              <div className="text-[12px] font-bold text-white uppercase leading-none mb-1">{station.stationName}</div>
-              <div className="text-xl font-black tabular-nums" style={{ color: getAQIColor(station.aqi) }}>{station.aqi} AQI</div>
-            </Tooltip>
-          </CircleMarker>
-        ))}
+        {visibleStations.map(station => {
+          const flagged = !passesQc(station);
+          return (
+            <CircleMarker 
+              key={station.uid} 
+              center={[station.lat, station.lon]} 
+              radius={8}
+              pathOptions={flagged ? {
+                fillColor: '#8e8e93',
+                fillOpacity: 0.5,
+                color: '#ff9500',
+                weight: 2,
+                dashArray: '3 3'
+              } : {
+                fillColor: getAQIColor(station.aqi),
+                fillOpacity: 1,
+                color: 'white',
+                weight: 2,
+                className: 'glow-point'
+              }}
+            >
+              <Tooltip direction="top" offset={[0, -10]} className="glass-tooltip">
+                <div className="text-[9px] font-black uppercase text-indigo-400 mb-0.5 tracking-widest">{t('map.station')}</div>
+                <div className="text-[12px] font-bold text-white uppercase leading-none mb-1">{station.stationName}</div>
+                <div className="text-[8px] font-black uppercase tracking-widest text-white/40 mb-1">{findWardAt([station.lat, station.lon], wards)?.name || t('map.outside')}</div>
+                <div className="text-xl font-black tabular-nums" style={{ color: flagged ? '#8e8e93' : getAQIColor(station.aqi) }}>{formatNumber(station.aqi)} {t('common.aqi')}</div>
+                {flagged && (
+                  <div className="mt-2 pt-2 border-t border-white/10">
+                    <div className="text-[8px] font-black uppercase tracking-widest text-amber-500 mb-1">{t('map.qcExcluded')}</div>
+                    {station.qcFlags!.map(flag => (
+                      <div key={flag} className="text-[9px] font-bold uppercase text-white/60">{t(`qc.${flag}` as MessageKey)}</div>
+                    ))}
+                  </div>
+                )}
+              </Tooltip>
+            </CircleMarker>
+          );
+        })}
       </MapContainer>
 
-      {/* MODELED RISK LABEL */}
-      <div className="absolute top-10 left-10 z-[1000] glass px-6 py-3 rounded-2xl border-white/10 backdrop-blur-md">
-         <div className="flex items-center gap-2">
-            <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" />
-            <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">Modeled Risk Layer</span>
+      {/* MODELED RISK LABEL + SURFACE CONTROLS */}
+      <div className="absolute top-10 start-10 z-[1000] flex flex-col gap-3">
+         <div className="glass px-6 py-3 rounded-2xl border-white/10 backdrop-blur-md">
+            <div className="flex items-center gap-2">
+               <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" />
+               <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">{t('map.layer')}</span>
+            </div>
+         </div>
+         <div className="glass p-1.5 rounded-2xl border-white/10 backdrop-blur-md flex items-center gap-1">
+            {([['idw', t('map.method.idw')], ['kriging', t('map.method.kriging')]] as [InterpolationMethod, string][]).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setSurface(id)}
+                className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${surface === id ? 'bg-indigo-500 text-white' : 'opacity-40 hover:opacity-100'}`}
+              >
+                {label}
+              </button>
+            ))}
+            <div className="w-[1px] h-5 bg-white/10 mx-1" />
+            <button
+              onClick={() => setShowVariance(v => !v)}
+              className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${showVariance ? 'bg-purple-500 text-white' : 'opacity-40 hover:opacity-100'}`}
+            >
+              {t('map.variance')}
+            </button>
          </div>
+         {stationFreshness?.stale && (
+           <div className="glass px-5 py-2.5 rounded-2xl border-amber-500/30 backdrop-blur-md flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-amber-500" />
+              <span className="text-[9px] font-black uppercase tracking-widest text-amber-500">
+                {stationFreshness.source === 'snapshot' ? t('map.cachedStations') : t('map.delayedStations')} • {t('app.hero.age', { age: formatDataAge(Date.now() - stationFreshness.observedAt) })}
+              </span>
+           </div>
+         )}
+         {stationFreshness?.source === 'fixture' && (
+           <div className="glass px-5 py-2.5 rounded-2xl border-sky-500/30 backdrop-blur-md flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-sky-400" />
+              <span className="text-[9px] font-black uppercase tracking-widest text-sky-400">{t('map.fixtureStations')}</span>
+           </div>
+         )}
       </div>
 
       {/* ATMOSCAN VISION TRIGGER */}
-      <div className="absolute top-10 right-10 z-[1000] flex flex-col gap-4">
+      <div className="absolute top-10 end-10 z-[1000] flex flex-col gap-4">
          <motion.button 
            whileHover={{ scale: 1.05 }}
            whileTap={{ scale: 0.95 }}
@@ -196,8 +341,8 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
            className="w-16 h-16 glass rounded-2xl flex items-center justify-center border-white/20 shadow-2xl group/scan transition-all hover:bg-emerald-500 hover:text-black backdrop-blur-3xl"
          >
            <Camera size={26} />
-           <div className="absolute right-full mr-6 opacity-0 group-hover/scan:opacity-100 transition-opacity pointer-events-none">
-              <div className="glass px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest whitespace-nowrap border-white/10">AtmosScan Vision Node</div>
+           <div className="absolute end-full me-6 opacity-0 group-hover/scan:opacity-100 transition-opacity pointer-events-none">
+              <div className="glass px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest whitespace-nowrap border-white/10">{t('map.scanNode')}</div>
            </div>
          </motion.button>
 
@@ -206,17 +351,37 @@ const WardMap: React.FC<WardMapProps> = ({ wards, simulationHour, onSelect, them
          </button>
       </div>
 
+      {/* FORECAST TIME SLIDER */}
+      {forecastPath && (
+        <div className="absolute bottom-10 end-10 z-[1000] glass px-8 py-5 rounded-[32px] border-white/5 backdrop-blur-3xl bg-black/40 w-80">
+           <div className="flex items-center justify-between mb-3">
+              <span className="text-[9px] font-black uppercase tracking-[0.2em] opacity-40">{forecastHour === 0 ? t('map.observedNow') : t('map.forecast')}</span>
+              <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400 tabular-nums">
+                {forecastTime ? `+${formatNumber(forecastHour)}H • ${formatDateTime(forecastTime, { weekday: 'short', hour: '2-digit', minute: '2-digit' })}` : t('map.live')}
+              </span>
+           </div>
+           <input
+             type="range"
+             min={0}
+             max={Math.min(FORECAST_GRID_HOURS, forecastPath.hours.length)}
+             value={forecastHour}
+             onChange={e => setForecastHour(Number(e.target.value))}
+             className="w-full accent-indigo-500"
+           />
+        </div>
+      )}
+
       {/* SPATIAL LEGEND */}
-      <div className="absolute bottom-10 left-10 z-[1000] glass px-10 py-5 rounded-[32px] border-white/5 flex items-center gap-8 backdrop-blur-3xl bg-black/40">
-         {[
-           { label: 'Good', color: '#34c759' },
-           { label: 'Moderate', color: '#ffcc00' },
-           { label: 'Poor', color: '#ff9500' },
-           { label: 'Severe', color: '#ff3b30' }
-         ].map(item => (
+      <div className="absolute bottom-10 start-10 z-[1000] glass px-10 py-5 rounded-[32px] border-white/5 flex items-center gap-8 backdrop-blur-3xl bg-black/40">
+         {showVariance ? UNCERTAINTY_STEPS.map(item => (
            <div key={item.label} className="flex items-center gap-3">
               <div className="w-3 h-3 rounded-full shadow-lg" style={{ background: item.color }} />
-              <span className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">{item.label}</span>
+              <span className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">{item.label} {t('common.aqi')}</span>
+           </div>
+         )) : AQI_CATEGORIES.map(item => (
+           <div key={item.level} className="flex items-center gap-3">
+              <div className="w-3 h-3 rounded-full shadow-lg" style={{ background: item.color }} />
+              <span className="text-[9px] font-black uppercase tracking-[0.2em] opacity-30">{t(`level.${item.level}`)}</span>
            </div>
          ))}
       </div>
@@ -1,15 +1,14 @@
 
-import { Ward, AQILevel } from './types';
-
-const GEOJSON_URL = 'https://raw.githubusercontent.com/datameet/Municipal_Spatial_Data/master/Delhi/Delhi_Wards.geojson';
-
-const getStatus = (aqi: number): AQILevel => {
-  if (aqi > 300) return AQILevel.HAZARDOUS;
-  if (aqi > 200) return AQILevel.SEVERE;
-  if (aqi > 150) return AQILevel.POOR;
-  if (aqi > 100) return AQILevel.MODERATE;
-  return AQILevel.GOOD;
-};
+import { DataFreshness, Ward, PollutantConcentrations, Station, WeatherObservation } from './types';
+import { calculateAQI, concentrationForSubIndex } from './services/aqiCalculator';
+import { getStatusFromAQI } from './services/aqiCategories';
+import { formatDistance } from './services/interpolation';
+import { interpolateWardAQI } from './services/aqiService';
+import { wardAreaKm2, wardCentroid, containsPoint } from './services/wardGeometry';
+import { getWardHistory, recordWardReadings } from './services/historyStore';
+import { loadWardGeoJson } from './services/offlineCache';
+import { passesQc } from './services/stationQc';
+import { apportionSources, dominantSector, SignatureRatios, SOURCE_LABELS, stationSignature, TYPICAL_RATIOS } from './services/sourceApportionment';
 
 const getRegion = (lat: number, lng: number): 'North' | 'South' | 'East' | 'West' | 'Central' => {
   if (lat > 28.7) return 'North';
@@ -19,50 +18,86 @@ const getRegion = (lat: number, lng: number): 'North' | 'South' | 'East' | 'West
   return 'Central';
 };
 
-const generatePollutants = (aqi: number) => ({
-  pm25: Math.round(aqi * 0.75),
-  pm10: Math.round(aqi * 1.3),
-  no2: Math.round(aqi * 0.25),
-  so2: Math.round(aqi * 0.08),
-  co: Math.round(aqi * 0.012 * 10) / 10
+// Typical AQI by area (industrial north, transport-heavy east, green centre,
+// construction in the south) with a per-ward variation
+const regionalProfileAqi = (region: ReturnType<typeof getRegion>, index: number): number => {
+  const base = { North: 280, East: 310, Central: 120, South: 190, West: 140 }[region];
+  return Math.max(15, Math.round(base + Math.sin(index * 0.45) * 55));
+};
+
+// Modeled concentrations: PM2.5 is placed on the CPCB curve for the target index,
+// the remaining species follow nearby station ratios where reported, otherwise
+// typical Delhi winter ratios (which leave the source apportionment neutral).
+export const generatePollutants = (aqi: number, ratios: SignatureRatios = {}): PollutantConcentrations => {
+  const pm25 = Math.round(concentrationForSubIndex('pm25', aqi));
+  const no2 = Math.round(pm25 * 0.35);
+  const { pmRatio, no2Co, so2No2 } = {
+    pmRatio: ratios.pmRatio ?? TYPICAL_RATIOS.pmRatio,
+    no2Co: ratios.no2Co ?? TYPICAL_RATIOS.no2Co,
+    so2No2: ratios.so2No2 ?? TYPICAL_RATIOS.so2No2
+  };
+  return {
+    pm25,
+    pm10: Math.round(pm25 / pmRatio),
+    no2,
+    so2: Math.round(no2 * so2No2),
+    co: Math.round((no2 / no2Co) * 10) / 10,
+    o3: Math.round(25 + pm25 * 0.1),
+    nh3: Math.round(pm25 * 0.3)
+  };
+};
+
+// Ward wind and humidity from the current city observation; zero when unavailable
+export const wardWeather = (weather: WeatherObservation | null): Pick<Ward, 'windSpeed' | 'humidity'> => ({
+  windSpeed: weather ? Math.round(weather.windSpeed * 10) / 10 : 0,
+  humidity: weather ? Math.round(weather.humidity) : 0
 });
 
-export const loadDelhiWards = async (): Promise<Ward[]> => {
+// Observation time of the station data behind the wards, with its source when not live
+export const describeUpdate = (freshness: DataFreshness | null): string => {
+  if (!freshness) return 'Unavailable';
+  const time = new Date(freshness.observedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return freshness.source === 'live' ? time : `${time} (${freshness.source})`;
+};
+
+/**
+ * Loads the municipal ward registry. Ward coordinates are area-weighted polygon
+ * centroids. When live stations are supplied, a station inside the ward boundary
+ * is its sensor; otherwise the nearest one from the interpolation is used.
+ * Each load is recorded in the history store, which also supplies `history`.
+ * Wind and humidity come from the current city weather observation.
+ */
+export const loadDelhiWards = async (
+  stations: Station[] = [],
+  weather: WeatherObservation | null = null,
+  freshness: DataFreshness | null = null
+): Promise<Ward[]> => {
   try {
-    const response = await fetch(GEOJSON_URL);
-    if (!response.ok) throw new Error('Spatial Data Offline');
-    const data = await response.json();
+    const data = await loadWardGeoJson();
+    const lastUpdated = describeUpdate(freshness);
     
-    return data.features.map((feature: any, index: number) => {
+    const wards = data.features.map((feature: any, index: number) => {
       const p = feature.properties || {};
       
       const name = p.WARD_NAME || p.NAME || p.ward_name || p.Ward_Name || p.ward || `Municipal Unit ${index + 1}`;
       const id = String(p.WARD_NO || p.ward_no || p.ID || p.OBJECTID || index + 1);
       const wardNo = parseInt(id) || index + 1;
       
-      let coords = feature.geometry.coordinates;
-      if (feature.geometry.type === "MultiPolygon") coords = coords[0];
-      const flatCoords = coords[0];
-      
-      if (!flatCoords || !Array.isArray(flatCoords)) return null;
-
-      const lats = flatCoords.map((c: any) => c[1]);
-      const lngs = flatCoords.map((c: any) => c[0]);
-      const lat = (Math.max(...lats) + Math.min(...lats)) / 2;
-      const lng = (Math.max(...lngs) + Math.min(...lngs)) / 2;
+      const centroid = wardCentroid(feature.geometry);
+      if (!centroid) return null;
+      const { lat, lng } = centroid;
       
       const region = getRegion(lat, lng);
+      const sensor = interpolateWardAQI([lat, lng], stations);
+      const inWard = stations.find(s => passesQc(s) && containsPoint(feature.geometry, [s.lat, s.lon]));
       
-      // REALISTIC DRIFT: AQI based on geographic micro-climates
-      let baseAqi = 140;
-      if (region === 'North') baseAqi = 280; // Industrial hotspots
-      if (region === 'East') baseAqi = 310;  // Transport hubs
-      if (region === 'Central') baseAqi = 120; // Green buffer
-      if (region === 'South') baseAqi = 190;   // Construction zones
-      
-      // Dynamic variance per ward
-      const variance = Math.sin(index * 0.45) * 55;
-      const aqi = Math.max(15, Math.round(baseAqi + variance));
+      // Ward AQI is interpolated from the stations; the regional profile is only a
+      // stand-in for wards with no station in range, and those are marked estimated
+      const targetAqi = sensor ? sensor.aqi : regionalProfileAqi(region, index);
+      const ratios = stationSignature([lat, lng], stations);
+      const pollutants = generatePollutants(targetAqi, ratios);
+      const aqi = sensor ? sensor.aqi : calculateAQI(pollutants)?.aqi ?? targetAqi;
+      const { breakdown } = apportionSources({ coordinates: { lat, lng }, pollutants, ratios });
       
       return {
         id,
@@ -71,20 +106,28 @@ export const loadDelhiWards = async (): Promise<Ward[]> => {
         zone: p.zone_name || p.ZONE || `${region} NCT District`,
         region,
         aqi,
-        status: getStatus(aqi),
-        primarySource: aqi > 300 ? 'Industrial Suspension' : aqi > 200 ? 'Vehicular Congestion' : 'Local Background',
-        nearestSensor: 'NCT Regulatory Station',
-        sensorDistance: '0.6km',
-        windSpeed: 4 + (Math.random() * 6),
-        humidity: 35 + (Math.random() * 30),
-        lastUpdated: 'Live',
+        status: getStatusFromAQI(aqi),
+        primarySource: SOURCE_LABELS[dominantSector(breakdown)],
+        nearestSensor: inWard ? inWard.stationName : sensor?.nearest,
+        sensorDistance: inWard ? 'In Ward' : sensor ? formatDistance(sensor.nearestDistanceKm) : undefined,
+        estimated: !sensor,
+        ...wardWeather(weather),
+        lastUpdated,
         coordinates: { lat, lng },
-        pollutants: generatePollutants(aqi),
-        breakdown: { transport: 40, construction: 20, industry: 30, waste: 10 },
+        pollutants,
+        breakdown,
         history: { hourly: [], daily: [], monthly: [] },
+        population: parseInt(p.TOT_P || p.POPULATION || p.population) || undefined,
+        areaKm2: Math.round(wardAreaKm2(feature.geometry) * 100) / 100,
         geoJson: feature
       };
     }).filter(Boolean) as Ward[];
+
+    // Record station-interpolated values from a live feed, then attach each ward's
+    // observed series. Estimated wards and cached or fixture readings are not observations
+    if (freshness?.source === 'live') await recordWardReadings(wards.filter(w => !w.estimated));
+    const histories = await Promise.all(wards.map(w => getWardHistory(w.id)));
+    return wards.map((w, i) => ({ ...w, history: histories[i] }));
   } catch (e) {
     console.error("Municipal Registry Error", e);
     return [];
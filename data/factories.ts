@@ -0,0 +1,10 @@
+import { Factory } from '../types';
+
+// DPCC inspection ledger for registered industrial units
+export const FACTORY_LEDGER: Factory[] = [
+  { id: 'f1', name: 'Okhla Steel Synthesis', zone: 'South Delhi', compliance: 'Non-Compliant', emissions: '420 µg/m³', lastInspection: 'Oct 12, 2024', violationCount: 3 },
+  { id: 'f2', name: 'Wazirpur Dyeing Unit B', zone: 'North Delhi', compliance: 'Suspended', emissions: '0 µg/m³', lastInspection: 'Nov 02, 2024', violationCount: 8 },
+  { id: 'f3', name: 'Mayapuri Metals Ltd', zone: 'West Delhi', compliance: 'Active', emissions: '110 µg/m³', lastInspection: 'Nov 15, 2024', violationCount: 0 },
+  { id: 'f4', name: 'Bawana Plastic Node 4', zone: 'North-West Delhi', compliance: 'Under-Review', emissions: '280 µg/m³', lastInspection: 'Oct 28, 2024', violationCount: 1 },
+  { id: 'f5', name: 'Narela Chemical Hub', zone: 'Narela', compliance: 'Non-Compliant', emissions: '512 µg/m³', lastInspection: 'Oct 05, 2024', violationCount: 5 }
+];
@@ -0,0 +1,53 @@
+import { GrapMeasure } from '../types';
+
+// Revised GRAP schedule for Delhi-NCR (CAQM). Measures are cumulative:
+// a stage enforces its own list plus every list below it.
+// Agencies: MCD (Municipal Corporation of Delhi), DPCC (Delhi Pollution Control Committee),
+// PWD, DDA, DTP (Delhi Traffic Police), DoE (Directorate of Education), GAD (General Administration).
+export const GRAP_MEASURES: GrapMeasure[] = [
+  // Stage I — 'Poor' (AQI 201–300)
+  { id: 'g1-cd-dust', stage: 1, title: 'Dust mitigation at construction and demolition sites; unregistered sites ≥500 m² stopped', agency: 'DPCC', sectors: ['construction'], wardRelevance: ['construction'] },
+  { id: 'g1-sweeping', stage: 1, title: 'Mechanised sweeping and water sprinkling on roads', agency: 'MCD / PWD', sectors: ['roads'], wardRelevance: ['transport', 'construction'] },
+  { id: 'g1-puc', stage: 1, title: 'Strict PUC enforcement and action against visibly polluting vehicles', agency: 'Transport Dept / DTP', sectors: ['transport'], wardRelevance: ['transport'] },
+  { id: 'g1-open-burning', stage: 1, title: 'Ban on open burning of biomass and municipal waste', agency: 'MCD', sectors: ['waste'], wardRelevance: ['waste'] },
+  { id: 'g1-firecrackers', stage: 1, title: 'Ban on firecrackers enforced', agency: 'Delhi Police', sectors: ['commercial'], wardRelevance: 'all' },
+  { id: 'g1-dg-sets', stage: 1, title: 'Diesel generator sets limited to emergency and essential services', agency: 'DPCC', sectors: ['power', 'commercial'], wardRelevance: ['industry'] },
+  { id: 'g1-tandoor', stage: 1, title: 'Hotels, restaurants and dhabas to use electricity or clean fuel', agency: 'MCD', sectors: ['commercial'], wardRelevance: ['waste'] },
+  { id: 'g1-industry-fuel', stage: 1, title: 'Industries to run only on approved fuels', agency: 'DPCC', sectors: ['industry'], wardRelevance: ['industry'] },
+
+  // Stage II — 'Very Poor' (AQI 301–400)
+  { id: 'g2-daily-sweeping', stage: 2, title: 'Daily mechanised sweeping and sprinkling with dust suppressants on identified roads', agency: 'MCD / PWD', sectors: ['roads'], wardRelevance: ['transport', 'construction'] },
+  { id: 'g2-site-inspections', stage: 2, title: 'Intensified inspection of construction sites', agency: 'DPCC / DDA', sectors: ['construction'], wardRelevance: ['construction'] },
+  { id: 'g2-dg-schedule', stage: 2, title: 'Regulated operating schedule for diesel generator sets', agency: 'DPCC', sectors: ['power'], wardRelevance: ['industry'] },
+  { id: 'g2-parking', stage: 2, title: 'Higher parking fees to discourage private vehicles', agency: 'MCD / NDMC', sectors: ['transport'], wardRelevance: ['transport'] },
+  { id: 'g2-transit', stage: 2, title: 'Augmented CNG/electric bus and metro services', agency: 'DTC / DMRC', sectors: ['transport'], wardRelevance: 'all' },
+  { id: 'g2-coal-firewood', stage: 2, title: 'No coal or firewood in hotels, restaurants and open eateries', agency: 'MCD / DPCC', sectors: ['commercial'], wardRelevance: ['waste'] },
+
+  // Stage III — 'Severe' (AQI 401–450)
+  { id: 'g3-cd-ban', stage: 3, title: 'Construction and demolition stopped except essential projects', agency: 'DPCC / DDA', sectors: ['construction'], wardRelevance: ['construction'] },
+  { id: 'g3-crushers-mining', stage: 3, title: 'Stone crushers and mining operations closed', agency: 'DPCC', sectors: ['industry'], wardRelevance: ['industry', 'construction'] },
+  { id: 'g3-bs3-bs4', stage: 3, title: 'BS-III petrol and BS-IV diesel four-wheelers restricted', agency: 'Transport Dept / DTP', sectors: ['transport'], wardRelevance: ['transport'] },
+  { id: 'g3-diesel-mgv', stage: 3, title: 'Non-essential diesel medium goods vehicles from outside Delhi barred', agency: 'DTP', sectors: ['transport'], wardRelevance: ['transport'] },
+  { id: 'g3-primary-schools', stage: 3, title: 'Primary classes (up to Class V) moved to hybrid mode', agency: 'DoE', sectors: ['education'], wardRelevance: 'all' },
+  { id: 'g3-unapproved-fuel', stage: 3, title: 'Industries on unapproved fuels shut', agency: 'DPCC', sectors: ['industry'], wardRelevance: ['industry'] },
+
+  // Stage IV — 'Severe+' (AQI above 450)
+  { id: 'g4-truck-entry', stage: 4, title: 'Truck entry into Delhi stopped except essential, CNG, electric and BS-VI', agency: 'DTP', sectors: ['transport'], wardRelevance: ['transport'] },
+  { id: 'g4-delhi-hgv', stage: 4, title: 'Delhi-registered diesel medium and heavy goods vehicles barred except essential', agency: 'Transport Dept', sectors: ['transport'], wardRelevance: ['transport'] },
+  { id: 'g4-linear-projects', stage: 4, title: 'Construction on linear public projects (roads, flyovers, pipelines) stopped', agency: 'PWD / NHAI', sectors: ['construction', 'roads'], wardRelevance: ['construction'] },
+  { id: 'g4-schools', stage: 4, title: 'Classes VI–IX and XI moved to hybrid mode', agency: 'DoE', sectors: ['education'], wardRelevance: 'all' },
+  { id: 'g4-wfh', stage: 4, title: '50% work from home in public and private offices', agency: 'GAD', sectors: ['offices'], wardRelevance: 'all' },
+  { id: 'g4-emergency', stage: 4, title: 'Odd-even and closure of colleges and non-essential commercial activity considered', agency: 'GNCTD', sectors: ['transport', 'commercial', 'education'], wardRelevance: 'all' }
+];
+
+export const GRAP_SECTOR_LABELS: Record<GrapMeasure['sectors'][number], string> = {
+  construction: 'Construction',
+  roads: 'Roads',
+  transport: 'Transport',
+  industry: 'Industry',
+  power: 'Power',
+  waste: 'Waste',
+  commercial: 'Commercial',
+  education: 'Education',
+  offices: 'Offices'
+};
@@ -0,0 +1,25 @@
+// Large public parks and green belts in Delhi NCT, used by the offline safe-zone
+// finder. Dense tree cover lowers local PM exposure and keeps traffic at a distance.
+
+export interface GreenSpace {
+  name: string;
+  lat: number;
+  lng: number;
+  areaHa: number;
+}
+
+export const GREEN_SPACES: GreenSpace[] = [
+  { name: 'Lodhi Garden', lat: 28.5931, lng: 77.2197, areaHa: 36 },
+  { name: 'Sunder Nursery', lat: 28.5933, lng: 77.2439, areaHa: 36 },
+  { name: 'Nehru Park', lat: 28.5977, lng: 77.1880, areaHa: 34 },
+  { name: 'Buddha Jayanti Park', lat: 28.6229, lng: 77.1745, areaHa: 40 },
+  { name: 'Central Park, Connaught Place', lat: 28.6315, lng: 77.2167, areaHa: 6 },
+  { name: 'Indraprastha Park', lat: 28.6167, lng: 77.2500, areaHa: 40 },
+  { name: 'Sanjay Lake Park', lat: 28.6108, lng: 77.3050, areaHa: 69 },
+  { name: 'Deer Park, Hauz Khas', lat: 28.5540, lng: 77.1960, areaHa: 30 },
+  { name: 'Sanjay Van', lat: 28.5306, lng: 77.1752, areaHa: 320 },
+  { name: 'Aravalli Biodiversity Park', lat: 28.5483, lng: 77.1516, areaHa: 280 },
+  { name: 'Garden of Five Senses', lat: 28.5128, lng: 77.1978, areaHa: 8 },
+  { name: 'Japanese Park, Rohini', lat: 28.7136, lng: 77.1135, areaHa: 50 },
+  { name: 'Yamuna Biodiversity Park', lat: 28.7437, lng: 77.2110, areaHa: 185 }
+];
@@ -0,0 +1,47 @@
+import { WardSourceKey } from '../types';
+
+// Land-use anchors for source apportionment: industrial estates, transport hubs and
+// arterial junctions, sanitary landfills and large construction districts in Delhi NCT.
+// Influence falls off with distance over radiusKm.
+
+export interface LandUseAnchor {
+  name: string;
+  sector: WardSourceKey;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+export const LAND_USE_ANCHORS: LandUseAnchor[] = [
+  // Industrial estates
+  { name: 'Okhla Industrial Area', sector: 'industry', lat: 28.530, lng: 77.272, radiusKm: 2.5 },
+  { name: 'Narela Industrial Area', sector: 'industry', lat: 28.853, lng: 77.093, radiusKm: 3 },
+  { name: 'Bawana Industrial Area', sector: 'industry', lat: 28.799, lng: 77.035, radiusKm: 3 },
+  { name: 'Wazirpur Industrial Area', sector: 'industry', lat: 28.698, lng: 77.166, radiusKm: 2 },
+  { name: 'Mayapuri Industrial Area', sector: 'industry', lat: 28.637, lng: 77.125, radiusKm: 2 },
+  { name: 'Naraina Industrial Area', sector: 'industry', lat: 28.628, lng: 77.140, radiusKm: 2 },
+  { name: 'Patparganj Industrial Area', sector: 'industry', lat: 28.633, lng: 77.306, radiusKm: 2 },
+  { name: 'Mundka Industrial Area', sector: 'industry', lat: 28.682, lng: 77.030, radiusKm: 2.5 },
+  { name: 'Jhilmil Industrial Area', sector: 'industry', lat: 28.676, lng: 77.310, radiusKm: 2 },
+
+  // Transport hubs and congested corridors
+  { name: 'Anand Vihar ISBT', sector: 'transport', lat: 28.647, lng: 77.316, radiusKm: 2.5 },
+  { name: 'Kashmere Gate ISBT', sector: 'transport', lat: 28.667, lng: 77.229, radiusKm: 2 },
+  { name: 'Sarai Kale Khan ISBT', sector: 'transport', lat: 28.589, lng: 77.257, radiusKm: 2 },
+  { name: 'ITO Junction', sector: 'transport', lat: 28.628, lng: 77.241, radiusKm: 1.5 },
+  { name: 'Dhaula Kuan', sector: 'transport', lat: 28.592, lng: 77.163, radiusKm: 1.5 },
+  { name: 'Azadpur Mandi', sector: 'transport', lat: 28.708, lng: 77.176, radiusKm: 2 },
+  { name: 'Punjabi Bagh Junction', sector: 'transport', lat: 28.674, lng: 77.131, radiusKm: 1.5 },
+  { name: 'Mahipalpur (NH-48)', sector: 'transport', lat: 28.544, lng: 77.127, radiusKm: 2 },
+
+  // Landfills (waste burning)
+  { name: 'Ghazipur Landfill', sector: 'waste', lat: 28.624, lng: 77.326, radiusKm: 3 },
+  { name: 'Bhalswa Landfill', sector: 'waste', lat: 28.741, lng: 77.161, radiusKm: 3 },
+  { name: 'Okhla Landfill', sector: 'waste', lat: 28.513, lng: 77.284, radiusKm: 2.5 },
+
+  // Large construction districts
+  { name: 'Dwarka Expansion', sector: 'construction', lat: 28.555, lng: 77.045, radiusKm: 3 },
+  { name: 'Najafgarh', sector: 'construction', lat: 28.609, lng: 76.980, radiusKm: 3 },
+  { name: 'Rohini Extension', sector: 'construction', lat: 28.744, lng: 77.067, radiusKm: 3 },
+  { name: 'Pragati Maidan Redevelopment', sector: 'construction', lat: 28.618, lng: 77.245, radiusKm: 1.5 }
+];
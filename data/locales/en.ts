@@ -0,0 +1,766 @@
+// English catalogue: the source of every message key. Other catalogues may leave
+// keys out; missing messages fall back to these.
+export const en = {
+  // Shared
+  'common.aqi': 'AQI',
+  'common.close': 'Close',
+  'common.retry': 'Retry',
+  'common.language': 'Language',
+  'common.ward': 'Ward {no}',
+  'common.minutes': '{count} min',
+  'common.km': '{value} km',
+  'common.dominant': '{pollutant} Dominant',
+  'common.regionDelhi': '{region} Delhi',
+
+  'level.Good': 'Good',
+  'level.Satisfactory': 'Satisfactory',
+  'level.Moderate': 'Moderate',
+  'level.Poor': 'Poor',
+  'level.Very Poor': 'Very Poor',
+  'level.Severe': 'Severe',
+
+  'source.transport': 'Vehicular Exhaust',
+  'source.construction': 'Construction & Road Dust',
+  'source.industry': 'Industrial Combustion',
+  'source.waste': 'Biomass & Waste Burning',
+
+  'dispersion.stagnant': 'Stagnant',
+  'dispersion.poor': 'Poor Dispersion',
+  'dispersion.moderate': 'Moderate Dispersion',
+  'dispersion.good': 'Good Dispersion',
+
+  'aggregation.max': 'Maximum',
+  'aggregation.mean': 'Mean',
+  'aggregation.median': 'Median',
+  'aggregation.trimmed-percentile': 'Top-50% Trimmed',
+  'aggregation.population-weighted': 'Population Weighted',
+  'aggregation.cpcb-average': 'CPCB Average',
+  'aggregation.max.description': 'Worst station in the city',
+  'aggregation.mean.description': 'Arithmetic mean of all stations',
+  'aggregation.median.description': 'Middle station reading',
+  'aggregation.trimmed-percentile.description': 'Mean of stations from the 50th to the 95th percentile',
+  'aggregation.population-weighted.description': 'Ward estimates weighted by ward population',
+  'aggregation.cpcb-average.description': 'Mean of stations meeting CPCB reporting criteria',
+
+  // Advisories from the intelligence engine, by band
+  'advisory.clean.warning': 'None',
+  'advisory.clean.mask': 'None required',
+  'advisory.clean.activity': 'Normal outdoor activity',
+  'advisory.clean.school': 'Open',
+  'advisory.sensitive.warning': 'Sensitive groups reduce prolonged exertion',
+  'advisory.sensitive.mask': 'Optional for sensitive groups',
+  'advisory.sensitive.activity': 'Take breaks',
+  'advisory.sensitive.school': 'Open',
+  'advisory.moderate.warning': 'Moderate Risk for sensitive lungs',
+  'advisory.moderate.mask': 'Mask recommended for prolonged exposure',
+  'advisory.moderate.activity': 'Reduce intensity',
+  'advisory.moderate.school': 'Limit Recess',
+  'advisory.high.warning': 'High Risk: Asthma/Elderly/Kids stay indoors',
+  'advisory.high.mask': 'N95 Recommended',
+  'advisory.high.activity': 'No outdoor exercise',
+  'advisory.high.school': 'Suspend Outdoor Sports',
+  'advisory.critical.warning': 'CRITICAL: Immediate Indoor Confinement',
+  'advisory.critical.mask': 'N95/N99 Mandatory',
+  'advisory.critical.activity': 'Avoid all outdoor exertion',
+  'advisory.critical.school': 'Remote Learning Recommended',
+
+  // GRAP stages, sectors and measures
+  'grap.label.0': 'No GRAP Active',
+  'grap.label.1': 'GRAP Stage I',
+  'grap.label.2': 'GRAP Stage II',
+  'grap.label.3': 'GRAP Stage III',
+  'grap.label.4': 'GRAP Stage IV',
+  'grap.description.0': 'Standard Pollution Control Measures',
+  'grap.description.1': 'Poor: Dust Control, Mechanized Sweeping',
+  'grap.description.2': 'Very Poor: Diesel Gen Set Ban, Parking Fee Hike',
+  'grap.description.3': 'Severe: Construction & Demolition Ban',
+  'grap.description.4': 'Severe+: Truck Entry Ban, Odd-Even Scheme',
+  'grap.sector.construction': 'Construction',
+  'grap.sector.roads': 'Roads',
+  'grap.sector.transport': 'Transport',
+  'grap.sector.industry': 'Industry',
+  'grap.sector.power': 'Power',
+  'grap.sector.waste': 'Waste',
+  'grap.sector.commercial': 'Commercial',
+  'grap.sector.education': 'Education',
+  'grap.sector.offices': 'Offices',
+  'grap.measure.g1-cd-dust': 'Dust mitigation at construction and demolition sites; unregistered sites ≥500 m² stopped',
+  'grap.measure.g1-sweeping': 'Mechanised sweeping and water sprinkling on roads',
+  'grap.measure.g1-puc': 'Strict PUC enforcement and action against visibly polluting vehicles',
+  'grap.measure.g1-open-burning': 'Ban on open burning of biomass and municipal waste',
+  'grap.measure.g1-firecrackers': 'Ban on firecrackers enforced',
+  'grap.measure.g1-dg-sets': 'Diesel generator sets limited to emergency and essential services',
+  'grap.measure.g1-tandoor': 'Hotels, restaurants and dhabas to use electricity or clean fuel',
+  'grap.measure.g1-industry-fuel': 'Industries to run only on approved fuels',
+  'grap.measure.g2-daily-sweeping': 'Daily mechanised sweeping and sprinkling with dust suppressants on identified roads',
+  'grap.measure.g2-site-inspections': 'Intensified inspection of construction sites',
+  'grap.measure.g2-dg-schedule': 'Regulated operating schedule for diesel generator sets',
+  'grap.measure.g2-parking': 'Higher parking fees to discourage private vehicles',
+  'grap.measure.g2-transit': 'Augmented CNG/electric bus and metro services',
+  'grap.measure.g2-coal-firewood': 'No coal or firewood in hotels, restaurants and open eateries',
+  'grap.measure.g3-cd-ban': 'Construction and demolition stopped except essential projects',
+  'grap.measure.g3-crushers-mining': 'Stone crushers and mining operations closed',
+  'grap.measure.g3-bs3-bs4': 'BS-III petrol and BS-IV diesel four-wheelers restricted',
+  'grap.measure.g3-diesel-mgv': 'Non-essential diesel medium goods vehicles from outside Delhi barred',
+  'grap.measure.g3-primary-schools': 'Primary classes (up to Class V) moved to hybrid mode',
+  'grap.measure.g3-unapproved-fuel': 'Industries on unapproved fuels shut',
+  'grap.measure.g4-truck-entry': 'Truck entry into Delhi stopped except essential, CNG, electric and BS-VI',
+  'grap.measure.g4-delhi-hgv': 'Delhi-registered diesel medium and heavy goods vehicles barred except essential',
+  'grap.measure.g4-linear-projects': 'Construction on linear public projects (roads, flyovers, pipelines) stopped',
+  'grap.measure.g4-schools': 'Classes VI–IX and XI moved to hybrid mode',
+  'grap.measure.g4-wfh': '50% work from home in public and private offices',
+  'grap.measure.g4-emergency': 'Odd-even and closure of colleges and non-essential commercial activity considered',
+
+  // App shell
+  'nav.map': 'Map',
+  'nav.rankings': 'Rankings',
+  'nav.analytics': 'Analytics',
+  'nav.forecast': 'Forecast',
+  'nav.health': 'Health',
+  'nav.scan': 'Vision',
+  'nav.pulse': 'Pulse',
+  'nav.governance': 'Governance',
+  'nav.registry': 'Registry',
+  'app.bulletin.forecastInvoked': ' (Forecast-Invoked)',
+  'app.bulletin.inForceSince': 'In Force Since {time}',
+  'app.bulletin.measures': '{count} Measures',
+  'app.bulletin.measures_one': '{count} Measure',
+  'app.bulletin.revocationReview': 'Revocation Review {time}',
+  'app.bulletin.action': 'Action: {mask} • {activity}',
+  'app.bulletin.noLimit': 'Exposure Limit: No Limit',
+  'app.bulletin.limit': 'Exposure Limit: Max {count} Mins Outdoors',
+  'app.bulletin.rising': '6H Forecast: Levels Rising',
+  'app.bulletin.improving': '6H Forecast: Levels Improving',
+  'app.bulletin.stable': '6H Forecast: Stable',
+  'app.bulletin.ventilation': 'Ventilation {value} m²/s',
+  'app.bulletin.inversion': 'Surface Inversion',
+  'app.bulletin.rain': 'Rain Washout',
+  'app.bulletin.calibrating': 'Calibrating Intelligence Grid...',
+  'app.feature.execute': 'Execute Node',
+  'app.hero.node': '{city} Atmospheric Node',
+  'app.hero.phase': '{level} Phase',
+  'app.hero.lastReading': 'Last Reading',
+  'app.hero.liveFeed': 'Live Feed',
+  'app.hero.snapshot': 'Offline Station Snapshot',
+  'app.hero.cached': 'Cached Reading',
+  'app.hero.age': '{age} Old',
+  'app.hero.noReading': 'No Reading Available Offline',
+  'app.hero.demo': 'Demo Data',
+  'app.hero.fixture': 'Offline Fixture • Not Observed Readings',
+  'app.hero.aggregation': '{method} of {count} Stations',
+  'app.hero.scroll': 'Scroll to Decrypt Intelligence',
+  'app.insight.title': 'AI Mitigation Insight',
+  'app.insight.confidence': 'Confidence: {confidence}',
+  'app.insight.footer': 'Generated for Decision Support Node Delhi-NCT',
+  'app.card.map.title': 'Spatial Map',
+  'app.card.map.description': 'Ward-wise micro-climate surveillance for 274 municipal sectors.',
+  'app.card.forecast.title': 'Predictive Forecast',
+  'app.card.forecast.description': '72-hour temporal intelligence powered by atmospheric chemistry models.',
+  'app.card.analytics.title': 'Analytic Pulse',
+  'app.card.analytics.description': 'Deep-dive into hourly exposure trends and pollutant composition profiles.',
+  'app.card.scan.title': 'AtmosScan Vision',
+  'app.card.scan.description': 'Remote AI profiling of particulate visibility using spectral density nodes.',
+  'app.card.pulse.title': 'Civic Pulse',
+  'app.card.pulse.description': 'Real-time crowdsourced reports and neighborhood hotspot validation.',
+  'app.card.health.title': 'Health Registry',
+  'app.card.health.description': 'Physiological risk assessment based on tobacco-equivalent toxicity mapping.',
+  'app.card.governance.title': 'Governance',
+  'app.card.governance.description': 'Compliance ledger, GRAP protocols, and strategic enforcement nodes.',
+  'app.map.title': 'Spatial Monitoring Node',
+  'app.map.search': 'Search Sectors',
+  'app.loading.title': 'PureAir Systems',
+  'app.loading.subtitle': 'Initializing Atmospheric Core',
+  'app.strip.grapActive': 'GRAP Active',
+  'app.strip.updated': 'Last Updated: {time} | Public AQI Feed',
+  'app.footer.modeled': 'Granular ward-level values are modeled due to limited public API availability.',
+  'app.footer.architecture': 'View System Architecture',
+  'app.footer.end': 'End of Transmission • Delhi NCT Environment Node',
+
+  // MethodologyView
+  'methodology.title': 'Methodology & Source Registry',
+  'methodology.subtitle': 'Transparent disclosure of data acquisition and processing protocols.',
+  'methodology.sensors.title': 'Primary Sensor Network',
+  'methodology.sensors.body': 'Data is ingested directly from the Central Pollution Control Board (CPCB) and Delhi Pollution Control Committee (DPCC) monitoring stations. We prioritize official government telemetry for administrative accuracy.',
+  'methodology.sensors.active': 'Active Sensors',
+  'methodology.sensors.activeValue': '40+ Units',
+  'methodology.sensors.accuracy': 'Accuracy',
+  'methodology.sensors.accuracyValue': 'Grade-A Lab',
+  'methodology.standards.title': 'Calculation Standards',
+  'methodology.standards.body': 'PureAir utilizes the AirNow (US-EPA) sub-index calculation method for PM2.5 and PM10, providing a more granular risk assessment than the standard linear mapping. All thresholds are cross-referenced with WHO Guidelines 2021.',
+  'methodology.fallback.title': 'Fallback & Spatial Logic',
+  'methodology.fallback.body': 'When a specific ward-level sensor reports an offline status, our system applies a \'Nearest Valid Node\' logic, snapping to the closest functioning CPCB station within a 5km radius to maintain data continuity.',
+  'methodology.verified': 'Systems verified for NCT defense operations.',
+
+  // RankingsView
+  'rankings.title': 'Full NCT Registry',
+  'rankings.subtitle': 'Comprehensive toxicity rankings across all 274 municipal sectors.',
+  'rankings.currentAqi': 'Current AQI',
+
+  // ZoneOverview
+  'zone.title': '{zone} — Aggregated Stats',
+  'zone.subtitle': 'Sector-level environmental surveillance summary.',
+  'zone.average': 'Zone Average Index',
+  'zone.hotspots': 'Active Response Nodes (Hotspots)',
+  'zone.allNodes': 'All Sector Nodes in {zone}',
+
+  // ArchitectureModal
+  'architecture.title': 'System Architecture',
+  'architecture.subtitle': 'Data flow pipeline for Environmental Decision Intelligence.',
+  'architecture.input': 'User Input',
+  'architecture.input.sub': 'Location & Query',
+  'architecture.data': 'AQI Data Layer',
+  'architecture.data.sub': 'CPCB/WAQI Ingestion',
+  'architecture.risk': 'Risk Modeling',
+  'architecture.risk.sub': 'Ward Interpolation',
+  'architecture.reasoning': 'Gemini Reasoning',
+  'architecture.reasoning.sub': 'Contextual Analysis',
+  'architecture.action': 'Action Matrix',
+  'architecture.action.sub': 'GRAP Protocols',
+  'architecture.dashboard': 'Dashboard',
+  'architecture.dashboard.sub': 'Visual Intelligence',
+  'architecture.stack': 'Tech Stack:',
+
+  // ErrorBoundary
+  'error.title': 'Node Failure',
+  'error.body': 'The atmospheric data processor encountered an unhandled instruction.',
+  'error.reload': 'Re-Sync System',
+
+  // Small widgets
+  'sparkline.collecting': 'Collecting Observations',
+  'ring.responseIndex': 'Response Index',
+  'nodes.cloud': 'NCT Spatial Cloud',
+  'nodes.nominal': 'Nominal',
+  'nodes.elevated': 'Elevated',
+  'nodes.critical': 'Critical',
+
+  // ComparisonView
+  'comparison.title': 'Comparative Intelligence',
+  'comparison.exit': 'Exit Analysis',
+  'comparison.reference': 'Reference Sector',
+  'comparison.target': 'Target Sector',
+  'comparison.aqi': 'Overall AQI',
+  'comparison.pm25': 'PM 2.5 Density',
+  'comparison.pm10': 'PM 10 Density',
+  'comparison.wind': 'Wind Velocity',
+  'comparison.humidity': 'Humidity Level',
+  'comparison.vector': 'Primary Vector: {ward}',
+
+  // WardCard
+  'wardCard.node': 'Sector Registry Node {id}',
+  'wardCard.live': 'Live Telemetry',
+  'wardCard.estimated': 'Regional Estimate',
+
+  // SearchOverlay
+  'search.placeholder': 'Search 274 Wards or Zones...',
+  'search.results': 'Spatial Intelligence Results',
+  'search.none': 'No matching sectors identified',
+  'search.prompt': 'Type to search the NCT registry',
+  'search.navigate': 'Navigate',
+  'search.select': 'Select',
+
+  // IndustrialLedger
+  'ledger.kicker': 'Environmental Enforcement',
+  'ledger.title': 'Industrial Compliance Ledger',
+  'ledger.subtitle': 'Official registry of industrial emissions and DPCC inspection status across the NCT zone.',
+  'ledger.violators': 'Violators',
+  'ledger.suspended': 'Suspended',
+  'ledger.compliant': 'Compliant',
+  'ledger.lastInspection': 'Last Inspection: {date}',
+  'ledger.emissions': 'Stack Emissions',
+  'ledger.status': 'Compliance Status',
+  'ledger.repeat': 'Repeat Offender History',
+  'ledger.citation.title': 'Automated Digital Citation (AI-Enforced)',
+  'ledger.citation.body': 'Non-compliant units are automatically flagged for physical verification. Citations are generated using Gemini AtmosVision vision nodes.',
+  'ledger.report': 'Generate Registry Report',
+  'compliance.Active': 'Active',
+  'compliance.Non-Compliant': 'Non-Compliant',
+  'compliance.Suspended': 'Suspended',
+  'compliance.Under-Review': 'Under Review',
+
+  // SourceAttributionCard
+  'attribution.title': 'Source Intelligence Node',
+  'attribution.confidence': 'Confidence: {value}%',
+  'attribution.model': 'Receptor Model',
+  'attribution.narrated': ' • AI Narrated',
+  'attribution.dominant': 'Dominant Vector',
+  'attribution.certainty': 'Attribution Certainty: {value}%',
+  'attribution.secondary': 'Secondary Contributions',
+  'attribution.derivation': 'Logical Derivation',
+  'attribution.snippet': 'Intelligence Snippet',
+
+  // CitizenAction
+  'report.locating': 'Auto-detecting GPS coordinates...',
+  'report.noLocation': 'Location unavailable',
+  'report.inWard': '{ward} (Ward {no}) • {coords}',
+  'report.outside': 'Outside municipal wards • {coords}',
+  'report.kicker': 'Crowdsourced Intelligence',
+  'report.title': 'Report Hotspot',
+  'report.subtitle': 'Direct pipeline to the environmental enforcement division.',
+  'report.media': 'Capture / Drop Media',
+  'report.mediaHint': 'Image or MP4 Supported',
+  'report.location': 'Current Location',
+  'report.placeholder': 'Describe the violation (e.g. Garbage burning, industrial discharge)...',
+  'report.submit': 'Transmit to Authority',
+  'report.sending': 'Encrypting Package',
+  'report.sendingHint': 'Establishing secure connection to CPCB nodes...',
+  'report.done': 'Transmission Confirmed',
+  'report.doneBody': 'Your report has been logged under ID #PX-2940 and assigned to the {zone} Rapid Response Unit.',
+  'report.back': 'Back to Dashboard',
+
+  // HealthImpactView
+  'health.title': 'Physiological Risk Registry',
+  'health.subtitle': 'Scientific assessment of atmospheric impact on metabolic and respiratory systems based on PM2.5 concentrations.',
+  'health.twin.title': 'Health Digital Twin',
+  'health.twin.kicker': 'Hyper-Personalized Risk Engine',
+  'health.ageGroup': 'Age Group',
+  'health.age.Child': 'Child',
+  'health.age.Adult': 'Adult',
+  'health.age.Elderly': 'Elderly',
+  'health.condition': 'Condition',
+  'health.condition.None': 'None',
+  'health.condition.Asthma': 'Asthma',
+  'health.condition.Heart Condition': 'Heart Condition',
+  'health.condition.Pregnant': 'Pregnant',
+  'health.exposure': 'Planned Exposure',
+  'health.hours': '{count}h',
+  'health.calibrating': 'Simulating Metabolic Impact...',
+  'health.retry': 'Retry Calibration',
+  'health.calibrate': 'Calibrate Digital Twin',
+  'health.warning': 'Personalized Warning',
+  'health.risk': '{level} Risk',
+  'health.limit': 'Max Outdoor Limit',
+  'health.protocol': 'Protective Protocol',
+  'health.recalibrate': 'Recalibrate',
+  'health.cigarettes': 'Cigarette Equivalent / Day',
+  'health.toxicity.title': 'Atmospheric Toxicity Index',
+  'health.toxicity.body': 'The inhalation of ambient PM2.5 at current concentrations is physiologically equivalent to consuming the above quantity of tobacco units in a 24-hour cycle.',
+  'health.toxicity.source': 'Source: Global Burden of Disease Studies',
+  'health.card.respiratory': 'Respiratory / Asthma',
+  'health.card.respiratory.advice': 'High probability of exacerbated symptoms and increased rescue inhaler reliance.',
+  'health.card.cardio': 'Cardiovascular',
+  'health.card.cardio.advice': 'Increased systemic inflammation and heart rate variability identified in recent clusters.',
+  'health.card.pediatric': 'Pediatric Care',
+  'health.card.pediatric.advice': 'Recommended suspension of prolonged outdoor exertion during peak diurnal intervals.',
+  'health.card.elderly': 'Elderly Population',
+  'health.card.elderly.advice': 'Strict indoor containment prioritized for individuals with pre-existing metabolic conditions.',
+  'health.disclaimer': 'Disclaimer: data is indicative. Consult certified medical professionals for individual diagnosis.',
+  'health.diary.title': 'Exposure Diary',
+  'health.diary.kicker': 'Personal PM2.5 Dose',
+  'health.diary.place.home': 'Home ward',
+  'health.diary.place.work': 'Work ward',
+  'health.diary.place.commute': 'Commute route ward',
+  'health.diary.log': 'Log a day (hours)',
+  'health.diary.setting.home': 'Home',
+  'health.diary.setting.work': 'Work',
+  'health.diary.setting.commute': 'Commute',
+  'health.diary.setting.outdoor': 'Outdoors',
+  'health.diary.unlogged': '{count} hours unlogged, counted at home',
+  'health.diary.unlogged_one': '{count} hour unlogged, counted at home',
+  'health.diary.fullDay': 'Full day logged',
+  'health.diary.save': 'Save day',
+  'health.diary.update': 'Update day',
+  'health.diary.empty': 'Log a day to see your inhaled dose and weekly trend.',
+  'health.diary.weekDose': 'Dose, last 7 days',
+  'health.diary.vsWho': 'Against WHO guideline',
+  'health.diary.times': '{ratio}×',
+  'health.diary.mean': 'PM2.5 breathed',
+  'health.diary.ugm3': '{value} µg/m³',
+  'health.diary.ug': '{value} µg',
+  'health.diary.daysAbove': 'Days above WHO',
+  'health.diary.daysOf': '{count} of {total}',
+  'health.diary.tooltip.dose': 'Inhaled: {value}',
+  'health.diary.tooltip.who': 'At WHO guideline: {value}',
+  'health.diary.tooltip.days': '{count} days logged',
+  'health.diary.tooltip.days_one': '{count} day logged',
+  'health.diary.legend.dose': 'Your weekly dose',
+  'health.diary.legend.who': 'WHO guideline ({limit} µg/m³, 24h)',
+  'health.diary.sources': 'Dose by setting, last 7 days',
+  'health.diary.estimated': 'Some days had no stored ward history; the latest reading was used for them.',
+  'health.diary.method': 'PM2.5 is estimated from each ward\'s daily AQI history. Indoors, {home}% of outdoor PM2.5 is assumed to reach homes, {work}% offices and {commute}% vehicles. Breathing rates follow the age group. The WHO reference is the dose breathed at {limit} µg/m³ over the same hours.',
+  'risk.Low': 'Low',
+  'risk.Moderate': 'Moderate',
+  'risk.Medium': 'Medium',
+  'risk.High': 'High',
+  'risk.Critical': 'Critical',
+  'risk.Severe': 'Severe',
+  'risk.Elevated': 'Elevated',
+  'risk.Extreme': 'Extreme',
+
+  // AtmosScan
+  'scan.kicker': 'Intelligence Layer 04',
+  'scan.title': 'AtmosScan Vision',
+  'scan.subtitle': 'Remote AI profiling of atmospheric opacity and particulate visibility.',
+  'scan.upload': 'Initiate Visual Feed',
+  'scan.imageAlt': 'Scan target',
+  'scan.analyzing': 'Analyzing Spectral Density',
+  'scan.analyzingDetail': 'Cross-referencing PM2.5 scattering coefficients...',
+  'scan.interrupted': 'Analysis Interrupted',
+  'scan.waiting': 'System Waiting for Spatial Input',
+  'scan.complete': 'Extraction Complete',
+  'scan.score': 'Visual Pollution Score',
+  'scan.source': 'Primary Source',
+  'scan.reasoning': 'Analysis Logic',
+  'scan.anomaly': 'High Anomaly Probability ({percent}%)',
+  'scan.anomalyDetail': 'This event deviates significantly from baseline atmospheric models.',
+  'scan.confidence': 'Confidence Matrix',
+  'scan.model': 'Model Node',
+
+  // ForecastView
+  'forecast.loading': 'Synthesizing Atmospheric Models',
+  'forecast.kicker': 'Intelligence Layer 05',
+  'forecast.title': 'Predictive Exposure Node',
+  'forecast.subtitle': 'Statistical projections fitted to observed city readings, with an optional AI projection for comparison.',
+  'forecast.confidenceMatrix': 'Confidence Matrix',
+  'forecast.aiModel': 'AI Model',
+  'forecast.observed': 'Observed 72H City AQI',
+  'forecast.readings': '{count} Hourly Readings',
+  'forecast.observedEmpty': 'Observations are recorded each time live data is fetched. The trend appears once two hours are on record.',
+  'forecast.projection': '+{hours}H Projection',
+  'forecast.range': '80% Range {lower}–{upper}',
+  'forecast.vector': 'Primary Vector',
+  'forecast.summary': 'Intelligence Summary',
+  'forecast.confidence': 'Confidence: {percent}%',
+  'forecast.compare': 'AI vs {model} Baseline',
+  'forecast.col.horizon': 'Horizon',
+  'forecast.col.baseline': 'Baseline (80%)',
+  'forecast.col.difference': 'Difference',
+  'forecast.outside': 'Outside Range',
+  'forecast.verification': 'Forecast Verification',
+  'forecast.skillVsPersistence': 'Skill vs Persistence',
+  'forecast.col.model': 'Model',
+  'forecast.col.mae': 'MAE',
+  'forecast.col.bias': 'Bias',
+  'forecast.col.hit': 'Category Hit',
+  'forecast.col.skill': 'Skill',
+  'forecast.verificationEmpty': 'Every issued forecast is archived. Scores appear once the first 24-hour projection can be compared with an observed reading.',
+  'forecast.notice.title': 'System Notice',
+  'forecast.notice.body': 'Baseline projections come from {model} fitted locally to observed city readings; AI projections are shown when a Gemini key is configured. For operational decisions, always refer to the live regulatory telemetry provided by CPCB/DPCC.',
+
+  // CivicPulse
+  'pulse.nav.home': 'Home',
+  'pulse.nav.dashboard': 'Dashboard',
+  'pulse.nav.explore': 'Explore',
+  'pulse.nav.communities': 'Communities',
+  'pulse.nav.bookmarks': 'Bookmarks',
+  'pulse.nav.profile': 'Profile',
+  'pulse.nav.more': 'More',
+  'pulse.post': 'Post',
+  'pulse.lightMode': 'Light Mode',
+  'pulse.darkMode': 'Dark Mode',
+  'pulse.admin': 'Admin Node',
+  'pulse.composer': 'What pollution issue are you seeing?',
+  'pulse.justNow': 'Just now',
+  'pulse.observer': 'Citizen Observer',
+  'pulse.happening': 'What’s happening',
+  'pulse.trending': '{region} · Trending',
+  'pulse.reports': '{count} reports',
+  'pulse.region.south': 'South Delhi',
+  'pulse.region.east': 'East Delhi',
+  'pulse.region.outer': 'NCT Outer',
+  'pulse.region.central': 'Central Hub',
+  'pulse.showMore': 'Show more',
+  'pulse.ailing': 'Ailing Wards (24h)',
+  'pulse.spike': 'Spike',
+  'pulse.aqi': 'AQI: {aqi}',
+
+  // AnalyticsView
+  'analytics.title': 'Atmospheric Analytics',
+  'analytics.subtitle': 'Detailed temporal analysis for administrative intelligence.',
+  'analytics.hourly': 'Hourly Exposure Trend (24h)',
+  'analytics.daily': 'Daily Median Index (7 Days)',
+  'analytics.pollutants': 'Pollutant Contribution Profile',
+  'analytics.others': 'Others',
+  'analytics.summary': 'Intelligence Summary',
+  'analytics.peak': 'Peak AQI Timestamp',
+  'analytics.variance': 'Baseline Variance',
+  'analytics.vsYesterday': '{change} vs Yesterday',
+  'analytics.cleanest': 'Cleanest Interval',
+  'analytics.aggregation': 'Headline AQI by Aggregation Method',
+  'analytics.stations': '{count} Stations',
+  'analytics.intervention': 'Intervention Modeling',
+  'analytics.mitigation.title': 'Mitigation Impact Simulation',
+  'analytics.mitigation.subtitle': 'Projected outcomes of policy interventions, applied to each ward\'s source breakdown.',
+  'analytics.cityAqi': 'City AQI',
+  'analytics.exposureRedux': 'Exposure Redux',
+  'analytics.grapNow': 'GRAP (Now {stage})',
+  'analytics.byIntervention': 'Exposure Reduction by Intervention (Alone)',
+  'analytics.reduction': '{percent}% Reduction',
+  'analytics.forecast72': 'Forecast City AQI Over 72 Hours',
+  'analytics.awaiting': 'Awaiting Forecast',
+  'analytics.simulated': 'Simulated AQI',
+  'analytics.base': 'Base: {aqi}',
+  'analytics.postAction': 'Post-Action: {aqi}',
+  'analytics.highest': 'Highest Projected Wards',
+  'analytics.estimatedWard': '{name} (est.)',
+  'analytics.estimatedBaselines': '{count} wards have no station in range; their baselines are regional estimates and are left out of the city projection.',
+  'analytics.estimatedBaselines_one': '{count} ward has no station in range; its baseline is a regional estimate and is left out of the city projection.',
+  'analytics.footnote': 'Each policy cuts its sector\'s share of ward emissions; {percent}% of ward AQI is treated as regional background outside local control.',
+  'grap.short.0': 'None',
+  'grap.short.1': 'Stage I',
+  'grap.short.2': 'Stage II',
+  'grap.short.3': 'Stage III',
+  'grap.short.4': 'Stage IV',
+  'policy.diesel-ban': 'Diesel Ban',
+  'policy.diesel-ban.description': 'Non-essential diesel goods vehicles and BS-IV diesel cars off the road',
+  'policy.odd-even': 'Odd-Even',
+  'policy.odd-even.description': 'Private cars restricted to alternate days by plate number',
+  'policy.construction-halt': 'Construction Halt',
+  'policy.construction-halt.description': 'All non-essential construction and demolition stopped',
+  'policy.dust-suppression': 'Dust Suppression',
+  'policy.dust-suppression.description': 'Mechanised sweeping, sprinkling and anti-smog guns on dust hotspots',
+  'policy.industrial-shutdown': 'Industrial Shutdown',
+  'policy.industrial-shutdown.description': 'Units on unapproved fuels and stone crushers closed',
+
+  // WardDetail
+  'detail.registry': 'Sovereign Registry Node',
+  'detail.sector': 'Sector {id} • {zone}',
+  'detail.index': 'Integrated Response Index',
+  'detail.phase': '{level} Phase',
+  'detail.nominal': 'Nominal Telemetry',
+  'detail.estimated': 'Estimated • No Station in Range',
+  'detail.density': '{density} / km²',
+  'detail.densityNA': 'Density N/A',
+  'detail.outlook': '72h Outlook',
+  'detail.range': '80% Range',
+  'detail.modeling': 'Modeling',
+  'detail.noForecast': 'No Forecast',
+  'detail.peak': 'Peak {aqi} AQI at +{hours}H',
+  'detail.awaiting': 'Awaiting Observations',
+  'detail.rank': 'Region Rank',
+  'detail.inRegion': 'In {region}',
+  'detail.composition': 'Pollutant Composition',
+  'detail.pm25': 'Fine Particulate (PM2.5)',
+  'detail.pm10': 'Coarse Dust (PM10)',
+  'detail.attribution.title': 'Source Attribution',
+  'detail.attribution.body': 'Analyze atmospheric chemistry to identify the dominant pollution vector.',
+  'detail.attribution.running': 'Calibrating Sensors...',
+  'detail.attribution.run': 'Run Attribution Engine',
+  'detail.strategy': 'Tactical Strategy Unit',
+  'detail.urgency': 'Plan Urgency',
+  'detail.priority': '{level} Priority',
+  'region.North': 'North Delhi',
+  'region.South': 'South Delhi',
+  'region.East': 'East Delhi',
+  'region.West': 'West Delhi',
+  'region.Central': 'Central Delhi',
+
+  // WardMap
+  'map.node': 'Administrative Node {no}',
+  'map.forecastAt': 'Forecast +{hours}H',
+  'map.method.idw': 'IDW',
+  'map.method.kriging': 'Kriging',
+  'map.stations': '{count} Stations',
+  'map.extrapolated': 'Extrapolated',
+  'map.noCoverage': 'No station in range • no estimate',
+  'map.loading': 'Decrypting Spatial Telemetry',
+  'map.unavailable': 'Ward Boundaries Unavailable',
+  'map.unavailableDetail': 'No network connection and no cached copy yet. The map is available offline after one successful load.',
+  'map.station': 'CPCB Station',
+  'map.outside': 'Outside Ward Boundaries',
+  'map.qcExcluded': 'QC Excluded',
+  'qc.spike': 'Spike vs Neighbours',
+  'qc.stuck': 'Frozen Reading',
+  'qc.jump': 'Implausible Jump',
+  'qc.out-of-bounds': 'Outside Delhi Bounds',
+  'map.layer': 'Modeled Risk Layer',
+  'map.variance': 'Variance',
+  'map.cachedStations': 'Cached Stations',
+  'map.delayedStations': 'Delayed Stations',
+  'map.fixtureStations': 'Demo Stations (Offline Fixture)',
+  'map.scanNode': 'AtmosScan Vision Node',
+  'map.observedNow': 'Observed Now',
+  'map.forecast': 'Forecast',
+  'map.live': 'Live',
+
+  // GovSections
+  'gov.orchestrator': 'Gemini Decision Orchestrator',
+  'gov.matrix': 'Executive Action Matrix',
+  'gov.protocol': '{level} Protocol Active',
+  'gov.escalation.Monitor': 'Monitor',
+  'gov.escalation.Alert': 'Alert',
+  'gov.escalation.Emergency': 'Emergency',
+  'gov.escalation.Lockdown': 'Lockdown',
+  'gov.riskScore': 'Systemic Risk Score',
+  'gov.recommended': 'Recommended Escalation',
+  'gov.impacted': '{group} Impacted',
+  'gov.orchestratorUnavailable': 'Decision Orchestrator Unavailable',
+  'gov.liveIntel': 'Live Regulatory Intelligence',
+  'gov.newsFallback': 'Standard protocols active.',
+  'gov.newsIdle': 'Telemetry online. Monitoring latest CAQM bulletins.',
+  'gov.layer1': 'Intelligence Layer 01',
+  'gov.guidelines.title': 'Government Air Quality Guidelines',
+  'gov.guidelines.body': 'Official protocols issued by the Commission for Air Quality Management (CAQM) under the Graded Response Action Plan (GRAP).',
+  'gov.currentStage': 'Current Stage',
+  'gov.awaiting': 'Awaiting Observations',
+  'gov.invokedForecast': 'Invoked on Forecast',
+  'gov.invokedObserved': 'Invoked on Observed AQI',
+  'gov.since': 'Since {time}',
+  'gov.revocation': 'Revocation Review {time} if AQI Holds',
+  'gov.measuresInForce': '{count} Measures in Force',
+  'gov.history': 'Stage History',
+  'gov.transition': 'Stage {from} → {to}',
+  'gov.history.forecast': 'Forecast {aqi} in {hours}H',
+  'gov.history.revoked': 'Revoked at {aqi}',
+  'gov.history.observed': 'Observed {aqi}',
+  'gov.stage': 'Stage {stage}',
+  'gov.threshold': '{level} • AQI {threshold}+',
+  'gov.inForce': 'In Force',
+  'gov.leadTime': 'Invoked up to {hours}H Ahead on Forecast',
+  'gov.cumulative': '+ All Stage {stage} Measures',
+  'gov.checklist.kicker': 'Compliance Checklist',
+  'gov.checklist.title': 'GRAP Implementation by Zone',
+  'gov.acrossZones': '{implemented}/{total} Across {zones} Zones',
+  'gov.zonesUpTo': 'Zones • Stage {stage} and Below',
+  'gov.citywide': 'Citywide',
+  'gov.wardsRelevant': '{relevant}/{total} Wards Relevant',
+  'gov.layer2': 'Intelligence Layer 02',
+  'gov.enforcement': 'Active Enforcement Status',
+  'gov.enforcement.traffic': 'Traffic Regulation',
+  'gov.enforcement.traffic.detail': 'Ban on BS-III Petrol & BS-IV Diesel vehicles in specified zones.',
+  'gov.enforcement.dust': 'Dust Suppression',
+  'gov.enforcement.dust.detail': '24/7 water sprinkling and mechanized sweeping on high-density corridors.',
+  'gov.enforcement.industry': 'Industrial Control',
+  'gov.enforcement.industry.detail': 'Transition of manufacturing units to PNG/Clean-Fuel grid.',
+  'gov.status.active': 'Active',
+  'gov.status.planned': 'Planned',
+  'gov.layer3': 'Intelligence Layer 03',
+  'gov.plan.title': 'Strategic Action Plan',
+  'gov.plan.body': 'The 2025-2030 roadmap focused on structural decarbonization.',
+  'gov.plan.ev': 'Accelerated EV transition for commercial fleets.',
+  'gov.plan.green': 'Completion of 33% green buffer zone.',
+  'gov.plan.sensors': 'Real-time micro-sensor deployment.',
+  'gov.stat.transport': 'Public Transport',
+  'gov.stat.evs': '+{count} EVs',
+  'gov.stat.sensors': 'New Sensors',
+  'gov.stat.green': 'Green Cover',
+  'gov.stat.target': 'Target AQI',
+
+  // GeminiAssistant
+  'assistant.poweredBy': 'Powered by Gemini',
+  'assistant.title': 'Atmospheric Intelligence Console',
+  'assistant.threads': 'Briefing threads',
+  'assistant.newThread': 'New thread',
+  'assistant.export': 'Export as Markdown',
+  'assistant.target': 'Target: {place}',
+  'assistant.delhi': 'Delhi NCT',
+  'assistant.uplink': 'Live Uplink',
+  'assistant.noThreads': 'No saved threads yet',
+  'assistant.messages': '{count} messages',
+  'assistant.messages_one': '{count} message',
+  'assistant.deleteThread': 'Delete thread',
+  'assistant.ready': 'Ready for Inquiry',
+  'assistant.readyDetail': 'Analyze ward-specific pollution vectors, get forecast reasoning, or request mitigation strategies.',
+  'assistant.suggest.why': 'Why is AQI high?',
+  'assistant.suggest.worst': 'Worst 5 wards in South',
+  'assistant.suggest.forecast': 'Tomorrow\'s Forecast',
+  'assistant.suggest.factories': 'Factory Violations',
+  'assistant.lookups': '{count} Data Lookups',
+  'assistant.lookups_one': '{count} Data Lookup',
+  'assistant.stopped': 'Stopped',
+  'assistant.disclaimer': 'AI Generated • Verify with CPCB',
+  'assistant.analysing': 'Analysing',
+  'assistant.placeholder': 'Input command or query...',
+  'assistant.stop': 'Stop generating',
+  'assistant.launch': 'Launch Intelligence',
+  'assistant.untitled': 'New briefing',
+  'assistant.md.started': 'PureAir briefing thread, started {started}, exported {exported}.',
+  'assistant.md.officer': 'Officer',
+  'assistant.md.assistant': 'Assistant',
+  'assistant.md.noText': '(no text)',
+  'assistant.md.stopped': 'Stopped before completion.',
+  'assistant.md.sources': 'Sources',
+  'tool.find_ward': 'Ward Lookup',
+  'tool.rank_wards': 'Ward Ranking',
+  'tool.get_ward_history': 'Ward History',
+  'tool.get_forecast': 'Forecast',
+  'tool.get_grap_measures': 'GRAP Measures',
+  'tool.get_factories': 'Factory Ledger',
+
+  // AlertCenter
+  'alerts.kicker': 'Ward Alerts',
+  'alerts.title': 'Air Quality Alerts',
+  'alerts.enable': 'Enable browser notifications',
+  'alerts.permission.granted': 'Browser notifications on',
+  'alerts.permission.denied': 'Notifications blocked; alerts are kept in the history below',
+  'alerts.permission.unsupported': 'This browser cannot show notifications; alerts are kept in the history below',
+  'alerts.new': 'New alert',
+  'alerts.city': 'Delhi (city average)',
+  'alerts.trigger.threshold': 'AQI above threshold',
+  'alerts.trigger.category': 'Category change',
+  'alerts.trigger.grap': 'GRAP stage change',
+  'alerts.trigger.forecast-severe': 'Severe forecast',
+  'alerts.thresholdLabel': 'Alert above AQI',
+  'alerts.above': 'Above {threshold}',
+  'alerts.add': 'Add alert',
+  'alerts.subscriptions': 'Subscriptions',
+  'alerts.noSubscriptions': 'No alerts set up yet',
+  'alerts.remove': 'Remove alert',
+  'alerts.quietHours': 'Quiet hours',
+  'alerts.quietHint': 'During quiet hours alerts are only logged here, not shown as notifications.',
+  'alerts.history': 'Recent alerts',
+  'alerts.clear': 'Clear',
+  'alerts.noHistory': 'No alerts yet',
+  'alerts.silenced': 'Quiet hours',
+  'alerts.threshold.title': '{place}: AQI {aqi}',
+  'alerts.threshold.body': 'Air quality has crossed your alert level of {threshold}.',
+  'alerts.category.title': '{place} is now {level}',
+  'alerts.category.body': 'AQI {aqi}, previously {previous}.',
+  'alerts.grap.title': '{label} invoked',
+  'alerts.grap.lifted': 'GRAP restrictions lifted',
+  'alerts.grap.body': '{description}',
+  'alerts.forecast.title': 'Severe air expected in {place}',
+  'alerts.forecast.body': 'AQI forecast to reach {aqi} within {hours} h.',
+
+  // Local rule-based answers (services/llm/localProvider)
+  'local.insight.stage': 'City AQI {aqi} is {category}, led by {dominant}. {stage} applies; strict enforcement of {measures} typically cuts local emissions by {reduction}.',
+  'local.insight.none': 'City AQI {aqi} is {category}, led by {dominant}. No GRAP stage is due; routine dust and traffic enforcement keeps local emissions {reduction} lower.',
+  'local.and': '{first} and {second}',
+  'local.forecast.explanation': 'Current AQI carried forward along the recent trend.',
+  'local.plan.summary': '{source} leads local pollution in {ward} (AQI {aqi}); focus {stage} measures on that sector.',
+  'local.plan.preventive': 'preventive Stage I',
+  'local.health.protect.Low': 'No special precautions',
+  'local.health.protect.Moderate': 'Avoid heavy exertion near traffic',
+  'local.health.protect.High': 'N95 mask outdoors; air purifier indoors',
+  'local.health.who.Asthma': 'people with asthma',
+  'local.health.who.Heart Condition': 'people with a heart condition',
+  'local.health.who.Pregnant': 'pregnant people',
+  'local.health.who.Child': 'children',
+  'local.health.who.Adult': 'adults',
+  'local.health.who.Elderly': 'elderly people',
+  'local.health.warning': 'At AQI {aqi} ({category}) exposure risk for {who} is {risk}.',
+  'local.decision.monitor': 'Continue routine monitoring',
+  'local.decision.reasoning': 'AQI {aqi} falls in {stage} and the trend is {trend}.',
+  'local.group.children': 'Children',
+  'local.group.elderly': 'Elderly',
+  'local.group.respiratory': 'Respiratory patients',
+  'local.group.outdoor': 'Outdoor workers',
+  'local.assistant.city': 'City AQI is {aqi} ({category}).',
+  'local.assistant.noCity': 'No live city reading is available.',
+  'local.assistant.ward': '{ward} is at AQI {aqi}, mostly from {source}.',
+  'local.assistant.grap': '{label}: {description}.',
+  'local.assistant.health': '{city} {measure}. Healthy adults should keep outdoor time under {minutes} minutes; children, the elderly and people with heart or lung conditions should halve that.',
+  'local.assistant.hint': 'Ask about health precautions, GRAP stages or pollution sources.',
+  'local.assistant.noData': 'The lookup returned no data.',
+  'local.safeZones.title': 'Nearest large green spaces:',
+  'local.safeZones.item': '- {name}: {distance} km ({area} ha)',
+  'local.safeZones.route': 'Prefer routes through residential streets over arterial roads.',
+  'local.policy.since': ' since {time}',
+  'local.policy.status': '{label}{since}: {description}. {count} measures in force (local GRAP engine).',
+
+  // AI service messages (services/geminiService)
+  'ai.error.unavailable': 'AI analysis needs a configured provider, such as a Gemini API key.',
+  'ai.error.unsupported': 'This AI provider cannot analyse images. Configure a Gemini API key to use this feature.',
+  'ai.error.requestFailed': 'The AI service could not be reached. Please retry.',
+  'ai.error.invalidResponse': 'The AI reply failed validation after {attempts} attempts.',
+  'ai.assistant.unstable': 'Connection unstable. Retrying link...',
+  'ai.assistant.toolLimit': 'The assistant could not finish its data lookups. Please rephrase the question.',
+  'ai.assistant.error': 'Live AI connection error. Please try again in a few moments.',
+  'ai.news.idle': 'GRAP monitoring online.',
+  'ai.news.failed': 'Policy uplink failed. Refer to CPCB official site.',
+  'ai.safeZones.pending': 'Mapping safe zones...',
+  'ai.safeZones.failed': 'Safe zone mapping link failed.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Catalogue = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,756 @@
+import { Catalogue } from './en';
+
+// Hindi (Devanagari). Acronyms such as AQI, GRAP, CPCB and PM2.5 stay in Latin script,
+// as they appear in official bulletins.
+export const hi: Catalogue = {
+  // Shared
+  'common.aqi': 'AQI',
+  'common.close': 'बंद करें',
+  'common.retry': 'फिर से प्रयास करें',
+  'common.language': 'भाषा',
+  'common.ward': 'वार्ड {no}',
+  'common.minutes': '{count} मिनट',
+  'common.km': '{value} किमी',
+  'common.dominant': '{pollutant} प्रमुख',
+  'common.regionDelhi': '{region} दिल्ली',
+
+  'level.Good': 'अच्छा',
+  'level.Satisfactory': 'संतोषजनक',
+  'level.Moderate': 'मध्यम',
+  'level.Poor': 'खराब',
+  'level.Very Poor': 'बहुत खराब',
+  'level.Severe': 'गंभीर',
+
+  'source.transport': 'वाहन उत्सर्जन',
+  'source.construction': 'निर्माण व सड़क की धूल',
+  'source.industry': 'औद्योगिक दहन',
+  'source.waste': 'बायोमास व कचरा जलाना',
+
+  'dispersion.stagnant': 'स्थिर वायु',
+  'dispersion.poor': 'कमज़ोर फैलाव',
+  'dispersion.moderate': 'मध्यम फैलाव',
+  'dispersion.good': 'अच्छा फैलाव',
+
+  'aggregation.max': 'अधिकतम',
+  'aggregation.mean': 'औसत',
+  'aggregation.median': 'माध्यिका',
+  'aggregation.trimmed-percentile': 'शीर्ष-50% ट्रिम्ड',
+  'aggregation.population-weighted': 'जनसंख्या-भारित',
+  'aggregation.cpcb-average': 'CPCB औसत',
+  'aggregation.max.description': 'शहर का सबसे खराब स्टेशन',
+  'aggregation.mean.description': 'सभी स्टेशनों का अंकगणितीय औसत',
+  'aggregation.median.description': 'बीच वाले स्टेशन की रीडिंग',
+  'aggregation.trimmed-percentile.description': '50वें से 95वें पर्सेंटाइल तक के स्टेशनों का औसत',
+  'aggregation.population-weighted.description': 'वार्ड जनसंख्या से भारित वार्ड अनुमान',
+  'aggregation.cpcb-average.description': 'CPCB रिपोर्टिंग मानदंड पूरे करने वाले स्टेशनों का औसत',
+
+  // Advisories from the intelligence engine, by band
+  'advisory.clean.warning': 'कोई नहीं',
+  'advisory.clean.mask': 'आवश्यक नहीं',
+  'advisory.clean.activity': 'सामान्य बाहरी गतिविधि',
+  'advisory.clean.school': 'खुले',
+  'advisory.sensitive.warning': 'संवेदनशील समूह लंबे परिश्रम से बचें',
+  'advisory.sensitive.mask': 'संवेदनशील समूहों के लिए वैकल्पिक',
+  'advisory.sensitive.activity': 'बीच-बीच में आराम करें',
+  'advisory.sensitive.school': 'खुले',
+  'advisory.moderate.warning': 'संवेदनशील फेफड़ों के लिए मध्यम जोखिम',
+  'advisory.moderate.mask': 'लंबे समय तक बाहर रहने पर मास्क की सलाह',
+  'advisory.moderate.activity': 'तीव्रता कम करें',
+  'advisory.moderate.school': 'अवकाश सीमित करें',
+  'advisory.high.warning': 'उच्च जोखिम: अस्थमा रोगी/बुज़ुर्ग/बच्चे घर के अंदर रहें',
+  'advisory.high.mask': 'N95 की सलाह',
+  'advisory.high.activity': 'बाहर व्यायाम न करें',
+  'advisory.high.school': 'बाहरी खेल स्थगित करें',
+  'advisory.critical.warning': 'अति गंभीर: तुरंत घर के अंदर रहें',
+  'advisory.critical.mask': 'N95/N99 अनिवार्य',
+  'advisory.critical.activity': 'हर प्रकार के बाहरी परिश्रम से बचें',
+  'advisory.critical.school': 'ऑनलाइन पढ़ाई की सलाह',
+
+  // GRAP stages, sectors and measures
+  'grap.label.0': 'कोई GRAP लागू नहीं',
+  'grap.label.1': 'GRAP चरण I',
+  'grap.label.2': 'GRAP चरण II',
+  'grap.label.3': 'GRAP चरण III',
+  'grap.label.4': 'GRAP चरण IV',
+  'grap.description.0': 'मानक प्रदूषण नियंत्रण उपाय',
+  'grap.description.1': 'खराब: धूल नियंत्रण, मशीनी सफ़ाई',
+  'grap.description.2': 'बहुत खराब: डीज़ल जनरेटर पर रोक, पार्किंग शुल्क में वृद्धि',
+  'grap.description.3': 'गंभीर: निर्माण व तोड़फोड़ पर रोक',
+  'grap.description.4': 'गंभीर+: ट्रकों के प्रवेश पर रोक, ऑड-ईवन योजना',
+  'grap.sector.construction': 'निर्माण',
+  'grap.sector.roads': 'सड़कें',
+  'grap.sector.transport': 'परिवहन',
+  'grap.sector.industry': 'उद्योग',
+  'grap.sector.power': 'बिजली',
+  'grap.sector.waste': 'कचरा',
+  'grap.sector.commercial': 'वाणिज्यिक',
+  'grap.sector.education': 'शिक्षा',
+  'grap.sector.offices': 'कार्यालय',
+  'grap.measure.g1-cd-dust': 'निर्माण व तोड़फोड़ स्थलों पर धूल नियंत्रण; 500 वर्ग मी. से बड़े अपंजीकृत स्थल बंद',
+  'grap.measure.g1-sweeping': 'सड़कों पर मशीनी सफ़ाई और पानी का छिड़काव',
+  'grap.measure.g1-puc': 'PUC का सख़्त पालन और दिखने में प्रदूषण करने वाले वाहनों पर कार्रवाई',
+  'grap.measure.g1-open-burning': 'बायोमास और नगरपालिका कचरे को खुले में जलाने पर रोक',
+  'grap.measure.g1-firecrackers': 'पटाखों पर रोक लागू',
+  'grap.measure.g1-dg-sets': 'डीज़ल जनरेटर केवल आपात व आवश्यक सेवाओं के लिए',
+  'grap.measure.g1-tandoor': 'होटल, रेस्तरां और ढाबे बिजली या स्वच्छ ईंधन का उपयोग करें',
+  'grap.measure.g1-industry-fuel': 'उद्योग केवल स्वीकृत ईंधन पर चलें',
+  'grap.measure.g2-daily-sweeping': 'चिह्नित सड़कों पर रोज़ मशीनी सफ़ाई और धूल-रोधी छिड़काव',
+  'grap.measure.g2-site-inspections': 'निर्माण स्थलों का सघन निरीक्षण',
+  'grap.measure.g2-dg-schedule': 'डीज़ल जनरेटर के संचालन का नियंत्रित समय',
+  'grap.measure.g2-parking': 'निजी वाहनों को हतोत्साहित करने के लिए पार्किंग शुल्क में वृद्धि',
+  'grap.measure.g2-transit': 'CNG/इलेक्ट्रिक बस और मेट्रो सेवाओं में बढ़ोतरी',
+  'grap.measure.g2-coal-firewood': 'होटलों, रेस्तरां और खुले भोजनालयों में कोयला या लकड़ी नहीं',
+  'grap.measure.g3-cd-ban': 'आवश्यक परियोजनाओं को छोड़कर निर्माण व तोड़फोड़ बंद',
+  'grap.measure.g3-crushers-mining': 'स्टोन क्रशर और खनन कार्य बंद',
+  'grap.measure.g3-bs3-bs4': 'BS-III पेट्रोल और BS-IV डीज़ल चार-पहिया वाहनों पर प्रतिबंध',
+  'grap.measure.g3-diesel-mgv': 'दिल्ली के बाहर के गैर-आवश्यक डीज़ल मध्यम माल वाहनों पर रोक',
+  'grap.measure.g3-primary-schools': 'प्राथमिक कक्षाएँ (कक्षा V तक) हाइब्रिड मोड में',
+  'grap.measure.g3-unapproved-fuel': 'अस्वीकृत ईंधन वाले उद्योग बंद',
+  'grap.measure.g4-truck-entry': 'आवश्यक, CNG, इलेक्ट्रिक और BS-VI को छोड़कर दिल्ली में ट्रकों का प्रवेश बंद',
+  'grap.measure.g4-delhi-hgv': 'आवश्यक सेवाओं को छोड़कर दिल्ली में पंजीकृत डीज़ल मध्यम व भारी माल वाहनों पर रोक',
+  'grap.measure.g4-linear-projects': 'रैखिक सार्वजनिक परियोजनाओं (सड़क, फ़्लाईओवर, पाइपलाइन) पर निर्माण बंद',
+  'grap.measure.g4-schools': 'कक्षा VI–IX और XI हाइब्रिड मोड में',
+  'grap.measure.g4-wfh': 'सरकारी व निजी कार्यालयों में 50% घर से काम',
+  'grap.measure.g4-emergency': 'ऑड-ईवन और कॉलेजों व गैर-आवश्यक व्यावसायिक गतिविधियों को बंद करने पर विचार',
+
+  // App shell
+  'nav.map': 'मानचित्र',
+  'nav.rankings': 'रैंकिंग',
+  'nav.analytics': 'विश्लेषण',
+  'nav.forecast': 'पूर्वानुमान',
+  'nav.health': 'स्वास्थ्य',
+  'nav.scan': 'विज़न',
+  'nav.pulse': 'पल्स',
+  'nav.governance': 'शासन',
+  'nav.registry': 'रजिस्ट्री',
+  'app.bulletin.forecastInvoked': ' (पूर्वानुमान पर लागू)',
+  'app.bulletin.inForceSince': '{time} से लागू',
+  'app.bulletin.measures': '{count} उपाय',
+  'app.bulletin.revocationReview': 'वापसी समीक्षा {time}',
+  'app.bulletin.action': 'कार्रवाई: {mask} • {activity}',
+  'app.bulletin.noLimit': 'संपर्क सीमा: कोई सीमा नहीं',
+  'app.bulletin.limit': 'संपर्क सीमा: बाहर अधिकतम {count} मिनट',
+  'app.bulletin.rising': '6 घंटे का पूर्वानुमान: स्तर बढ़ रहा है',
+  'app.bulletin.improving': '6 घंटे का पूर्वानुमान: स्तर सुधर रहा है',
+  'app.bulletin.stable': '6 घंटे का पूर्वानुमान: स्थिर',
+  'app.bulletin.ventilation': 'वेंटिलेशन {value} m²/s',
+  'app.bulletin.inversion': 'सतही व्युत्क्रमण',
+  'app.bulletin.rain': 'बारिश से धुलाई',
+  'app.bulletin.calibrating': 'इंटेलिजेंस ग्रिड कैलिब्रेट हो रहा है...',
+  'app.feature.execute': 'नोड खोलें',
+  'app.hero.node': '{city} वायुमंडलीय नोड',
+  'app.hero.phase': '{level} चरण',
+  'app.hero.lastReading': 'अंतिम रीडिंग',
+  'app.hero.liveFeed': 'लाइव फ़ीड',
+  'app.hero.snapshot': 'ऑफ़लाइन स्टेशन स्नैपशॉट',
+  'app.hero.cached': 'सहेजी गई रीडिंग',
+  'app.hero.age': '{age} पुरानी',
+  'app.hero.noReading': 'ऑफ़लाइन कोई रीडिंग उपलब्ध नहीं',
+  'app.hero.demo': 'डेमो डेटा',
+  'app.hero.fixture': 'ऑफ़लाइन फ़िक्स्चर • वास्तविक माप नहीं',
+  'app.hero.aggregation': '{count} स्टेशनों का {method}',
+  'app.hero.scroll': 'जानकारी के लिए स्क्रॉल करें',
+  'app.insight.title': 'AI शमन सुझाव',
+  'app.insight.confidence': 'विश्वास: {confidence}',
+  'app.insight.footer': 'निर्णय सहायता नोड दिल्ली-NCT के लिए तैयार',
+  'app.card.map.title': 'स्थानिक मानचित्र',
+  'app.card.map.description': '274 नगर सेक्टरों की वार्ड-वार सूक्ष्म-जलवायु निगरानी।',
+  'app.card.forecast.title': 'पूर्वानुमान',
+  'app.card.forecast.description': 'वायुमंडलीय रसायन मॉडलों पर आधारित 72 घंटे की जानकारी।',
+  'app.card.analytics.title': 'विश्लेषण पल्स',
+  'app.card.analytics.description': 'प्रति घंटे संपर्क रुझान और प्रदूषक संरचना का गहन अध्ययन।',
+  'app.card.scan.title': 'AtmosScan विज़न',
+  'app.card.scan.description': 'स्पेक्ट्रल घनत्व नोड्स से कण दृश्यता की दूरस्थ AI प्रोफ़ाइलिंग।',
+  'app.card.pulse.title': 'सिविक पल्स',
+  'app.card.pulse.description': 'नागरिकों की रियल-टाइम रिपोर्ट और मोहल्ले के हॉटस्पॉट की पुष्टि।',
+  'app.card.health.title': 'स्वास्थ्य रजिस्ट्री',
+  'app.card.health.description': 'तंबाकू-समतुल्य विषाक्तता पर आधारित शारीरिक जोखिम आकलन।',
+  'app.card.governance.title': 'शासन',
+  'app.card.governance.description': 'अनुपालन बही, GRAP प्रोटोकॉल और प्रवर्तन नोड।',
+  'app.map.title': 'स्थानिक निगरानी नोड',
+  'app.map.search': 'सेक्टर खोजें',
+  'app.loading.title': 'PureAir सिस्टम',
+  'app.loading.subtitle': 'वायुमंडलीय कोर शुरू हो रहा है',
+  'app.strip.grapActive': 'GRAP लागू',
+  'app.strip.updated': 'अंतिम अपडेट: {time} | सार्वजनिक AQI फ़ीड',
+  'app.footer.modeled': 'सार्वजनिक API सीमित होने के कारण वार्ड-स्तर के मान मॉडल से अनुमानित हैं।',
+  'app.footer.architecture': 'सिस्टम आर्किटेक्चर देखें',
+  'app.footer.end': 'प्रसारण समाप्त • दिल्ली NCT पर्यावरण नोड',
+
+  // MethodologyView
+  'methodology.title': 'पद्धति और स्रोत रजिस्ट्री',
+  'methodology.subtitle': 'डेटा संग्रह और प्रसंस्करण प्रक्रियाओं का पारदर्शी विवरण।',
+  'methodology.sensors.title': 'प्राथमिक सेंसर नेटवर्क',
+  'methodology.sensors.body': 'डेटा सीधे केंद्रीय प्रदूषण नियंत्रण बोर्ड (CPCB) और दिल्ली प्रदूषण नियंत्रण समिति (DPCC) के निगरानी स्टेशनों से लिया जाता है। प्रशासनिक सटीकता के लिए हम आधिकारिक सरकारी टेलीमेट्री को प्राथमिकता देते हैं।',
+  'methodology.sensors.active': 'सक्रिय सेंसर',
+  'methodology.sensors.activeValue': '40+ इकाइयाँ',
+  'methodology.sensors.accuracy': 'सटीकता',
+  'methodology.sensors.accuracyValue': 'ग्रेड-A लैब',
+  'methodology.standards.title': 'गणना मानक',
+  'methodology.standards.body': 'PureAir, PM2.5 और PM10 के लिए AirNow (US-EPA) उप-सूचकांक गणना पद्धति का उपयोग करता है, जो सामान्य रैखिक मानचित्रण से अधिक बारीक जोखिम आकलन देती है। सभी सीमाएँ WHO दिशानिर्देश 2021 से मिलाई जाती हैं।',
+  'methodology.fallback.title': 'वैकल्पिक और स्थानिक तर्क',
+  'methodology.fallback.body': 'जब किसी वार्ड का सेंसर ऑफ़लाइन हो, तो हमारा सिस्टम \'निकटतम मान्य नोड\' तर्क अपनाता है और डेटा निरंतरता के लिए 5 किमी के भीतर सबसे नज़दीकी चालू CPCB स्टेशन का उपयोग करता है।',
+  'methodology.verified': 'NCT रक्षा कार्यों के लिए सत्यापित सिस्टम।',
+
+  // RankingsView
+  'rankings.title': 'पूर्ण NCT रजिस्ट्री',
+  'rankings.subtitle': 'सभी 274 नगर सेक्टरों की विस्तृत विषाक्तता रैंकिंग।',
+  'rankings.currentAqi': 'वर्तमान AQI',
+
+  // ZoneOverview
+  'zone.title': '{zone} — समेकित आँकड़े',
+  'zone.subtitle': 'सेक्टर-स्तरीय पर्यावरण निगरानी सारांश।',
+  'zone.average': 'ज़ोन औसत सूचकांक',
+  'zone.hotspots': 'सक्रिय प्रतिक्रिया नोड (हॉटस्पॉट)',
+  'zone.allNodes': '{zone} के सभी सेक्टर नोड',
+
+  // ArchitectureModal
+  'architecture.title': 'सिस्टम आर्किटेक्चर',
+  'architecture.subtitle': 'पर्यावरणीय निर्णय इंटेलिजेंस के लिए डेटा प्रवाह पाइपलाइन।',
+  'architecture.input': 'उपयोगकर्ता इनपुट',
+  'architecture.input.sub': 'स्थान और प्रश्न',
+  'architecture.data': 'AQI डेटा परत',
+  'architecture.data.sub': 'CPCB/WAQI संग्रह',
+  'architecture.risk': 'जोखिम मॉडलिंग',
+  'architecture.risk.sub': 'वार्ड इंटरपोलेशन',
+  'architecture.reasoning': 'Gemini विश्लेषण',
+  'architecture.reasoning.sub': 'संदर्भगत विश्लेषण',
+  'architecture.action': 'कार्रवाई मैट्रिक्स',
+  'architecture.action.sub': 'GRAP प्रोटोकॉल',
+  'architecture.dashboard': 'डैशबोर्ड',
+  'architecture.dashboard.sub': 'दृश्य इंटेलिजेंस',
+  'architecture.stack': 'तकनीकी स्टैक:',
+
+  // ErrorBoundary
+  'error.title': 'नोड विफल',
+  'error.body': 'वायुमंडलीय डेटा प्रोसेसर को एक अप्रबंधित निर्देश मिला।',
+  'error.reload': 'सिस्टम फिर से सिंक करें',
+
+  // Small widgets
+  'sparkline.collecting': 'अवलोकन एकत्र हो रहे हैं',
+  'ring.responseIndex': 'प्रतिक्रिया सूचकांक',
+  'nodes.cloud': 'NCT स्थानिक क्लाउड',
+  'nodes.nominal': 'सामान्य',
+  'nodes.elevated': 'बढ़ा हुआ',
+  'nodes.critical': 'गंभीर',
+
+  // ComparisonView
+  'comparison.title': 'तुलनात्मक इंटेलिजेंस',
+  'comparison.exit': 'विश्लेषण से बाहर निकलें',
+  'comparison.reference': 'संदर्भ सेक्टर',
+  'comparison.target': 'लक्ष्य सेक्टर',
+  'comparison.aqi': 'कुल AQI',
+  'comparison.pm25': 'PM 2.5 घनत्व',
+  'comparison.pm10': 'PM 10 घनत्व',
+  'comparison.wind': 'हवा की गति',
+  'comparison.humidity': 'नमी स्तर',
+  'comparison.vector': 'मुख्य स्रोत: {ward}',
+
+  // WardCard
+  'wardCard.node': 'सेक्टर रजिस्ट्री नोड {id}',
+  'wardCard.live': 'लाइव टेलीमेट्री',
+  'wardCard.estimated': 'क्षेत्रीय अनुमान',
+
+  // SearchOverlay
+  'search.placeholder': '274 वार्ड या ज़ोन खोजें...',
+  'search.results': 'स्थानिक खोज परिणाम',
+  'search.none': 'कोई मिलता-जुलता सेक्टर नहीं मिला',
+  'search.prompt': 'NCT रजिस्ट्री खोजने के लिए लिखें',
+  'search.navigate': 'चुनें',
+  'search.select': 'खोलें',
+
+  // IndustrialLedger
+  'ledger.kicker': 'पर्यावरण प्रवर्तन',
+  'ledger.title': 'औद्योगिक अनुपालन बही',
+  'ledger.subtitle': 'NCT क्षेत्र में औद्योगिक उत्सर्जन और DPCC निरीक्षण स्थिति की आधिकारिक रजिस्ट्री।',
+  'ledger.violators': 'उल्लंघनकर्ता',
+  'ledger.suspended': 'निलंबित',
+  'ledger.compliant': 'अनुपालक',
+  'ledger.lastInspection': 'अंतिम निरीक्षण: {date}',
+  'ledger.emissions': 'चिमनी उत्सर्जन',
+  'ledger.status': 'अनुपालन स्थिति',
+  'ledger.repeat': 'बार-बार उल्लंघन का इतिहास',
+  'ledger.citation.title': 'स्वचालित डिजिटल चालान (AI-आधारित)',
+  'ledger.citation.body': 'अनुपालन न करने वाली इकाइयाँ भौतिक सत्यापन के लिए अपने-आप चिह्नित होती हैं। चालान Gemini AtmosVision विज़न नोड्स से तैयार किए जाते हैं।',
+  'ledger.report': 'रजिस्ट्री रिपोर्ट बनाएँ',
+  'compliance.Active': 'सक्रिय',
+  'compliance.Non-Compliant': 'गैर-अनुपालक',
+  'compliance.Suspended': 'निलंबित',
+  'compliance.Under-Review': 'समीक्षाधीन',
+
+  // SourceAttributionCard
+  'attribution.title': 'स्रोत इंटेलिजेंस नोड',
+  'attribution.confidence': 'विश्वास: {value}%',
+  'attribution.model': 'रिसेप्टर मॉडल',
+  'attribution.narrated': ' • AI द्वारा वर्णित',
+  'attribution.dominant': 'प्रमुख स्रोत',
+  'attribution.certainty': 'स्रोत निर्धारण निश्चितता: {value}%',
+  'attribution.secondary': 'द्वितीयक योगदान',
+  'attribution.derivation': 'तार्किक व्युत्पत्ति',
+  'attribution.snippet': 'इंटेलिजेंस अंश',
+
+  // CitizenAction
+  'report.locating': 'GPS निर्देशांक खोजे जा रहे हैं...',
+  'report.noLocation': 'स्थान उपलब्ध नहीं',
+  'report.inWard': '{ward} (वार्ड {no}) • {coords}',
+  'report.outside': 'नगर वार्डों से बाहर • {coords}',
+  'report.kicker': 'नागरिक इंटेलिजेंस',
+  'report.title': 'हॉटस्पॉट की रिपोर्ट करें',
+  'report.subtitle': 'पर्यावरण प्रवर्तन विभाग तक सीधी पहुँच।',
+  'report.media': 'फ़ोटो/वीडियो लें या छोड़ें',
+  'report.mediaHint': 'छवि या MP4 समर्थित',
+  'report.location': 'वर्तमान स्थान',
+  'report.placeholder': 'उल्लंघन का विवरण दें (जैसे कचरा जलाना, औद्योगिक निकास)...',
+  'report.submit': 'प्राधिकरण को भेजें',
+  'report.sending': 'पैकेज एन्क्रिप्ट हो रहा है',
+  'report.sendingHint': 'CPCB नोड्स से सुरक्षित कनेक्शन बनाया जा रहा है...',
+  'report.done': 'प्रेषण की पुष्टि',
+  'report.doneBody': 'आपकी रिपोर्ट ID #PX-2940 के तहत दर्ज कर {zone} त्वरित प्रतिक्रिया इकाई को सौंपी गई है।',
+  'report.back': 'डैशबोर्ड पर लौटें',
+
+  // HealthImpactView
+  'health.title': 'शारीरिक जोखिम रजिस्ट्री',
+  'health.subtitle': 'PM2.5 सांद्रता के आधार पर चयापचय और श्वसन तंत्र पर वायुमंडलीय प्रभाव का वैज्ञानिक आकलन।',
+  'health.twin.title': 'स्वास्थ्य डिजिटल ट्विन',
+  'health.twin.kicker': 'व्यक्तिगत जोखिम इंजन',
+  'health.ageGroup': 'आयु वर्ग',
+  'health.age.Child': 'बच्चा',
+  'health.age.Adult': 'वयस्क',
+  'health.age.Elderly': 'बुज़ुर्ग',
+  'health.condition': 'स्वास्थ्य स्थिति',
+  'health.condition.None': 'कोई नहीं',
+  'health.condition.Asthma': 'अस्थमा',
+  'health.condition.Heart Condition': 'हृदय रोग',
+  'health.condition.Pregnant': 'गर्भवती',
+  'health.exposure': 'नियोजित संपर्क',
+  'health.hours': '{count} घं.',
+  'health.calibrating': 'चयापचय प्रभाव का अनुकरण हो रहा है...',
+  'health.retry': 'फिर से कैलिब्रेट करें',
+  'health.calibrate': 'डिजिटल ट्विन कैलिब्रेट करें',
+  'health.warning': 'व्यक्तिगत चेतावनी',
+  'health.risk': '{level} जोखिम',
+  'health.limit': 'अधिकतम बाहरी सीमा',
+  'health.protocol': 'सुरक्षा उपाय',
+  'health.recalibrate': 'पुनः कैलिब्रेट करें',
+  'health.cigarettes': 'सिगरेट समतुल्य / दिन',
+  'health.toxicity.title': 'वायुमंडलीय विषाक्तता सूचकांक',
+  'health.toxicity.body': 'वर्तमान सांद्रता पर परिवेशी PM2.5 साँस में लेना, 24 घंटे में ऊपर दी गई संख्या में सिगरेट पीने के शारीरिक रूप से बराबर है।',
+  'health.toxicity.source': 'स्रोत: ग्लोबल बर्डन ऑफ़ डिज़ीज़ अध्ययन',
+  'health.card.respiratory': 'श्वसन / अस्थमा',
+  'health.card.respiratory.advice': 'लक्षण बिगड़ने और रेस्क्यू इनहेलर पर निर्भरता बढ़ने की अधिक संभावना।',
+  'health.card.cardio': 'हृदय व रक्त संचार',
+  'health.card.cardio.advice': 'हाल के समूहों में प्रणालीगत सूजन और हृदय गति परिवर्तनशीलता में वृद्धि देखी गई।',
+  'health.card.pediatric': 'बाल स्वास्थ्य',
+  'health.card.pediatric.advice': 'दिन के चरम समय में लंबे बाहरी परिश्रम को रोकने की सलाह।',
+  'health.card.elderly': 'बुज़ुर्ग आबादी',
+  'health.card.elderly.advice': 'पहले से चयापचय रोग वाले लोगों के लिए घर के अंदर रहना प्राथमिकता।',
+  'health.disclaimer': 'अस्वीकरण: डेटा सांकेतिक है। व्यक्तिगत निदान के लिए प्रमाणित चिकित्सक से परामर्श करें।',
+  'health.diary.title': 'एक्सपोज़र डायरी',
+  'health.diary.kicker': 'व्यक्तिगत PM2.5 खुराक',
+  'health.diary.place.home': 'घर का वार्ड',
+  'health.diary.place.work': 'कार्यस्थल का वार्ड',
+  'health.diary.place.commute': 'आवागमन मार्ग का वार्ड',
+  'health.diary.log': 'दिन दर्ज करें (घंटे)',
+  'health.diary.setting.home': 'घर',
+  'health.diary.setting.work': 'कार्यस्थल',
+  'health.diary.setting.commute': 'आवागमन',
+  'health.diary.setting.outdoor': 'बाहर',
+  'health.diary.unlogged': '{count} घंटे दर्ज नहीं, घर में गिने गए',
+  'health.diary.fullDay': 'पूरा दिन दर्ज',
+  'health.diary.save': 'दिन सहेजें',
+  'health.diary.update': 'दिन अपडेट करें',
+  'health.diary.empty': 'अपनी साँस से ली गई खुराक और साप्ताहिक रुझान देखने के लिए एक दिन दर्ज करें।',
+  'health.diary.weekDose': 'खुराक, पिछले 7 दिन',
+  'health.diary.vsWho': 'WHO दिशानिर्देश की तुलना में',
+  'health.diary.times': '{ratio}×',
+  'health.diary.mean': 'साँस में ली गई PM2.5',
+  'health.diary.ugm3': '{value} µg/m³',
+  'health.diary.ug': '{value} µg',
+  'health.diary.daysAbove': 'WHO से ऊपर के दिन',
+  'health.diary.daysOf': '{total} में से {count}',
+  'health.diary.tooltip.dose': 'साँस में ली गई: {value}',
+  'health.diary.tooltip.who': 'WHO दिशानिर्देश पर: {value}',
+  'health.diary.tooltip.days': '{count} दिन दर्ज',
+  'health.diary.legend.dose': 'आपकी साप्ताहिक खुराक',
+  'health.diary.legend.who': 'WHO दिशानिर्देश ({limit} µg/m³, 24 घंटे)',
+  'health.diary.sources': 'स्थान के अनुसार खुराक, पिछले 7 दिन',
+  'health.diary.estimated': 'कुछ दिनों का वार्ड इतिहास उपलब्ध नहीं था; उनके लिए नवीनतम रीडिंग ली गई।',
+  'health.diary.method': 'PM2.5 का अनुमान हर वार्ड के दैनिक AQI इतिहास से लगाया जाता है। माना गया है कि बाहरी PM2.5 का {home}% घरों में, {work}% दफ़्तरों में और {commute}% वाहनों में पहुँचता है। साँस की दर आयु वर्ग के अनुसार है। WHO संदर्भ उन्हीं घंटों में {limit} µg/m³ पर ली गई खुराक है।',
+  'risk.Low': 'कम',
+  'risk.Moderate': 'मध्यम',
+  'risk.Medium': 'मध्यम',
+  'risk.High': 'उच्च',
+  'risk.Critical': 'अति गंभीर',
+  'risk.Severe': 'गंभीर',
+  'risk.Elevated': 'बढ़ा हुआ',
+  'risk.Extreme': 'चरम',
+
+  // AtmosScan
+  'scan.kicker': 'इंटेलिजेंस परत 04',
+  'scan.title': 'AtmosScan विज़न',
+  'scan.subtitle': 'वायुमंडलीय धुंध और कण दृश्यता की दूरस्थ AI प्रोफ़ाइलिंग।',
+  'scan.upload': 'छवि अपलोड करें',
+  'scan.imageAlt': 'स्कैन लक्ष्य',
+  'scan.analyzing': 'स्पेक्ट्रल घनत्व का विश्लेषण',
+  'scan.analyzingDetail': 'PM2.5 प्रकीर्णन गुणांकों से मिलान हो रहा है...',
+  'scan.interrupted': 'विश्लेषण बाधित',
+  'scan.waiting': 'सिस्टम स्थानिक इनपुट की प्रतीक्षा में',
+  'scan.complete': 'विश्लेषण पूर्ण',
+  'scan.score': 'दृश्य प्रदूषण स्कोर',
+  'scan.source': 'मुख्य स्रोत',
+  'scan.reasoning': 'विश्लेषण तर्क',
+  'scan.anomaly': 'असामान्यता की उच्च संभावना ({percent}%)',
+  'scan.anomalyDetail': 'यह घटना आधारभूत वायुमंडलीय मॉडलों से काफ़ी अलग है।',
+  'scan.confidence': 'विश्वास मैट्रिक्स',
+  'scan.model': 'मॉडल नोड',
+
+  // ForecastView
+  'forecast.loading': 'वायुमंडलीय मॉडल तैयार हो रहे हैं',
+  'forecast.kicker': 'इंटेलिजेंस परत 05',
+  'forecast.title': 'पूर्वानुमानित संपर्क नोड',
+  'forecast.subtitle': 'शहर की दर्ज रीडिंग पर आधारित सांख्यिकीय अनुमान, तुलना के लिए वैकल्पिक AI अनुमान के साथ।',
+  'forecast.confidenceMatrix': 'विश्वास मैट्रिक्स',
+  'forecast.aiModel': 'AI मॉडल',
+  'forecast.observed': 'पिछले 72 घंटे का शहर AQI',
+  'forecast.readings': '{count} प्रति घंटा रीडिंग',
+  'forecast.observedEmpty': 'हर बार लाइव डेटा आने पर अवलोकन दर्ज होते हैं। दो घंटे का रिकॉर्ड होते ही रुझान दिखेगा।',
+  'forecast.projection': '+{hours} घंटे का अनुमान',
+  'forecast.range': '80% दायरा {lower}–{upper}',
+  'forecast.vector': 'मुख्य स्रोत',
+  'forecast.summary': 'इंटेलिजेंस सारांश',
+  'forecast.confidence': 'विश्वास: {percent}%',
+  'forecast.compare': 'AI बनाम {model} आधार',
+  'forecast.col.horizon': 'अवधि',
+  'forecast.col.baseline': 'आधार (80%)',
+  'forecast.col.difference': 'अंतर',
+  'forecast.outside': 'दायरे से बाहर',
+  'forecast.verification': 'पूर्वानुमान सत्यापन',
+  'forecast.skillVsPersistence': 'पर्सिस्टेंस की तुलना में कौशल',
+  'forecast.col.model': 'मॉडल',
+  'forecast.col.mae': 'MAE',
+  'forecast.col.bias': 'पूर्वाग्रह',
+  'forecast.col.hit': 'श्रेणी मिलान',
+  'forecast.col.skill': 'कौशल',
+  'forecast.verificationEmpty': 'हर जारी पूर्वानुमान सहेजा जाता है। पहले 24 घंटे के अनुमान की दर्ज रीडिंग से तुलना होते ही स्कोर दिखेंगे।',
+  'forecast.notice.title': 'सिस्टम सूचना',
+  'forecast.notice.body': 'आधार अनुमान शहर की दर्ज रीडिंग पर स्थानीय रूप से फ़िट किए गए {model} से आते हैं; Gemini कुंजी होने पर AI अनुमान दिखाए जाते हैं। परिचालन निर्णयों के लिए हमेशा CPCB/DPCC की लाइव नियामक टेलीमेट्री देखें।',
+
+  // CivicPulse
+  'pulse.nav.home': 'होम',
+  'pulse.nav.dashboard': 'डैशबोर्ड',
+  'pulse.nav.explore': 'खोजें',
+  'pulse.nav.communities': 'समुदाय',
+  'pulse.nav.bookmarks': 'बुकमार्क',
+  'pulse.nav.profile': 'प्रोफ़ाइल',
+  'pulse.nav.more': 'और',
+  'pulse.post': 'पोस्ट करें',
+  'pulse.lightMode': 'लाइट मोड',
+  'pulse.darkMode': 'डार्क मोड',
+  'pulse.admin': 'एडमिन नोड',
+  'pulse.composer': 'आप कौन-सी प्रदूषण समस्या देख रहे हैं?',
+  'pulse.justNow': 'अभी',
+  'pulse.observer': 'नागरिक पर्यवेक्षक',
+  'pulse.happening': 'क्या चल रहा है',
+  'pulse.trending': '{region} · ट्रेंडिंग',
+  'pulse.reports': '{count} रिपोर्ट',
+  'pulse.region.south': 'दक्षिण दिल्ली',
+  'pulse.region.east': 'पूर्वी दिल्ली',
+  'pulse.region.outer': 'बाहरी NCT',
+  'pulse.region.central': 'केंद्रीय हब',
+  'pulse.showMore': 'और दिखाएँ',
+  'pulse.ailing': 'प्रभावित वार्ड (24 घंटे)',
+  'pulse.spike': 'उछाल',
+  'pulse.aqi': 'AQI: {aqi}',
+
+  // AnalyticsView
+  'analytics.title': 'वायुमंडलीय विश्लेषण',
+  'analytics.subtitle': 'प्रशासनिक इंटेलिजेंस के लिए विस्तृत कालिक विश्लेषण।',
+  'analytics.hourly': 'प्रति घंटा संपर्क रुझान (24 घंटे)',
+  'analytics.daily': 'दैनिक माध्यिका सूचकांक (7 दिन)',
+  'analytics.pollutants': 'प्रदूषक योगदान प्रोफ़ाइल',
+  'analytics.others': 'अन्य',
+  'analytics.summary': 'इंटेलिजेंस सारांश',
+  'analytics.peak': 'अधिकतम AQI का समय',
+  'analytics.variance': 'आधार विचलन',
+  'analytics.vsYesterday': 'कल की तुलना में {change}',
+  'analytics.cleanest': 'सबसे स्वच्छ अवधि',
+  'analytics.aggregation': 'गणना पद्धति के अनुसार मुख्य AQI',
+  'analytics.stations': '{count} स्टेशन',
+  'analytics.intervention': 'हस्तक्षेप मॉडलिंग',
+  'analytics.mitigation.title': 'शमन प्रभाव अनुकरण',
+  'analytics.mitigation.subtitle': 'नीतिगत हस्तक्षेपों के अनुमानित परिणाम, हर वार्ड के स्रोत विभाजन पर लागू।',
+  'analytics.cityAqi': 'शहर AQI',
+  'analytics.exposureRedux': 'संपर्क में कमी',
+  'analytics.grapNow': 'GRAP (अभी {stage})',
+  'analytics.byIntervention': 'हस्तक्षेप के अनुसार संपर्क में कमी (अकेले)',
+  'analytics.reduction': '{percent}% कमी',
+  'analytics.forecast72': '72 घंटे का शहर AQI पूर्वानुमान',
+  'analytics.awaiting': 'पूर्वानुमान की प्रतीक्षा',
+  'analytics.simulated': 'अनुकरणित AQI',
+  'analytics.base': 'आधार: {aqi}',
+  'analytics.postAction': 'कार्रवाई के बाद: {aqi}',
+  'analytics.highest': 'सबसे अधिक अनुमानित वार्ड',
+  'analytics.estimatedWard': '{name} (अनु.)',
+  'analytics.estimatedBaselines': '{count} वार्डों के दायरे में कोई स्टेशन नहीं है; उनकी आधार-रेखा क्षेत्रीय अनुमान है और शहर के प्रक्षेपण में शामिल नहीं है।',
+  'analytics.footnote': 'हर नीति अपने क्षेत्र का वार्ड उत्सर्जन में हिस्सा घटाती है; वार्ड AQI का {percent}% स्थानीय नियंत्रण से बाहर क्षेत्रीय पृष्ठभूमि माना जाता है।',
+  'grap.short.0': 'कोई नहीं',
+  'grap.short.1': 'चरण I',
+  'grap.short.2': 'चरण II',
+  'grap.short.3': 'चरण III',
+  'grap.short.4': 'चरण IV',
+  'policy.diesel-ban': 'डीज़ल प्रतिबंध',
+  'policy.diesel-ban.description': 'गैर-आवश्यक डीज़ल माल वाहन और BS-IV डीज़ल कारें सड़क से बाहर',
+  'policy.odd-even': 'ऑड-ईवन',
+  'policy.odd-even.description': 'नंबर प्लेट के अनुसार निजी कारें एक दिन छोड़कर',
+  'policy.construction-halt': 'निर्माण पर रोक',
+  'policy.construction-halt.description': 'सभी गैर-आवश्यक निर्माण और तोड़फोड़ बंद',
+  'policy.dust-suppression': 'धूल नियंत्रण',
+  'policy.dust-suppression.description': 'धूल वाले हॉटस्पॉट पर मशीनी सफ़ाई, छिड़काव और एंटी-स्मॉग गन',
+  'policy.industrial-shutdown': 'औद्योगिक बंदी',
+  'policy.industrial-shutdown.description': 'अस्वीकृत ईंधन वाली इकाइयाँ और स्टोन क्रशर बंद',
+
+  // WardDetail
+  'detail.registry': 'आधिकारिक रजिस्ट्री नोड',
+  'detail.sector': 'सेक्टर {id} • {zone}',
+  'detail.index': 'एकीकृत प्रतिक्रिया सूचकांक',
+  'detail.phase': '{level} चरण',
+  'detail.nominal': 'सामान्य टेलीमेट्री',
+  'detail.estimated': 'अनुमानित • दायरे में कोई स्टेशन नहीं',
+  'detail.density': '{density} / किमी²',
+  'detail.densityNA': 'घनत्व उपलब्ध नहीं',
+  'detail.outlook': '72 घंटे का अनुमान',
+  'detail.range': '80% दायरा',
+  'detail.modeling': 'मॉडलिंग',
+  'detail.noForecast': 'कोई पूर्वानुमान नहीं',
+  'detail.peak': '+{hours} घंटे पर अधिकतम {aqi} AQI',
+  'detail.awaiting': 'अवलोकनों की प्रतीक्षा',
+  'detail.rank': 'क्षेत्र रैंक',
+  'detail.inRegion': '{region} में',
+  'detail.composition': 'प्रदूषक संरचना',
+  'detail.pm25': 'सूक्ष्म कण (PM2.5)',
+  'detail.pm10': 'मोटी धूल (PM10)',
+  'detail.attribution.title': 'स्रोत निर्धारण',
+  'detail.attribution.body': 'प्रमुख प्रदूषण स्रोत पहचानने के लिए वायुमंडलीय रसायन का विश्लेषण करें।',
+  'detail.attribution.running': 'सेंसर कैलिब्रेट हो रहे हैं...',
+  'detail.attribution.run': 'स्रोत निर्धारण चलाएँ',
+  'detail.strategy': 'रणनीतिक कार्य इकाई',
+  'detail.urgency': 'योजना की तात्कालिकता',
+  'detail.priority': '{level} प्राथमिकता',
+  'region.North': 'उत्तरी दिल्ली',
+  'region.South': 'दक्षिण दिल्ली',
+  'region.East': 'पूर्वी दिल्ली',
+  'region.West': 'पश्चिमी दिल्ली',
+  'region.Central': 'मध्य दिल्ली',
+
+  // WardMap
+  'map.node': 'प्रशासनिक नोड {no}',
+  'map.forecastAt': 'पूर्वानुमान +{hours} घंटे',
+  'map.method.idw': 'IDW',
+  'map.method.kriging': 'क्रिगिंग',
+  'map.stations': '{count} स्टेशन',
+  'map.extrapolated': 'बहिर्वेशित',
+  'map.noCoverage': 'दायरे में कोई स्टेशन नहीं • कोई अनुमान नहीं',
+  'map.loading': 'स्थानिक टेलीमेट्री लोड हो रही है',
+  'map.unavailable': 'वार्ड सीमाएँ उपलब्ध नहीं',
+  'map.unavailableDetail': 'नेटवर्क कनेक्शन नहीं है और अभी कोई सहेजी गई प्रति भी नहीं है। एक बार सफलतापूर्वक लोड होने के बाद मानचित्र ऑफ़लाइन उपलब्ध रहेगा।',
+  'map.station': 'CPCB स्टेशन',
+  'map.outside': 'वार्ड सीमाओं से बाहर',
+  'map.qcExcluded': 'QC से बाहर',
+  'qc.spike': 'पड़ोसियों की तुलना में उछाल',
+  'qc.stuck': 'अटकी हुई रीडिंग',
+  'qc.jump': 'असंभव छलांग',
+  'qc.out-of-bounds': 'दिल्ली सीमा से बाहर',
+  'map.layer': 'मॉडल जोखिम परत',
+  'map.variance': 'विचलन',
+  'map.cachedStations': 'सहेजे गए स्टेशन',
+  'map.delayedStations': 'विलंबित स्टेशन',
+  'map.fixtureStations': 'डेमो स्टेशन (ऑफ़लाइन फ़िक्स्चर)',
+  'map.scanNode': 'AtmosScan विज़न नोड',
+  'map.observedNow': 'अभी दर्ज',
+  'map.forecast': 'पूर्वानुमान',
+  'map.live': 'लाइव',
+
+  // GovSections
+  'gov.orchestrator': 'Gemini निर्णय संचालक',
+  'gov.matrix': 'कार्यकारी कार्रवाई मैट्रिक्स',
+  'gov.protocol': '{level} प्रोटोकॉल सक्रिय',
+  'gov.escalation.Monitor': 'निगरानी',
+  'gov.escalation.Alert': 'सतर्कता',
+  'gov.escalation.Emergency': 'आपातकाल',
+  'gov.escalation.Lockdown': 'लॉकडाउन',
+  'gov.riskScore': 'प्रणालीगत जोखिम स्कोर',
+  'gov.recommended': 'अनुशंसित स्तर',
+  'gov.impacted': '{group} प्रभावित',
+  'gov.orchestratorUnavailable': 'निर्णय संचालक उपलब्ध नहीं',
+  'gov.liveIntel': 'लाइव नियामक इंटेलिजेंस',
+  'gov.newsFallback': 'मानक प्रोटोकॉल सक्रिय।',
+  'gov.newsIdle': 'टेलीमेट्री चालू। नवीनतम CAQM बुलेटिन पर नज़र।',
+  'gov.layer1': 'इंटेलिजेंस परत 01',
+  'gov.guidelines.title': 'सरकारी वायु गुणवत्ता दिशानिर्देश',
+  'gov.guidelines.body': 'ग्रेडेड रिस्पॉन्स एक्शन प्लान (GRAP) के तहत वायु गुणवत्ता प्रबंधन आयोग (CAQM) द्वारा जारी आधिकारिक प्रोटोकॉल।',
+  'gov.currentStage': 'वर्तमान चरण',
+  'gov.awaiting': 'अवलोकनों की प्रतीक्षा',
+  'gov.invokedForecast': 'पूर्वानुमान पर लागू',
+  'gov.invokedObserved': 'दर्ज AQI पर लागू',
+  'gov.since': '{time} से',
+  'gov.revocation': 'AQI बना रहे तो {time} पर वापसी समीक्षा',
+  'gov.measuresInForce': '{count} उपाय लागू',
+  'gov.history': 'चरण इतिहास',
+  'gov.transition': 'चरण {from} → {to}',
+  'gov.history.forecast': '{hours} घंटे में पूर्वानुमान {aqi}',
+  'gov.history.revoked': '{aqi} पर वापस लिया',
+  'gov.history.observed': 'दर्ज {aqi}',
+  'gov.stage': 'चरण {stage}',
+  'gov.threshold': '{level} • AQI {threshold}+',
+  'gov.inForce': 'लागू',
+  'gov.leadTime': 'पूर्वानुमान पर {hours} घंटे पहले तक लागू',
+  'gov.cumulative': '+ चरण {stage} के सभी उपाय',
+  'gov.checklist.kicker': 'अनुपालन जाँच-सूची',
+  'gov.checklist.title': 'ज़ोन-वार GRAP कार्यान्वयन',
+  'gov.acrossZones': '{zones} ज़ोन में {implemented}/{total}',
+  'gov.zonesUpTo': 'ज़ोन • चरण {stage} तक',
+  'gov.citywide': 'पूरे शहर में',
+  'gov.wardsRelevant': '{relevant}/{total} वार्ड प्रासंगिक',
+  'gov.layer2': 'इंटेलिजेंस परत 02',
+  'gov.enforcement': 'सक्रिय प्रवर्तन स्थिति',
+  'gov.enforcement.traffic': 'यातायात नियंत्रण',
+  'gov.enforcement.traffic.detail': 'निर्दिष्ट क्षेत्रों में BS-III पेट्रोल और BS-IV डीज़ल वाहनों पर रोक।',
+  'gov.enforcement.dust': 'धूल नियंत्रण',
+  'gov.enforcement.dust.detail': 'घने गलियारों पर चौबीसों घंटे पानी का छिड़काव और मशीनी सफ़ाई।',
+  'gov.enforcement.industry': 'औद्योगिक नियंत्रण',
+  'gov.enforcement.industry.detail': 'विनिर्माण इकाइयों को PNG/स्वच्छ ईंधन ग्रिड पर लाना।',
+  'gov.status.active': 'सक्रिय',
+  'gov.status.planned': 'नियोजित',
+  'gov.layer3': 'इंटेलिजेंस परत 03',
+  'gov.plan.title': 'रणनीतिक कार्य योजना',
+  'gov.plan.body': 'संरचनात्मक डीकार्बनाइज़ेशन पर केंद्रित 2025-2030 रोडमैप।',
+  'gov.plan.ev': 'व्यावसायिक बेड़ों के लिए तेज़ EV परिवर्तन।',
+  'gov.plan.green': '33% हरित बफ़र ज़ोन का निर्माण पूरा करना।',
+  'gov.plan.sensors': 'रियल-टाइम सूक्ष्म-सेंसर की तैनाती।',
+  'gov.stat.transport': 'सार्वजनिक परिवहन',
+  'gov.stat.evs': '+{count} EV',
+  'gov.stat.sensors': 'नए सेंसर',
+  'gov.stat.green': 'हरित आवरण',
+  'gov.stat.target': 'लक्ष्य AQI',
+
+  // GeminiAssistant
+  'assistant.poweredBy': 'Gemini द्वारा संचालित',
+  'assistant.title': 'वायुमंडलीय इंटेलिजेंस कंसोल',
+  'assistant.threads': 'ब्रीफ़िंग थ्रेड',
+  'assistant.newThread': 'नया थ्रेड',
+  'assistant.export': 'Markdown के रूप में निर्यात करें',
+  'assistant.target': 'लक्ष्य: {place}',
+  'assistant.delhi': 'दिल्ली NCT',
+  'assistant.uplink': 'लाइव अपलिंक',
+  'assistant.noThreads': 'अभी कोई सहेजा गया थ्रेड नहीं',
+  'assistant.messages': '{count} संदेश',
+  'assistant.deleteThread': 'थ्रेड हटाएँ',
+  'assistant.ready': 'प्रश्न के लिए तैयार',
+  'assistant.readyDetail': 'वार्ड-विशेष प्रदूषण स्रोतों का विश्लेषण करें, पूर्वानुमान का तर्क जानें या शमन रणनीतियाँ माँगें।',
+  'assistant.suggest.why': 'AQI ज़्यादा क्यों है?',
+  'assistant.suggest.worst': 'दक्षिण के 5 सबसे खराब वार्ड',
+  'assistant.suggest.forecast': 'कल का पूर्वानुमान',
+  'assistant.suggest.factories': 'कारखानों के उल्लंघन',
+  'assistant.lookups': '{count} डेटा खोज',
+  'assistant.stopped': 'रोका गया',
+  'assistant.disclaimer': 'AI द्वारा तैयार • CPCB से पुष्टि करें',
+  'assistant.analysing': 'विश्लेषण हो रहा है',
+  'assistant.placeholder': 'आदेश या प्रश्न लिखें...',
+  'assistant.stop': 'उत्तर रोकें',
+  'assistant.launch': 'इंटेलिजेंस खोलें',
+  'assistant.untitled': 'नई ब्रीफ़िंग',
+  'assistant.md.started': 'PureAir ब्रीफ़िंग थ्रेड, {started} को शुरू, {exported} को निर्यात।',
+  'assistant.md.officer': 'अधिकारी',
+  'assistant.md.assistant': 'सहायक',
+  'assistant.md.noText': '(कोई पाठ नहीं)',
+  'assistant.md.stopped': 'पूरा होने से पहले रोका गया।',
+  'assistant.md.sources': 'स्रोत',
+  'tool.find_ward': 'वार्ड खोज',
+  'tool.rank_wards': 'वार्ड रैंकिंग',
+  'tool.get_ward_history': 'वार्ड इतिहास',
+  'tool.get_forecast': 'पूर्वानुमान',
+  'tool.get_grap_measures': 'GRAP उपाय',
+  'tool.get_factories': 'कारखाना बही',
+  'alerts.kicker': 'वार्ड अलर्ट',
+  'alerts.title': 'वायु गुणवत्ता अलर्ट',
+  'alerts.enable': 'ब्राउज़र सूचनाएँ चालू करें',
+  'alerts.permission.granted': 'ब्राउज़र सूचनाएँ चालू हैं',
+  'alerts.permission.denied': 'सूचनाएँ अवरुद्ध हैं; अलर्ट नीचे इतिहास में रखे जाते हैं',
+  'alerts.permission.unsupported': 'यह ब्राउज़र सूचनाएँ नहीं दिखा सकता; अलर्ट नीचे इतिहास में रखे जाते हैं',
+  'alerts.new': 'नया अलर्ट',
+  'alerts.city': 'दिल्ली (शहर का औसत)',
+  'alerts.trigger.threshold': 'AQI सीमा से ऊपर',
+  'alerts.trigger.category': 'श्रेणी में बदलाव',
+  'alerts.trigger.grap': 'GRAP चरण में बदलाव',
+  'alerts.trigger.forecast-severe': 'गंभीर पूर्वानुमान',
+  'alerts.thresholdLabel': 'इस AQI से ऊपर अलर्ट',
+  'alerts.above': '{threshold} से ऊपर',
+  'alerts.add': 'अलर्ट जोड़ें',
+  'alerts.subscriptions': 'सदस्यताएँ',
+  'alerts.noSubscriptions': 'अभी कोई अलर्ट सेट नहीं है',
+  'alerts.remove': 'अलर्ट हटाएँ',
+  'alerts.quietHours': 'शांत समय',
+  'alerts.quietHint': 'शांत समय में अलर्ट केवल यहाँ दर्ज होते हैं, सूचना के रूप में नहीं दिखते।',
+  'alerts.history': 'हाल के अलर्ट',
+  'alerts.clear': 'साफ़ करें',
+  'alerts.noHistory': 'अभी कोई अलर्ट नहीं',
+  'alerts.silenced': 'शांत समय',
+  'alerts.threshold.title': '{place}: AQI {aqi}',
+  'alerts.threshold.body': 'वायु गुणवत्ता आपके अलर्ट स्तर {threshold} को पार कर गई है।',
+  'alerts.category.title': '{place} अब {level} है',
+  'alerts.category.body': 'AQI {aqi}, पहले {previous} था।',
+  'alerts.grap.title': '{label} लागू',
+  'alerts.grap.lifted': 'GRAP प्रतिबंध हटाए गए',
+  'alerts.grap.body': '{description}',
+  'alerts.forecast.title': '{place} में गंभीर हवा की आशंका',
+  'alerts.forecast.body': '{hours} घंटे में AQI {aqi} तक पहुँचने का पूर्वानुमान।',
+
+  // Local rule-based answers (services/llm/localProvider)
+  'local.insight.stage': 'शहर का AQI {aqi} ({category}) है, मुख्य कारण {dominant} है। {stage} लागू होता है; {measures} का सख़्त पालन आम तौर पर स्थानीय उत्सर्जन {reduction} तक घटाता है।',
+  'local.insight.none': 'शहर का AQI {aqi} ({category}) है, मुख्य कारण {dominant} है। कोई GRAP चरण देय नहीं है; नियमित धूल और यातायात प्रवर्तन स्थानीय उत्सर्जन को {reduction} कम रखता है।',
+  'local.and': '{first} और {second}',
+  'local.forecast.explanation': 'वर्तमान AQI को हाल के रुझान के साथ आगे बढ़ाया गया है।',
+  'local.plan.summary': '{ward} (AQI {aqi}) में स्थानीय प्रदूषण का मुख्य स्रोत {source} है; {stage} के उपाय इसी क्षेत्र पर केंद्रित करें।',
+  'local.plan.preventive': 'निवारक चरण I',
+  'local.health.protect.Low': 'कोई विशेष सावधानी नहीं',
+  'local.health.protect.Moderate': 'यातायात के पास भारी परिश्रम से बचें',
+  'local.health.protect.High': 'बाहर N95 मास्क; घर में एयर प्यूरीफ़ायर',
+  'local.health.who.Asthma': 'अस्थमा से पीड़ित लोगों',
+  'local.health.who.Heart Condition': 'हृदय रोग वाले लोगों',
+  'local.health.who.Pregnant': 'गर्भवती महिलाओं',
+  'local.health.who.Child': 'बच्चों',
+  'local.health.who.Adult': 'वयस्कों',
+  'local.health.who.Elderly': 'बुज़ुर्गों',
+  'local.health.warning': 'AQI {aqi} ({category}) पर {who} के लिए संपर्क जोखिम {risk} है।',
+  'local.decision.monitor': 'नियमित निगरानी जारी रखें',
+  'local.decision.reasoning': 'AQI {aqi}, {stage} में आता है और रुझान {trend} है।',
+  'local.group.children': 'बच्चे',
+  'local.group.elderly': 'बुज़ुर्ग',
+  'local.group.respiratory': 'श्वसन रोगी',
+  'local.group.outdoor': 'बाहर काम करने वाले',
+  'local.assistant.city': 'शहर का AQI {aqi} ({category}) है।',
+  'local.assistant.noCity': 'शहर की कोई लाइव रीडिंग उपलब्ध नहीं है।',
+  'local.assistant.ward': '{ward} का AQI {aqi} है, अधिकतर {source} से।',
+  'local.assistant.grap': '{label}: {description}।',
+  'local.assistant.health': '{city} {measure}। स्वस्थ वयस्क बाहर {minutes} मिनट से कम रहें; बच्चे, बुज़ुर्ग और हृदय या फेफड़ों के रोगी इसका आधा समय ही बाहर रहें।',
+  'local.assistant.hint': 'स्वास्थ्य सावधानियों, GRAP चरणों या प्रदूषण स्रोतों के बारे में पूछें।',
+  'local.assistant.noData': 'खोज में कोई डेटा नहीं मिला।',
+  'local.safeZones.title': 'निकटतम बड़े हरित क्षेत्र:',
+  'local.safeZones.item': '- {name}: {distance} किमी ({area} हेक्टेयर)',
+  'local.safeZones.route': 'मुख्य सड़कों के बजाय आवासीय गलियों वाले रास्ते चुनें।',
+  'local.policy.since': ' {time} से',
+  'local.policy.status': '{label}{since}: {description}। {count} उपाय लागू (स्थानीय GRAP इंजन)।',
+
+  // AI service messages (services/geminiService)
+  'ai.error.unavailable': 'AI विश्लेषण के लिए कॉन्फ़िगर किया गया प्रदाता चाहिए, जैसे Gemini API कुंजी।',
+  'ai.error.unsupported': 'यह AI प्रदाता छवियों का विश्लेषण नहीं कर सकता। इस सुविधा के लिए Gemini API कुंजी कॉन्फ़िगर करें।',
+  'ai.error.requestFailed': 'AI सेवा से संपर्क नहीं हो सका। कृपया फिर से प्रयास करें।',
+  'ai.error.invalidResponse': '{attempts} प्रयासों के बाद भी AI उत्तर सत्यापन में विफल रहा।',
+  'ai.assistant.unstable': 'कनेक्शन अस्थिर। लिंक फिर से जोड़ा जा रहा है...',
+  'ai.assistant.toolLimit': 'सहायक अपनी डेटा खोज पूरी नहीं कर सका। कृपया प्रश्न दूसरे शब्दों में पूछें।',
+  'ai.assistant.error': 'लाइव AI कनेक्शन में त्रुटि। कृपया कुछ क्षणों बाद फिर प्रयास करें।',
+  'ai.news.idle': 'GRAP निगरानी चालू।',
+  'ai.news.failed': 'नीति अपलिंक विफल। CPCB की आधिकारिक साइट देखें।',
+  'ai.safeZones.pending': 'सुरक्षित क्षेत्र खोजे जा रहे हैं...',
+  'ai.safeZones.failed': 'सुरक्षित क्षेत्र खोज विफल।',
+};
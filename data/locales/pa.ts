@@ -0,0 +1,759 @@
+import { Catalogue } from './en';
+
+// Punjabi (Gurmukhi). Acronyms such as AQI, GRAP, CPCB and PM2.5 stay in Latin script,
+// as they appear in official bulletins.
+export const pa: Catalogue = {
+  // Shared
+  'common.aqi': 'AQI',
+  'common.close': 'ਬੰਦ ਕਰੋ',
+  'common.retry': 'ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ',
+  'common.language': 'ਭਾਸ਼ਾ',
+  'common.ward': 'ਵਾਰਡ {no}',
+  'common.minutes': '{count} ਮਿੰਟ',
+  'common.km': '{value} ਕਿਲੋਮੀਟਰ',
+  'common.dominant': '{pollutant} ਪ੍ਰਮੁੱਖ',
+  'common.regionDelhi': '{region} ਦਿੱਲੀ',
+
+  'level.Good': 'ਚੰਗਾ',
+  'level.Satisfactory': 'ਤਸੱਲੀਬਖ਼ਸ਼',
+  'level.Moderate': 'ਦਰਮਿਆਨਾ',
+  'level.Poor': 'ਮਾੜਾ',
+  'level.Very Poor': 'ਬਹੁਤ ਮਾੜਾ',
+  'level.Severe': 'ਗੰਭੀਰ',
+
+  'source.transport': 'ਵਾਹਨਾਂ ਦਾ ਧੂੰਆਂ',
+  'source.construction': 'ਉਸਾਰੀ ਤੇ ਸੜਕ ਦੀ ਧੂੜ',
+  'source.industry': 'ਉਦਯੋਗਿਕ ਬਲਣ',
+  'source.waste': 'ਬਾਇਓਮਾਸ ਤੇ ਕੂੜਾ ਸਾੜਨਾ',
+
+  'dispersion.stagnant': 'ਰੁਕੀ ਹਵਾ',
+  'dispersion.poor': 'ਕਮਜ਼ੋਰ ਫੈਲਾਅ',
+  'dispersion.moderate': 'ਦਰਮਿਆਨਾ ਫੈਲਾਅ',
+  'dispersion.good': 'ਚੰਗਾ ਫੈਲਾਅ',
+
+  'aggregation.max': 'ਵੱਧ ਤੋਂ ਵੱਧ',
+  'aggregation.mean': 'ਔਸਤ',
+  'aggregation.median': 'ਮੱਧਕ',
+  'aggregation.trimmed-percentile': 'ਉੱਪਰਲੇ 50% ਛਾਂਟਵੇਂ',
+  'aggregation.population-weighted': 'ਆਬਾਦੀ-ਭਾਰਤ',
+  'aggregation.cpcb-average': 'CPCB ਔਸਤ',
+  'aggregation.max.description': 'ਸ਼ਹਿਰ ਦਾ ਸਭ ਤੋਂ ਮਾੜਾ ਸਟੇਸ਼ਨ',
+  'aggregation.mean.description': 'ਸਾਰੇ ਸਟੇਸ਼ਨਾਂ ਦੀ ਗਣਿਤਕ ਔਸਤ',
+  'aggregation.median.description': 'ਵਿਚਕਾਰਲੇ ਸਟੇਸ਼ਨ ਦੀ ਰੀਡਿੰਗ',
+  'aggregation.trimmed-percentile.description': '50ਵੇਂ ਤੋਂ 95ਵੇਂ ਪਰਸੈਂਟਾਈਲ ਤੱਕ ਦੇ ਸਟੇਸ਼ਨਾਂ ਦੀ ਔਸਤ',
+  'aggregation.population-weighted.description': 'ਵਾਰਡ ਦੀ ਆਬਾਦੀ ਨਾਲ ਭਾਰਤ ਵਾਰਡ ਅਨੁਮਾਨ',
+  'aggregation.cpcb-average.description': 'CPCB ਰਿਪੋਰਟਿੰਗ ਮਾਪਦੰਡ ਪੂਰੇ ਕਰਨ ਵਾਲੇ ਸਟੇਸ਼ਨਾਂ ਦੀ ਔਸਤ',
+
+  // Advisories from the intelligence engine, by band
+  'advisory.clean.warning': 'ਕੋਈ ਨਹੀਂ',
+  'advisory.clean.mask': 'ਲੋੜ ਨਹੀਂ',
+  'advisory.clean.activity': 'ਆਮ ਬਾਹਰੀ ਗਤੀਵਿਧੀ',
+  'advisory.clean.school': 'ਖੁੱਲ੍ਹੇ',
+  'advisory.sensitive.warning': 'ਸੰਵੇਦਨਸ਼ੀਲ ਸਮੂਹ ਲੰਬੀ ਮਿਹਨਤ ਘਟਾਉਣ',
+  'advisory.sensitive.mask': 'ਸੰਵੇਦਨਸ਼ੀਲ ਸਮੂਹਾਂ ਲਈ ਵਿਕਲਪਿਕ',
+  'advisory.sensitive.activity': 'ਵਿੱਚ-ਵਿੱਚ ਆਰਾਮ ਕਰੋ',
+  'advisory.sensitive.school': 'ਖੁੱਲ੍ਹੇ',
+  'advisory.moderate.warning': 'ਸੰਵੇਦਨਸ਼ੀਲ ਫੇਫੜਿਆਂ ਲਈ ਦਰਮਿਆਨਾ ਖ਼ਤਰਾ',
+  'advisory.moderate.mask': 'ਲੰਬੇ ਸਮੇਂ ਬਾਹਰ ਰਹਿਣ ਲਈ ਮਾਸਕ ਦੀ ਸਲਾਹ',
+  'advisory.moderate.activity': 'ਤੀਬਰਤਾ ਘਟਾਓ',
+  'advisory.moderate.school': 'ਛੁੱਟੀ ਦਾ ਸਮਾਂ ਸੀਮਤ ਕਰੋ',
+  'advisory.high.warning': 'ਉੱਚ ਖ਼ਤਰਾ: ਦਮਾ ਰੋਗੀ/ਬਜ਼ੁਰਗ/ਬੱਚੇ ਘਰ ਅੰਦਰ ਰਹਿਣ',
+  'advisory.high.mask': 'N95 ਦੀ ਸਲਾਹ',
+  'advisory.high.activity': 'ਬਾਹਰ ਕਸਰਤ ਨਾ ਕਰੋ',
+  'advisory.high.school': 'ਬਾਹਰੀ ਖੇਡਾਂ ਮੁਲਤਵੀ ਕਰੋ',
+  'advisory.critical.warning': 'ਅਤਿ ਗੰਭੀਰ: ਤੁਰੰਤ ਘਰ ਅੰਦਰ ਰਹੋ',
+  'advisory.critical.mask': 'N95/N99 ਲਾਜ਼ਮੀ',
+  'advisory.critical.activity': 'ਹਰ ਕਿਸਮ ਦੀ ਬਾਹਰੀ ਮਿਹਨਤ ਤੋਂ ਬਚੋ',
+  'advisory.critical.school': 'ਆਨਲਾਈਨ ਪੜ੍ਹਾਈ ਦੀ ਸਲਾਹ',
+
+  // GRAP stages, sectors and measures
+  'grap.label.0': 'ਕੋਈ GRAP ਲਾਗੂ ਨਹੀਂ',
+  'grap.label.1': 'GRAP ਪੜਾਅ I',
+  'grap.label.2': 'GRAP ਪੜਾਅ II',
+  'grap.label.3': 'GRAP ਪੜਾਅ III',
+  'grap.label.4': 'GRAP ਪੜਾਅ IV',
+  'grap.description.0': 'ਮਿਆਰੀ ਪ੍ਰਦੂਸ਼ਣ ਕੰਟਰੋਲ ਉਪਾਅ',
+  'grap.description.1': 'ਮਾੜਾ: ਧੂੜ ਕੰਟਰੋਲ, ਮਸ਼ੀਨੀ ਸਫ਼ਾਈ',
+  'grap.description.2': 'ਬਹੁਤ ਮਾੜਾ: ਡੀਜ਼ਲ ਜਨਰੇਟਰ \'ਤੇ ਪਾਬੰਦੀ, ਪਾਰਕਿੰਗ ਫ਼ੀਸ ਵਿੱਚ ਵਾਧਾ',
+  'grap.description.3': 'ਗੰਭੀਰ: ਉਸਾਰੀ ਤੇ ਢਾਹੁਣ \'ਤੇ ਪਾਬੰਦੀ',
+  'grap.description.4': 'ਗੰਭੀਰ+: ਟਰੱਕਾਂ ਦੇ ਦਾਖ਼ਲੇ \'ਤੇ ਪਾਬੰਦੀ, ਔਡ-ਈਵਨ ਸਕੀਮ',
+  'grap.sector.construction': 'ਉਸਾਰੀ',
+  'grap.sector.roads': 'ਸੜਕਾਂ',
+  'grap.sector.transport': 'ਆਵਾਜਾਈ',
+  'grap.sector.industry': 'ਉਦਯੋਗ',
+  'grap.sector.power': 'ਬਿਜਲੀ',
+  'grap.sector.waste': 'ਕੂੜਾ',
+  'grap.sector.commercial': 'ਵਪਾਰਕ',
+  'grap.sector.education': 'ਸਿੱਖਿਆ',
+  'grap.sector.offices': 'ਦਫ਼ਤਰ',
+  'grap.measure.g1-cd-dust': 'ਉਸਾਰੀ ਤੇ ਢਾਹੁਣ ਵਾਲੀਆਂ ਥਾਵਾਂ \'ਤੇ ਧੂੜ ਕੰਟਰੋਲ; 500 ਵਰਗ ਮੀਟਰ ਤੋਂ ਵੱਡੀਆਂ ਗ਼ੈਰ-ਰਜਿਸਟਰਡ ਥਾਵਾਂ ਬੰਦ',
+  'grap.measure.g1-sweeping': 'ਸੜਕਾਂ \'ਤੇ ਮਸ਼ੀਨੀ ਸਫ਼ਾਈ ਅਤੇ ਪਾਣੀ ਦਾ ਛਿੜਕਾਅ',
+  'grap.measure.g1-puc': 'PUC ਦੀ ਸਖ਼ਤ ਪਾਲਣਾ ਅਤੇ ਧੂੰਆਂ ਛੱਡਦੇ ਵਾਹਨਾਂ \'ਤੇ ਕਾਰਵਾਈ',
+  'grap.measure.g1-open-burning': 'ਬਾਇਓਮਾਸ ਤੇ ਨਗਰ ਨਿਗਮ ਦਾ ਕੂੜਾ ਖੁੱਲ੍ਹੇ ਵਿੱਚ ਸਾੜਨ \'ਤੇ ਪਾਬੰਦੀ',
+  'grap.measure.g1-firecrackers': 'ਪਟਾਕਿਆਂ \'ਤੇ ਪਾਬੰਦੀ ਲਾਗੂ',
+  'grap.measure.g1-dg-sets': 'ਡੀਜ਼ਲ ਜਨਰੇਟਰ ਸਿਰਫ਼ ਐਮਰਜੈਂਸੀ ਤੇ ਜ਼ਰੂਰੀ ਸੇਵਾਵਾਂ ਲਈ',
+  'grap.measure.g1-tandoor': 'ਹੋਟਲ, ਰੈਸਟੋਰੈਂਟ ਤੇ ਢਾਬੇ ਬਿਜਲੀ ਜਾਂ ਸਾਫ਼ ਈਂਧਣ ਵਰਤਣ',
+  'grap.measure.g1-industry-fuel': 'ਉਦਯੋਗ ਸਿਰਫ਼ ਮਨਜ਼ੂਰਸ਼ੁਦਾ ਈਂਧਣ \'ਤੇ ਚੱਲਣ',
+  'grap.measure.g2-daily-sweeping': 'ਚੁਣੀਆਂ ਸੜਕਾਂ \'ਤੇ ਰੋਜ਼ਾਨਾ ਮਸ਼ੀਨੀ ਸਫ਼ਾਈ ਅਤੇ ਧੂੜ-ਰੋਕੂ ਛਿੜਕਾਅ',
+  'grap.measure.g2-site-inspections': 'ਉਸਾਰੀ ਵਾਲੀਆਂ ਥਾਵਾਂ ਦੀ ਸਖ਼ਤ ਜਾਂਚ',
+  'grap.measure.g2-dg-schedule': 'ਡੀਜ਼ਲ ਜਨਰੇਟਰਾਂ ਲਈ ਨਿਯਮਤ ਚਲਾਉਣ ਦਾ ਸਮਾਂ',
+  'grap.measure.g2-parking': 'ਨਿੱਜੀ ਵਾਹਨਾਂ ਨੂੰ ਨਿਰਉਤਸ਼ਾਹਿਤ ਕਰਨ ਲਈ ਵੱਧ ਪਾਰਕਿੰਗ ਫ਼ੀਸ',
+  'grap.measure.g2-transit': 'CNG/ਇਲੈਕਟ੍ਰਿਕ ਬੱਸ ਅਤੇ ਮੈਟਰੋ ਸੇਵਾਵਾਂ ਵਿੱਚ ਵਾਧਾ',
+  'grap.measure.g2-coal-firewood': 'ਹੋਟਲਾਂ, ਰੈਸਟੋਰੈਂਟਾਂ ਤੇ ਖੁੱਲ੍ਹੇ ਢਾਬਿਆਂ ਵਿੱਚ ਕੋਲਾ ਜਾਂ ਲੱਕੜ ਨਹੀਂ',
+  'grap.measure.g3-cd-ban': 'ਜ਼ਰੂਰੀ ਪ੍ਰੋਜੈਕਟਾਂ ਤੋਂ ਇਲਾਵਾ ਉਸਾਰੀ ਤੇ ਢਾਹੁਣ ਬੰਦ',
+  'grap.measure.g3-crushers-mining': 'ਸਟੋਨ ਕਰੱਸ਼ਰ ਅਤੇ ਖਣਨ ਬੰਦ',
+  'grap.measure.g3-bs3-bs4': 'BS-III ਪੈਟਰੋਲ ਅਤੇ BS-IV ਡੀਜ਼ਲ ਚਾਰ-ਪਹੀਆ ਵਾਹਨਾਂ \'ਤੇ ਰੋਕ',
+  'grap.measure.g3-diesel-mgv': 'ਦਿੱਲੀ ਤੋਂ ਬਾਹਰਲੇ ਗ਼ੈਰ-ਜ਼ਰੂਰੀ ਡੀਜ਼ਲ ਦਰਮਿਆਨੇ ਮਾਲ ਵਾਹਨਾਂ \'ਤੇ ਰੋਕ',
+  'grap.measure.g3-primary-schools': 'ਪ੍ਰਾਇਮਰੀ ਜਮਾਤਾਂ (ਜਮਾਤ V ਤੱਕ) ਹਾਈਬ੍ਰਿਡ ਮੋਡ ਵਿੱਚ',
+  'grap.measure.g3-unapproved-fuel': 'ਗ਼ੈਰ-ਮਨਜ਼ੂਰਸ਼ੁਦਾ ਈਂਧਣ ਵਾਲੇ ਉਦਯੋਗ ਬੰਦ',
+  'grap.measure.g4-truck-entry': 'ਜ਼ਰੂਰੀ, CNG, ਇਲੈਕਟ੍ਰਿਕ ਤੇ BS-VI ਤੋਂ ਇਲਾਵਾ ਦਿੱਲੀ ਵਿੱਚ ਟਰੱਕਾਂ ਦਾ ਦਾਖ਼ਲਾ ਬੰਦ',
+  'grap.measure.g4-delhi-hgv': 'ਜ਼ਰੂਰੀ ਸੇਵਾਵਾਂ ਤੋਂ ਇਲਾਵਾ ਦਿੱਲੀ ਵਿੱਚ ਰਜਿਸਟਰਡ ਡੀਜ਼ਲ ਦਰਮਿਆਨੇ ਤੇ ਭਾਰੀ ਮਾਲ ਵਾਹਨਾਂ \'ਤੇ ਰੋਕ',
+  'grap.measure.g4-linear-projects': 'ਲੀਨੀਅਰ ਜਨਤਕ ਪ੍ਰੋਜੈਕਟਾਂ (ਸੜਕਾਂ, ਫਲਾਈਓਵਰ, ਪਾਈਪਲਾਈਨ) \'ਤੇ ਉਸਾਰੀ ਬੰਦ',
+  'grap.measure.g4-schools': 'ਜਮਾਤ VI–IX ਅਤੇ XI ਹਾਈਬ੍ਰਿਡ ਮੋਡ ਵਿੱਚ',
+  'grap.measure.g4-wfh': 'ਸਰਕਾਰੀ ਤੇ ਨਿੱਜੀ ਦਫ਼ਤਰਾਂ ਵਿੱਚ 50% ਘਰੋਂ ਕੰਮ',
+  'grap.measure.g4-emergency': 'ਔਡ-ਈਵਨ ਅਤੇ ਕਾਲਜਾਂ ਤੇ ਗ਼ੈਰ-ਜ਼ਰੂਰੀ ਵਪਾਰਕ ਗਤੀਵਿਧੀਆਂ ਬੰਦ ਕਰਨ \'ਤੇ ਵਿਚਾਰ',
+
+  // App shell
+  'nav.map': 'ਨਕਸ਼ਾ',
+  'nav.rankings': 'ਦਰਜਾਬੰਦੀ',
+  'nav.analytics': 'ਵਿਸ਼ਲੇਸ਼ਣ',
+  'nav.forecast': 'ਪੂਰਵ ਅਨੁਮਾਨ',
+  'nav.health': 'ਸਿਹਤ',
+  'nav.scan': 'ਵਿਜ਼ਨ',
+  'nav.pulse': 'ਪਲਸ',
+  'nav.governance': 'ਪ੍ਰਸ਼ਾਸਨ',
+  'nav.registry': 'ਰਜਿਸਟਰੀ',
+  'app.bulletin.forecastInvoked': ' (ਪੂਰਵ ਅਨੁਮਾਨ \'ਤੇ ਲਾਗੂ)',
+  'app.bulletin.inForceSince': '{time} ਤੋਂ ਲਾਗੂ',
+  'app.bulletin.measures': '{count} ਉਪਾਅ',
+  'app.bulletin.revocationReview': 'ਵਾਪਸੀ ਸਮੀਖਿਆ {time}',
+  'app.bulletin.action': 'ਕਾਰਵਾਈ: {mask} • {activity}',
+  'app.bulletin.noLimit': 'ਸੰਪਰਕ ਸੀਮਾ: ਕੋਈ ਸੀਮਾ ਨਹੀਂ',
+  'app.bulletin.limit': 'ਸੰਪਰਕ ਸੀਮਾ: ਬਾਹਰ ਵੱਧ ਤੋਂ ਵੱਧ {count} ਮਿੰਟ',
+  'app.bulletin.rising': '6 ਘੰਟੇ ਦਾ ਅਨੁਮਾਨ: ਪੱਧਰ ਵੱਧ ਰਿਹਾ ਹੈ',
+  'app.bulletin.improving': '6 ਘੰਟੇ ਦਾ ਅਨੁਮਾਨ: ਪੱਧਰ ਸੁਧਰ ਰਿਹਾ ਹੈ',
+  'app.bulletin.stable': '6 ਘੰਟੇ ਦਾ ਅਨੁਮਾਨ: ਸਥਿਰ',
+  'app.bulletin.ventilation': 'ਹਵਾਦਾਰੀ {value} m²/s',
+  'app.bulletin.inversion': 'ਸਤਹੀ ਉਲਟਾਅ',
+  'app.bulletin.rain': 'ਮੀਂਹ ਨਾਲ ਧੁਲਾਈ',
+  'app.bulletin.calibrating': 'ਇੰਟੈਲੀਜੈਂਸ ਗਰਿੱਡ ਕੈਲੀਬ੍ਰੇਟ ਹੋ ਰਿਹਾ ਹੈ...',
+  'app.feature.execute': 'ਨੋਡ ਖੋਲ੍ਹੋ',
+  'app.hero.node': '{city} ਵਾਯੂਮੰਡਲੀ ਨੋਡ',
+  'app.hero.phase': '{level} ਪੜਾਅ',
+  'app.hero.lastReading': 'ਆਖ਼ਰੀ ਰੀਡਿੰਗ',
+  'app.hero.liveFeed': 'ਲਾਈਵ ਫ਼ੀਡ',
+  'app.hero.snapshot': 'ਆਫ਼ਲਾਈਨ ਸਟੇਸ਼ਨ ਸਨੈਪਸ਼ਾਟ',
+  'app.hero.cached': 'ਸੰਭਾਲੀ ਰੀਡਿੰਗ',
+  'app.hero.age': '{age} ਪੁਰਾਣੀ',
+  'app.hero.noReading': 'ਆਫ਼ਲਾਈਨ ਕੋਈ ਰੀਡਿੰਗ ਉਪਲਬਧ ਨਹੀਂ',
+  'app.hero.demo': 'ਡੈਮੋ ਡਾਟਾ',
+  'app.hero.fixture': 'ਆਫ਼ਲਾਈਨ ਫ਼ਿਕਸਚਰ • ਅਸਲ ਮਾਪ ਨਹੀਂ',
+  'app.hero.aggregation': '{count} ਸਟੇਸ਼ਨਾਂ ਦਾ {method}',
+  'app.hero.scroll': 'ਜਾਣਕਾਰੀ ਲਈ ਸਕ੍ਰੋਲ ਕਰੋ',
+  'app.insight.title': 'AI ਘਟਾਅ ਸੁਝਾਅ',
+  'app.insight.confidence': 'ਭਰੋਸਾ: {confidence}',
+  'app.insight.footer': 'ਫ਼ੈਸਲਾ ਸਹਾਇਤਾ ਨੋਡ ਦਿੱਲੀ-NCT ਲਈ ਤਿਆਰ',
+  'app.card.map.title': 'ਸਥਾਨਕ ਨਕਸ਼ਾ',
+  'app.card.map.description': '274 ਨਗਰ ਸੈਕਟਰਾਂ ਦੀ ਵਾਰਡ-ਵਾਰ ਸੂਖਮ-ਜਲਵਾਯੂ ਨਿਗਰਾਨੀ।',
+  'app.card.forecast.title': 'ਪੂਰਵ ਅਨੁਮਾਨ',
+  'app.card.forecast.description': 'ਵਾਯੂਮੰਡਲੀ ਰਸਾਇਣ ਮਾਡਲਾਂ \'ਤੇ ਆਧਾਰਿਤ 72 ਘੰਟਿਆਂ ਦੀ ਜਾਣਕਾਰੀ।',
+  'app.card.analytics.title': 'ਵਿਸ਼ਲੇਸ਼ਣ ਪਲਸ',
+  'app.card.analytics.description': 'ਘੰਟਾਵਾਰ ਸੰਪਰਕ ਰੁਝਾਨਾਂ ਅਤੇ ਪ੍ਰਦੂਸ਼ਕ ਬਣਤਰ ਦਾ ਡੂੰਘਾ ਅਧਿਐਨ।',
+  'app.card.scan.title': 'AtmosScan ਵਿਜ਼ਨ',
+  'app.card.scan.description': 'ਸਪੈਕਟ੍ਰਲ ਘਣਤਾ ਨੋਡਾਂ ਨਾਲ ਕਣਾਂ ਦੀ ਦਿੱਖ ਦੀ ਦੂਰ-ਦੁਰਾਡੀ AI ਪ੍ਰੋਫ਼ਾਈਲਿੰਗ।',
+  'app.card.pulse.title': 'ਸਿਵਿਕ ਪਲਸ',
+  'app.card.pulse.description': 'ਨਾਗਰਿਕਾਂ ਦੀਆਂ ਰੀਅਲ-ਟਾਈਮ ਰਿਪੋਰਟਾਂ ਅਤੇ ਮੁਹੱਲੇ ਦੇ ਹੌਟਸਪੌਟ ਦੀ ਪੁਸ਼ਟੀ।',
+  'app.card.health.title': 'ਸਿਹਤ ਰਜਿਸਟਰੀ',
+  'app.card.health.description': 'ਤੰਬਾਕੂ-ਬਰਾਬਰ ਜ਼ਹਿਰੀਲੇਪਣ \'ਤੇ ਆਧਾਰਿਤ ਸਰੀਰਕ ਖ਼ਤਰੇ ਦਾ ਮੁਲਾਂਕਣ।',
+  'app.card.governance.title': 'ਪ੍ਰਸ਼ਾਸਨ',
+  'app.card.governance.description': 'ਪਾਲਣਾ ਬਹੀ, GRAP ਪ੍ਰੋਟੋਕੋਲ ਅਤੇ ਲਾਗੂਕਰਨ ਨੋਡ।',
+  'app.map.title': 'ਸਥਾਨਕ ਨਿਗਰਾਨੀ ਨੋਡ',
+  'app.map.search': 'ਸੈਕਟਰ ਖੋਜੋ',
+  'app.loading.title': 'PureAir ਸਿਸਟਮ',
+  'app.loading.subtitle': 'ਵਾਯੂਮੰਡਲੀ ਕੋਰ ਸ਼ੁਰੂ ਹੋ ਰਿਹਾ ਹੈ',
+  'app.strip.grapActive': 'GRAP ਲਾਗੂ',
+  'app.strip.updated': 'ਆਖ਼ਰੀ ਅੱਪਡੇਟ: {time} | ਜਨਤਕ AQI ਫ਼ੀਡ',
+  'app.footer.modeled': 'ਜਨਤਕ API ਸੀਮਤ ਹੋਣ ਕਰਕੇ ਵਾਰਡ-ਪੱਧਰੀ ਮੁੱਲ ਮਾਡਲ ਤੋਂ ਅਨੁਮਾਨਿਤ ਹਨ।',
+  'app.footer.architecture': 'ਸਿਸਟਮ ਢਾਂਚਾ ਵੇਖੋ',
+  'app.footer.end': 'ਪ੍ਰਸਾਰਣ ਸਮਾਪਤ • ਦਿੱਲੀ NCT ਵਾਤਾਵਰਣ ਨੋਡ',
+
+  // MethodologyView
+  'methodology.title': 'ਵਿਧੀ ਅਤੇ ਸਰੋਤ ਰਜਿਸਟਰੀ',
+  'methodology.subtitle': 'ਡਾਟਾ ਇਕੱਠਾ ਕਰਨ ਅਤੇ ਪ੍ਰੋਸੈਸਿੰਗ ਪ੍ਰਕਿਰਿਆਵਾਂ ਦਾ ਪਾਰਦਰਸ਼ੀ ਵੇਰਵਾ।',
+  'methodology.sensors.title': 'ਮੁੱਖ ਸੈਂਸਰ ਨੈੱਟਵਰਕ',
+  'methodology.sensors.body': 'ਡਾਟਾ ਸਿੱਧਾ ਕੇਂਦਰੀ ਪ੍ਰਦੂਸ਼ਣ ਕੰਟਰੋਲ ਬੋਰਡ (CPCB) ਅਤੇ ਦਿੱਲੀ ਪ੍ਰਦੂਸ਼ਣ ਕੰਟਰੋਲ ਕਮੇਟੀ (DPCC) ਦੇ ਨਿਗਰਾਨੀ ਸਟੇਸ਼ਨਾਂ ਤੋਂ ਲਿਆ ਜਾਂਦਾ ਹੈ। ਪ੍ਰਸ਼ਾਸਕੀ ਸ਼ੁੱਧਤਾ ਲਈ ਅਸੀਂ ਸਰਕਾਰੀ ਟੈਲੀਮੈਟਰੀ ਨੂੰ ਤਰਜੀਹ ਦਿੰਦੇ ਹਾਂ।',
+  'methodology.sensors.active': 'ਸਰਗਰਮ ਸੈਂਸਰ',
+  'methodology.sensors.activeValue': '40+ ਇਕਾਈਆਂ',
+  'methodology.sensors.accuracy': 'ਸ਼ੁੱਧਤਾ',
+  'methodology.sensors.accuracyValue': 'ਗ੍ਰੇਡ-A ਲੈਬ',
+  'methodology.standards.title': 'ਗਣਨਾ ਮਿਆਰ',
+  'methodology.standards.body': 'PureAir, PM2.5 ਅਤੇ PM10 ਲਈ AirNow (US-EPA) ਉਪ-ਸੂਚਕਾਂਕ ਗਣਨਾ ਵਿਧੀ ਵਰਤਦਾ ਹੈ, ਜੋ ਆਮ ਰੇਖਿਕ ਮੈਪਿੰਗ ਨਾਲੋਂ ਵਧੇਰੇ ਬਾਰੀਕ ਖ਼ਤਰਾ ਮੁਲਾਂਕਣ ਦਿੰਦੀ ਹੈ। ਸਾਰੀਆਂ ਹੱਦਾਂ WHO ਦਿਸ਼ਾ-ਨਿਰਦੇਸ਼ 2021 ਨਾਲ ਮਿਲਾਈਆਂ ਜਾਂਦੀਆਂ ਹਨ।',
+  'methodology.fallback.title': 'ਬਦਲਵਾਂ ਅਤੇ ਸਥਾਨਕ ਤਰਕ',
+  'methodology.fallback.body': 'ਜਦੋਂ ਕਿਸੇ ਵਾਰਡ ਦਾ ਸੈਂਸਰ ਆਫ਼ਲਾਈਨ ਹੋਵੇ, ਤਾਂ ਸਾਡਾ ਸਿਸਟਮ \'ਸਭ ਤੋਂ ਨੇੜਲਾ ਵੈਧ ਨੋਡ\' ਤਰਕ ਵਰਤਦਾ ਹੈ ਅਤੇ ਡਾਟਾ ਲਗਾਤਾਰਤਾ ਲਈ 5 ਕਿਲੋਮੀਟਰ ਦੇ ਅੰਦਰ ਸਭ ਤੋਂ ਨੇੜਲਾ ਚਾਲੂ CPCB ਸਟੇਸ਼ਨ ਲੈਂਦਾ ਹੈ।',
+  'methodology.verified': 'NCT ਰੱਖਿਆ ਕਾਰਜਾਂ ਲਈ ਪ੍ਰਮਾਣਿਤ ਸਿਸਟਮ।',
+
+  // RankingsView
+  'rankings.title': 'ਪੂਰੀ NCT ਰਜਿਸਟਰੀ',
+  'rankings.subtitle': 'ਸਾਰੇ 274 ਨਗਰ ਸੈਕਟਰਾਂ ਦੀ ਵਿਸਤ੍ਰਿਤ ਜ਼ਹਿਰੀਲੇਪਣ ਦਰਜਾਬੰਦੀ।',
+  'rankings.currentAqi': 'ਮੌਜੂਦਾ AQI',
+
+  // ZoneOverview
+  'zone.title': '{zone} — ਕੁੱਲ ਅੰਕੜੇ',
+  'zone.subtitle': 'ਸੈਕਟਰ-ਪੱਧਰੀ ਵਾਤਾਵਰਣ ਨਿਗਰਾਨੀ ਸਾਰ।',
+  'zone.average': 'ਜ਼ੋਨ ਔਸਤ ਸੂਚਕਾਂਕ',
+  'zone.hotspots': 'ਸਰਗਰਮ ਜਵਾਬੀ ਨੋਡ (ਹੌਟਸਪੌਟ)',
+  'zone.allNodes': '{zone} ਦੇ ਸਾਰੇ ਸੈਕਟਰ ਨੋਡ',
+
+  // ArchitectureModal
+  'architecture.title': 'ਸਿਸਟਮ ਢਾਂਚਾ',
+  'architecture.subtitle': 'ਵਾਤਾਵਰਣ ਫ਼ੈਸਲਾ ਇੰਟੈਲੀਜੈਂਸ ਲਈ ਡਾਟਾ ਪ੍ਰਵਾਹ ਪਾਈਪਲਾਈਨ।',
+  'architecture.input': 'ਵਰਤੋਂਕਾਰ ਇਨਪੁੱਟ',
+  'architecture.input.sub': 'ਟਿਕਾਣਾ ਅਤੇ ਸਵਾਲ',
+  'architecture.data': 'AQI ਡਾਟਾ ਪਰਤ',
+  'architecture.data.sub': 'CPCB/WAQI ਸੰਗ੍ਰਹਿ',
+  'architecture.risk': 'ਖ਼ਤਰਾ ਮਾਡਲਿੰਗ',
+  'architecture.risk.sub': 'ਵਾਰਡ ਇੰਟਰਪੋਲੇਸ਼ਨ',
+  'architecture.reasoning': 'Gemini ਵਿਸ਼ਲੇਸ਼ਣ',
+  'architecture.reasoning.sub': 'ਪ੍ਰਸੰਗਿਕ ਵਿਸ਼ਲੇਸ਼ਣ',
+  'architecture.action': 'ਕਾਰਵਾਈ ਮੈਟ੍ਰਿਕਸ',
+  'architecture.action.sub': 'GRAP ਪ੍ਰੋਟੋਕੋਲ',
+  'architecture.dashboard': 'ਡੈਸ਼ਬੋਰਡ',
+  'architecture.dashboard.sub': 'ਦ੍ਰਿਸ਼ਟੀਗਤ ਇੰਟੈਲੀਜੈਂਸ',
+  'architecture.stack': 'ਤਕਨੀਕੀ ਸਟੈਕ:',
+
+  // ErrorBoundary
+  'error.title': 'ਨੋਡ ਅਸਫਲ',
+  'error.body': 'ਵਾਯੂਮੰਡਲੀ ਡਾਟਾ ਪ੍ਰੋਸੈਸਰ ਨੂੰ ਇੱਕ ਅਣਸੰਭਾਲੀ ਹਦਾਇਤ ਮਿਲੀ।',
+  'error.reload': 'ਸਿਸਟਮ ਮੁੜ ਸਿੰਕ ਕਰੋ',
+
+  // Small widgets
+  'sparkline.collecting': 'ਨਿਰੀਖਣ ਇਕੱਠੇ ਹੋ ਰਹੇ ਹਨ',
+  'ring.responseIndex': 'ਜਵਾਬੀ ਸੂਚਕਾਂਕ',
+  'nodes.cloud': 'NCT ਸਥਾਨਕ ਕਲਾਊਡ',
+  'nodes.nominal': 'ਆਮ',
+  'nodes.elevated': 'ਵਧਿਆ ਹੋਇਆ',
+  'nodes.critical': 'ਗੰਭੀਰ',
+
+  // ComparisonView
+  'comparison.title': 'ਤੁਲਨਾਤਮਕ ਇੰਟੈਲੀਜੈਂਸ',
+  'comparison.exit': 'ਵਿਸ਼ਲੇਸ਼ਣ ਤੋਂ ਬਾਹਰ',
+  'comparison.reference': 'ਹਵਾਲਾ ਸੈਕਟਰ',
+  'comparison.target': 'ਟੀਚਾ ਸੈਕਟਰ',
+  'comparison.aqi': 'ਕੁੱਲ AQI',
+  'comparison.pm25': 'PM 2.5 ਘਣਤਾ',
+  'comparison.pm10': 'PM 10 ਘਣਤਾ',
+  'comparison.wind': 'ਹਵਾ ਦੀ ਗਤੀ',
+  'comparison.humidity': 'ਨਮੀ ਦਾ ਪੱਧਰ',
+  'comparison.vector': 'ਮੁੱਖ ਸਰੋਤ: {ward}',
+
+  // WardCard
+  'wardCard.node': 'ਸੈਕਟਰ ਰਜਿਸਟਰੀ ਨੋਡ {id}',
+  'wardCard.live': 'ਲਾਈਵ ਟੈਲੀਮੈਟਰੀ',
+  'wardCard.estimated': 'ਖੇਤਰੀ ਅਨੁਮਾਨ',
+
+  // SearchOverlay
+  'search.placeholder': '274 ਵਾਰਡ ਜਾਂ ਜ਼ੋਨ ਖੋਜੋ...',
+  'search.results': 'ਸਥਾਨਕ ਖੋਜ ਨਤੀਜੇ',
+  'search.none': 'ਕੋਈ ਮਿਲਦਾ ਸੈਕਟਰ ਨਹੀਂ ਮਿਲਿਆ',
+  'search.prompt': 'NCT ਰਜਿਸਟਰੀ ਖੋਜਣ ਲਈ ਲਿਖੋ',
+  'search.navigate': 'ਚੁਣੋ',
+  'search.select': 'ਖੋਲ੍ਹੋ',
+
+  // IndustrialLedger
+  'ledger.kicker': 'ਵਾਤਾਵਰਣ ਲਾਗੂਕਰਨ',
+  'ledger.title': 'ਉਦਯੋਗਿਕ ਪਾਲਣਾ ਬਹੀ',
+  'ledger.subtitle': 'NCT ਖੇਤਰ ਵਿੱਚ ਉਦਯੋਗਿਕ ਨਿਕਾਸ ਅਤੇ DPCC ਜਾਂਚ ਸਥਿਤੀ ਦੀ ਸਰਕਾਰੀ ਰਜਿਸਟਰੀ।',
+  'ledger.violators': 'ਉਲੰਘਣਾ ਕਰਨ ਵਾਲੇ',
+  'ledger.suspended': 'ਮੁਅੱਤਲ',
+  'ledger.compliant': 'ਪਾਲਣਾ ਕਰਨ ਵਾਲੇ',
+  'ledger.lastInspection': 'ਆਖ਼ਰੀ ਜਾਂਚ: {date}',
+  'ledger.emissions': 'ਚਿਮਨੀ ਨਿਕਾਸ',
+  'ledger.status': 'ਪਾਲਣਾ ਸਥਿਤੀ',
+  'ledger.repeat': 'ਵਾਰ-ਵਾਰ ਉਲੰਘਣਾ ਦਾ ਇਤਿਹਾਸ',
+  'ledger.citation.title': 'ਸਵੈਚਲਿਤ ਡਿਜੀਟਲ ਚਲਾਨ (AI-ਆਧਾਰਿਤ)',
+  'ledger.citation.body': 'ਪਾਲਣਾ ਨਾ ਕਰਨ ਵਾਲੀਆਂ ਇਕਾਈਆਂ ਆਪਣੇ-ਆਪ ਭੌਤਿਕ ਪੜਤਾਲ ਲਈ ਚਿੰਨ੍ਹਿਤ ਹੁੰਦੀਆਂ ਹਨ। ਚਲਾਨ Gemini AtmosVision ਵਿਜ਼ਨ ਨੋਡਾਂ ਨਾਲ ਬਣਾਏ ਜਾਂਦੇ ਹਨ।',
+  'ledger.report': 'ਰਜਿਸਟਰੀ ਰਿਪੋਰਟ ਬਣਾਓ',
+  'compliance.Active': 'ਸਰਗਰਮ',
+  'compliance.Non-Compliant': 'ਗ਼ੈਰ-ਪਾਲਣਾ',
+  'compliance.Suspended': 'ਮੁਅੱਤਲ',
+  'compliance.Under-Review': 'ਸਮੀਖਿਆ ਅਧੀਨ',
+
+  // SourceAttributionCard
+  'attribution.title': 'ਸਰੋਤ ਇੰਟੈਲੀਜੈਂਸ ਨੋਡ',
+  'attribution.confidence': 'ਭਰੋਸਾ: {value}%',
+  'attribution.model': 'ਰੀਸੈਪਟਰ ਮਾਡਲ',
+  'attribution.narrated': ' • AI ਵੱਲੋਂ ਵਰਣਿਤ',
+  'attribution.dominant': 'ਪ੍ਰਮੁੱਖ ਸਰੋਤ',
+  'attribution.certainty': 'ਸਰੋਤ ਨਿਰਧਾਰਨ ਨਿਸ਼ਚਿਤਤਾ: {value}%',
+  'attribution.secondary': 'ਦੂਜੇ ਦਰਜੇ ਦੇ ਯੋਗਦਾਨ',
+  'attribution.derivation': 'ਤਾਰਕਿਕ ਵਿਉਤਪਤੀ',
+  'attribution.snippet': 'ਇੰਟੈਲੀਜੈਂਸ ਅੰਸ਼',
+
+  // CitizenAction
+  'report.locating': 'GPS ਨਿਰਦੇਸ਼ਾਂਕ ਲੱਭੇ ਜਾ ਰਹੇ ਹਨ...',
+  'report.noLocation': 'ਟਿਕਾਣਾ ਉਪਲਬਧ ਨਹੀਂ',
+  'report.inWard': '{ward} (ਵਾਰਡ {no}) • {coords}',
+  'report.outside': 'ਨਗਰ ਵਾਰਡਾਂ ਤੋਂ ਬਾਹਰ • {coords}',
+  'report.kicker': 'ਨਾਗਰਿਕ ਇੰਟੈਲੀਜੈਂਸ',
+  'report.title': 'ਹੌਟਸਪੌਟ ਦੀ ਰਿਪੋਰਟ ਕਰੋ',
+  'report.subtitle': 'ਵਾਤਾਵਰਣ ਲਾਗੂਕਰਨ ਵਿਭਾਗ ਤੱਕ ਸਿੱਧੀ ਪਹੁੰਚ।',
+  'report.media': 'ਫ਼ੋਟੋ/ਵੀਡੀਓ ਲਓ ਜਾਂ ਛੱਡੋ',
+  'report.mediaHint': 'ਤਸਵੀਰ ਜਾਂ MP4 ਸਮਰਥਿਤ',
+  'report.location': 'ਮੌਜੂਦਾ ਟਿਕਾਣਾ',
+  'report.placeholder': 'ਉਲੰਘਣਾ ਦਾ ਵੇਰਵਾ ਦਿਓ (ਜਿਵੇਂ ਕੂੜਾ ਸਾੜਨਾ, ਉਦਯੋਗਿਕ ਨਿਕਾਸ)...',
+  'report.submit': 'ਅਧਿਕਾਰੀਆਂ ਨੂੰ ਭੇਜੋ',
+  'report.sending': 'ਪੈਕੇਜ ਇਨਕ੍ਰਿਪਟ ਹੋ ਰਿਹਾ ਹੈ',
+  'report.sendingHint': 'CPCB ਨੋਡਾਂ ਨਾਲ ਸੁਰੱਖਿਅਤ ਕੁਨੈਕਸ਼ਨ ਬਣ ਰਿਹਾ ਹੈ...',
+  'report.done': 'ਭੇਜਣ ਦੀ ਪੁਸ਼ਟੀ',
+  'report.doneBody': 'ਤੁਹਾਡੀ ਰਿਪੋਰਟ ID #PX-2940 ਹੇਠ ਦਰਜ ਕਰਕੇ {zone} ਤੇਜ਼ ਜਵਾਬੀ ਇਕਾਈ ਨੂੰ ਸੌਂਪੀ ਗਈ ਹੈ।',
+  'report.back': 'ਡੈਸ਼ਬੋਰਡ \'ਤੇ ਵਾਪਸ',
+
+  // HealthImpactView
+  'health.title': 'ਸਰੀਰਕ ਖ਼ਤਰਾ ਰਜਿਸਟਰੀ',
+  'health.subtitle': 'PM2.5 ਗਾੜ੍ਹਾਪਣ ਦੇ ਆਧਾਰ \'ਤੇ ਪਾਚਕ ਅਤੇ ਸਾਹ ਪ੍ਰਣਾਲੀ \'ਤੇ ਵਾਯੂਮੰਡਲੀ ਅਸਰ ਦਾ ਵਿਗਿਆਨਕ ਮੁਲਾਂਕਣ।',
+  'health.twin.title': 'ਸਿਹਤ ਡਿਜੀਟਲ ਟਵਿਨ',
+  'health.twin.kicker': 'ਨਿੱਜੀ ਖ਼ਤਰਾ ਇੰਜਣ',
+  'health.ageGroup': 'ਉਮਰ ਵਰਗ',
+  'health.age.Child': 'ਬੱਚਾ',
+  'health.age.Adult': 'ਬਾਲਗ',
+  'health.age.Elderly': 'ਬਜ਼ੁਰਗ',
+  'health.condition': 'ਸਿਹਤ ਸਥਿਤੀ',
+  'health.condition.None': 'ਕੋਈ ਨਹੀਂ',
+  'health.condition.Asthma': 'ਦਮਾ',
+  'health.condition.Heart Condition': 'ਦਿਲ ਦਾ ਰੋਗ',
+  'health.condition.Pregnant': 'ਗਰਭਵਤੀ',
+  'health.exposure': 'ਯੋਜਨਾਬੱਧ ਸੰਪਰਕ',
+  'health.hours': '{count} ਘੰ.',
+  'health.calibrating': 'ਪਾਚਕ ਅਸਰ ਦੀ ਨਕਲ ਕੀਤੀ ਜਾ ਰਹੀ ਹੈ...',
+  'health.retry': 'ਮੁੜ ਕੈਲੀਬ੍ਰੇਟ ਕਰੋ',
+  'health.calibrate': 'ਡਿਜੀਟਲ ਟਵਿਨ ਕੈਲੀਬ੍ਰੇਟ ਕਰੋ',
+  'health.warning': 'ਨਿੱਜੀ ਚੇਤਾਵਨੀ',
+  'health.risk': '{level} ਖ਼ਤਰਾ',
+  'health.limit': 'ਵੱਧ ਤੋਂ ਵੱਧ ਬਾਹਰੀ ਸੀਮਾ',
+  'health.protocol': 'ਬਚਾਅ ਉਪਾਅ',
+  'health.recalibrate': 'ਮੁੜ ਕੈਲੀਬ੍ਰੇਟ ਕਰੋ',
+  'health.cigarettes': 'ਸਿਗਰਟ ਬਰਾਬਰ / ਦਿਨ',
+  'health.toxicity.title': 'ਵਾਯੂਮੰਡਲੀ ਜ਼ਹਿਰੀਲਾਪਣ ਸੂਚਕਾਂਕ',
+  'health.toxicity.body': 'ਮੌਜੂਦਾ ਗਾੜ੍ਹਾਪਣ \'ਤੇ ਆਲੇ-ਦੁਆਲੇ ਦਾ PM2.5 ਸਾਹ ਰਾਹੀਂ ਲੈਣਾ, 24 ਘੰਟਿਆਂ ਵਿੱਚ ਉੱਪਰ ਦਿੱਤੀ ਗਿਣਤੀ ਜਿੰਨੀਆਂ ਸਿਗਰਟਾਂ ਪੀਣ ਦੇ ਸਰੀਰਕ ਤੌਰ \'ਤੇ ਬਰਾਬਰ ਹੈ।',
+  'health.toxicity.source': 'ਸਰੋਤ: ਗਲੋਬਲ ਬਰਡਨ ਆਫ਼ ਡਿਜ਼ੀਜ਼ ਅਧਿਐਨ',
+  'health.card.respiratory': 'ਸਾਹ / ਦਮਾ',
+  'health.card.respiratory.advice': 'ਲੱਛਣ ਵਿਗੜਨ ਅਤੇ ਰੈਸਕਿਊ ਇਨਹੇਲਰ \'ਤੇ ਨਿਰਭਰਤਾ ਵਧਣ ਦੀ ਵੱਧ ਸੰਭਾਵਨਾ।',
+  'health.card.cardio': 'ਦਿਲ ਤੇ ਖ਼ੂਨ ਸੰਚਾਰ',
+  'health.card.cardio.advice': 'ਹਾਲੀਆ ਸਮੂਹਾਂ ਵਿੱਚ ਸਰੀਰਕ ਸੋਜ ਅਤੇ ਦਿਲ ਦੀ ਧੜਕਣ ਵਿੱਚ ਤਬਦੀਲੀ ਵਧੀ ਵੇਖੀ ਗਈ।',
+  'health.card.pediatric': 'ਬਾਲ ਸਿਹਤ',
+  'health.card.pediatric.advice': 'ਦਿਨ ਦੇ ਸਿਖਰਲੇ ਸਮੇਂ ਦੌਰਾਨ ਲੰਬੀ ਬਾਹਰੀ ਮਿਹਨਤ ਰੋਕਣ ਦੀ ਸਲਾਹ।',
+  'health.card.elderly': 'ਬਜ਼ੁਰਗ ਆਬਾਦੀ',
+  'health.card.elderly.advice': 'ਪਹਿਲਾਂ ਤੋਂ ਪਾਚਕ ਰੋਗਾਂ ਵਾਲੇ ਲੋਕਾਂ ਲਈ ਘਰ ਅੰਦਰ ਰਹਿਣਾ ਪਹਿਲ।',
+  'health.disclaimer': 'ਬੇਦਾਅਵਾ: ਡਾਟਾ ਸੰਕੇਤਕ ਹੈ। ਨਿੱਜੀ ਜਾਂਚ ਲਈ ਪ੍ਰਮਾਣਿਤ ਡਾਕਟਰ ਨਾਲ ਸਲਾਹ ਕਰੋ।',
+  'health.diary.title': 'ਐਕਸਪੋਜ਼ਰ ਡਾਇਰੀ',
+  'health.diary.kicker': 'ਨਿੱਜੀ PM2.5 ਖ਼ੁਰਾਕ',
+  'health.diary.place.home': 'ਘਰ ਦਾ ਵਾਰਡ',
+  'health.diary.place.work': 'ਕੰਮ ਵਾਲੀ ਥਾਂ ਦਾ ਵਾਰਡ',
+  'health.diary.place.commute': 'ਆਵਾਜਾਈ ਰਸਤੇ ਦਾ ਵਾਰਡ',
+  'health.diary.log': 'ਦਿਨ ਦਰਜ ਕਰੋ (ਘੰਟੇ)',
+  'health.diary.setting.home': 'ਘਰ',
+  'health.diary.setting.work': 'ਕੰਮ',
+  'health.diary.setting.commute': 'ਆਵਾਜਾਈ',
+  'health.diary.setting.outdoor': 'ਬਾਹਰ',
+  'health.diary.unlogged': '{count} ਘੰਟੇ ਦਰਜ ਨਹੀਂ, ਘਰ ਵਿੱਚ ਗਿਣੇ ਗਏ',
+  'health.diary.unlogged_one': '{count} ਘੰਟਾ ਦਰਜ ਨਹੀਂ, ਘਰ ਵਿੱਚ ਗਿਣਿਆ ਗਿਆ',
+  'health.diary.fullDay': 'ਪੂਰਾ ਦਿਨ ਦਰਜ',
+  'health.diary.save': 'ਦਿਨ ਸੰਭਾਲੋ',
+  'health.diary.update': 'ਦਿਨ ਅੱਪਡੇਟ ਕਰੋ',
+  'health.diary.empty': 'ਸਾਹ ਰਾਹੀਂ ਲਈ ਖ਼ੁਰਾਕ ਅਤੇ ਹਫ਼ਤਾਵਾਰੀ ਰੁਝਾਨ ਦੇਖਣ ਲਈ ਇੱਕ ਦਿਨ ਦਰਜ ਕਰੋ।',
+  'health.diary.weekDose': 'ਖ਼ੁਰਾਕ, ਪਿਛਲੇ 7 ਦਿਨ',
+  'health.diary.vsWho': 'WHO ਦਿਸ਼ਾ-ਨਿਰਦੇਸ਼ ਦੇ ਮੁਕਾਬਲੇ',
+  'health.diary.times': '{ratio}×',
+  'health.diary.mean': 'ਸਾਹ ਰਾਹੀਂ ਲਿਆ PM2.5',
+  'health.diary.ugm3': '{value} µg/m³',
+  'health.diary.ug': '{value} µg',
+  'health.diary.daysAbove': 'WHO ਤੋਂ ਉੱਪਰ ਦਿਨ',
+  'health.diary.daysOf': '{total} ਵਿੱਚੋਂ {count}',
+  'health.diary.tooltip.dose': 'ਸਾਹ ਰਾਹੀਂ: {value}',
+  'health.diary.tooltip.who': 'WHO ਦਿਸ਼ਾ-ਨਿਰਦੇਸ਼ ਤੇ: {value}',
+  'health.diary.tooltip.days': '{count} ਦਿਨ ਦਰਜ',
+  'health.diary.legend.dose': 'ਤੁਹਾਡੀ ਹਫ਼ਤਾਵਾਰੀ ਖ਼ੁਰਾਕ',
+  'health.diary.legend.who': 'WHO ਦਿਸ਼ਾ-ਨਿਰਦੇਸ਼ ({limit} µg/m³, 24 ਘੰਟੇ)',
+  'health.diary.sources': 'ਥਾਂ ਅਨੁਸਾਰ ਖ਼ੁਰਾਕ, ਪਿਛਲੇ 7 ਦਿਨ',
+  'health.diary.estimated': 'ਕੁਝ ਦਿਨਾਂ ਦਾ ਵਾਰਡ ਇਤਿਹਾਸ ਉਪਲਬਧ ਨਹੀਂ ਸੀ; ਉਨ੍ਹਾਂ ਲਈ ਨਵੀਨਤਮ ਰੀਡਿੰਗ ਵਰਤੀ ਗਈ।',
+  'health.diary.method': 'PM2.5 ਦਾ ਅੰਦਾਜ਼ਾ ਹਰ ਵਾਰਡ ਦੇ ਰੋਜ਼ਾਨਾ AQI ਇਤਿਹਾਸ ਤੋਂ ਲਗਾਇਆ ਜਾਂਦਾ ਹੈ। ਮੰਨਿਆ ਗਿਆ ਹੈ ਕਿ ਬਾਹਰੀ PM2.5 ਦਾ {home}% ਘਰਾਂ ਵਿੱਚ, {work}% ਦਫ਼ਤਰਾਂ ਵਿੱਚ ਅਤੇ {commute}% ਵਾਹਨਾਂ ਵਿੱਚ ਪਹੁੰਚਦਾ ਹੈ। ਸਾਹ ਦੀ ਦਰ ਉਮਰ ਵਰਗ ਅਨੁਸਾਰ ਹੈ। WHO ਹਵਾਲਾ ਉਨ੍ਹਾਂ ਹੀ ਘੰਟਿਆਂ ਵਿੱਚ {limit} µg/m³ ਤੇ ਲਈ ਖ਼ੁਰਾਕ ਹੈ।',
+  'risk.Low': 'ਘੱਟ',
+  'risk.Moderate': 'ਦਰਮਿਆਨਾ',
+  'risk.Medium': 'ਦਰਮਿਆਨਾ',
+  'risk.High': 'ਉੱਚ',
+  'risk.Critical': 'ਅਤਿ ਗੰਭੀਰ',
+  'risk.Severe': 'ਗੰਭੀਰ',
+  'risk.Elevated': 'ਵਧਿਆ ਹੋਇਆ',
+  'risk.Extreme': 'ਅਤਿਅੰਤ',
+
+  // AtmosScan
+  'scan.kicker': 'ਇੰਟੈਲੀਜੈਂਸ ਪਰਤ 04',
+  'scan.title': 'AtmosScan ਵਿਜ਼ਨ',
+  'scan.subtitle': 'ਵਾਯੂਮੰਡਲੀ ਧੁੰਦਲੇਪਣ ਅਤੇ ਕਣਾਂ ਦੀ ਦਿੱਖ ਦੀ ਦੂਰ-ਦੁਰਾਡੀ AI ਪ੍ਰੋਫ਼ਾਈਲਿੰਗ।',
+  'scan.upload': 'ਤਸਵੀਰ ਅੱਪਲੋਡ ਕਰੋ',
+  'scan.imageAlt': 'ਸਕੈਨ ਟੀਚਾ',
+  'scan.analyzing': 'ਸਪੈਕਟ੍ਰਲ ਘਣਤਾ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ',
+  'scan.analyzingDetail': 'PM2.5 ਖਿੰਡਾਅ ਗੁਣਾਂਕਾਂ ਨਾਲ ਮਿਲਾਨ ਹੋ ਰਿਹਾ ਹੈ...',
+  'scan.interrupted': 'ਵਿਸ਼ਲੇਸ਼ਣ ਵਿੱਚ ਰੁਕਾਵਟ',
+  'scan.waiting': 'ਸਿਸਟਮ ਸਥਾਨਕ ਇਨਪੁੱਟ ਦੀ ਉਡੀਕ ਵਿੱਚ',
+  'scan.complete': 'ਵਿਸ਼ਲੇਸ਼ਣ ਪੂਰਾ',
+  'scan.score': 'ਦ੍ਰਿਸ਼ਟੀਗਤ ਪ੍ਰਦੂਸ਼ਣ ਸਕੋਰ',
+  'scan.source': 'ਮੁੱਖ ਸਰੋਤ',
+  'scan.reasoning': 'ਵਿਸ਼ਲੇਸ਼ਣ ਤਰਕ',
+  'scan.anomaly': 'ਅਸਧਾਰਨਤਾ ਦੀ ਉੱਚ ਸੰਭਾਵਨਾ ({percent}%)',
+  'scan.anomalyDetail': 'ਇਹ ਘਟਨਾ ਆਧਾਰ ਵਾਯੂਮੰਡਲੀ ਮਾਡਲਾਂ ਤੋਂ ਕਾਫ਼ੀ ਵੱਖਰੀ ਹੈ।',
+  'scan.confidence': 'ਭਰੋਸਾ ਮੈਟ੍ਰਿਕਸ',
+  'scan.model': 'ਮਾਡਲ ਨੋਡ',
+
+  // ForecastView
+  'forecast.loading': 'ਵਾਯੂਮੰਡਲੀ ਮਾਡਲ ਤਿਆਰ ਹੋ ਰਹੇ ਹਨ',
+  'forecast.kicker': 'ਇੰਟੈਲੀਜੈਂਸ ਪਰਤ 05',
+  'forecast.title': 'ਅਨੁਮਾਨਿਤ ਸੰਪਰਕ ਨੋਡ',
+  'forecast.subtitle': 'ਸ਼ਹਿਰ ਦੀਆਂ ਦਰਜ ਰੀਡਿੰਗਾਂ \'ਤੇ ਆਧਾਰਿਤ ਅੰਕੜਾ ਅਨੁਮਾਨ, ਤੁਲਨਾ ਲਈ ਵਿਕਲਪਿਕ AI ਅਨੁਮਾਨ ਸਮੇਤ।',
+  'forecast.confidenceMatrix': 'ਭਰੋਸਾ ਮੈਟ੍ਰਿਕਸ',
+  'forecast.aiModel': 'AI ਮਾਡਲ',
+  'forecast.observed': 'ਪਿਛਲੇ 72 ਘੰਟਿਆਂ ਦਾ ਸ਼ਹਿਰ AQI',
+  'forecast.readings': '{count} ਘੰਟਾਵਾਰ ਰੀਡਿੰਗਾਂ',
+  'forecast.observedEmpty': 'ਹਰ ਵਾਰ ਲਾਈਵ ਡਾਟਾ ਆਉਣ \'ਤੇ ਨਿਰੀਖਣ ਦਰਜ ਹੁੰਦੇ ਹਨ। ਦੋ ਘੰਟਿਆਂ ਦਾ ਰਿਕਾਰਡ ਹੁੰਦੇ ਹੀ ਰੁਝਾਨ ਦਿਸੇਗਾ।',
+  'forecast.projection': '+{hours} ਘੰਟੇ ਦਾ ਅਨੁਮਾਨ',
+  'forecast.range': '80% ਦਾਇਰਾ {lower}–{upper}',
+  'forecast.vector': 'ਮੁੱਖ ਸਰੋਤ',
+  'forecast.summary': 'ਇੰਟੈਲੀਜੈਂਸ ਸਾਰ',
+  'forecast.confidence': 'ਭਰੋਸਾ: {percent}%',
+  'forecast.compare': 'AI ਬਨਾਮ {model} ਆਧਾਰ',
+  'forecast.col.horizon': 'ਮਿਆਦ',
+  'forecast.col.baseline': 'ਆਧਾਰ (80%)',
+  'forecast.col.difference': 'ਫ਼ਰਕ',
+  'forecast.outside': 'ਦਾਇਰੇ ਤੋਂ ਬਾਹਰ',
+  'forecast.verification': 'ਪੂਰਵ ਅਨੁਮਾਨ ਪੜਤਾਲ',
+  'forecast.skillVsPersistence': 'ਪਰਸਿਸਟੈਂਸ ਦੇ ਮੁਕਾਬਲੇ ਹੁਨਰ',
+  'forecast.col.model': 'ਮਾਡਲ',
+  'forecast.col.mae': 'MAE',
+  'forecast.col.bias': 'ਝੁਕਾਅ',
+  'forecast.col.hit': 'ਸ਼੍ਰੇਣੀ ਮੇਲ',
+  'forecast.col.skill': 'ਹੁਨਰ',
+  'forecast.verificationEmpty': 'ਹਰ ਜਾਰੀ ਪੂਰਵ ਅਨੁਮਾਨ ਸੰਭਾਲਿਆ ਜਾਂਦਾ ਹੈ। ਪਹਿਲੇ 24 ਘੰਟੇ ਦੇ ਅਨੁਮਾਨ ਦੀ ਦਰਜ ਰੀਡਿੰਗ ਨਾਲ ਤੁਲਨਾ ਹੁੰਦੇ ਹੀ ਸਕੋਰ ਦਿਸਣਗੇ।',
+  'forecast.notice.title': 'ਸਿਸਟਮ ਸੂਚਨਾ',
+  'forecast.notice.body': 'ਆਧਾਰ ਅਨੁਮਾਨ ਸ਼ਹਿਰ ਦੀਆਂ ਦਰਜ ਰੀਡਿੰਗਾਂ \'ਤੇ ਸਥਾਨਕ ਤੌਰ \'ਤੇ ਫਿੱਟ ਕੀਤੇ {model} ਤੋਂ ਆਉਂਦੇ ਹਨ; Gemini ਕੁੰਜੀ ਹੋਣ \'ਤੇ AI ਅਨੁਮਾਨ ਵਿਖਾਏ ਜਾਂਦੇ ਹਨ। ਕਾਰਜਕਾਰੀ ਫ਼ੈਸਲਿਆਂ ਲਈ ਹਮੇਸ਼ਾ CPCB/DPCC ਦੀ ਲਾਈਵ ਨਿਯਾਮਕ ਟੈਲੀਮੈਟਰੀ ਵੇਖੋ।',
+
+  // CivicPulse
+  'pulse.nav.home': 'ਮੁੱਖ ਪੰਨਾ',
+  'pulse.nav.dashboard': 'ਡੈਸ਼ਬੋਰਡ',
+  'pulse.nav.explore': 'ਪੜਚੋਲ',
+  'pulse.nav.communities': 'ਭਾਈਚਾਰੇ',
+  'pulse.nav.bookmarks': 'ਬੁੱਕਮਾਰਕ',
+  'pulse.nav.profile': 'ਪ੍ਰੋਫ਼ਾਈਲ',
+  'pulse.nav.more': 'ਹੋਰ',
+  'pulse.post': 'ਪੋਸਟ ਕਰੋ',
+  'pulse.lightMode': 'ਲਾਈਟ ਮੋਡ',
+  'pulse.darkMode': 'ਡਾਰਕ ਮੋਡ',
+  'pulse.admin': 'ਐਡਮਿਨ ਨੋਡ',
+  'pulse.composer': 'ਤੁਸੀਂ ਕਿਹੜੀ ਪ੍ਰਦੂਸ਼ਣ ਸਮੱਸਿਆ ਵੇਖ ਰਹੇ ਹੋ?',
+  'pulse.justNow': 'ਹੁਣੇ',
+  'pulse.observer': 'ਨਾਗਰਿਕ ਨਿਰੀਖਕ',
+  'pulse.happening': 'ਕੀ ਹੋ ਰਿਹਾ ਹੈ',
+  'pulse.trending': '{region} · ਟ੍ਰੈਂਡਿੰਗ',
+  'pulse.reports': '{count} ਰਿਪੋਰਟਾਂ',
+  'pulse.region.south': 'ਦੱਖਣੀ ਦਿੱਲੀ',
+  'pulse.region.east': 'ਪੂਰਬੀ ਦਿੱਲੀ',
+  'pulse.region.outer': 'ਬਾਹਰੀ NCT',
+  'pulse.region.central': 'ਕੇਂਦਰੀ ਹੱਬ',
+  'pulse.showMore': 'ਹੋਰ ਵੇਖੋ',
+  'pulse.ailing': 'ਪ੍ਰਭਾਵਿਤ ਵਾਰਡ (24 ਘੰਟੇ)',
+  'pulse.spike': 'ਉਛਾਲ',
+  'pulse.aqi': 'AQI: {aqi}',
+
+  // AnalyticsView
+  'analytics.title': 'ਵਾਯੂਮੰਡਲੀ ਵਿਸ਼ਲੇਸ਼ਣ',
+  'analytics.subtitle': 'ਪ੍ਰਸ਼ਾਸਕੀ ਇੰਟੈਲੀਜੈਂਸ ਲਈ ਵਿਸਤ੍ਰਿਤ ਸਮਾਂ-ਆਧਾਰਿਤ ਵਿਸ਼ਲੇਸ਼ਣ।',
+  'analytics.hourly': 'ਘੰਟਾਵਾਰ ਸੰਪਰਕ ਰੁਝਾਨ (24 ਘੰਟੇ)',
+  'analytics.daily': 'ਰੋਜ਼ਾਨਾ ਮੱਧਕ ਸੂਚਕਾਂਕ (7 ਦਿਨ)',
+  'analytics.pollutants': 'ਪ੍ਰਦੂਸ਼ਕ ਯੋਗਦਾਨ ਪ੍ਰੋਫ਼ਾਈਲ',
+  'analytics.others': 'ਹੋਰ',
+  'analytics.summary': 'ਇੰਟੈਲੀਜੈਂਸ ਸਾਰ',
+  'analytics.peak': 'ਸਿਖਰ AQI ਦਾ ਸਮਾਂ',
+  'analytics.variance': 'ਆਧਾਰ ਭਿੰਨਤਾ',
+  'analytics.vsYesterday': 'ਕੱਲ੍ਹ ਦੇ ਮੁਕਾਬਲੇ {change}',
+  'analytics.cleanest': 'ਸਭ ਤੋਂ ਸਾਫ਼ ਸਮਾਂ',
+  'analytics.aggregation': 'ਗਣਨਾ ਵਿਧੀ ਅਨੁਸਾਰ ਮੁੱਖ AQI',
+  'analytics.stations': '{count} ਸਟੇਸ਼ਨ',
+  'analytics.intervention': 'ਦਖ਼ਲ ਮਾਡਲਿੰਗ',
+  'analytics.mitigation.title': 'ਘਟਾਅ ਅਸਰ ਸਿਮੂਲੇਸ਼ਨ',
+  'analytics.mitigation.subtitle': 'ਨੀਤੀਗਤ ਦਖ਼ਲਾਂ ਦੇ ਅਨੁਮਾਨਿਤ ਨਤੀਜੇ, ਹਰ ਵਾਰਡ ਦੀ ਸਰੋਤ ਵੰਡ \'ਤੇ ਲਾਗੂ।',
+  'analytics.cityAqi': 'ਸ਼ਹਿਰ AQI',
+  'analytics.exposureRedux': 'ਸੰਪਰਕ ਵਿੱਚ ਕਮੀ',
+  'analytics.grapNow': 'GRAP (ਹੁਣ {stage})',
+  'analytics.byIntervention': 'ਦਖ਼ਲ ਅਨੁਸਾਰ ਸੰਪਰਕ ਵਿੱਚ ਕਮੀ (ਇਕੱਲੇ)',
+  'analytics.reduction': '{percent}% ਕਮੀ',
+  'analytics.forecast72': '72 ਘੰਟਿਆਂ ਦਾ ਸ਼ਹਿਰ AQI ਅਨੁਮਾਨ',
+  'analytics.awaiting': 'ਅਨੁਮਾਨ ਦੀ ਉਡੀਕ',
+  'analytics.simulated': 'ਸਿਮੂਲੇਟਿਡ AQI',
+  'analytics.base': 'ਆਧਾਰ: {aqi}',
+  'analytics.postAction': 'ਕਾਰਵਾਈ ਤੋਂ ਬਾਅਦ: {aqi}',
+  'analytics.highest': 'ਸਭ ਤੋਂ ਵੱਧ ਅਨੁਮਾਨਿਤ ਵਾਰਡ',
+  'analytics.estimatedWard': '{name} (ਅਨੁ.)',
+  'analytics.estimatedBaselines': '{count} ਵਾਰਡਾਂ ਦੇ ਦਾਇਰੇ ਵਿੱਚ ਕੋਈ ਸਟੇਸ਼ਨ ਨਹੀਂ; ਉਨ੍ਹਾਂ ਦੀ ਆਧਾਰ-ਰੇਖਾ ਖੇਤਰੀ ਅਨੁਮਾਨ ਹੈ ਅਤੇ ਸ਼ਹਿਰ ਦੇ ਅਨੁਮਾਨ ਵਿੱਚ ਸ਼ਾਮਲ ਨਹੀਂ।',
+  'analytics.footnote': 'ਹਰ ਨੀਤੀ ਵਾਰਡ ਨਿਕਾਸ ਵਿੱਚ ਆਪਣੇ ਖੇਤਰ ਦਾ ਹਿੱਸਾ ਘਟਾਉਂਦੀ ਹੈ; ਵਾਰਡ AQI ਦਾ {percent}% ਸਥਾਨਕ ਕੰਟਰੋਲ ਤੋਂ ਬਾਹਰ ਖੇਤਰੀ ਪਿਛੋਕੜ ਮੰਨਿਆ ਜਾਂਦਾ ਹੈ।',
+  'grap.short.0': 'ਕੋਈ ਨਹੀਂ',
+  'grap.short.1': 'ਪੜਾਅ I',
+  'grap.short.2': 'ਪੜਾਅ II',
+  'grap.short.3': 'ਪੜਾਅ III',
+  'grap.short.4': 'ਪੜਾਅ IV',
+  'policy.diesel-ban': 'ਡੀਜ਼ਲ ਪਾਬੰਦੀ',
+  'policy.diesel-ban.description': 'ਗ਼ੈਰ-ਜ਼ਰੂਰੀ ਡੀਜ਼ਲ ਮਾਲ ਵਾਹਨ ਅਤੇ BS-IV ਡੀਜ਼ਲ ਕਾਰਾਂ ਸੜਕ ਤੋਂ ਬਾਹਰ',
+  'policy.odd-even': 'ਔਡ-ਈਵਨ',
+  'policy.odd-even.description': 'ਨੰਬਰ ਪਲੇਟ ਅਨੁਸਾਰ ਨਿੱਜੀ ਕਾਰਾਂ ਇੱਕ ਦਿਨ ਛੱਡ ਕੇ',
+  'policy.construction-halt': 'ਉਸਾਰੀ \'ਤੇ ਰੋਕ',
+  'policy.construction-halt.description': 'ਸਾਰੀ ਗ਼ੈਰ-ਜ਼ਰੂਰੀ ਉਸਾਰੀ ਅਤੇ ਢਾਹੁਣ ਬੰਦ',
+  'policy.dust-suppression': 'ਧੂੜ ਕੰਟਰੋਲ',
+  'policy.dust-suppression.description': 'ਧੂੜ ਵਾਲੇ ਹੌਟਸਪੌਟਾਂ \'ਤੇ ਮਸ਼ੀਨੀ ਸਫ਼ਾਈ, ਛਿੜਕਾਅ ਅਤੇ ਐਂਟੀ-ਸਮੌਗ ਗੰਨਾਂ',
+  'policy.industrial-shutdown': 'ਉਦਯੋਗਿਕ ਬੰਦੀ',
+  'policy.industrial-shutdown.description': 'ਗ਼ੈਰ-ਮਨਜ਼ੂਰਸ਼ੁਦਾ ਈਂਧਣ ਵਾਲੀਆਂ ਇਕਾਈਆਂ ਅਤੇ ਸਟੋਨ ਕਰੱਸ਼ਰ ਬੰਦ',
+
+  // WardDetail
+  'detail.registry': 'ਸਰਕਾਰੀ ਰਜਿਸਟਰੀ ਨੋਡ',
+  'detail.sector': 'ਸੈਕਟਰ {id} • {zone}',
+  'detail.index': 'ਸੰਯੁਕਤ ਜਵਾਬੀ ਸੂਚਕਾਂਕ',
+  'detail.phase': '{level} ਪੜਾਅ',
+  'detail.nominal': 'ਆਮ ਟੈਲੀਮੈਟਰੀ',
+  'detail.estimated': 'ਅਨੁਮਾਨਿਤ • ਦਾਇਰੇ ਵਿੱਚ ਕੋਈ ਸਟੇਸ਼ਨ ਨਹੀਂ',
+  'detail.density': '{density} / ਵਰਗ ਕਿਲੋਮੀਟਰ',
+  'detail.densityNA': 'ਘਣਤਾ ਉਪਲਬਧ ਨਹੀਂ',
+  'detail.outlook': '72 ਘੰਟਿਆਂ ਦਾ ਅਨੁਮਾਨ',
+  'detail.range': '80% ਦਾਇਰਾ',
+  'detail.modeling': 'ਮਾਡਲਿੰਗ',
+  'detail.noForecast': 'ਕੋਈ ਅਨੁਮਾਨ ਨਹੀਂ',
+  'detail.peak': '+{hours} ਘੰਟੇ \'ਤੇ ਸਿਖਰ {aqi} AQI',
+  'detail.awaiting': 'ਨਿਰੀਖਣਾਂ ਦੀ ਉਡੀਕ',
+  'detail.rank': 'ਖੇਤਰੀ ਦਰਜਾ',
+  'detail.inRegion': '{region} ਵਿੱਚ',
+  'detail.composition': 'ਪ੍ਰਦੂਸ਼ਕ ਬਣਤਰ',
+  'detail.pm25': 'ਬਰੀਕ ਕਣ (PM2.5)',
+  'detail.pm10': 'ਮੋਟੀ ਧੂੜ (PM10)',
+  'detail.attribution.title': 'ਸਰੋਤ ਨਿਰਧਾਰਨ',
+  'detail.attribution.body': 'ਮੁੱਖ ਪ੍ਰਦੂਸ਼ਣ ਸਰੋਤ ਪਛਾਣਨ ਲਈ ਵਾਯੂਮੰਡਲੀ ਰਸਾਇਣ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਕਰੋ।',
+  'detail.attribution.running': 'ਸੈਂਸਰ ਕੈਲੀਬ੍ਰੇਟ ਹੋ ਰਹੇ ਹਨ...',
+  'detail.attribution.run': 'ਸਰੋਤ ਨਿਰਧਾਰਨ ਚਲਾਓ',
+  'detail.strategy': 'ਰਣਨੀਤਕ ਕਾਰਜ ਇਕਾਈ',
+  'detail.urgency': 'ਯੋਜਨਾ ਦੀ ਫ਼ੌਰੀਅਤ',
+  'detail.priority': '{level} ਤਰਜੀਹ',
+  'region.North': 'ਉੱਤਰੀ ਦਿੱਲੀ',
+  'region.South': 'ਦੱਖਣੀ ਦਿੱਲੀ',
+  'region.East': 'ਪੂਰਬੀ ਦਿੱਲੀ',
+  'region.West': 'ਪੱਛਮੀ ਦਿੱਲੀ',
+  'region.Central': 'ਕੇਂਦਰੀ ਦਿੱਲੀ',
+
+  // WardMap
+  'map.node': 'ਪ੍ਰਸ਼ਾਸਕੀ ਨੋਡ {no}',
+  'map.forecastAt': 'ਅਨੁਮਾਨ +{hours} ਘੰਟੇ',
+  'map.method.idw': 'IDW',
+  'map.method.kriging': 'ਕ੍ਰਿਗਿੰਗ',
+  'map.stations': '{count} ਸਟੇਸ਼ਨ',
+  'map.extrapolated': 'ਬਾਹਰੀ ਅਨੁਮਾਨ',
+  'map.noCoverage': 'ਦਾਇਰੇ ਵਿੱਚ ਕੋਈ ਸਟੇਸ਼ਨ ਨਹੀਂ • ਕੋਈ ਅਨੁਮਾਨ ਨਹੀਂ',
+  'map.loading': 'ਸਥਾਨਕ ਟੈਲੀਮੈਟਰੀ ਲੋਡ ਹੋ ਰਹੀ ਹੈ',
+  'map.unavailable': 'ਵਾਰਡ ਹੱਦਾਂ ਉਪਲਬਧ ਨਹੀਂ',
+  'map.unavailableDetail': 'ਨੈੱਟਵਰਕ ਕੁਨੈਕਸ਼ਨ ਨਹੀਂ ਹੈ ਅਤੇ ਹਾਲੇ ਕੋਈ ਸੰਭਾਲੀ ਕਾਪੀ ਵੀ ਨਹੀਂ। ਇੱਕ ਵਾਰ ਸਫਲ ਲੋਡ ਤੋਂ ਬਾਅਦ ਨਕਸ਼ਾ ਆਫ਼ਲਾਈਨ ਉਪਲਬਧ ਰਹੇਗਾ।',
+  'map.station': 'CPCB ਸਟੇਸ਼ਨ',
+  'map.outside': 'ਵਾਰਡ ਹੱਦਾਂ ਤੋਂ ਬਾਹਰ',
+  'map.qcExcluded': 'QC ਤੋਂ ਬਾਹਰ',
+  'qc.spike': 'ਗੁਆਂਢੀਆਂ ਦੇ ਮੁਕਾਬਲੇ ਉਛਾਲ',
+  'qc.stuck': 'ਰੁਕੀ ਹੋਈ ਰੀਡਿੰਗ',
+  'qc.jump': 'ਅਸੰਭਵ ਛਾਲ',
+  'qc.out-of-bounds': 'ਦਿੱਲੀ ਦੀ ਹੱਦ ਤੋਂ ਬਾਹਰ',
+  'map.layer': 'ਮਾਡਲ ਖ਼ਤਰਾ ਪਰਤ',
+  'map.variance': 'ਭਿੰਨਤਾ',
+  'map.cachedStations': 'ਸੰਭਾਲੇ ਸਟੇਸ਼ਨ',
+  'map.delayedStations': 'ਦੇਰੀ ਵਾਲੇ ਸਟੇਸ਼ਨ',
+  'map.fixtureStations': 'ਡੈਮੋ ਸਟੇਸ਼ਨ (ਆਫ਼ਲਾਈਨ ਫ਼ਿਕਸਚਰ)',
+  'map.scanNode': 'AtmosScan ਵਿਜ਼ਨ ਨੋਡ',
+  'map.observedNow': 'ਹੁਣ ਦਰਜ',
+  'map.forecast': 'ਅਨੁਮਾਨ',
+  'map.live': 'ਲਾਈਵ',
+
+  // GovSections
+  'gov.orchestrator': 'Gemini ਫ਼ੈਸਲਾ ਸੰਚਾਲਕ',
+  'gov.matrix': 'ਕਾਰਜਕਾਰੀ ਕਾਰਵਾਈ ਮੈਟ੍ਰਿਕਸ',
+  'gov.protocol': '{level} ਪ੍ਰੋਟੋਕੋਲ ਸਰਗਰਮ',
+  'gov.escalation.Monitor': 'ਨਿਗਰਾਨੀ',
+  'gov.escalation.Alert': 'ਚੌਕਸੀ',
+  'gov.escalation.Emergency': 'ਐਮਰਜੈਂਸੀ',
+  'gov.escalation.Lockdown': 'ਲੌਕਡਾਊਨ',
+  'gov.riskScore': 'ਪ੍ਰਣਾਲੀਗਤ ਖ਼ਤਰਾ ਸਕੋਰ',
+  'gov.recommended': 'ਸਿਫ਼ਾਰਸ਼ੀ ਪੱਧਰ',
+  'gov.impacted': '{group} ਪ੍ਰਭਾਵਿਤ',
+  'gov.orchestratorUnavailable': 'ਫ਼ੈਸਲਾ ਸੰਚਾਲਕ ਉਪਲਬਧ ਨਹੀਂ',
+  'gov.liveIntel': 'ਲਾਈਵ ਨਿਯਾਮਕ ਇੰਟੈਲੀਜੈਂਸ',
+  'gov.newsFallback': 'ਮਿਆਰੀ ਪ੍ਰੋਟੋਕੋਲ ਸਰਗਰਮ।',
+  'gov.newsIdle': 'ਟੈਲੀਮੈਟਰੀ ਚਾਲੂ। ਤਾਜ਼ਾ CAQM ਬੁਲੇਟਿਨਾਂ \'ਤੇ ਨਜ਼ਰ।',
+  'gov.layer1': 'ਇੰਟੈਲੀਜੈਂਸ ਪਰਤ 01',
+  'gov.guidelines.title': 'ਸਰਕਾਰੀ ਹਵਾ ਗੁਣਵੱਤਾ ਦਿਸ਼ਾ-ਨਿਰਦੇਸ਼',
+  'gov.guidelines.body': 'ਗ੍ਰੇਡਿਡ ਰਿਸਪਾਂਸ ਐਕਸ਼ਨ ਪਲਾਨ (GRAP) ਹੇਠ ਹਵਾ ਗੁਣਵੱਤਾ ਪ੍ਰਬੰਧਨ ਕਮਿਸ਼ਨ (CAQM) ਵੱਲੋਂ ਜਾਰੀ ਸਰਕਾਰੀ ਪ੍ਰੋਟੋਕੋਲ।',
+  'gov.currentStage': 'ਮੌਜੂਦਾ ਪੜਾਅ',
+  'gov.awaiting': 'ਨਿਰੀਖਣਾਂ ਦੀ ਉਡੀਕ',
+  'gov.invokedForecast': 'ਅਨੁਮਾਨ \'ਤੇ ਲਾਗੂ',
+  'gov.invokedObserved': 'ਦਰਜ AQI \'ਤੇ ਲਾਗੂ',
+  'gov.since': '{time} ਤੋਂ',
+  'gov.revocation': 'AQI ਬਣਿਆ ਰਹੇ ਤਾਂ {time} \'ਤੇ ਵਾਪਸੀ ਸਮੀਖਿਆ',
+  'gov.measuresInForce': '{count} ਉਪਾਅ ਲਾਗੂ',
+  'gov.history': 'ਪੜਾਅ ਇਤਿਹਾਸ',
+  'gov.transition': 'ਪੜਾਅ {from} → {to}',
+  'gov.history.forecast': '{hours} ਘੰਟਿਆਂ ਵਿੱਚ ਅਨੁਮਾਨ {aqi}',
+  'gov.history.revoked': '{aqi} \'ਤੇ ਵਾਪਸ ਲਿਆ',
+  'gov.history.observed': 'ਦਰਜ {aqi}',
+  'gov.stage': 'ਪੜਾਅ {stage}',
+  'gov.threshold': '{level} • AQI {threshold}+',
+  'gov.inForce': 'ਲਾਗੂ',
+  'gov.leadTime': 'ਅਨੁਮਾਨ \'ਤੇ {hours} ਘੰਟੇ ਪਹਿਲਾਂ ਤੱਕ ਲਾਗੂ',
+  'gov.cumulative': '+ ਪੜਾਅ {stage} ਦੇ ਸਾਰੇ ਉਪਾਅ',
+  'gov.checklist.kicker': 'ਪਾਲਣਾ ਜਾਂਚ-ਸੂਚੀ',
+  'gov.checklist.title': 'ਜ਼ੋਨ-ਵਾਰ GRAP ਲਾਗੂਕਰਨ',
+  'gov.acrossZones': '{zones} ਜ਼ੋਨਾਂ ਵਿੱਚ {implemented}/{total}',
+  'gov.zonesUpTo': 'ਜ਼ੋਨ • ਪੜਾਅ {stage} ਤੱਕ',
+  'gov.citywide': 'ਪੂਰੇ ਸ਼ਹਿਰ ਵਿੱਚ',
+  'gov.wardsRelevant': '{relevant}/{total} ਵਾਰਡ ਸੰਬੰਧਿਤ',
+  'gov.layer2': 'ਇੰਟੈਲੀਜੈਂਸ ਪਰਤ 02',
+  'gov.enforcement': 'ਸਰਗਰਮ ਲਾਗੂਕਰਨ ਸਥਿਤੀ',
+  'gov.enforcement.traffic': 'ਆਵਾਜਾਈ ਕੰਟਰੋਲ',
+  'gov.enforcement.traffic.detail': 'ਨਿਰਧਾਰਿਤ ਖੇਤਰਾਂ ਵਿੱਚ BS-III ਪੈਟਰੋਲ ਅਤੇ BS-IV ਡੀਜ਼ਲ ਵਾਹਨਾਂ \'ਤੇ ਪਾਬੰਦੀ।',
+  'gov.enforcement.dust': 'ਧੂੜ ਕੰਟਰੋਲ',
+  'gov.enforcement.dust.detail': 'ਭੀੜ ਵਾਲੇ ਗਲਿਆਰਿਆਂ \'ਤੇ ਚੌਵੀ ਘੰਟੇ ਪਾਣੀ ਦਾ ਛਿੜਕਾਅ ਅਤੇ ਮਸ਼ੀਨੀ ਸਫ਼ਾਈ।',
+  'gov.enforcement.industry': 'ਉਦਯੋਗਿਕ ਕੰਟਰੋਲ',
+  'gov.enforcement.industry.detail': 'ਨਿਰਮਾਣ ਇਕਾਈਆਂ ਨੂੰ PNG/ਸਾਫ਼ ਈਂਧਣ ਗਰਿੱਡ \'ਤੇ ਲਿਆਉਣਾ।',
+  'gov.status.active': 'ਸਰਗਰਮ',
+  'gov.status.planned': 'ਯੋਜਨਾਬੱਧ',
+  'gov.layer3': 'ਇੰਟੈਲੀਜੈਂਸ ਪਰਤ 03',
+  'gov.plan.title': 'ਰਣਨੀਤਕ ਕਾਰਜ ਯੋਜਨਾ',
+  'gov.plan.body': 'ਢਾਂਚਾਗਤ ਡੀਕਾਰਬਨਾਈਜ਼ੇਸ਼ਨ \'ਤੇ ਕੇਂਦਰਿਤ 2025-2030 ਰੋਡਮੈਪ।',
+  'gov.plan.ev': 'ਵਪਾਰਕ ਵਾਹਨ ਬੇੜਿਆਂ ਲਈ ਤੇਜ਼ EV ਤਬਦੀਲੀ।',
+  'gov.plan.green': '33% ਹਰੇ ਬਫ਼ਰ ਜ਼ੋਨ ਨੂੰ ਪੂਰਾ ਕਰਨਾ।',
+  'gov.plan.sensors': 'ਰੀਅਲ-ਟਾਈਮ ਸੂਖਮ-ਸੈਂਸਰਾਂ ਦੀ ਤਾਇਨਾਤੀ।',
+  'gov.stat.transport': 'ਜਨਤਕ ਆਵਾਜਾਈ',
+  'gov.stat.evs': '+{count} EV',
+  'gov.stat.sensors': 'ਨਵੇਂ ਸੈਂਸਰ',
+  'gov.stat.green': 'ਹਰਿਆਲੀ',
+  'gov.stat.target': 'ਟੀਚਾ AQI',
+
+  // GeminiAssistant
+  'assistant.poweredBy': 'Gemini ਵੱਲੋਂ ਸੰਚਾਲਿਤ',
+  'assistant.title': 'ਵਾਯੂਮੰਡਲੀ ਇੰਟੈਲੀਜੈਂਸ ਕੰਸੋਲ',
+  'assistant.threads': 'ਬ੍ਰੀਫ਼ਿੰਗ ਥ੍ਰੈੱਡ',
+  'assistant.newThread': 'ਨਵਾਂ ਥ੍ਰੈੱਡ',
+  'assistant.export': 'Markdown ਵਜੋਂ ਨਿਰਯਾਤ ਕਰੋ',
+  'assistant.target': 'ਟੀਚਾ: {place}',
+  'assistant.delhi': 'ਦਿੱਲੀ NCT',
+  'assistant.uplink': 'ਲਾਈਵ ਅੱਪਲਿੰਕ',
+  'assistant.noThreads': 'ਹਾਲੇ ਕੋਈ ਸੰਭਾਲਿਆ ਥ੍ਰੈੱਡ ਨਹੀਂ',
+  'assistant.messages': '{count} ਸੁਨੇਹੇ',
+  'assistant.messages_one': '{count} ਸੁਨੇਹਾ',
+  'assistant.deleteThread': 'ਥ੍ਰੈੱਡ ਮਿਟਾਓ',
+  'assistant.ready': 'ਸਵਾਲ ਲਈ ਤਿਆਰ',
+  'assistant.readyDetail': 'ਵਾਰਡ-ਵਿਸ਼ੇਸ਼ ਪ੍ਰਦੂਸ਼ਣ ਸਰੋਤਾਂ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਕਰੋ, ਅਨੁਮਾਨ ਦਾ ਤਰਕ ਜਾਣੋ ਜਾਂ ਘਟਾਅ ਰਣਨੀਤੀਆਂ ਮੰਗੋ।',
+  'assistant.suggest.why': 'AQI ਉੱਚਾ ਕਿਉਂ ਹੈ?',
+  'assistant.suggest.worst': 'ਦੱਖਣ ਦੇ 5 ਸਭ ਤੋਂ ਮਾੜੇ ਵਾਰਡ',
+  'assistant.suggest.forecast': 'ਕੱਲ੍ਹ ਦਾ ਅਨੁਮਾਨ',
+  'assistant.suggest.factories': 'ਫ਼ੈਕਟਰੀਆਂ ਦੀਆਂ ਉਲੰਘਣਾਵਾਂ',
+  'assistant.lookups': '{count} ਡਾਟਾ ਖੋਜਾਂ',
+  'assistant.lookups_one': '{count} ਡਾਟਾ ਖੋਜ',
+  'assistant.stopped': 'ਰੋਕਿਆ ਗਿਆ',
+  'assistant.disclaimer': 'AI ਵੱਲੋਂ ਤਿਆਰ • CPCB ਨਾਲ ਪੁਸ਼ਟੀ ਕਰੋ',
+  'assistant.analysing': 'ਵਿਸ਼ਲੇਸ਼ਣ ਹੋ ਰਿਹਾ ਹੈ',
+  'assistant.placeholder': 'ਹੁਕਮ ਜਾਂ ਸਵਾਲ ਲਿਖੋ...',
+  'assistant.stop': 'ਜਵਾਬ ਰੋਕੋ',
+  'assistant.launch': 'ਇੰਟੈਲੀਜੈਂਸ ਖੋਲ੍ਹੋ',
+  'assistant.untitled': 'ਨਵੀਂ ਬ੍ਰੀਫ਼ਿੰਗ',
+  'assistant.md.started': 'PureAir ਬ੍ਰੀਫ਼ਿੰਗ ਥ੍ਰੈੱਡ, {started} ਨੂੰ ਸ਼ੁਰੂ, {exported} ਨੂੰ ਨਿਰਯਾਤ।',
+  'assistant.md.officer': 'ਅਧਿਕਾਰੀ',
+  'assistant.md.assistant': 'ਸਹਾਇਕ',
+  'assistant.md.noText': '(ਕੋਈ ਲਿਖਤ ਨਹੀਂ)',
+  'assistant.md.stopped': 'ਪੂਰਾ ਹੋਣ ਤੋਂ ਪਹਿਲਾਂ ਰੋਕਿਆ ਗਿਆ।',
+  'assistant.md.sources': 'ਸਰੋਤ',
+  'tool.find_ward': 'ਵਾਰਡ ਖੋਜ',
+  'tool.rank_wards': 'ਵਾਰਡ ਦਰਜਾਬੰਦੀ',
+  'tool.get_ward_history': 'ਵਾਰਡ ਇਤਿਹਾਸ',
+  'tool.get_forecast': 'ਅਨੁਮਾਨ',
+  'tool.get_grap_measures': 'GRAP ਉਪਾਅ',
+  'tool.get_factories': 'ਫ਼ੈਕਟਰੀ ਬਹੀ',
+  'alerts.kicker': 'ਵਾਰਡ ਅਲਰਟ',
+  'alerts.title': 'ਹਵਾ ਗੁਣਵੱਤਾ ਅਲਰਟ',
+  'alerts.enable': 'ਬ੍ਰਾਊਜ਼ਰ ਸੂਚਨਾਵਾਂ ਚਾਲੂ ਕਰੋ',
+  'alerts.permission.granted': 'ਬ੍ਰਾਊਜ਼ਰ ਸੂਚਨਾਵਾਂ ਚਾਲੂ ਹਨ',
+  'alerts.permission.denied': 'ਸੂਚਨਾਵਾਂ ਬਲੌਕ ਹਨ; ਅਲਰਟ ਹੇਠਾਂ ਇਤਿਹਾਸ ਵਿੱਚ ਰੱਖੇ ਜਾਂਦੇ ਹਨ',
+  'alerts.permission.unsupported': 'ਇਹ ਬ੍ਰਾਊਜ਼ਰ ਸੂਚਨਾਵਾਂ ਨਹੀਂ ਦਿਖਾ ਸਕਦਾ; ਅਲਰਟ ਹੇਠਾਂ ਇਤਿਹਾਸ ਵਿੱਚ ਰੱਖੇ ਜਾਂਦੇ ਹਨ',
+  'alerts.new': 'ਨਵਾਂ ਅਲਰਟ',
+  'alerts.city': 'ਦਿੱਲੀ (ਸ਼ਹਿਰ ਦੀ ਔਸਤ)',
+  'alerts.trigger.threshold': 'AQI ਹੱਦ ਤੋਂ ਉੱਪਰ',
+  'alerts.trigger.category': 'ਸ਼੍ਰੇਣੀ ਵਿੱਚ ਬਦਲਾਅ',
+  'alerts.trigger.grap': 'GRAP ਪੜਾਅ ਵਿੱਚ ਬਦਲਾਅ',
+  'alerts.trigger.forecast-severe': 'ਗੰਭੀਰ ਪੂਰਵ ਅਨੁਮਾਨ',
+  'alerts.thresholdLabel': 'ਇਸ AQI ਤੋਂ ਉੱਪਰ ਅਲਰਟ',
+  'alerts.above': '{threshold} ਤੋਂ ਉੱਪਰ',
+  'alerts.add': 'ਅਲਰਟ ਜੋੜੋ',
+  'alerts.subscriptions': 'ਸਬਸਕ੍ਰਿਪਸ਼ਨ',
+  'alerts.noSubscriptions': 'ਹਾਲੇ ਕੋਈ ਅਲਰਟ ਸੈੱਟ ਨਹੀਂ',
+  'alerts.remove': 'ਅਲਰਟ ਹਟਾਓ',
+  'alerts.quietHours': 'ਸ਼ਾਂਤ ਸਮਾਂ',
+  'alerts.quietHint': 'ਸ਼ਾਂਤ ਸਮੇਂ ਦੌਰਾਨ ਅਲਰਟ ਸਿਰਫ਼ ਇੱਥੇ ਦਰਜ ਹੁੰਦੇ ਹਨ, ਸੂਚਨਾ ਵਜੋਂ ਨਹੀਂ ਦਿਖਦੇ।',
+  'alerts.history': 'ਹਾਲੀਆ ਅਲਰਟ',
+  'alerts.clear': 'ਸਾਫ਼ ਕਰੋ',
+  'alerts.noHistory': 'ਹਾਲੇ ਕੋਈ ਅਲਰਟ ਨਹੀਂ',
+  'alerts.silenced': 'ਸ਼ਾਂਤ ਸਮਾਂ',
+  'alerts.threshold.title': '{place}: AQI {aqi}',
+  'alerts.threshold.body': 'ਹਵਾ ਦੀ ਗੁਣਵੱਤਾ ਤੁਹਾਡੇ ਅਲਰਟ ਪੱਧਰ {threshold} ਤੋਂ ਪਾਰ ਹੋ ਗਈ ਹੈ।',
+  'alerts.category.title': '{place} ਹੁਣ {level} ਹੈ',
+  'alerts.category.body': 'AQI {aqi}, ਪਹਿਲਾਂ {previous} ਸੀ।',
+  'alerts.grap.title': '{label} ਲਾਗੂ',
+  'alerts.grap.lifted': 'GRAP ਪਾਬੰਦੀਆਂ ਹਟਾਈਆਂ ਗਈਆਂ',
+  'alerts.grap.body': '{description}',
+  'alerts.forecast.title': '{place} ਵਿੱਚ ਗੰਭੀਰ ਹਵਾ ਦੀ ਸੰਭਾਵਨਾ',
+  'alerts.forecast.body': '{hours} ਘੰਟਿਆਂ ਵਿੱਚ AQI {aqi} ਤੱਕ ਪਹੁੰਚਣ ਦਾ ਅਨੁਮਾਨ।',
+
+  // Local rule-based answers (services/llm/localProvider)
+  'local.insight.stage': 'ਸ਼ਹਿਰ ਦਾ AQI {aqi} ({category}) ਹੈ, ਮੁੱਖ ਕਾਰਨ {dominant} ਹੈ। {stage} ਲਾਗੂ ਹੁੰਦਾ ਹੈ; {measures} ਦੀ ਸਖ਼ਤ ਪਾਲਣਾ ਆਮ ਤੌਰ \'ਤੇ ਸਥਾਨਕ ਨਿਕਾਸ {reduction} ਤੱਕ ਘਟਾਉਂਦੀ ਹੈ।',
+  'local.insight.none': 'ਸ਼ਹਿਰ ਦਾ AQI {aqi} ({category}) ਹੈ, ਮੁੱਖ ਕਾਰਨ {dominant} ਹੈ। ਕੋਈ GRAP ਪੜਾਅ ਲੋੜੀਂਦਾ ਨਹੀਂ; ਨਿਯਮਤ ਧੂੜ ਅਤੇ ਆਵਾਜਾਈ ਲਾਗੂਕਰਨ ਸਥਾਨਕ ਨਿਕਾਸ ਨੂੰ {reduction} ਘੱਟ ਰੱਖਦਾ ਹੈ।',
+  'local.and': '{first} ਅਤੇ {second}',
+  'local.forecast.explanation': 'ਮੌਜੂਦਾ AQI ਨੂੰ ਹਾਲੀਆ ਰੁਝਾਨ ਦੇ ਨਾਲ ਅੱਗੇ ਵਧਾਇਆ ਗਿਆ ਹੈ।',
+  'local.plan.summary': '{ward} (AQI {aqi}) ਵਿੱਚ ਸਥਾਨਕ ਪ੍ਰਦੂਸ਼ਣ ਦਾ ਮੁੱਖ ਸਰੋਤ {source} ਹੈ; {stage} ਦੇ ਉਪਾਅ ਇਸੇ ਖੇਤਰ \'ਤੇ ਕੇਂਦਰਿਤ ਕਰੋ।',
+  'local.plan.preventive': 'ਰੋਕਥਾਮ ਪੜਾਅ I',
+  'local.health.protect.Low': 'ਕੋਈ ਖ਼ਾਸ ਸਾਵਧਾਨੀ ਨਹੀਂ',
+  'local.health.protect.Moderate': 'ਆਵਾਜਾਈ ਦੇ ਨੇੜੇ ਭਾਰੀ ਮਿਹਨਤ ਤੋਂ ਬਚੋ',
+  'local.health.protect.High': 'ਬਾਹਰ N95 ਮਾਸਕ; ਘਰ ਅੰਦਰ ਏਅਰ ਪਿਊਰੀਫ਼ਾਇਰ',
+  'local.health.who.Asthma': 'ਦਮੇ ਦੇ ਮਰੀਜ਼ਾਂ',
+  'local.health.who.Heart Condition': 'ਦਿਲ ਦੇ ਰੋਗੀਆਂ',
+  'local.health.who.Pregnant': 'ਗਰਭਵਤੀ ਔਰਤਾਂ',
+  'local.health.who.Child': 'ਬੱਚਿਆਂ',
+  'local.health.who.Adult': 'ਬਾਲਗਾਂ',
+  'local.health.who.Elderly': 'ਬਜ਼ੁਰਗਾਂ',
+  'local.health.warning': 'AQI {aqi} ({category}) \'ਤੇ {who} ਲਈ ਸੰਪਰਕ ਖ਼ਤਰਾ {risk} ਹੈ।',
+  'local.decision.monitor': 'ਨਿਯਮਤ ਨਿਗਰਾਨੀ ਜਾਰੀ ਰੱਖੋ',
+  'local.decision.reasoning': 'AQI {aqi}, {stage} ਵਿੱਚ ਆਉਂਦਾ ਹੈ ਅਤੇ ਰੁਝਾਨ {trend} ਹੈ।',
+  'local.group.children': 'ਬੱਚੇ',
+  'local.group.elderly': 'ਬਜ਼ੁਰਗ',
+  'local.group.respiratory': 'ਸਾਹ ਦੇ ਰੋਗੀ',
+  'local.group.outdoor': 'ਬਾਹਰ ਕੰਮ ਕਰਨ ਵਾਲੇ',
+  'local.assistant.city': 'ਸ਼ਹਿਰ ਦਾ AQI {aqi} ({category}) ਹੈ।',
+  'local.assistant.noCity': 'ਸ਼ਹਿਰ ਦੀ ਕੋਈ ਲਾਈਵ ਰੀਡਿੰਗ ਉਪਲਬਧ ਨਹੀਂ।',
+  'local.assistant.ward': '{ward} ਦਾ AQI {aqi} ਹੈ, ਜ਼ਿਆਦਾਤਰ {source} ਤੋਂ।',
+  'local.assistant.grap': '{label}: {description}।',
+  'local.assistant.health': '{city} {measure}। ਤੰਦਰੁਸਤ ਬਾਲਗ ਬਾਹਰ {minutes} ਮਿੰਟ ਤੋਂ ਘੱਟ ਰਹਿਣ; ਬੱਚੇ, ਬਜ਼ੁਰਗ ਅਤੇ ਦਿਲ ਜਾਂ ਫੇਫੜਿਆਂ ਦੇ ਰੋਗੀ ਇਸ ਤੋਂ ਅੱਧਾ ਸਮਾਂ ਹੀ ਬਾਹਰ ਰਹਿਣ।',
+  'local.assistant.hint': 'ਸਿਹਤ ਸਾਵਧਾਨੀਆਂ, GRAP ਪੜਾਵਾਂ ਜਾਂ ਪ੍ਰਦੂਸ਼ਣ ਸਰੋਤਾਂ ਬਾਰੇ ਪੁੱਛੋ।',
+  'local.assistant.noData': 'ਖੋਜ ਵਿੱਚ ਕੋਈ ਡਾਟਾ ਨਹੀਂ ਮਿਲਿਆ।',
+  'local.safeZones.title': 'ਨੇੜਲੇ ਵੱਡੇ ਹਰੇ ਖੇਤਰ:',
+  'local.safeZones.item': '- {name}: {distance} ਕਿਲੋਮੀਟਰ ({area} ਹੈਕਟੇਅਰ)',
+  'local.safeZones.route': 'ਮੁੱਖ ਸੜਕਾਂ ਦੀ ਬਜਾਏ ਰਿਹਾਇਸ਼ੀ ਗਲੀਆਂ ਵਾਲੇ ਰਸਤੇ ਚੁਣੋ।',
+  'local.policy.since': ' {time} ਤੋਂ',
+  'local.policy.status': '{label}{since}: {description}। {count} ਉਪਾਅ ਲਾਗੂ (ਸਥਾਨਕ GRAP ਇੰਜਣ)।',
+
+  // AI service messages (services/geminiService)
+  'ai.error.unavailable': 'AI ਵਿਸ਼ਲੇਸ਼ਣ ਲਈ ਸੰਰਚਿਤ ਪ੍ਰਦਾਤਾ ਚਾਹੀਦਾ ਹੈ, ਜਿਵੇਂ Gemini API ਕੁੰਜੀ।',
+  'ai.error.unsupported': 'ਇਹ AI ਪ੍ਰਦਾਤਾ ਤਸਵੀਰਾਂ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਨਹੀਂ ਕਰ ਸਕਦਾ। ਇਸ ਸਹੂਲਤ ਲਈ Gemini API ਕੁੰਜੀ ਸੰਰਚਿਤ ਕਰੋ।',
+  'ai.error.requestFailed': 'AI ਸੇਵਾ ਨਾਲ ਸੰਪਰਕ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'ai.error.invalidResponse': '{attempts} ਕੋਸ਼ਿਸ਼ਾਂ ਤੋਂ ਬਾਅਦ ਵੀ AI ਜਵਾਬ ਪੜਤਾਲ ਵਿੱਚ ਅਸਫਲ ਰਿਹਾ।',
+  'ai.assistant.unstable': 'ਕੁਨੈਕਸ਼ਨ ਅਸਥਿਰ। ਲਿੰਕ ਮੁੜ ਜੋੜਿਆ ਜਾ ਰਿਹਾ ਹੈ...',
+  'ai.assistant.toolLimit': 'ਸਹਾਇਕ ਆਪਣੀਆਂ ਡਾਟਾ ਖੋਜਾਂ ਪੂਰੀਆਂ ਨਹੀਂ ਕਰ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਸਵਾਲ ਹੋਰ ਸ਼ਬਦਾਂ ਵਿੱਚ ਪੁੱਛੋ।',
+  'ai.assistant.error': 'ਲਾਈਵ AI ਕੁਨੈਕਸ਼ਨ ਵਿੱਚ ਗੜਬੜ। ਕਿਰਪਾ ਕਰਕੇ ਕੁਝ ਪਲਾਂ ਬਾਅਦ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'ai.news.idle': 'GRAP ਨਿਗਰਾਨੀ ਚਾਲੂ।',
+  'ai.news.failed': 'ਨੀਤੀ ਅੱਪਲਿੰਕ ਅਸਫਲ। CPCB ਦੀ ਸਰਕਾਰੀ ਸਾਈਟ ਵੇਖੋ।',
+  'ai.safeZones.pending': 'ਸੁਰੱਖਿਅਤ ਖੇਤਰ ਲੱਭੇ ਜਾ ਰਹੇ ਹਨ...',
+  'ai.safeZones.failed': 'ਸੁਰੱਖਿਅਤ ਖੇਤਰਾਂ ਦੀ ਖੋਜ ਅਸਫਲ।',
+};
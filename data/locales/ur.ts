@@ -0,0 +1,760 @@
+import { Catalogue } from './en';
+
+// Urdu (Nastaliq, right to left). Acronyms such as AQI, GRAP, CPCB and PM2.5 stay in
+// Latin script, as they appear in official bulletins.
+export const ur: Catalogue = {
+  // Shared
+  'common.aqi': 'AQI',
+  'common.close': 'بند کریں',
+  'common.retry': 'دوبارہ کوشش کریں',
+  'common.language': 'زبان',
+  'common.ward': 'وارڈ {no}',
+  'common.minutes': '{count} منٹ',
+  'common.km': '{value} کلومیٹر',
+  'common.dominant': '{pollutant} غالب',
+  'common.regionDelhi': '{region} دہلی',
+
+  'level.Good': 'اچھا',
+  'level.Satisfactory': 'تسلی بخش',
+  'level.Moderate': 'معتدل',
+  'level.Poor': 'خراب',
+  'level.Very Poor': 'بہت خراب',
+  'level.Severe': 'شدید',
+
+  'source.transport': 'گاڑیوں کا دھواں',
+  'source.construction': 'تعمیرات اور سڑک کی دھول',
+  'source.industry': 'صنعتی احتراق',
+  'source.waste': 'بایوماس اور کچرا جلانا',
+
+  'dispersion.stagnant': 'ساکن ہوا',
+  'dispersion.poor': 'کمزور پھیلاؤ',
+  'dispersion.moderate': 'معتدل پھیلاؤ',
+  'dispersion.good': 'اچھا پھیلاؤ',
+
+  'aggregation.max': 'زیادہ سے زیادہ',
+  'aggregation.mean': 'اوسط',
+  'aggregation.median': 'وسطانیہ',
+  'aggregation.trimmed-percentile': 'اوپری 50% تراشیدہ',
+  'aggregation.population-weighted': 'آبادی کے لحاظ سے وزنی',
+  'aggregation.cpcb-average': 'CPCB اوسط',
+  'aggregation.max.description': 'شہر کا سب سے خراب اسٹیشن',
+  'aggregation.mean.description': 'تمام اسٹیشنوں کا حسابی اوسط',
+  'aggregation.median.description': 'درمیانی اسٹیشن کی ریڈنگ',
+  'aggregation.trimmed-percentile.description': '50ویں سے 95ویں پرسنٹائل تک کے اسٹیشنوں کا اوسط',
+  'aggregation.population-weighted.description': 'وارڈ کی آبادی کے لحاظ سے وزنی وارڈ تخمینے',
+  'aggregation.cpcb-average.description': 'CPCB رپورٹنگ معیار پورا کرنے والے اسٹیشنوں کا اوسط',
+
+  // Advisories from the intelligence engine, by band
+  'advisory.clean.warning': 'کوئی نہیں',
+  'advisory.clean.mask': 'ضرورت نہیں',
+  'advisory.clean.activity': 'معمول کی بیرونی سرگرمی',
+  'advisory.clean.school': 'کھلے',
+  'advisory.sensitive.warning': 'حساس افراد طویل مشقت کم کریں',
+  'advisory.sensitive.mask': 'حساس افراد کے لیے اختیاری',
+  'advisory.sensitive.activity': 'وقفے لیں',
+  'advisory.sensitive.school': 'کھلے',
+  'advisory.moderate.warning': 'حساس پھیپھڑوں کے لیے معتدل خطرہ',
+  'advisory.moderate.mask': 'دیر تک باہر رہنے پر ماسک کی سفارش',
+  'advisory.moderate.activity': 'شدت کم کریں',
+  'advisory.moderate.school': 'وقفہ محدود کریں',
+  'advisory.high.warning': 'زیادہ خطرہ: دمہ کے مریض/بزرگ/بچے گھر کے اندر رہیں',
+  'advisory.high.mask': 'N95 کی سفارش',
+  'advisory.high.activity': 'باہر ورزش نہ کریں',
+  'advisory.high.school': 'بیرونی کھیل معطل کریں',
+  'advisory.critical.warning': 'انتہائی سنگین: فوراً گھر کے اندر رہیں',
+  'advisory.critical.mask': 'N95/N99 لازمی',
+  'advisory.critical.activity': 'ہر قسم کی بیرونی مشقت سے بچیں',
+  'advisory.critical.school': 'آن لائن تعلیم کی سفارش',
+
+  // GRAP stages, sectors and measures
+  'grap.label.0': 'کوئی GRAP نافذ نہیں',
+  'grap.label.1': 'GRAP مرحلہ I',
+  'grap.label.2': 'GRAP مرحلہ II',
+  'grap.label.3': 'GRAP مرحلہ III',
+  'grap.label.4': 'GRAP مرحلہ IV',
+  'grap.description.0': 'معیاری آلودگی کنٹرول اقدامات',
+  'grap.description.1': 'خراب: دھول پر قابو، مشینی صفائی',
+  'grap.description.2': 'بہت خراب: ڈیزل جنریٹر پر پابندی، پارکنگ فیس میں اضافہ',
+  'grap.description.3': 'شدید: تعمیر اور انہدام پر پابندی',
+  'grap.description.4': 'شدید+: ٹرکوں کے داخلے پر پابندی، طاق-جفت اسکیم',
+  'grap.sector.construction': 'تعمیرات',
+  'grap.sector.roads': 'سڑکیں',
+  'grap.sector.transport': 'نقل و حمل',
+  'grap.sector.industry': 'صنعت',
+  'grap.sector.power': 'بجلی',
+  'grap.sector.waste': 'کچرا',
+  'grap.sector.commercial': 'تجارتی',
+  'grap.sector.education': 'تعلیم',
+  'grap.sector.offices': 'دفاتر',
+  'grap.measure.g1-cd-dust': 'تعمیر اور انہدام کے مقامات پر دھول پر قابو؛ 500 مربع میٹر سے بڑے غیر رجسٹرڈ مقامات بند',
+  'grap.measure.g1-sweeping': 'سڑکوں پر مشینی صفائی اور پانی کا چھڑکاؤ',
+  'grap.measure.g1-puc': 'PUC کا سخت نفاذ اور نمایاں دھواں چھوڑنے والی گاڑیوں کے خلاف کارروائی',
+  'grap.measure.g1-open-burning': 'بایوماس اور بلدیاتی کچرا کھلے میں جلانے پر پابندی',
+  'grap.measure.g1-firecrackers': 'پٹاخوں پر پابندی نافذ',
+  'grap.measure.g1-dg-sets': 'ڈیزل جنریٹر صرف ہنگامی اور ضروری خدمات کے لیے',
+  'grap.measure.g1-tandoor': 'ہوٹل، ریستوران اور ڈھابے بجلی یا صاف ایندھن استعمال کریں',
+  'grap.measure.g1-industry-fuel': 'صنعتیں صرف منظور شدہ ایندھن پر چلیں',
+  'grap.measure.g2-daily-sweeping': 'نشان زدہ سڑکوں پر روزانہ مشینی صفائی اور دھول روک چھڑکاؤ',
+  'grap.measure.g2-site-inspections': 'تعمیراتی مقامات کا سخت معائنہ',
+  'grap.measure.g2-dg-schedule': 'ڈیزل جنریٹروں کے چلانے کا منظم وقت',
+  'grap.measure.g2-parking': 'نجی گاڑیوں کی حوصلہ شکنی کے لیے زیادہ پارکنگ فیس',
+  'grap.measure.g2-transit': 'CNG/برقی بس اور میٹرو خدمات میں اضافہ',
+  'grap.measure.g2-coal-firewood': 'ہوٹلوں، ریستورانوں اور کھلے ڈھابوں میں کوئلہ یا لکڑی نہیں',
+  'grap.measure.g3-cd-ban': 'ضروری منصوبوں کے سوا تعمیر اور انہدام بند',
+  'grap.measure.g3-crushers-mining': 'اسٹون کرشر اور کان کنی بند',
+  'grap.measure.g3-bs3-bs4': 'BS-III پیٹرول اور BS-IV ڈیزل چار پہیہ گاڑیوں پر پابندی',
+  'grap.measure.g3-diesel-mgv': 'دہلی کے باہر کی غیر ضروری ڈیزل درمیانی مال بردار گاڑیوں پر پابندی',
+  'grap.measure.g3-primary-schools': 'پرائمری جماعتیں (جماعت V تک) ہائبرڈ موڈ میں',
+  'grap.measure.g3-unapproved-fuel': 'غیر منظور شدہ ایندھن والی صنعتیں بند',
+  'grap.measure.g4-truck-entry': 'ضروری، CNG، برقی اور BS-VI کے سوا دہلی میں ٹرکوں کا داخلہ بند',
+  'grap.measure.g4-delhi-hgv': 'ضروری خدمات کے سوا دہلی میں رجسٹرڈ ڈیزل درمیانی اور بھاری مال بردار گاڑیوں پر پابندی',
+  'grap.measure.g4-linear-projects': 'خطی عوامی منصوبوں (سڑکیں، فلائی اوور، پائپ لائن) پر تعمیر بند',
+  'grap.measure.g4-schools': 'جماعت VI–IX اور XI ہائبرڈ موڈ میں',
+  'grap.measure.g4-wfh': 'سرکاری اور نجی دفاتر میں 50% گھر سے کام',
+  'grap.measure.g4-emergency': 'طاق-جفت اور کالجوں و غیر ضروری تجارتی سرگرمیوں کی بندش پر غور',
+
+  // App shell
+  'nav.map': 'نقشہ',
+  'nav.rankings': 'درجہ بندی',
+  'nav.analytics': 'تجزیات',
+  'nav.forecast': 'پیش گوئی',
+  'nav.health': 'صحت',
+  'nav.scan': 'وژن',
+  'nav.pulse': 'پلس',
+  'nav.governance': 'حکمرانی',
+  'nav.registry': 'رجسٹری',
+  'app.bulletin.forecastInvoked': ' (پیش گوئی پر نافذ)',
+  'app.bulletin.inForceSince': '{time} سے نافذ',
+  'app.bulletin.measures': '{count} اقدامات',
+  'app.bulletin.measures_one': '{count} اقدام',
+  'app.bulletin.revocationReview': 'واپسی کا جائزہ {time}',
+  'app.bulletin.action': 'کارروائی: {mask} • {activity}',
+  'app.bulletin.noLimit': 'نمائش کی حد: کوئی حد نہیں',
+  'app.bulletin.limit': 'نمائش کی حد: باہر زیادہ سے زیادہ {count} منٹ',
+  'app.bulletin.rising': '6 گھنٹے کی پیش گوئی: سطح بڑھ رہی ہے',
+  'app.bulletin.improving': '6 گھنٹے کی پیش گوئی: سطح بہتر ہو رہی ہے',
+  'app.bulletin.stable': '6 گھنٹے کی پیش گوئی: مستحکم',
+  'app.bulletin.ventilation': 'ہوا کی نکاسی {value} m²/s',
+  'app.bulletin.inversion': 'سطحی الٹاؤ',
+  'app.bulletin.rain': 'بارش سے صفائی',
+  'app.bulletin.calibrating': 'انٹیلیجنس گرڈ کیلیبریٹ ہو رہا ہے...',
+  'app.feature.execute': 'نوڈ کھولیں',
+  'app.hero.node': '{city} فضائی نوڈ',
+  'app.hero.phase': '{level} مرحلہ',
+  'app.hero.lastReading': 'آخری ریڈنگ',
+  'app.hero.liveFeed': 'براہِ راست فیڈ',
+  'app.hero.snapshot': 'آف لائن اسٹیشن اسنیپ شاٹ',
+  'app.hero.cached': 'محفوظ ریڈنگ',
+  'app.hero.age': '{age} پرانی',
+  'app.hero.noReading': 'آف لائن کوئی ریڈنگ دستیاب نہیں',
+  'app.hero.demo': 'ڈیمو ڈیٹا',
+  'app.hero.fixture': 'آف لائن فکسچر • حقیقی پیمائش نہیں',
+  'app.hero.aggregation': '{count} اسٹیشنوں کا {method}',
+  'app.hero.scroll': 'معلومات کے لیے اسکرول کریں',
+  'app.insight.title': 'AI تخفیفی تجویز',
+  'app.insight.confidence': 'اعتماد: {confidence}',
+  'app.insight.footer': 'فیصلہ معاونت نوڈ دہلی-NCT کے لیے تیار کردہ',
+  'app.card.map.title': 'مکانی نقشہ',
+  'app.card.map.description': '274 بلدیاتی سیکٹروں کی وارڈ وار خرد آب و ہوا نگرانی۔',
+  'app.card.forecast.title': 'پیش گوئی',
+  'app.card.forecast.description': 'فضائی کیمیا ماڈلوں پر مبنی 72 گھنٹے کی معلومات۔',
+  'app.card.analytics.title': 'تجزیاتی پلس',
+  'app.card.analytics.description': 'فی گھنٹہ نمائش کے رجحانات اور آلودگی کی ساخت کا گہرا جائزہ۔',
+  'app.card.scan.title': 'AtmosScan وژن',
+  'app.card.scan.description': 'طیفی کثافت نوڈز کے ذریعے ذرات کی مرئیت کی دور سے AI پروفائلنگ۔',
+  'app.card.pulse.title': 'سوک پلس',
+  'app.card.pulse.description': 'شہریوں کی براہِ راست رپورٹس اور محلے کے ہاٹ اسپاٹس کی تصدیق۔',
+  'app.card.health.title': 'صحت رجسٹری',
+  'app.card.health.description': 'تمباکو کے مساوی زہریلے پن پر مبنی جسمانی خطرے کا جائزہ۔',
+  'app.card.governance.title': 'حکمرانی',
+  'app.card.governance.description': 'تعمیل رجسٹر، GRAP پروٹوکول اور نفاذی نوڈز۔',
+  'app.map.title': 'مکانی نگرانی نوڈ',
+  'app.map.search': 'سیکٹر تلاش کریں',
+  'app.loading.title': 'PureAir سسٹمز',
+  'app.loading.subtitle': 'فضائی کور شروع ہو رہا ہے',
+  'app.strip.grapActive': 'GRAP نافذ',
+  'app.strip.updated': 'آخری اپ ڈیٹ: {time} | عوامی AQI فیڈ',
+  'app.footer.modeled': 'عوامی API محدود ہونے کی وجہ سے وارڈ سطح کی قدریں ماڈل سے اخذ کی گئی ہیں۔',
+  'app.footer.architecture': 'سسٹم کا ڈھانچہ دیکھیں',
+  'app.footer.end': 'نشریات ختم • دہلی NCT ماحولیاتی نوڈ',
+
+  // MethodologyView
+  'methodology.title': 'طریقۂ کار اور ماخذ رجسٹری',
+  'methodology.subtitle': 'ڈیٹا کے حصول اور پروسیسنگ کے طریقوں کی شفاف وضاحت۔',
+  'methodology.sensors.title': 'بنیادی سینسر نیٹ ورک',
+  'methodology.sensors.body': 'ڈیٹا براہِ راست مرکزی آلودگی کنٹرول بورڈ (CPCB) اور دہلی آلودگی کنٹرول کمیٹی (DPCC) کے نگرانی اسٹیشنوں سے لیا جاتا ہے۔ انتظامی درستگی کے لیے ہم سرکاری ٹیلی میٹری کو ترجیح دیتے ہیں۔',
+  'methodology.sensors.active': 'فعال سینسر',
+  'methodology.sensors.activeValue': '40+ یونٹس',
+  'methodology.sensors.accuracy': 'درستگی',
+  'methodology.sensors.accuracyValue': 'گریڈ-A لیب',
+  'methodology.standards.title': 'حساب کے معیارات',
+  'methodology.standards.body': 'PureAir، PM2.5 اور PM10 کے لیے AirNow (US-EPA) ذیلی اشاریہ طریقہ استعمال کرتا ہے، جو عام خطی نقشہ سازی سے زیادہ باریک خطرے کا اندازہ دیتا ہے۔ تمام حدیں WHO رہنما اصول 2021 سے ملائی جاتی ہیں۔',
+  'methodology.fallback.title': 'متبادل اور مکانی منطق',
+  'methodology.fallback.body': 'جب کسی وارڈ کا سینسر آف لائن ہو تو ہمارا نظام \'قریب ترین درست نوڈ\' منطق اپناتا ہے اور ڈیٹا کے تسلسل کے لیے 5 کلومیٹر کے اندر قریب ترین فعال CPCB اسٹیشن استعمال کرتا ہے۔',
+  'methodology.verified': 'NCT دفاعی کارروائیوں کے لیے تصدیق شدہ نظام۔',
+
+  // RankingsView
+  'rankings.title': 'مکمل NCT رجسٹری',
+  'rankings.subtitle': 'تمام 274 بلدیاتی سیکٹروں کی جامع زہریلے پن کی درجہ بندی۔',
+  'rankings.currentAqi': 'موجودہ AQI',
+
+  // ZoneOverview
+  'zone.title': '{zone} — مجموعی اعداد و شمار',
+  'zone.subtitle': 'سیکٹر سطح کی ماحولیاتی نگرانی کا خلاصہ۔',
+  'zone.average': 'زون اوسط اشاریہ',
+  'zone.hotspots': 'فعال ردعمل نوڈز (ہاٹ اسپاٹس)',
+  'zone.allNodes': '{zone} کے تمام سیکٹر نوڈز',
+
+  // ArchitectureModal
+  'architecture.title': 'سسٹم کا ڈھانچہ',
+  'architecture.subtitle': 'ماحولیاتی فیصلہ سازی انٹیلیجنس کے لیے ڈیٹا کے بہاؤ کی پائپ لائن۔',
+  'architecture.input': 'صارف کا ان پٹ',
+  'architecture.input.sub': 'مقام اور سوال',
+  'architecture.data': 'AQI ڈیٹا پرت',
+  'architecture.data.sub': 'CPCB/WAQI حصول',
+  'architecture.risk': 'خطرے کی ماڈلنگ',
+  'architecture.risk.sub': 'وارڈ انٹرپولیشن',
+  'architecture.reasoning': 'Gemini تجزیہ',
+  'architecture.reasoning.sub': 'سیاق و سباق کا تجزیہ',
+  'architecture.action': 'کارروائی میٹرکس',
+  'architecture.action.sub': 'GRAP پروٹوکول',
+  'architecture.dashboard': 'ڈیش بورڈ',
+  'architecture.dashboard.sub': 'بصری انٹیلیجنس',
+  'architecture.stack': 'ٹیک اسٹیک:',
+
+  // ErrorBoundary
+  'error.title': 'نوڈ ناکام',
+  'error.body': 'فضائی ڈیٹا پروسیسر کو ایک غیر سنبھالی ہدایت ملی۔',
+  'error.reload': 'نظام دوبارہ ہم آہنگ کریں',
+
+  // Small widgets
+  'sparkline.collecting': 'مشاہدات جمع ہو رہے ہیں',
+  'ring.responseIndex': 'ردعمل اشاریہ',
+  'nodes.cloud': 'NCT مکانی کلاؤڈ',
+  'nodes.nominal': 'معمول',
+  'nodes.elevated': 'بلند',
+  'nodes.critical': 'سنگین',
+
+  // ComparisonView
+  'comparison.title': 'تقابلی انٹیلیجنس',
+  'comparison.exit': 'تجزیہ سے باہر نکلیں',
+  'comparison.reference': 'حوالہ سیکٹر',
+  'comparison.target': 'ہدف سیکٹر',
+  'comparison.aqi': 'مجموعی AQI',
+  'comparison.pm25': 'PM 2.5 کثافت',
+  'comparison.pm10': 'PM 10 کثافت',
+  'comparison.wind': 'ہوا کی رفتار',
+  'comparison.humidity': 'نمی کی سطح',
+  'comparison.vector': 'بنیادی ماخذ: {ward}',
+
+  // WardCard
+  'wardCard.node': 'سیکٹر رجسٹری نوڈ {id}',
+  'wardCard.live': 'براہِ راست ٹیلی میٹری',
+  'wardCard.estimated': 'علاقائی تخمینہ',
+
+  // SearchOverlay
+  'search.placeholder': '274 وارڈ یا زون تلاش کریں...',
+  'search.results': 'مکانی تلاش کے نتائج',
+  'search.none': 'کوئی مماثل سیکٹر نہیں ملا',
+  'search.prompt': 'NCT رجسٹری تلاش کرنے کے لیے لکھیں',
+  'search.navigate': 'منتخب کریں',
+  'search.select': 'کھولیں',
+
+  // IndustrialLedger
+  'ledger.kicker': 'ماحولیاتی نفاذ',
+  'ledger.title': 'صنعتی تعمیل رجسٹر',
+  'ledger.subtitle': 'NCT علاقے میں صنعتی اخراج اور DPCC معائنے کی سرکاری رجسٹری۔',
+  'ledger.violators': 'خلاف ورزی کرنے والے',
+  'ledger.suspended': 'معطل',
+  'ledger.compliant': 'تعمیل کرنے والے',
+  'ledger.lastInspection': 'آخری معائنہ: {date}',
+  'ledger.emissions': 'چمنی کا اخراج',
+  'ledger.status': 'تعمیل کی حیثیت',
+  'ledger.repeat': 'بار بار خلاف ورزی کی تاریخ',
+  'ledger.citation.title': 'خودکار ڈیجیٹل چالان (AI پر مبنی)',
+  'ledger.citation.body': 'تعمیل نہ کرنے والی اکائیاں خود بخود جسمانی تصدیق کے لیے نشان زد ہوتی ہیں۔ چالان Gemini AtmosVision وژن نوڈز سے تیار ہوتے ہیں۔',
+  'ledger.report': 'رجسٹری رپورٹ بنائیں',
+  'compliance.Active': 'فعال',
+  'compliance.Non-Compliant': 'غیر تعمیل',
+  'compliance.Suspended': 'معطل',
+  'compliance.Under-Review': 'زیرِ جائزہ',
+
+  // SourceAttributionCard
+  'attribution.title': 'ماخذ انٹیلیجنس نوڈ',
+  'attribution.confidence': 'اعتماد: {value}%',
+  'attribution.model': 'ریسیپٹر ماڈل',
+  'attribution.narrated': ' • AI بیان کردہ',
+  'attribution.dominant': 'غالب ماخذ',
+  'attribution.certainty': 'ماخذ کے تعین کا یقین: {value}%',
+  'attribution.secondary': 'ثانوی حصے',
+  'attribution.derivation': 'منطقی استخراج',
+  'attribution.snippet': 'انٹیلیجنس اقتباس',
+
+  // CitizenAction
+  'report.locating': 'GPS کوآرڈینیٹس تلاش ہو رہے ہیں...',
+  'report.noLocation': 'مقام دستیاب نہیں',
+  'report.inWard': '{ward} (وارڈ {no}) • {coords}',
+  'report.outside': 'بلدیاتی وارڈز سے باہر • {coords}',
+  'report.kicker': 'عوامی انٹیلیجنس',
+  'report.title': 'ہاٹ اسپاٹ کی اطلاع دیں',
+  'report.subtitle': 'ماحولیاتی نفاذ کے شعبے تک براہِ راست رسائی۔',
+  'report.media': 'تصویر/ویڈیو لیں یا چھوڑیں',
+  'report.mediaHint': 'تصویر یا MP4 معاون',
+  'report.location': 'موجودہ مقام',
+  'report.placeholder': 'خلاف ورزی کی تفصیل لکھیں (مثلاً کچرا جلانا، صنعتی اخراج)...',
+  'report.submit': 'حکام کو بھیجیں',
+  'report.sending': 'پیکیج انکرپٹ ہو رہا ہے',
+  'report.sendingHint': 'CPCB نوڈز سے محفوظ رابطہ قائم ہو رہا ہے...',
+  'report.done': 'ترسیل کی تصدیق',
+  'report.doneBody': 'آپ کی رپورٹ ID #PX-2940 کے تحت درج کر کے {zone} فوری ردعمل یونٹ کے سپرد کر دی گئی ہے۔',
+  'report.back': 'ڈیش بورڈ پر واپس',
+
+  // HealthImpactView
+  'health.title': 'جسمانی خطرہ رجسٹری',
+  'health.subtitle': 'PM2.5 ارتکاز کی بنیاد پر نظامِ ہضم و تنفس پر فضائی اثرات کا سائنسی جائزہ۔',
+  'health.twin.title': 'صحت ڈیجیٹل ٹوئن',
+  'health.twin.kicker': 'ذاتی خطرہ انجن',
+  'health.ageGroup': 'عمر کا گروپ',
+  'health.age.Child': 'بچہ',
+  'health.age.Adult': 'بالغ',
+  'health.age.Elderly': 'بزرگ',
+  'health.condition': 'طبی حالت',
+  'health.condition.None': 'کوئی نہیں',
+  'health.condition.Asthma': 'دمہ',
+  'health.condition.Heart Condition': 'دل کا مرض',
+  'health.condition.Pregnant': 'حاملہ',
+  'health.exposure': 'متوقع نمائش',
+  'health.hours': '{count} گھنٹے',
+  'health.calibrating': 'میٹابولک اثر کی نقل کی جا رہی ہے...',
+  'health.retry': 'دوبارہ کیلیبریٹ کریں',
+  'health.calibrate': 'ڈیجیٹل ٹوئن کیلیبریٹ کریں',
+  'health.warning': 'ذاتی انتباہ',
+  'health.risk': '{level} خطرہ',
+  'health.limit': 'زیادہ سے زیادہ بیرونی حد',
+  'health.protocol': 'حفاظتی طریقہ',
+  'health.recalibrate': 'دوبارہ کیلیبریٹ کریں',
+  'health.cigarettes': 'سگریٹ کے مساوی / روزانہ',
+  'health.toxicity.title': 'فضائی زہریلا پن اشاریہ',
+  'health.toxicity.body': 'موجودہ ارتکاز پر گرد و پیش کا PM2.5 سانس میں لینا، 24 گھنٹوں میں اوپر دی گئی تعداد میں سگریٹ پینے کے جسمانی طور پر برابر ہے۔',
+  'health.toxicity.source': 'ماخذ: گلوبل برڈن آف ڈیزیز مطالعات',
+  'health.card.respiratory': 'تنفس / دمہ',
+  'health.card.respiratory.advice': 'علامات بگڑنے اور ریسکیو انہیلر پر انحصار بڑھنے کا زیادہ امکان۔',
+  'health.card.cardio': 'قلب و دورانِ خون',
+  'health.card.cardio.advice': 'حالیہ گروپس میں جسمانی سوزش اور دل کی دھڑکن میں تغیر بڑھا ہوا پایا گیا۔',
+  'health.card.pediatric': 'بچوں کی صحت',
+  'health.card.pediatric.advice': 'دن کے عروج کے اوقات میں طویل بیرونی مشقت روکنے کی سفارش۔',
+  'health.card.elderly': 'بزرگ آبادی',
+  'health.card.elderly.advice': 'پہلے سے میٹابولک امراض والے افراد کے لیے گھر کے اندر رہنا اولین ترجیح۔',
+  'health.disclaimer': 'دستبرداری: ڈیٹا اشاراتی ہے۔ انفرادی تشخیص کے لیے مستند معالج سے رجوع کریں۔',
+  'health.diary.title': 'ایکسپوژر ڈائری',
+  'health.diary.kicker': 'ذاتی PM2.5 خوراک',
+  'health.diary.place.home': 'گھر کا وارڈ',
+  'health.diary.place.work': 'کام کی جگہ کا وارڈ',
+  'health.diary.place.commute': 'آمد و رفت کے راستے کا وارڈ',
+  'health.diary.log': 'دن درج کریں (گھنٹے)',
+  'health.diary.setting.home': 'گھر',
+  'health.diary.setting.work': 'کام',
+  'health.diary.setting.commute': 'آمد و رفت',
+  'health.diary.setting.outdoor': 'باہر',
+  'health.diary.unlogged': '{count} گھنٹے درج نہیں، گھر میں شمار کیے گئے',
+  'health.diary.unlogged_one': '{count} گھنٹہ درج نہیں، گھر میں شمار کیا گیا',
+  'health.diary.fullDay': 'پورا دن درج',
+  'health.diary.save': 'دن محفوظ کریں',
+  'health.diary.update': 'دن اپ ڈیٹ کریں',
+  'health.diary.empty': 'سانس کے ذریعے لی گئی خوراک اور ہفتہ وار رجحان دیکھنے کے لیے ایک دن درج کریں۔',
+  'health.diary.weekDose': 'خوراک، پچھلے 7 دن',
+  'health.diary.vsWho': 'WHO رہنما اصول کے مقابلے میں',
+  'health.diary.times': '{ratio}×',
+  'health.diary.mean': 'سانس میں لیا گیا PM2.5',
+  'health.diary.ugm3': '{value} µg/m³',
+  'health.diary.ug': '{value} µg',
+  'health.diary.daysAbove': 'WHO سے اوپر کے دن',
+  'health.diary.daysOf': '{total} میں سے {count}',
+  'health.diary.tooltip.dose': 'سانس میں: {value}',
+  'health.diary.tooltip.who': 'WHO رہنما اصول پر: {value}',
+  'health.diary.tooltip.days': '{count} دن درج',
+  'health.diary.legend.dose': 'آپ کی ہفتہ وار خوراک',
+  'health.diary.legend.who': 'WHO رہنما اصول ({limit} µg/m³، 24 گھنٹے)',
+  'health.diary.sources': 'جگہ کے لحاظ سے خوراک، پچھلے 7 دن',
+  'health.diary.estimated': 'کچھ دنوں کی وارڈ تاریخ دستیاب نہیں تھی؛ ان کے لیے تازہ ترین ریڈنگ استعمال کی گئی۔',
+  'health.diary.method': 'PM2.5 کا اندازہ ہر وارڈ کی روزانہ AQI تاریخ سے لگایا جاتا ہے۔ فرض کیا گیا ہے کہ بیرونی PM2.5 کا {home}% گھروں میں، {work}% دفاتر میں اور {commute}% گاڑیوں میں پہنچتا ہے۔ سانس کی شرح عمر کے گروپ کے مطابق ہے۔ WHO حوالہ انہی گھنٹوں میں {limit} µg/m³ پر لی گئی خوراک ہے۔',
+  'risk.Low': 'کم',
+  'risk.Moderate': 'معتدل',
+  'risk.Medium': 'درمیانہ',
+  'risk.High': 'زیادہ',
+  'risk.Critical': 'سنگین',
+  'risk.Severe': 'شدید',
+  'risk.Elevated': 'بلند',
+  'risk.Extreme': 'انتہائی',
+
+  // AtmosScan
+  'scan.kicker': 'انٹیلیجنس پرت 04',
+  'scan.title': 'AtmosScan وژن',
+  'scan.subtitle': 'فضائی دھندلاہٹ اور ذرات کی مرئیت کی دور سے AI پروفائلنگ۔',
+  'scan.upload': 'تصویر اپ لوڈ کریں',
+  'scan.imageAlt': 'اسکین ہدف',
+  'scan.analyzing': 'طیفی کثافت کا تجزیہ',
+  'scan.analyzingDetail': 'PM2.5 انتشار کے عوامل سے موازنہ ہو رہا ہے...',
+  'scan.interrupted': 'تجزیہ منقطع',
+  'scan.waiting': 'نظام مکانی ان پٹ کا منتظر',
+  'scan.complete': 'تجزیہ مکمل',
+  'scan.score': 'بصری آلودگی اسکور',
+  'scan.source': 'بنیادی ماخذ',
+  'scan.reasoning': 'تجزیاتی منطق',
+  'scan.anomaly': 'بے قاعدگی کا زیادہ امکان ({percent}%)',
+  'scan.anomalyDetail': 'یہ واقعہ بنیادی فضائی ماڈلوں سے نمایاں طور پر مختلف ہے۔',
+  'scan.confidence': 'اعتماد میٹرکس',
+  'scan.model': 'ماڈل نوڈ',
+
+  // ForecastView
+  'forecast.loading': 'فضائی ماڈل تیار ہو رہے ہیں',
+  'forecast.kicker': 'انٹیلیجنس پرت 05',
+  'forecast.title': 'پیش گوئی نمائش نوڈ',
+  'forecast.subtitle': 'شہر کی درج شدہ ریڈنگز پر مبنی شماریاتی تخمینے، موازنے کے لیے اختیاری AI تخمینے کے ساتھ۔',
+  'forecast.confidenceMatrix': 'اعتماد میٹرکس',
+  'forecast.aiModel': 'AI ماڈل',
+  'forecast.observed': 'گزشتہ 72 گھنٹوں کا شہر AQI',
+  'forecast.readings': '{count} فی گھنٹہ ریڈنگز',
+  'forecast.observedEmpty': 'ہر بار براہِ راست ڈیٹا آنے پر مشاہدات درج ہوتے ہیں۔ دو گھنٹوں کا ریکارڈ ہوتے ہی رجحان نظر آئے گا۔',
+  'forecast.projection': '+{hours} گھنٹے کا تخمینہ',
+  'forecast.range': '80% حد {lower}–{upper}',
+  'forecast.vector': 'بنیادی ماخذ',
+  'forecast.summary': 'انٹیلیجنس خلاصہ',
+  'forecast.confidence': 'اعتماد: {percent}%',
+  'forecast.compare': 'AI بمقابلہ {model} بنیاد',
+  'forecast.col.horizon': 'مدت',
+  'forecast.col.baseline': 'بنیاد (80%)',
+  'forecast.col.difference': 'فرق',
+  'forecast.outside': 'حد سے باہر',
+  'forecast.verification': 'پیش گوئی کی تصدیق',
+  'forecast.skillVsPersistence': 'تسلسل کے مقابلے میں مہارت',
+  'forecast.col.model': 'ماڈل',
+  'forecast.col.mae': 'MAE',
+  'forecast.col.bias': 'جھکاؤ',
+  'forecast.col.hit': 'زمرہ مطابقت',
+  'forecast.col.skill': 'مہارت',
+  'forecast.verificationEmpty': 'ہر جاری کردہ پیش گوئی محفوظ کی جاتی ہے۔ پہلے 24 گھنٹے کے تخمینے کا درج ریڈنگ سے موازنہ ہوتے ہی اسکور نظر آئیں گے۔',
+  'forecast.notice.title': 'نظام کی اطلاع',
+  'forecast.notice.body': 'بنیادی تخمینے شہر کی درج ریڈنگز پر مقامی طور پر فٹ کیے گئے {model} سے آتے ہیں؛ Gemini کلید موجود ہو تو AI تخمینے دکھائے جاتے ہیں۔ عملی فیصلوں کے لیے ہمیشہ CPCB/DPCC کی براہِ راست ضابطہ جاتی ٹیلی میٹری دیکھیں۔',
+
+  // CivicPulse
+  'pulse.nav.home': 'ہوم',
+  'pulse.nav.dashboard': 'ڈیش بورڈ',
+  'pulse.nav.explore': 'دریافت کریں',
+  'pulse.nav.communities': 'برادریاں',
+  'pulse.nav.bookmarks': 'بک مارکس',
+  'pulse.nav.profile': 'پروفائل',
+  'pulse.nav.more': 'مزید',
+  'pulse.post': 'پوسٹ کریں',
+  'pulse.lightMode': 'لائٹ موڈ',
+  'pulse.darkMode': 'ڈارک موڈ',
+  'pulse.admin': 'ایڈمن نوڈ',
+  'pulse.composer': 'آپ کون سا آلودگی کا مسئلہ دیکھ رہے ہیں؟',
+  'pulse.justNow': 'ابھی',
+  'pulse.observer': 'شہری مبصر',
+  'pulse.happening': 'کیا ہو رہا ہے',
+  'pulse.trending': '{region} · ٹرینڈنگ',
+  'pulse.reports': '{count} رپورٹس',
+  'pulse.region.south': 'جنوبی دہلی',
+  'pulse.region.east': 'مشرقی دہلی',
+  'pulse.region.outer': 'بیرونی NCT',
+  'pulse.region.central': 'مرکزی مرکز',
+  'pulse.showMore': 'مزید دکھائیں',
+  'pulse.ailing': 'متاثرہ وارڈ (24 گھنٹے)',
+  'pulse.spike': 'اچانک اضافہ',
+  'pulse.aqi': 'AQI: {aqi}',
+
+  // AnalyticsView
+  'analytics.title': 'فضائی تجزیات',
+  'analytics.subtitle': 'انتظامی انٹیلیجنس کے لیے تفصیلی زمانی تجزیہ۔',
+  'analytics.hourly': 'فی گھنٹہ نمائش کا رجحان (24 گھنٹے)',
+  'analytics.daily': 'یومیہ وسطانیہ اشاریہ (7 دن)',
+  'analytics.pollutants': 'آلودگی کے حصے کی پروفائل',
+  'analytics.others': 'دیگر',
+  'analytics.summary': 'انٹیلیجنس خلاصہ',
+  'analytics.peak': 'بلند ترین AQI کا وقت',
+  'analytics.variance': 'بنیادی تغیر',
+  'analytics.vsYesterday': 'کل کے مقابلے میں {change}',
+  'analytics.cleanest': 'صاف ترین وقفہ',
+  'analytics.aggregation': 'حساب کے طریقے کے لحاظ سے مرکزی AQI',
+  'analytics.stations': '{count} اسٹیشن',
+  'analytics.intervention': 'مداخلت کی ماڈلنگ',
+  'analytics.mitigation.title': 'تخفیفی اثر کی نقل',
+  'analytics.mitigation.subtitle': 'پالیسی مداخلتوں کے متوقع نتائج، ہر وارڈ کی ماخذ تقسیم پر لاگو۔',
+  'analytics.cityAqi': 'شہر AQI',
+  'analytics.exposureRedux': 'نمائش میں کمی',
+  'analytics.grapNow': 'GRAP (ابھی {stage})',
+  'analytics.byIntervention': 'مداخلت کے لحاظ سے نمائش میں کمی (تنہا)',
+  'analytics.reduction': '{percent}% کمی',
+  'analytics.forecast72': '72 گھنٹوں کا شہر AQI تخمینہ',
+  'analytics.awaiting': 'پیش گوئی کا انتظار',
+  'analytics.simulated': 'نقلی AQI',
+  'analytics.base': 'بنیاد: {aqi}',
+  'analytics.postAction': 'کارروائی کے بعد: {aqi}',
+  'analytics.highest': 'سب سے زیادہ متوقع وارڈ',
+  'analytics.estimatedWard': '{name} (تخمینی)',
+  'analytics.estimatedBaselines': '{count} وارڈز کے دائرے میں کوئی اسٹیشن نہیں؛ ان کی بنیادی قدر علاقائی تخمینہ ہے اور شہر کے تخمینے میں شامل نہیں۔',
+  'analytics.footnote': 'ہر پالیسی وارڈ کے اخراج میں اپنے شعبے کا حصہ کم کرتی ہے؛ وارڈ AQI کا {percent}% مقامی اختیار سے باہر علاقائی پس منظر مانا جاتا ہے۔',
+  'grap.short.0': 'کوئی نہیں',
+  'grap.short.1': 'مرحلہ I',
+  'grap.short.2': 'مرحلہ II',
+  'grap.short.3': 'مرحلہ III',
+  'grap.short.4': 'مرحلہ IV',
+  'policy.diesel-ban': 'ڈیزل پابندی',
+  'policy.diesel-ban.description': 'غیر ضروری ڈیزل مال بردار گاڑیاں اور BS-IV ڈیزل کاریں سڑک سے باہر',
+  'policy.odd-even': 'طاق-جفت',
+  'policy.odd-even.description': 'نمبر پلیٹ کے مطابق نجی کاریں ایک دن چھوڑ کر',
+  'policy.construction-halt': 'تعمیرات پر روک',
+  'policy.construction-halt.description': 'تمام غیر ضروری تعمیر اور انہدام بند',
+  'policy.dust-suppression': 'دھول پر قابو',
+  'policy.dust-suppression.description': 'دھول والے ہاٹ اسپاٹس پر مشینی صفائی، چھڑکاؤ اور اینٹی اسموگ گنز',
+  'policy.industrial-shutdown': 'صنعتی بندش',
+  'policy.industrial-shutdown.description': 'غیر منظور شدہ ایندھن والی اکائیاں اور اسٹون کرشر بند',
+
+  // WardDetail
+  'detail.registry': 'سرکاری رجسٹری نوڈ',
+  'detail.sector': 'سیکٹر {id} • {zone}',
+  'detail.index': 'مربوط ردعمل اشاریہ',
+  'detail.phase': '{level} مرحلہ',
+  'detail.nominal': 'معمول کی ٹیلی میٹری',
+  'detail.estimated': 'تخمینی • دائرے میں کوئی اسٹیشن نہیں',
+  'detail.density': '{density} / مربع کلومیٹر',
+  'detail.densityNA': 'کثافت دستیاب نہیں',
+  'detail.outlook': '72 گھنٹوں کا منظرنامہ',
+  'detail.range': '80% حد',
+  'detail.modeling': 'ماڈلنگ',
+  'detail.noForecast': 'کوئی پیش گوئی نہیں',
+  'detail.peak': '+{hours} گھنٹے پر بلند ترین {aqi} AQI',
+  'detail.awaiting': 'مشاہدات کا انتظار',
+  'detail.rank': 'علاقائی درجہ',
+  'detail.inRegion': '{region} میں',
+  'detail.composition': 'آلودگی کی ساخت',
+  'detail.pm25': 'باریک ذرات (PM2.5)',
+  'detail.pm10': 'موٹی دھول (PM10)',
+  'detail.attribution.title': 'ماخذ کا تعین',
+  'detail.attribution.body': 'غالب آلودگی کے ماخذ کی شناخت کے لیے فضائی کیمیا کا تجزیہ کریں۔',
+  'detail.attribution.running': 'سینسر کیلیبریٹ ہو رہے ہیں...',
+  'detail.attribution.run': 'ماخذ کا تعین چلائیں',
+  'detail.strategy': 'حکمتِ عملی یونٹ',
+  'detail.urgency': 'منصوبے کی فوریت',
+  'detail.priority': '{level} ترجیح',
+  'region.North': 'شمالی دہلی',
+  'region.South': 'جنوبی دہلی',
+  'region.East': 'مشرقی دہلی',
+  'region.West': 'مغربی دہلی',
+  'region.Central': 'وسطی دہلی',
+
+  // WardMap
+  'map.node': 'انتظامی نوڈ {no}',
+  'map.forecastAt': 'پیش گوئی +{hours} گھنٹے',
+  'map.method.idw': 'IDW',
+  'map.method.kriging': 'کریگنگ',
+  'map.stations': '{count} اسٹیشن',
+  'map.extrapolated': 'بیرونی تخمینہ',
+  'map.noCoverage': 'دائرے میں کوئی اسٹیشن نہیں • کوئی تخمینہ نہیں',
+  'map.loading': 'مکانی ٹیلی میٹری لوڈ ہو رہی ہے',
+  'map.unavailable': 'وارڈ کی حدود دستیاب نہیں',
+  'map.unavailableDetail': 'نیٹ ورک کنکشن نہیں ہے اور ابھی کوئی محفوظ نقل بھی نہیں۔ ایک بار کامیابی سے لوڈ ہونے کے بعد نقشہ آف لائن دستیاب رہے گا۔',
+  'map.station': 'CPCB اسٹیشن',
+  'map.outside': 'وارڈ کی حدود سے باہر',
+  'map.qcExcluded': 'QC سے خارج',
+  'qc.spike': 'پڑوسیوں کے مقابلے میں اچانک اضافہ',
+  'qc.stuck': 'منجمد ریڈنگ',
+  'qc.jump': 'ناممکن اچھال',
+  'qc.out-of-bounds': 'دہلی کی حدود سے باہر',
+  'map.layer': 'ماڈل شدہ خطرے کی پرت',
+  'map.variance': 'تغیر',
+  'map.cachedStations': 'محفوظ اسٹیشن',
+  'map.delayedStations': 'تاخیر والے اسٹیشن',
+  'map.fixtureStations': 'ڈیمو اسٹیشن (آف لائن فکسچر)',
+  'map.scanNode': 'AtmosScan وژن نوڈ',
+  'map.observedNow': 'ابھی درج',
+  'map.forecast': 'پیش گوئی',
+  'map.live': 'براہِ راست',
+
+  // GovSections
+  'gov.orchestrator': 'Gemini فیصلہ ساز منتظم',
+  'gov.matrix': 'انتظامی کارروائی میٹرکس',
+  'gov.protocol': '{level} پروٹوکول فعال',
+  'gov.escalation.Monitor': 'نگرانی',
+  'gov.escalation.Alert': 'انتباہ',
+  'gov.escalation.Emergency': 'ہنگامی حالت',
+  'gov.escalation.Lockdown': 'لاک ڈاؤن',
+  'gov.riskScore': 'نظامی خطرہ اسکور',
+  'gov.recommended': 'تجویز کردہ سطح',
+  'gov.impacted': '{group} متاثر',
+  'gov.orchestratorUnavailable': 'فیصلہ ساز منتظم دستیاب نہیں',
+  'gov.liveIntel': 'براہِ راست ضابطہ جاتی انٹیلیجنس',
+  'gov.newsFallback': 'معیاری پروٹوکول فعال۔',
+  'gov.newsIdle': 'ٹیلی میٹری فعال۔ تازہ CAQM بلیٹنز پر نظر۔',
+  'gov.layer1': 'انٹیلیجنس پرت 01',
+  'gov.guidelines.title': 'سرکاری فضائی معیار کے رہنما اصول',
+  'gov.guidelines.body': 'گریڈڈ ریسپانس ایکشن پلان (GRAP) کے تحت کمیشن برائے فضائی معیار انتظام (CAQM) کے جاری کردہ سرکاری پروٹوکول۔',
+  'gov.currentStage': 'موجودہ مرحلہ',
+  'gov.awaiting': 'مشاہدات کا انتظار',
+  'gov.invokedForecast': 'پیش گوئی پر نافذ',
+  'gov.invokedObserved': 'درج AQI پر نافذ',
+  'gov.since': '{time} سے',
+  'gov.revocation': 'AQI برقرار رہے تو {time} پر واپسی کا جائزہ',
+  'gov.measuresInForce': '{count} اقدامات نافذ',
+  'gov.history': 'مراحل کی تاریخ',
+  'gov.transition': 'مرحلہ {from} ← {to}',
+  'gov.history.forecast': '{hours} گھنٹوں میں پیش گوئی {aqi}',
+  'gov.history.revoked': '{aqi} پر واپس لیا گیا',
+  'gov.history.observed': 'درج {aqi}',
+  'gov.stage': 'مرحلہ {stage}',
+  'gov.threshold': '{level} • AQI {threshold}+',
+  'gov.inForce': 'نافذ',
+  'gov.leadTime': 'پیش گوئی پر {hours} گھنٹے پہلے تک نافذ',
+  'gov.cumulative': '+ مرحلہ {stage} کے تمام اقدامات',
+  'gov.checklist.kicker': 'تعمیل کی فہرست',
+  'gov.checklist.title': 'زون وار GRAP نفاذ',
+  'gov.acrossZones': '{zones} زونز میں {implemented}/{total}',
+  'gov.zonesUpTo': 'زون • مرحلہ {stage} تک',
+  'gov.citywide': 'پورے شہر میں',
+  'gov.wardsRelevant': '{relevant}/{total} وارڈ متعلقہ',
+  'gov.layer2': 'انٹیلیجنس پرت 02',
+  'gov.enforcement': 'فعال نفاذ کی صورتحال',
+  'gov.enforcement.traffic': 'ٹریفک ضابطہ',
+  'gov.enforcement.traffic.detail': 'مخصوص علاقوں میں BS-III پیٹرول اور BS-IV ڈیزل گاڑیوں پر پابندی۔',
+  'gov.enforcement.dust': 'دھول پر قابو',
+  'gov.enforcement.dust.detail': 'گنجان راہداریوں پر چوبیس گھنٹے پانی کا چھڑکاؤ اور مشینی صفائی۔',
+  'gov.enforcement.industry': 'صنعتی کنٹرول',
+  'gov.enforcement.industry.detail': 'صنعتی اکائیوں کی PNG/صاف ایندھن گرڈ پر منتقلی۔',
+  'gov.status.active': 'فعال',
+  'gov.status.planned': 'منصوبہ بند',
+  'gov.layer3': 'انٹیلیجنس پرت 03',
+  'gov.plan.title': 'اسٹریٹجک ایکشن پلان',
+  'gov.plan.body': 'ساختی کاربن زدائی پر مرکوز 2025-2030 کا لائحہ عمل۔',
+  'gov.plan.ev': 'تجارتی بیڑوں کے لیے EV کی طرف تیز منتقلی۔',
+  'gov.plan.green': '33% سبز بفر زون کی تکمیل۔',
+  'gov.plan.sensors': 'براہِ راست مائیکرو سینسرز کی تنصیب۔',
+  'gov.stat.transport': 'عوامی نقل و حمل',
+  'gov.stat.evs': '+{count} EV',
+  'gov.stat.sensors': 'نئے سینسر',
+  'gov.stat.green': 'سبزہ',
+  'gov.stat.target': 'ہدف AQI',
+
+  // GeminiAssistant
+  'assistant.poweredBy': 'Gemini کی مدد سے',
+  'assistant.title': 'فضائی انٹیلیجنس کنسول',
+  'assistant.threads': 'بریفنگ تھریڈز',
+  'assistant.newThread': 'نیا تھریڈ',
+  'assistant.export': 'Markdown کے طور پر برآمد کریں',
+  'assistant.target': 'ہدف: {place}',
+  'assistant.delhi': 'دہلی NCT',
+  'assistant.uplink': 'براہِ راست رابطہ',
+  'assistant.noThreads': 'ابھی کوئی محفوظ تھریڈ نہیں',
+  'assistant.messages': '{count} پیغامات',
+  'assistant.messages_one': '{count} پیغام',
+  'assistant.deleteThread': 'تھریڈ حذف کریں',
+  'assistant.ready': 'سوال کے لیے تیار',
+  'assistant.readyDetail': 'وارڈ کے مخصوص آلودگی کے ماخذ کا تجزیہ کریں، پیش گوئی کی وجہ جانیں یا تخفیفی حکمتِ عملی طلب کریں۔',
+  'assistant.suggest.why': 'AQI زیادہ کیوں ہے؟',
+  'assistant.suggest.worst': 'جنوب کے 5 بدترین وارڈ',
+  'assistant.suggest.forecast': 'کل کی پیش گوئی',
+  'assistant.suggest.factories': 'فیکٹریوں کی خلاف ورزیاں',
+  'assistant.lookups': '{count} ڈیٹا تلاشیں',
+  'assistant.lookups_one': '{count} ڈیٹا تلاش',
+  'assistant.stopped': 'روک دیا گیا',
+  'assistant.disclaimer': 'AI سے تیار کردہ • CPCB سے تصدیق کریں',
+  'assistant.analysing': 'تجزیہ جاری ہے',
+  'assistant.placeholder': 'حکم یا سوال لکھیں...',
+  'assistant.stop': 'جواب روکیں',
+  'assistant.launch': 'انٹیلیجنس کھولیں',
+  'assistant.untitled': 'نئی بریفنگ',
+  'assistant.md.started': 'PureAir بریفنگ تھریڈ، {started} کو شروع، {exported} کو برآمد۔',
+  'assistant.md.officer': 'افسر',
+  'assistant.md.assistant': 'معاون',
+  'assistant.md.noText': '(کوئی متن نہیں)',
+  'assistant.md.stopped': 'مکمل ہونے سے پہلے روک دیا گیا۔',
+  'assistant.md.sources': 'ماخذ',
+  'tool.find_ward': 'وارڈ کی تلاش',
+  'tool.rank_wards': 'وارڈ درجہ بندی',
+  'tool.get_ward_history': 'وارڈ کی تاریخ',
+  'tool.get_forecast': 'پیش گوئی',
+  'tool.get_grap_measures': 'GRAP اقدامات',
+  'tool.get_factories': 'فیکٹری رجسٹر',
+  'alerts.kicker': 'وارڈ الرٹ',
+  'alerts.title': 'ہوا کے معیار کے الرٹ',
+  'alerts.enable': 'براؤزر اطلاعات فعال کریں',
+  'alerts.permission.granted': 'براؤزر اطلاعات فعال ہیں',
+  'alerts.permission.denied': 'اطلاعات مسدود ہیں؛ الرٹ نیچے تاریخچے میں محفوظ رہتے ہیں',
+  'alerts.permission.unsupported': 'یہ براؤزر اطلاعات نہیں دکھا سکتا؛ الرٹ نیچے تاریخچے میں محفوظ رہتے ہیں',
+  'alerts.new': 'نیا الرٹ',
+  'alerts.city': 'دہلی (شہر کا اوسط)',
+  'alerts.trigger.threshold': 'AQI حد سے اوپر',
+  'alerts.trigger.category': 'زمرے میں تبدیلی',
+  'alerts.trigger.grap': 'GRAP مرحلے میں تبدیلی',
+  'alerts.trigger.forecast-severe': 'شدید پیش گوئی',
+  'alerts.thresholdLabel': 'اس AQI سے اوپر الرٹ',
+  'alerts.above': '{threshold} سے اوپر',
+  'alerts.add': 'الرٹ شامل کریں',
+  'alerts.subscriptions': 'سبسکرپشنز',
+  'alerts.noSubscriptions': 'ابھی کوئی الرٹ مقرر نہیں',
+  'alerts.remove': 'الرٹ ہٹائیں',
+  'alerts.quietHours': 'خاموش اوقات',
+  'alerts.quietHint': 'خاموش اوقات میں الرٹ صرف یہاں درج ہوتے ہیں، اطلاع کے طور پر نہیں دکھائے جاتے۔',
+  'alerts.history': 'حالیہ الرٹ',
+  'alerts.clear': 'صاف کریں',
+  'alerts.noHistory': 'ابھی کوئی الرٹ نہیں',
+  'alerts.silenced': 'خاموش اوقات',
+  'alerts.threshold.title': '{place}: AQI {aqi}',
+  'alerts.threshold.body': 'ہوا کا معیار آپ کی الرٹ حد {threshold} سے تجاوز کر گیا ہے۔',
+  'alerts.category.title': '{place} اب {level} ہے',
+  'alerts.category.body': 'AQI {aqi}، پہلے {previous} تھا۔',
+  'alerts.grap.title': '{label} نافذ',
+  'alerts.grap.lifted': 'GRAP پابندیاں ختم',
+  'alerts.grap.body': '{description}',
+  'alerts.forecast.title': '{place} میں شدید آلودہ ہوا متوقع',
+  'alerts.forecast.body': '{hours} گھنٹوں میں AQI {aqi} تک پہنچنے کی پیش گوئی۔',
+
+  // Local rule-based answers (services/llm/localProvider)
+  'local.insight.stage': 'شہر کا AQI {aqi} ({category}) ہے، جس کی بڑی وجہ {dominant} ہے۔ {stage} لاگو ہوتا ہے؛ {measures} کا سخت نفاذ عموماً مقامی اخراج میں {reduction} تک کمی لاتا ہے۔',
+  'local.insight.none': 'شہر کا AQI {aqi} ({category}) ہے، جس کی بڑی وجہ {dominant} ہے۔ کوئی GRAP مرحلہ واجب نہیں؛ دھول اور ٹریفک کا معمول کا نفاذ مقامی اخراج کو {reduction} کم رکھتا ہے۔',
+  'local.and': '{first} اور {second}',
+  'local.forecast.explanation': 'موجودہ AQI کو حالیہ رجحان کے ساتھ آگے بڑھایا گیا ہے۔',
+  'local.plan.summary': '{ward} (AQI {aqi}) میں مقامی آلودگی کا بڑا ماخذ {source} ہے؛ {stage} کے اقدامات اسی شعبے پر مرکوز کریں۔',
+  'local.plan.preventive': 'احتیاطی مرحلہ I',
+  'local.health.protect.Low': 'کوئی خاص احتیاط نہیں',
+  'local.health.protect.Moderate': 'ٹریفک کے قریب سخت مشقت سے بچیں',
+  'local.health.protect.High': 'باہر N95 ماسک؛ گھر میں ایئر پیوریفائر',
+  'local.health.who.Asthma': 'دمہ کے مریضوں',
+  'local.health.who.Heart Condition': 'دل کے مریضوں',
+  'local.health.who.Pregnant': 'حاملہ خواتین',
+  'local.health.who.Child': 'بچوں',
+  'local.health.who.Adult': 'بالغوں',
+  'local.health.who.Elderly': 'بزرگوں',
+  'local.health.warning': 'AQI {aqi} ({category}) پر {who} کے لیے نمائش کا خطرہ {risk} ہے۔',
+  'local.decision.monitor': 'معمول کی نگرانی جاری رکھیں',
+  'local.decision.reasoning': 'AQI {aqi}، {stage} میں آتا ہے اور رجحان {trend} ہے۔',
+  'local.group.children': 'بچے',
+  'local.group.elderly': 'بزرگ',
+  'local.group.respiratory': 'تنفس کے مریض',
+  'local.group.outdoor': 'باہر کام کرنے والے',
+  'local.assistant.city': 'شہر کا AQI {aqi} ({category}) ہے۔',
+  'local.assistant.noCity': 'شہر کی کوئی براہِ راست ریڈنگ دستیاب نہیں۔',
+  'local.assistant.ward': '{ward} کا AQI {aqi} ہے، زیادہ تر {source} سے۔',
+  'local.assistant.grap': '{label}: {description}۔',
+  'local.assistant.health': '{city} {measure}۔ صحت مند بالغ باہر {minutes} منٹ سے کم رہیں؛ بچے، بزرگ اور دل یا پھیپھڑوں کے مریض اس سے آدھا وقت ہی باہر رہیں۔',
+  'local.assistant.hint': 'صحت کی احتیاطوں، GRAP مراحل یا آلودگی کے ماخذ کے بارے میں پوچھیں۔',
+  'local.assistant.noData': 'تلاش میں کوئی ڈیٹا نہیں ملا۔',
+  'local.safeZones.title': 'قریب ترین بڑے سبز علاقے:',
+  'local.safeZones.item': '- {name}: {distance} کلومیٹر ({area} ہیکٹر)',
+  'local.safeZones.route': 'بڑی سڑکوں کے بجائے رہائشی گلیوں والے راستے اختیار کریں۔',
+  'local.policy.since': ' {time} سے',
+  'local.policy.status': '{label}{since}: {description}۔ {count} اقدامات نافذ (مقامی GRAP انجن)۔',
+
+  // AI service messages (services/geminiService)
+  'ai.error.unavailable': 'AI تجزیے کے لیے ترتیب دیا گیا فراہم کنندہ درکار ہے، جیسے Gemini API کلید۔',
+  'ai.error.unsupported': 'یہ AI فراہم کنندہ تصاویر کا تجزیہ نہیں کر سکتا۔ اس سہولت کے لیے Gemini API کلید ترتیب دیں۔',
+  'ai.error.requestFailed': 'AI سروس سے رابطہ نہیں ہو سکا۔ براہِ کرم دوبارہ کوشش کریں۔',
+  'ai.error.invalidResponse': '{attempts} کوششوں کے بعد بھی AI جواب تصدیق میں ناکام رہا۔',
+  'ai.assistant.unstable': 'رابطہ غیر مستحکم۔ دوبارہ جوڑا جا رہا ہے...',
+  'ai.assistant.toolLimit': 'معاون اپنی ڈیٹا تلاشیں مکمل نہ کر سکا۔ براہِ کرم سوال دوسرے الفاظ میں پوچھیں۔',
+  'ai.assistant.error': 'براہِ راست AI رابطے میں خرابی۔ براہِ کرم چند لمحوں بعد دوبارہ کوشش کریں۔',
+  'ai.news.idle': 'GRAP نگرانی فعال۔',
+  'ai.news.failed': 'پالیسی رابطہ ناکام۔ CPCB کی سرکاری ویب سائٹ دیکھیں۔',
+  'ai.safeZones.pending': 'محفوظ علاقے تلاش کیے جا رہے ہیں...',
+  'ai.safeZones.failed': 'محفوظ علاقوں کی تلاش ناکام۔',
+};
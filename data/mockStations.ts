@@ -0,0 +1,30 @@
+import { PollutantConcentrations } from '../types';
+
+// Offline fixture: CPCB/DPCC continuous monitoring stations in Delhi with a
+// representative late-October reading. AQI is derived from the concentrations.
+
+export interface StationFixture {
+  uid: number;
+  stationName: string;
+  lat: number;
+  lon: number;
+  pollutants: PollutantConcentrations;
+}
+
+export const MOCK_STATIONS: StationFixture[] = [
+  { uid: 2553, stationName: 'Anand Vihar, Delhi - DPCC', lat: 28.6469, lon: 77.3164, pollutants: { pm25: 212, pm10: 398, no2: 96, so2: 18, co: 2.9, o3: 34 } },
+  { uid: 2554, stationName: 'ITO, Delhi - CPCB', lat: 28.6286, lon: 77.2411, pollutants: { pm25: 168, pm10: 305, no2: 88, so2: 15, co: 2.2, o3: 41 } },
+  { uid: 2555, stationName: 'Punjabi Bagh, Delhi - DPCC', lat: 28.6740, lon: 77.1310, pollutants: { pm25: 176, pm10: 290, no2: 62, so2: 14, co: 1.8, o3: 38 } },
+  { uid: 2556, stationName: 'R K Puram, Delhi - DPCC', lat: 28.5633, lon: 77.1869, pollutants: { pm25: 142, pm10: 251, no2: 71, so2: 12, co: 1.6, o3: 45 } },
+  { uid: 2557, stationName: 'Mandir Marg, Delhi - DPCC', lat: 28.6364, lon: 77.2011, pollutants: { pm25: 131, pm10: 220, no2: 49, so2: 10, co: 1.3, o3: 52 } },
+  { uid: 2558, stationName: 'Dwarka-Sector 8, Delhi - DPCC', lat: 28.5710, lon: 77.0719, pollutants: { pm25: 155, pm10: 274, no2: 44, so2: 11, co: 1.4, o3: 47 } },
+  { uid: 2559, stationName: 'Rohini, Delhi - DPCC', lat: 28.7325, lon: 77.1199, pollutants: { pm25: 189, pm10: 331, no2: 58, so2: 16, co: 2.0, o3: 36 } },
+  { uid: 2560, stationName: 'Narela, Delhi - DPCC', lat: 28.8227, lon: 77.1019, pollutants: { pm25: 201, pm10: 352, no2: 47, so2: 21, co: 2.4, o3: 33 } },
+  { uid: 2561, stationName: 'Okhla Phase-2, Delhi - DPCC', lat: 28.5308, lon: 77.2713, pollutants: { pm25: 160, pm10: 288, no2: 67, so2: 19, co: 1.9, o3: 40 } },
+  { uid: 2562, stationName: 'Jahangirpuri, Delhi - DPCC', lat: 28.7328, lon: 77.1706, pollutants: { pm25: 218, pm10: 376, no2: 74, so2: 17, co: 2.6, o3: 31 } },
+  { uid: 2563, stationName: 'Lodhi Road, Delhi - IMD', lat: 28.5918, lon: 77.2273, pollutants: { pm25: 118, pm10: 196, no2: 38, so2: 8, co: 1.1, o3: 56 } },
+  { uid: 2564, stationName: 'Wazirpur, Delhi - DPCC', lat: 28.6998, lon: 77.1654, pollutants: { pm25: 207, pm10: 362, no2: 79, so2: 24, co: 2.5, o3: 32 } },
+  { uid: 2565, stationName: 'Bawana, Delhi - DPCC', lat: 28.7762, lon: 77.0511, pollutants: { pm25: 196, pm10: 341, no2: 52, so2: 22, co: 2.1, o3: 35 } },
+  { uid: 2566, stationName: 'Nehru Nagar, Delhi - DPCC', lat: 28.5679, lon: 77.2506, pollutants: { pm25: 172, pm10: 297, no2: 69, so2: 13, co: 1.9, o3: 42 } },
+  { uid: 2567, stationName: 'IGI Airport (T3), Delhi - IMD', lat: 28.5627, lon: 77.1181, pollutants: { pm25: 138, pm10: 233, no2: 55, so2: 12, co: 1.5, o3: 49 } }
+];
@@ -0,0 +1,39 @@
+// Offline fixture: representative late-October diurnal cycle for Delhi (Safdarjung).
+// Calm, shallow mixing layer at night with a surface inversion; deeper, breezier afternoons.
+// Index = local hour of day.
+
+export interface WeatherHourFixture {
+  windSpeed: number;            // km/h
+  windDirection: number;        // degrees
+  boundaryLayerHeight: number;  // m
+  temperature: number;          // °C
+  humidity: number;             // %
+  rainfall: number;             // mm
+}
+
+export const MOCK_WEATHER_DAY: WeatherHourFixture[] = [
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 180, temperature: 18, humidity: 72, rainfall: 0 },
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 160, temperature: 17, humidity: 74, rainfall: 0 },
+  { windSpeed: 2, windDirection: 295, boundaryLayerHeight: 150, temperature: 17, humidity: 76, rainfall: 0 },
+  { windSpeed: 2, windDirection: 290, boundaryLayerHeight: 140, temperature: 16, humidity: 78, rainfall: 0 },
+  { windSpeed: 2, windDirection: 290, boundaryLayerHeight: 140, temperature: 16, humidity: 80, rainfall: 0 },
+  { windSpeed: 2, windDirection: 290, boundaryLayerHeight: 150, temperature: 15, humidity: 82, rainfall: 0 },
+  { windSpeed: 3, windDirection: 295, boundaryLayerHeight: 170, temperature: 15, humidity: 83, rainfall: 0 },
+  { windSpeed: 4, windDirection: 300, boundaryLayerHeight: 250, temperature: 16, humidity: 80, rainfall: 0 },
+  { windSpeed: 5, windDirection: 300, boundaryLayerHeight: 420, temperature: 18, humidity: 74, rainfall: 0 },
+  { windSpeed: 6, windDirection: 305, boundaryLayerHeight: 650, temperature: 21, humidity: 64, rainfall: 0 },
+  { windSpeed: 8, windDirection: 310, boundaryLayerHeight: 900, temperature: 24, humidity: 55, rainfall: 0 },
+  { windSpeed: 9, windDirection: 310, boundaryLayerHeight: 1150, temperature: 26, humidity: 48, rainfall: 0 },
+  { windSpeed: 10, windDirection: 315, boundaryLayerHeight: 1350, temperature: 28, humidity: 43, rainfall: 0 },
+  { windSpeed: 11, windDirection: 315, boundaryLayerHeight: 1450, temperature: 29, humidity: 40, rainfall: 0 },
+  { windSpeed: 11, windDirection: 315, boundaryLayerHeight: 1500, temperature: 30, humidity: 38, rainfall: 0 },
+  { windSpeed: 10, windDirection: 310, boundaryLayerHeight: 1400, temperature: 30, humidity: 38, rainfall: 0 },
+  { windSpeed: 8, windDirection: 310, boundaryLayerHeight: 1100, temperature: 29, humidity: 41, rainfall: 0 },
+  { windSpeed: 6, windDirection: 305, boundaryLayerHeight: 650, temperature: 27, humidity: 47, rainfall: 0 },
+  { windSpeed: 4, windDirection: 300, boundaryLayerHeight: 350, temperature: 24, humidity: 55, rainfall: 0 },
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 250, temperature: 22, humidity: 61, rainfall: 0 },
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 220, temperature: 21, humidity: 64, rainfall: 0 },
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 200, temperature: 20, humidity: 67, rainfall: 0 },
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 190, temperature: 19, humidity: 69, rainfall: 0 },
+  { windSpeed: 3, windDirection: 300, boundaryLayerHeight: 185, temperature: 18, humidity: 71, rainfall: 0 }
+];
@@ -2,6 +2,9 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
 import { AppErrorBoundary } from './components/ErrorBoundary';
+import { registerServiceWorker } from './services/offlineCache';
+
+registerServiceWorker();
 
 const container = document.getElementById('root');
 if (container) {
@@ -0,0 +1,99 @@
+// PureAir service worker: app shell, libraries and ward boundaries for offline use,
+// plus clicks on alert notifications.
+// Live AQI and AI requests are never cached here; the app keeps its own snapshots.
+
+const SHELL_CACHE = 'pureair-shell-v1';
+const RUNTIME_CACHE = 'pureair-runtime-v1';
+const SPATIAL_CACHE = 'pureair-spatial-v1';
+
+const SHELL_URLS = ['/', '/index.html'];
+
+// Third-party hosts serving the import map, Tailwind, fonts and Leaflet assets
+const LIBRARY_HOSTS = [
+  'esm.sh',
+  'cdn.tailwindcss.com',
+  'cdn.jsdelivr.net',
+  'unpkg.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com'
+];
+
+const WARD_GEOJSON_HOST = 'raw.githubusercontent.com';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, RUNTIME_CACHE, SPATIAL_CACHE];
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)));
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    return;
+  }
+
+  if (url.host === WARD_GEOJSON_HOST && url.pathname.endsWith('.geojson')) {
+    event.respondWith(networkFirst(request, SPATIAL_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin || LIBRARY_HOSTS.includes(url.host)) {
+    event.respondWith(staleWhileRevalidate(request, RUNTIME_CACHE));
+  }
+});
+
+// Alert notifications: focus an open dashboard (or open one) and point it at the ward
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const wardId = event.notification.data && event.notification.data.wardId;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'pureair-alert', wardId });
+      return;
+    }
+    await self.clients.openWindow(wardId ? `/?ward=${encodeURIComponent(wardId)}` : '/');
+  })());
+});
@@ -0,0 +1,122 @@
+import { AggregationMethod, AggregationResult, Station } from '../types';
+import { calculateAQI } from './aqiCalculator';
+import { passesQc } from './stationQc';
+
+export const AGGREGATION_METHODS: { id: AggregationMethod; label: string; description: string }[] = [
+  { id: 'max', label: 'Maximum', description: 'Worst station in the city' },
+  { id: 'mean', label: 'Mean', description: 'Arithmetic mean of all stations' },
+  { id: 'median', label: 'Median', description: 'Middle station reading' },
+  { id: 'trimmed-percentile', label: 'Top-50% Trimmed', description: 'Mean of stations from the 50th to the 95th percentile' },
+  { id: 'population-weighted', label: 'Population Weighted', description: 'Ward estimates weighted by ward population' },
+  { id: 'cpcb-average', label: 'CPCB Average', description: 'Mean of stations meeting CPCB reporting criteria' }
+];
+
+export interface WardReading {
+  aqi: number;
+  population?: number;
+}
+
+interface AggregationOptions {
+  wards?: WardReading[];
+  lowerPercentile?: number;
+  upperPercentile?: number;
+  maxAgeHours?: number;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const percentile = (sorted: number[], p: number) => {
+  const idx = (sorted.length - 1) * (p / 100);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+/**
+ * CPCB only averages stations with a fresh reading and, where the feed exposes
+ * pollutant data, at least three parameters including PM2.5 or PM10.
+ */
+export const isCpcbCompliant = (station: Station, maxAgeHours: number = 24, now: number = Date.now()): boolean => {
+  if (station.updatedAt) {
+    const age = now - new Date(station.updatedAt).getTime();
+    if (!Number.isFinite(age) || age > maxAgeHours * 3600 * 1000) return false;
+  }
+  if (station.pollutants) return calculateAQI(station.pollutants)?.isValid ?? false;
+  return true;
+};
+
+/**
+ * Stations behind the headline number: the worst one for the maximum, the CPCB-compliant
+ * ones for the CPCB average, otherwise every station that passed quality control.
+ */
+export const contributingStations = (
+  allStations: Station[],
+  method: AggregationMethod,
+  maxAgeHours: number = 24
+): Station[] => {
+  const stations = allStations.filter(s => passesQc(s) && Number.isFinite(s.aqi) && s.aqi > 0);
+  if (method === 'max') return stations.length > 0 ? [stations.reduce((a, b) => (b.aqi > a.aqi ? b : a))] : [];
+  if (method === 'cpcb-average') return stations.filter(s => isCpcbCompliant(s, maxAgeHours));
+  return stations;
+};
+
+/**
+ * Reduces station (or ward) readings to a single city AQI under the chosen method.
+ * Stations flagged by quality control never contribute.
+ */
+export const aggregateCityAQI = (
+  allStations: Station[],
+  method: AggregationMethod,
+  options: AggregationOptions = {}
+): AggregationResult => {
+  const { wards = [], lowerPercentile = 50, upperPercentile = 95, maxAgeHours = 24 } = options;
+  const stations = allStations.filter(passesQc);
+  const values = stations.map(s => s.aqi).filter(v => Number.isFinite(v) && v > 0);
+  const empty = { aqi: 0, method, stationCount: 0 };
+  if (values.length === 0) return empty;
+
+  const sorted = [...values].sort((a, b) => a - b);
+
+  switch (method) {
+    case 'max':
+      return { aqi: sorted[sorted.length - 1], method, stationCount: values.length };
+
+    case 'mean':
+      return { aqi: Math.round(mean(values)), method, stationCount: values.length };
+
+    case 'median':
+      return { aqi: Math.round(percentile(sorted, 50)), method, stationCount: values.length };
+
+    case 'trimmed-percentile': {
+      const lo = percentile(sorted, lowerPercentile);
+      const hi = percentile(sorted, upperPercentile);
+      const kept = sorted.filter(v => v >= lo && v <= hi);
+      return { aqi: Math.round(mean(kept)), method, stationCount: kept.length };
+    }
+
+    case 'population-weighted': {
+      const readings = wards.filter(w => Number.isFinite(w.aqi) && w.aqi > 0);
+      if (readings.length === 0) return empty;
+      // Wards without a census figure count with equal weight
+      const weights = readings.map(w => (w.population && w.population > 0 ? w.population : 1));
+      const total = weights.reduce((a, b) => a + b, 0);
+      const aqi = readings.reduce((sum, w, i) => sum + w.aqi * weights[i], 0) / total;
+      return { aqi: Math.round(aqi), method, stationCount: values.length };
+    }
+
+    case 'cpcb-average': {
+      const compliant = stations.filter(s => s.aqi > 0 && isCpcbCompliant(s, maxAgeHours)).map(s => s.aqi);
+      if (compliant.length === 0) return empty;
+      return { aqi: Math.round(mean(compliant)), method, stationCount: compliant.length };
+    }
+
+    default:
+      return empty;
+  }
+};
+
+/**
+ * Headline AQI under every method, for side-by-side comparison.
+ */
+export const compareAggregations = (stations: Station[], options: AggregationOptions = {}): AggregationResult[] =>
+  AGGREGATION_METHODS.map(m => aggregateCityAQI(stations, m.id, options));
@@ -0,0 +1,259 @@
+import { AQILevel, AlertEvent, AlertObservation, AlertSettings, AlertSubscription, AlertTrigger, Ward } from '../types';
+import { getAqiCategory, getCategoryByLevel } from './aqiCategories';
+import { getCityForecastPath, forecastWard } from './wardForecast';
+import { getLocale, getLocaleInfo, translate, MessageKey } from './i18n';
+
+const SETTINGS_KEY = 'pureair_alert_settings';
+const STATE_KEY = 'pureair_alert_state';
+const HISTORY_KEY = 'pureair_alert_history';
+const SEEN_KEY = 'pureair_alert_seen';
+
+const HOUR_MS = 3600 * 1000;
+const MAX_HISTORY = 100;
+// The same alert (same place, trigger and value) is not repeated within this window
+const DEDUPE_MS = 6 * HOUR_MS;
+// A forecast alert looks this far ahead for a Severe hour
+const FORECAST_WINDOW_HOURS = 24;
+
+export const DEFAULT_ALERT_THRESHOLD = 300;
+
+const DEFAULT_SETTINGS: AlertSettings = {
+  subscriptions: [],
+  quietHours: { enabled: false, start: 22, end: 7 }
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) { console.warn("Alert store write error", e); }
+};
+
+const listeners = new Set<() => void>();
+const emit = () => listeners.forEach(listener => listener());
+
+/**
+ * Called whenever settings or the alert history change.
+ */
+export const subscribeAlerts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const loadAlertSettings = (): AlertSettings => ({ ...DEFAULT_SETTINGS, ...readJson<Partial<AlertSettings>>(SETTINGS_KEY, {}) });
+
+export const saveAlertSettings = (settings: AlertSettings) => {
+  writeJson(SETTINGS_KEY, settings);
+  emit();
+};
+
+export const createSubscription = (wardId: string | null, triggers: AlertTrigger[], threshold: number = DEFAULT_ALERT_THRESHOLD, now: number = Date.now()): AlertSubscription => ({
+  id: `alert-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  wardId,
+  triggers,
+  threshold,
+  createdAt: now
+});
+
+// Newest first
+export const loadAlertHistory = (): AlertEvent[] => readJson<AlertEvent[]>(HISTORY_KEY, []);
+
+export const clearAlertHistory = () => {
+  writeJson(HISTORY_KEY, []);
+  emit();
+};
+
+export const unreadAlertCount = (): number => {
+  const seen = readJson<number>(SEEN_KEY, 0);
+  return loadAlertHistory().filter(e => e.at > seen).length;
+};
+
+export const markAlertsSeen = (now: number = Date.now()) => {
+  writeJson(SEEN_KEY, now);
+  emit();
+};
+
+/**
+ * Whether the local hour falls inside quiet hours; a start after the end wraps midnight.
+ */
+export const isQuietTime = (quiet: AlertSettings['quietHours'], time: number = Date.now()): boolean => {
+  if (!quiet.enabled || quiet.start === quiet.end) return false;
+  const hour = new Date(time).getHours();
+  return quiet.start < quiet.end
+    ? hour >= quiet.start && hour < quiet.end
+    : hour >= quiet.start || hour < quiet.end;
+};
+
+export type AlertPermission = NotificationPermission | 'unsupported';
+
+export const alertPermission = (): AlertPermission =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestAlertPermission = async (): Promise<AlertPermission> =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.requestPermission();
+
+type Detected = Pick<AlertEvent, 'trigger' | 'dedupeKey' | 'title' | 'body' | 'aqi'>;
+
+const levelLabel = (level: AQILevel) => translate(`level.${level}` as MessageKey);
+
+/**
+ * Alerts due for one subscription, comparing the current reading with the last one
+ * seen. Triggers fire on a change, so a level that persists does not repeat; the
+ * first reading only counts for thresholds and Severe forecasts.
+ */
+export const detectAlerts = (
+  subscription: AlertSubscription,
+  previous: AlertObservation | undefined,
+  current: AlertObservation & { forecastAqi?: number; forecastHours?: number },
+  place: string
+): Detected[] => {
+  const target = subscription.wardId ?? 'city';
+  const alerts: Detected[] = [];
+  subscription.triggers.forEach(trigger => {
+    switch (trigger) {
+      case 'threshold':
+        if (current.aqi > subscription.threshold && (!previous || previous.aqi <= subscription.threshold)) {
+          alerts.push({
+            trigger,
+            dedupeKey: `${target}:threshold:${subscription.threshold}`,
+            title: translate('alerts.threshold.title', { place, aqi: current.aqi }),
+            body: translate('alerts.threshold.body', { threshold: subscription.threshold }),
+            aqi: current.aqi
+          });
+        }
+        break;
+      case 'category':
+        if (previous && previous.level !== current.level) {
+          alerts.push({
+            trigger,
+            dedupeKey: `${target}:category:${current.level}`,
+            title: translate('alerts.category.title', { place, level: levelLabel(current.level) }),
+            body: translate('alerts.category.body', { aqi: current.aqi, previous: levelLabel(previous.level) }),
+            aqi: current.aqi
+          });
+        }
+        break;
+      case 'grap':
+        // Stage is citywide, so subscriptions share one key
+        if (previous && previous.grapStage !== current.grapStage) {
+          alerts.push({
+            trigger,
+            dedupeKey: `grap:${current.grapStage}`,
+            title: current.grapStage > 0
+              ? translate('alerts.grap.title', { label: translate(`grap.label.${current.grapStage}` as MessageKey) })
+              : translate('alerts.grap.lifted'),
+            body: translate('alerts.grap.body', { description: translate(`grap.description.${current.grapStage}` as MessageKey) }),
+            aqi: current.aqi
+          });
+        }
+        break;
+      case 'forecast-severe':
+        if (current.forecastSevere && !previous?.forecastSevere) {
+          alerts.push({
+            trigger,
+            dedupeKey: `${target}:forecast-severe`,
+            title: translate('alerts.forecast.title', { place }),
+            body: translate('alerts.forecast.body', { aqi: current.forecastAqi ?? current.aqi, hours: current.forecastHours ?? 0 }),
+            aqi: current.forecastAqi ?? current.aqi
+          });
+        }
+        break;
+    }
+  });
+  return alerts;
+};
+
+const showNotification = async (event: AlertEvent) => {
+  if (alertPermission() !== 'granted') return;
+  const locale = getLocale();
+  const options: NotificationOptions = {
+    body: event.body,
+    tag: event.dedupeKey,
+    lang: locale,
+    dir: getLocaleInfo(locale).dir,
+    data: { wardId: event.wardId }
+  };
+  try {
+    // The service worker handles clicks; without one (dev builds) a page notification is shown
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) await registration.showNotification(event.title, options);
+    else new Notification(event.title, options);
+  } catch (e) { console.warn("Alert notification error", e); }
+};
+
+export interface AlertCheckInput {
+  wards: Ward[];
+  cityAqi: number;
+  grapStage: number;
+}
+
+/**
+ * Checks every subscription against the latest readings. An alert identical to one
+ * sent within the de-duplication window is dropped; the rest are logged to the history
+ * and, outside quiet hours, also shown as browser notifications.
+ */
+export const checkAlerts = async ({ wards, cityAqi, grapStage }: AlertCheckInput, now: number = Date.now()): Promise<AlertEvent[]> => {
+  const settings = loadAlertSettings();
+  if (settings.subscriptions.length === 0) return [];
+
+  const severe = getCategoryByLevel(AQILevel.SEVERE).min;
+  const needsForecast = settings.subscriptions.some(s => s.triggers.includes('forecast-severe'));
+  const path = needsForecast ? await getCityForecastPath(cityAqi).catch(() => null) : null;
+
+  const previousState = readJson<Record<string, AlertObservation>>(STATE_KEY, {});
+  const nextState: Record<string, AlertObservation> = {};
+  const history = loadAlertHistory();
+  const quiet = isQuietTime(settings.quietHours, now);
+  const events: AlertEvent[] = [];
+
+  settings.subscriptions.forEach(subscription => {
+    const ward = subscription.wardId ? wards.find(w => w.id === subscription.wardId) : undefined;
+    if (subscription.wardId && (!ward || ward.estimated)) {
+      // Ward data not loaded this round, or no station in range; keep the last reading
+      if (previousState[subscription.id]) nextState[subscription.id] = previousState[subscription.id];
+      return;
+    }
+    const aqi = ward ? ward.aqi : cityAqi;
+    const horizon = path ? (ward ? forecastWard(ward.aqi, path) : path.hours).filter(h => h.hoursAhead <= FORECAST_WINDOW_HOURS) : [];
+    const firstSevere = horizon.find(h => h.aqi >= severe);
+    const current = {
+      aqi,
+      level: getAqiCategory(aqi).level,
+      grapStage,
+      forecastSevere: !!firstSevere,
+      forecastAqi: horizon.length > 0 ? Math.max(...horizon.map(h => h.aqi)) : undefined,
+      forecastHours: firstSevere?.hoursAhead
+    };
+    nextState[subscription.id] = { aqi: current.aqi, level: current.level, grapStage: current.grapStage, forecastSevere: current.forecastSevere };
+
+    const place = ward ? ward.name : translate('alerts.city');
+    detectAlerts(subscription, previousState[subscription.id], current, place).forEach(alert => {
+      const duplicate = [...events, ...history].some(e => e.dedupeKey === alert.dedupeKey && now - e.at < DEDUPE_MS);
+      if (duplicate) return;
+      events.push({
+        ...alert,
+        id: `${alert.dedupeKey}@${now.toString(36)}`,
+        subscriptionId: subscription.id,
+        wardId: subscription.wardId,
+        at: now,
+        silenced: quiet
+      });
+    });
+  });
+
+  writeJson(STATE_KEY, nextState);
+  if (events.length > 0) {
+    writeJson(HISTORY_KEY, [...events, ...history].slice(0, MAX_HISTORY));
+    emit();
+    await Promise.all(events.filter(e => !e.silenced).map(showNotification));
+  }
+  return events;
+};
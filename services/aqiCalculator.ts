@@ -0,0 +1,158 @@
+import { PollutantKey, PollutantConcentrations, SubIndex, AqiComputation } from '../types';
+
+type Breakpoint = [number, number, number, number]; // [C_lo, C_hi, I_lo, I_hi]
+
+interface PollutantStandard {
+  label: string;
+  unit: 'µg/m³' | 'mg/m³';
+  averagingHours: 1 | 8 | 24;
+  breakpoints: Breakpoint[];
+}
+
+/**
+ * CPCB National AQI breakpoint tables (2014).
+ * The Severe band is open-ended in the official table; its upper bound here
+ * repeats the width of the Very Poor band and indices beyond it are capped at 500.
+ */
+export const CPCB_STANDARDS: Record<PollutantKey, PollutantStandard> = {
+  pm25: {
+    label: 'PM2.5', unit: 'µg/m³', averagingHours: 24,
+    breakpoints: [[0, 30, 0, 50], [30, 60, 50, 100], [60, 90, 100, 200], [90, 120, 200, 300], [120, 250, 300, 400], [250, 380, 400, 500]]
+  },
+  pm10: {
+    label: 'PM10', unit: 'µg/m³', averagingHours: 24,
+    breakpoints: [[0, 50, 0, 50], [50, 100, 50, 100], [100, 250, 100, 200], [250, 350, 200, 300], [350, 430, 300, 400], [430, 510, 400, 500]]
+  },
+  no2: {
+    label: 'NO2', unit: 'µg/m³', averagingHours: 24,
+    breakpoints: [[0, 40, 0, 50], [40, 80, 50, 100], [80, 180, 100, 200], [180, 280, 200, 300], [280, 400, 300, 400], [400, 520, 400, 500]]
+  },
+  so2: {
+    label: 'SO2', unit: 'µg/m³', averagingHours: 24,
+    breakpoints: [[0, 40, 0, 50], [40, 80, 50, 100], [80, 380, 100, 200], [380, 800, 200, 300], [800, 1600, 300, 400], [1600, 2400, 400, 500]]
+  },
+  co: {
+    label: 'CO', unit: 'mg/m³', averagingHours: 8,
+    breakpoints: [[0, 1, 0, 50], [1, 2, 50, 100], [2, 10, 100, 200], [10, 17, 200, 300], [17, 34, 300, 400], [34, 51, 400, 500]]
+  },
+  o3: {
+    label: 'O3', unit: 'µg/m³', averagingHours: 8,
+    breakpoints: [[0, 50, 0, 50], [50, 100, 50, 100], [100, 168, 100, 200], [168, 208, 200, 300], [208, 748, 300, 400], [748, 1288, 400, 500]]
+  },
+  nh3: {
+    label: 'NH3', unit: 'µg/m³', averagingHours: 24,
+    breakpoints: [[0, 200, 0, 50], [200, 400, 50, 100], [400, 800, 100, 200], [800, 1200, 200, 300], [1200, 1800, 300, 400], [1800, 2400, 400, 500]]
+  },
+  pb: {
+    label: 'Pb', unit: 'µg/m³', averagingHours: 24,
+    breakpoints: [[0, 0.5, 0, 50], [0.5, 1, 50, 100], [1, 2, 100, 200], [2, 3, 200, 300], [3, 3.5, 300, 400], [3.5, 4, 400, 500]]
+  }
+};
+
+// A window is only representative if at least 2/3 of its hours reported (CPCB: 16 of 24).
+const MIN_WINDOW_COVERAGE = 2 / 3;
+
+/**
+ * Linear interpolation inside the CPCB breakpoint band that contains the concentration.
+ */
+export const calculateSubIndex = (pollutant: PollutantKey, concentration: number): number | null => {
+  if (!Number.isFinite(concentration) || concentration < 0) return null;
+  const { breakpoints } = CPCB_STANDARDS[pollutant];
+
+  const band = breakpoints.find(([, cHi]) => concentration <= cHi);
+  if (!band) return 500;
+
+  const [cLo, cHi, iLo, iHi] = band;
+  return Math.round(((iHi - iLo) / (cHi - cLo)) * (concentration - cLo) + iLo);
+};
+
+/**
+ * Inverse of calculateSubIndex: the concentration that produces the given sub-index.
+ */
+export const concentrationForSubIndex = (pollutant: PollutantKey, index: number): number => {
+  const { breakpoints } = CPCB_STANDARDS[pollutant];
+  const clamped = Math.max(0, Math.min(500, index));
+  const [cLo, cHi, iLo, iHi] = breakpoints.find(([, , , hi]) => clamped <= hi) || breakpoints[breakpoints.length - 1];
+  return cLo + ((clamped - iLo) / (iHi - iLo)) * (cHi - cLo);
+};
+
+/**
+ * Reduces an hourly series to the concentration CPCB rates for the pollutant:
+ * the 24h mean for PM/NO2/SO2/NH3/Pb and the maximum rolling 8h mean for CO/O3.
+ * Returns null when the most recent window does not have enough valid hours.
+ */
+export const getWindowedConcentration = (
+  pollutant: PollutantKey,
+  hourly: { time: string; value: number }[]
+): number | null => {
+  const window = CPCB_STANDARDS[pollutant].averagingHours;
+  const sorted = hourly
+    .filter(s => Number.isFinite(s.value) && s.value >= 0)
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+  if (sorted.length === 0) return null;
+
+  const latest = new Date(sorted[sorted.length - 1].time).getTime();
+  const span = window === 8 ? 24 : window;
+  const recent = sorted.filter(s => latest - new Date(s.time).getTime() < span * 3600 * 1000);
+
+  if (window !== 8) {
+    if (recent.length < window * MIN_WINDOW_COVERAGE) return null;
+    return recent.reduce((sum, s) => sum + s.value, 0) / recent.length;
+  }
+
+  // Rolling 8h means over the last 24 hours, keeping the worst one.
+  let worst: number | null = null;
+  recent.forEach(end => {
+    const endTime = new Date(end.time).getTime();
+    const slice = recent.filter(s => {
+      const t = new Date(s.time).getTime();
+      return t <= endTime && endTime - t < window * 3600 * 1000;
+    });
+    if (slice.length < window * MIN_WINDOW_COVERAGE) return;
+    const mean = slice.reduce((sum, s) => sum + s.value, 0) / slice.length;
+    if (worst === null || mean > worst) worst = mean;
+  });
+  return worst;
+};
+
+/**
+ * CPCB AQI: the maximum sub-index across reported pollutants.
+ * The result is flagged invalid unless at least three pollutants are present
+ * and one of them is PM2.5 or PM10.
+ */
+export const calculateAQI = (pollutants: Partial<PollutantConcentrations>): AqiComputation | null => {
+  const subIndices: SubIndex[] = [];
+
+  (Object.keys(CPCB_STANDARDS) as PollutantKey[]).forEach(key => {
+    const concentration = pollutants[key];
+    if (concentration === undefined || concentration === null) return;
+    const index = calculateSubIndex(key, concentration);
+    if (index === null) return;
+    subIndices.push({ pollutant: key, label: CPCB_STANDARDS[key].label, concentration, index });
+  });
+
+  if (subIndices.length === 0) return null;
+
+  subIndices.sort((a, b) => b.index - a.index);
+  const hasParticulate = subIndices.some(s => s.pollutant === 'pm25' || s.pollutant === 'pm10');
+
+  return {
+    aqi: subIndices[0].index,
+    dominant: subIndices[0].label,
+    subIndices,
+    isValid: subIndices.length >= 3 && hasParticulate
+  };
+};
+
+/**
+ * Mean concentration per pollutant across a set of readings (e.g. every ward),
+ * used to derive a city-level responsible pollutant.
+ */
+export const averageConcentrations = (readings: Partial<PollutantConcentrations>[]): Partial<PollutantConcentrations> => {
+  const result: Partial<PollutantConcentrations> = {};
+  (Object.keys(CPCB_STANDARDS) as PollutantKey[]).forEach(key => {
+    const values = readings.map(r => r[key]).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    if (values.length > 0) result[key] = values.reduce((a, b) => a + b, 0) / values.length;
+  });
+  return result;
+};
@@ -0,0 +1,37 @@
+import { AQILevel } from '../types';
+
+export interface AqiCategory {
+  level: AQILevel;
+  min: number;
+  max: number;
+  color: string;      // Hex, for maps, charts and inline styles
+  label: string;      // Short uppercase badge label
+  textClass: string;
+  borderClass: string;
+  bgClass: string;
+}
+
+/**
+ * CPCB National AQI categories. Single source of truth for thresholds,
+ * colors and labels across the dashboard.
+ */
+export const AQI_CATEGORIES: AqiCategory[] = [
+  { level: AQILevel.GOOD, min: 0, max: 50, color: '#34c759', label: 'GOOD', textClass: 'text-green-400', borderClass: 'border-green-400', bgClass: 'bg-green-400/10' },
+  { level: AQILevel.SATISFACTORY, min: 51, max: 100, color: '#a3ff33', label: 'SATISFACTORY', textClass: 'text-lime-400', borderClass: 'border-lime-400', bgClass: 'bg-lime-400/10' },
+  { level: AQILevel.MODERATE, min: 101, max: 200, color: '#ffcc00', label: 'MODERATE', textClass: 'text-yellow-500', borderClass: 'border-yellow-500', bgClass: 'bg-yellow-500/10' },
+  { level: AQILevel.POOR, min: 201, max: 300, color: '#ff9500', label: 'POOR', textClass: 'text-amber-500', borderClass: 'border-amber-500', bgClass: 'bg-amber-500/10' },
+  { level: AQILevel.VERY_POOR, min: 301, max: 400, color: '#ff3b30', label: 'V. POOR', textClass: 'text-rose-500', borderClass: 'border-rose-500', bgClass: 'bg-rose-500/10' },
+  { level: AQILevel.SEVERE, min: 401, max: 500, color: '#af0000', label: 'SEVERE', textClass: 'text-red-700', borderClass: 'border-red-700', bgClass: 'bg-red-700/10' }
+];
+
+export const getAqiCategory = (aqi: number): AqiCategory => {
+  const rounded = Math.round(aqi);
+  return AQI_CATEGORIES.find(c => rounded <= c.max) || AQI_CATEGORIES[AQI_CATEGORIES.length - 1];
+};
+
+export const getCategoryByLevel = (level: AQILevel): AqiCategory =>
+  AQI_CATEGORIES.find(c => c.level === level) || AQI_CATEGORIES[0];
+
+export const getStatusFromAQI = (aqi: number): AQILevel => getAqiCategory(aqi).level;
+
+export const getAQIColor = (aqi: number): string => getAqiCategory(aqi).color;
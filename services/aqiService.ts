@@ -1,109 +1,92 @@
 
-import { Station, Ward, AQILevel, IntelligentAnalysis, LiveAqiData } from '../types';
+import { AdvisoryBand, AqiProvider, Station, Ward, AQILevel, IntelligentAnalysis, LiveAqiData, PollutantConcentrations, AggregationMethod, InterpolationResult, DataFreshness, WeatherObservation, GrapStatus } from '../types';
 import { getWardName } from '../data/officialWards';
+import { averageConcentrations, calculateAQI } from './aqiCalculator';
+import { getStatusFromAQI } from './aqiCategories';
+import { getAqiProvider } from './providers';
+import { aggregateCityAQI, compareAggregations, contributingStations } from './aggregation';
+import { applyQualityControl, loadQcHistory, saveQcHistory } from './stationQc';
+import { idwInterpolate, IdwOptions } from './interpolation';
+import { CITY_SERIES, getHourlySeries, recordCityReading, recordStationReadings } from './historyStore';
+import { describeFreshness, loadStationSnapshot, saveStationSnapshot } from './offlineCache';
+import { dispersionOutlook, fetchWeatherOutlook, summarizeDispersion } from './meteorology';
+import { getCityForecastPath } from './wardForecast';
+import { describeGrapState, evaluateGrap, loadGrapState, updateGrapState } from './grap';
+import { translate } from './i18n';
 
 // Re-export for App.tsx compatibility
 export type { LiveAqiData };
 
-// Provided Token
-const WAQI_TOKEN = 'cc10a69a677f6a4f185b582e881bef9e27173fb0'; 
-const DELHI_BOUNDS = '28.3,76.8,29.0,77.5';
-
 // Persistence Keys
 const CACHE_KEY = 'pureair_live_aqi';
 const LAST_VALID_AQI_KEY = 'pureair_last_valid_aqi';
 
-// Helper to determine status color/label
-export const getStatusFromAQI = (aqi: number): AQILevel => {
-  if (aqi > 450) return AQILevel.HAZARDOUS; // Adjusted for CPCB Severe+
-  if (aqi > 400) return AQILevel.SEVERE;
-  if (aqi > 300) return AQILevel.POOR; // CPCB Very Poor
-  if (aqi > 200) return AQILevel.POOR; // CPCB Poor
-  if (aqi > 100) return AQILevel.MODERATE;
-  return AQILevel.GOOD;
-};
+// Category thresholds live in aqiCategories; re-exported for existing callers
+export { getStatusFromAQI };
+
+const EXPOSURE_MINUTES: Record<AdvisoryBand, number | string> = { clean: 'Unlimited', sensitive: 60, moderate: 30, high: 15, critical: 0 };
 
-// GRAP Stage Logic (Official CPCB)
-const getGRAPStage = (aqi: number) => {
-  if (aqi >= 450) return { stage: 4, label: "GRAP Stage IV", description: "Severe+: Truck Entry Ban, Odd-Even Scheme" };
-  if (aqi >= 401) return { stage: 3, label: "GRAP Stage III", description: "Severe: Construction & Demolition Ban" };
-  if (aqi >= 301) return { stage: 2, label: "GRAP Stage II", description: "Very Poor: Diesel Gen Set Ban, Parking Fee Hike" };
-  if (aqi >= 201) return { stage: 1, label: "GRAP Stage I", description: "Poor: Dust Control, Mechanized Sweeping" };
-  return { stage: 0, label: "No GRAP Active", description: "Standard Pollution Control Measures" };
+// After the CPCB health statements: satisfactory already troubles sensitive people,
+// moderate those with lung and heart disease, poor most people on prolonged exposure
+const ADVISORY_BY_LEVEL: Record<AQILevel, AdvisoryBand> = {
+  [AQILevel.GOOD]: 'clean',
+  [AQILevel.SATISFACTORY]: 'sensitive',
+  [AQILevel.MODERATE]: 'moderate',
+  [AQILevel.POOR]: 'high',
+  [AQILevel.VERY_POOR]: 'critical',
+  [AQILevel.SEVERE]: 'critical'
 };
 
 /**
  * Intelligent Analysis Engine
  * Calculates risk, exposure, and action plans deterministically.
+ * The 6-hour prediction follows ventilation and inversion in the weather outlook;
+ * the GRAP stage comes from the stage engine (see services/grap).
  */
-const calculateIntelligence = (aqi: number): IntelligentAnalysis => {
-  // 1. Trend Detection (Simulated using storage if available)
+const calculateIntelligence = (aqi: number, grap: GrapStatus, previousAqi?: number, outlook: WeatherObservation[] = []): IntelligentAnalysis => {
+  // 1. Trend Detection against the previous valid reading
   let trend: 'improving' | 'worsening' | 'stable' = 'stable';
-  try {
-    const last = localStorage.getItem(LAST_VALID_AQI_KEY);
-    if (last) {
-      const prev = parseInt(last);
-      const delta = aqi - prev;
-      if (delta > 5) trend = 'worsening';
-      else if (delta < -5) trend = 'improving';
-    }
-  } catch(e) {}
+  if (previousAqi !== undefined) {
+    const delta = aqi - previousAqi;
+    if (delta > 5) trend = 'worsening';
+    else if (delta < -5) trend = 'improving';
+  }
 
-  // 2. Micro Prediction (Diurnal Heuristic)
-  const hour = new Date().getHours();
-  let prediction: 'increasing' | 'stable' | 'decreasing' = 'stable';
-  if ((hour >= 22 || hour <= 9) && trend !== 'improving') prediction = 'increasing';
-  else if (hour >= 12 && hour <= 17) prediction = 'decreasing';
+  // 2. Micro Prediction (Dispersion Outlook)
+  const prediction = dispersionOutlook(outlook);
 
   // 3. Exposure Intelligence
-  let exposureMinutes: number | string = 'Unlimited';
-  let sensitiveGroupWarning = "None";
-  let mask = "None required";
-  let activity = "Normal outdoor activity";
-  let school = "Open";
-
-  if (aqi > 300) {
-    exposureMinutes = 0;
-    sensitiveGroupWarning = "CRITICAL: Immediate Indoor Confinement";
-    mask = "N95/N99 Mandatory";
-    activity = "Avoid all outdoor exertion";
-    school = "Remote Learning Recommended";
-  } else if (aqi > 200) {
-    exposureMinutes = 15;
-    sensitiveGroupWarning = "High Risk: Asthma/Elderly/Kids stay indoors";
-    mask = "N95 Recommended";
-    activity = "No outdoor exercise";
-    school = "Suspend Outdoor Sports";
-  } else if (aqi > 150) {
-    exposureMinutes = 30;
-    sensitiveGroupWarning = "Moderate Risk for sensitive lungs";
-    mask = "Mask recommended for prolonged exposure";
-    activity = "Reduce intensity";
-    school = "Limit Recess";
-  } else if (aqi > 100) {
-    exposureMinutes = 60;
-    sensitiveGroupWarning = "Sensitive groups reduce prolonged exertion";
-    mask = "Optional for sensitive groups";
-    activity = "Take breaks";
-    school = "Open";
-  }
+  const advisory = ADVISORY_BY_LEVEL[getStatusFromAQI(aqi)];
+  const exposureMinutes: number | string = EXPOSURE_MINUTES[advisory];
+  // Stored in English; the UI translates from `advisory`
+  const text = (field: 'warning' | 'mask' | 'activity' | 'school') => translate(`advisory.${advisory}.${field}`, {}, 'en');
 
   return {
     riskLevel: getStatusFromAQI(aqi),
     trend,
+    advisory,
     exposureMinutes,
-    sensitiveGroupWarning,
-    recommendation: { mask, activity, school },
+    sensitiveGroupWarning: text('warning'),
+    recommendation: { mask: text('mask'), activity: text('activity'), school: text('school') },
     prediction,
-    grap: getGRAPStage(aqi)
+    grap,
+    dispersion: outlook.length > 0 ? summarizeDispersion(outlook[0]) : undefined
   };
 };
 
+export interface CityAqiOptions {
+  method?: AggregationMethod;
+  wards?: Ward[];
+}
+
 /**
  * Robust CPCB-Style Fetch
- * Fetches all stations in Delhi bounds and computes MAX AQI to simulate official City AQI.
+ * Fetches all stations in Delhi bounds and aggregates them into a city AQI with the
+ * selected method (max by default). The responsible pollutant and sub-indices come from
+ * the CPCB breakpoint tables over the contributing stations' concentrations; without
+ * any, the feed's dominant pollutant stands.
  */
-export const fetchLiveCityAQI = async (): Promise<LiveAqiData | null> => {
+export const fetchLiveCityAQI = async ({ method = 'max', wards = [] }: CityAqiOptions = {}): Promise<LiveAqiData | null> => {
   const now = Date.now();
   
   // 1. Check Memory/Local Cache (10 mins)
@@ -111,7 +94,7 @@ export const fetchLiveCityAQI = async (): Promise<LiveAqiData | null> => {
     const cached = localStorage.getItem(CACHE_KEY);
     if (cached) {
       const { data, timestamp } = JSON.parse(cached);
-      if (now - timestamp < 10 * 60 * 1000 && data.aqi > 0) {
+      if (now - timestamp < 10 * 60 * 1000 && data.aqi > 0 && data.aggregation?.method === method && !data.freshness?.stale) {
         return data;
       }
     }
@@ -119,58 +102,83 @@ export const fetchLiveCityAQI = async (): Promise<LiveAqiData | null> => {
 
   try {
     // 2. Fetch Station Data for Aggregation (Official Logic: Max of Stations)
-    const res = await fetch(`https://api.waqi.info/map/bounds/?latlng=${DELHI_BOUNDS}&token=${WAQI_TOKEN}`);
-    const json = await res.json();
+    const provider = getAqiProvider();
+    const { stations, freshness: stationFreshness } = await fetchStationsWithFreshness();
+    let freshness = stationFreshness;
     
-    let currentAqi = 0;
     let city = "Delhi NCT";
     let dominant = "PM2.5";
     
-    if (json.status === 'ok' && Array.isArray(json.data) && json.data.length > 0) {
-      // Filter valid stations and compute Max
-      const validStations = json.data
-        .map((s: any) => parseInt(s.aqi))
-        .filter((val: number) => !isNaN(val) && val > 0);
-      
-      if (validStations.length > 0) {
-         // CPCB logic: City AQI is often driven by the highest clusters or average of zones. 
-         // We use a robust average of the top 50% percentile to avoid single sensor outliers but capture severity.
-         // Or strictly Max as per prompt requirements "Max value across all stations".
-         currentAqi = Math.max(...validStations);
-      }
-    }
+    // Population weighting runs over ward estimates interpolated from the same stations;
+    // wards with no station in range are left out
+    const wardReadings = wards.flatMap(w => {
+      const estimate = interpolateWardAQI([w.coordinates.lat, w.coordinates.lng], stations);
+      return estimate ? [{ aqi: estimate.aqi, population: w.population }] : [];
+    });
+    const aggregationOptions = { wards: wardReadings };
+    const aggregation = aggregateCityAQI(stations, method, aggregationOptions);
+    let currentAqi = aggregation.aqi;
 
     // 3. Fallback to City Feed if aggregation failed or returned 0
-    if (currentAqi === 0) {
-      const resFallback = await fetch(`https://api.waqi.info/feed/here/?token=${WAQI_TOKEN}`);
-      const jsonFallback = await resFallback.json();
-      if (jsonFallback.status === 'ok') {
-        currentAqi = parseInt(jsonFallback.data.aqi);
-        dominant = jsonFallback.data.dominentpol || 'PM2.5';
-        city = jsonFallback.data.city.name;
+    if (currentAqi === 0 && provider.fetchCityFeed) {
+      const feed = await provider.fetchCityFeed();
+      if (feed) {
+        currentAqi = feed.aqi;
+        dominant = feed.dominant || 'PM2.5';
+        city = feed.city || city;
+        freshness = describeFreshness(now, 'live', now);
       }
     }
 
-    // 4. Failsafe Logic (Never return 0)
-    if (isNaN(currentAqi) || currentAqi <= 0) {
-      // Use last known valid
-      const last = localStorage.getItem(LAST_VALID_AQI_KEY);
-      currentAqi = last ? parseInt(last) : 345; // Default to typical bad day if nothing else
+    // GRAP and the city history follow the CPCB average whatever method the dashboard
+    // displays; the city feed stands in only when no station aggregated at all
+    const alternatives = compareAggregations(stations, aggregationOptions);
+    const cpcbAqi = alternatives.find(a => a.method === 'cpcb-average')?.aqi || (aggregation.aqi === 0 ? currentAqi : 0);
+
+    // 4. Failsafe: last valid reading, labelled with its age. Never an invented value.
+    const last = readLastValid();
+    if (isNaN(currentAqi) || currentAqi <= 0 || !freshness) {
+      if (!last) return null;
+      currentAqi = last.aqi;
+      freshness = describeFreshness(last.observedAt, 'cache', now);
+    } else if (freshness.source === 'live') {
+      // Only genuine observations go into the history store, as one fixed-method series
+      if (cpcbAqi > 0) recordCityReading(cpcbAqi);
+      localStorage.setItem(LAST_VALID_AQI_KEY, JSON.stringify({ aqi: currentAqi, observedAt: freshness.observedAt }));
     }
 
-    // Update Last Valid
-    localStorage.setItem(LAST_VALID_AQI_KEY, currentAqi.toString());
+    // Responsible pollutant from CPCB sub-indices of the stations behind the number
+    const measured = contributingStations(stations, method)
+      .map(s => s.pollutants)
+      .filter((p): p is Partial<PollutantConcentrations> => !!p);
+    const computation = measured.length > 0 ? calculateAQI(averageConcentrations(measured)) : null;
+    if (computation) dominant = computation.dominant;
 
     // Construct Result
-    const intelligence = calculateIntelligence(currentAqi);
+    const outlook = await fetchWeatherOutlook(12);
+
+    // GRAP advances only on genuine observations; cached readings show the standing stage
+    // and fixture readings the stage they would reach, without persisting it
+    let grapState = loadGrapState();
+    if (cpcbAqi > 0 && (freshness.source === 'live' || freshness.source === 'fixture')) {
+      const path = await getCityForecastPath(cpcbAqi);
+      grapState = freshness.source === 'live'
+        ? updateGrapState(cpcbAqi, path?.hours || [], now)
+        : evaluateGrap(grapState, cpcbAqi, path?.hours || [], now);
+    }
+    const intelligence = calculateIntelligence(currentAqi, describeGrapState(grapState), last?.aqi, outlook);
     
     const result: LiveAqiData = {
       aqi: currentAqi,
       status: getStatusFromAQI(currentAqi),
       dominant,
       city,
-      time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-      intelligence
+      time: new Date(freshness.observedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      intelligence,
+      subIndices: computation?.subIndices,
+      aggregation: { ...aggregation, aqi: currentAqi },
+      alternatives,
+      freshness
     };
 
     // Update Cache
@@ -180,70 +188,82 @@ export const fetchLiveCityAQI = async (): Promise<LiveAqiData | null> => {
 
   } catch (e) {
     console.error("AQI Pipeline Failure", e);
-    // Return cached if available, else fallback
-    const cached = localStorage.getItem(CACHE_KEY);
-    if (cached) return JSON.parse(cached).data;
-    
-    // Hard fallback to prevent UI crash
-    return {
-      aqi: 345,
-      status: AQILevel.SEVERE,
-      dominant: 'PM2.5',
-      city: 'Delhi (Offline Mode)',
-      time: new Date().toLocaleTimeString(),
-      intelligence: calculateIntelligence(345)
-    };
+    // Last computed result, labelled stale; null rather than a made-up number
+    try {
+      const cached = localStorage.getItem(CACHE_KEY);
+      if (cached) {
+        const { data, timestamp } = JSON.parse(cached);
+        const observedAt = data.freshness?.observedAt ?? timestamp;
+        return { ...data, freshness: describeFreshness(observedAt, 'cache', now) };
+      }
+    } catch (cacheError) { console.warn("Cache read error", cacheError); }
+    return null;
   }
 };
 
-/**
- * Fetches real-time sensor data from WAQI nodes across Delhi.
- * Optimized with memory caching.
- */
-export const fetchRealTimeStations = async (): Promise<Station[]> => {
+const readLastValid = (): { aqi: number; observedAt: number } | null => {
   try {
-    const res = await fetch(`https://api.waqi.info/map/bounds/?latlng=${DELHI_BOUNDS}&token=${WAQI_TOKEN}`);
-    const json = await res.json();
-    if (json.status !== 'ok') return [];
-    
-    return json.data.map((s: any) => ({
-      uid: s.uid,
-      lat: s.lat,
-      lon: s.lon,
-      aqi: parseInt(s.aqi) || 0,
-      stationName: s.station.name
-    })).filter((s: Station) => s.aqi > 0);
+    const last = JSON.parse(localStorage.getItem(LAST_VALID_AQI_KEY) || 'null');
+    return last && Number.isFinite(last.aqi) && Number.isFinite(last.observedAt) ? last : null;
   } catch (e) {
-    return [];
+    return null;
   }
 };
 
+type StationFetch = { stations: Station[]; freshness: DataFreshness | null };
+
+// App, the city aggregation and the map all ask for stations during one refresh
+const STATION_REUSE_MS = 60 * 1000;
+let recentFetch: { at: number; provider: AqiProvider; result: Promise<StationFetch> } | null = null;
+
 /**
- * Calculates a 72-hour historical context based on current average.
+ * Fetches real-time sensor data from the active provider (WAQI, OpenAQ, CPCB CSV or offline fixture)
+ * and QC-flags it. When the provider fails or returns nothing, the last good snapshot is returned
+ * with its age; freshness is null only when there has never been a successful fetch.
+ * Fixture readings are labelled 'fixture' and kept out of the history store and snapshot.
+ * Callers within a short window share one fetch, so each refresh runs QC once.
  */
-export const getHistoricalContext = (currentAqi: number) => {
-  const history = [];
-  const now = new Date();
-  
-  for (let i = 72; i >= 0; i--) {
-    const time = new Date(now.getTime() - i * 60 * 60 * 1000);
-    const hour = time.getHours();
-    
-    let diurnalFactor = 0;
-    if (hour >= 23 || hour <= 9) diurnalFactor = 30 + Math.random() * 20;
-    else if (hour >= 12 && hour <= 17) diurnalFactor = -20 - Math.random() * 10;
-    
-    const drift = Math.sin(i * 0.2) * 15;
-    
-    history.push({
-      timestamp: time.toISOString(),
-      hour,
-      aqi: Math.max(10, Math.round(currentAqi + diurnalFactor + drift))
-    });
+export const fetchStationsWithFreshness = (): Promise<StationFetch> => {
+  const now = Date.now();
+  const provider = getAqiProvider();
+  if (!recentFetch || recentFetch.provider !== provider || now - recentFetch.at > STATION_REUSE_MS) {
+    recentFetch = { at: now, provider, result: loadStations(provider, now) };
   }
-  return history;
+  return recentFetch.result;
 };
 
+const loadStations = async (provider: AqiProvider, now: number): Promise<StationFetch> => {
+  try {
+    const raw = (await provider.fetchStations()).filter(s => Number.isFinite(s.aqi) && s.aqi > 0);
+    if (raw.length > 0 && provider.fixture) {
+      return { stations: applyQualityControl(raw, {}, now, { fixture: true }).stations, freshness: describeFreshness(now, 'fixture', now) };
+    }
+    if (raw.length > 0) {
+      const { stations, history } = applyQualityControl(raw, loadQcHistory(), now);
+      saveQcHistory(history);
+      recordStationReadings(stations);
+      saveStationSnapshot(stations, now);
+      return { stations, freshness: describeFreshness(now, 'live', now) };
+    }
+  } catch (e) {
+    console.warn("Station provider error", e);
+  }
+
+  const snapshot = loadStationSnapshot();
+  if (snapshot) return { stations: snapshot.stations, freshness: describeFreshness(snapshot.savedAt, 'snapshot', now) };
+  return { stations: [], freshness: null };
+};
+
+/**
+ * Stations only; every station carries its QC flags and consumers exclude flagged ones via passesQc.
+ */
+export const fetchRealTimeStations = async (): Promise<Station[]> => (await fetchStationsWithFreshness()).stations;
+
+/**
+ * Observed hourly city AQI for the last 72 hours, from the history store.
+ */
+export const getHistoricalContext = (hours: number = 72) => getHourlySeries(CITY_SERIES, hours);
+
 /**
  * Computes the trend slope using simple linear regression (dy/dx).
  */
@@ -266,29 +286,11 @@ export const calculateTrendSlope = (history: { aqi: number }[]): number => {
 };
 
 /**
- * Interpolation logic for ward AQI.
+ * Interpolation logic for ward AQI: haversine IDW over nearby QC-passing stations.
+ * Null when no station is in range; callers show the ward as unavailable.
  */
-export const interpolateWardAQI = (wardCentroid: [number, number], stations: Station[]): { aqi: number, nearest: string } => {
-  if (stations.length === 0) return { aqi: 150, nearest: 'Historical Node' };
-  
-  let totalWeight = 0;
-  let weightedAQISum = 0;
-  let minDist = Infinity;
-  let nearestStationName = stations[0].stationName;
-
-  stations.forEach(s => {
-    const d = Math.sqrt(Math.pow(s.lat - wardCentroid[0], 2) + Math.pow(s.lon - wardCentroid[1], 2));
-    if (d < minDist) {
-      minDist = d;
-      nearestStationName = s.stationName;
-    }
-    const weight = 1 / (Math.pow(d, 2) + 0.00001); 
-    totalWeight += weight;
-    weightedAQISum += s.aqi * weight;
-  });
-
-  return { 
-    aqi: Math.round(weightedAQISum / totalWeight), 
-    nearest: nearestStationName 
-  };
-};
+export const interpolateWardAQI = (
+  wardCentroid: [number, number],
+  stations: Station[],
+  options: IdwOptions = {}
+): InterpolationResult | null => idwInterpolate(wardCentroid, stations, options);
@@ -0,0 +1,72 @@
+import { AssistantMessage, AssistantThread, AssistantThreadStore } from '../types';
+import { toolLabel } from './assistantTools';
+import { formatDateTime, translate } from './i18n';
+
+const THREADS_KEY = 'pureair_assistant_threads';
+const MAX_THREADS = 30;
+const TITLE_LENGTH = 48;
+
+export const loadThreads = (): AssistantThreadStore => {
+  try {
+    const raw = localStorage.getItem(THREADS_KEY);
+    return raw ? JSON.parse(raw) : { activeId: null, threads: [] };
+  } catch (e) {
+    return { activeId: null, threads: [] };
+  }
+};
+
+/**
+ * Persists the store, keeping the most recently updated threads.
+ */
+export const saveThreads = (store: AssistantThreadStore) => {
+  const threads = [...store.threads].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_THREADS);
+  try {
+    localStorage.setItem(THREADS_KEY, JSON.stringify({ ...store, threads }));
+  } catch (e) { console.warn("Assistant thread write error", e); }
+};
+
+export const createThread = (now: number = Date.now()): AssistantThread => ({
+  id: `thread-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  title: translate('assistant.untitled'),
+  createdAt: now,
+  updatedAt: now,
+  messages: []
+});
+
+/**
+ * Thread with its messages replaced; the first question becomes the title.
+ */
+export const withMessages = (thread: AssistantThread, messages: AssistantMessage[], now: number = Date.now()): AssistantThread => {
+  const first = messages.find(m => m.role === 'user')?.text.trim();
+  const title = first ? (first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first) : thread.title;
+  return { ...thread, title, messages, updatedAt: now };
+};
+
+const formatTime = (t: number) =>
+  formatDateTime(t, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Markdown transcript of a thread in the active language, with each answer's data
+ * lookups as a source list.
+ */
+export const threadToMarkdown = (thread: AssistantThread): string => {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `_${translate('assistant.md.started', { started: formatTime(thread.createdAt), exported: formatTime(Date.now()) })}_`,
+    ''
+  ];
+  thread.messages.forEach(m => {
+    lines.push(`### ${translate(m.role === 'user' ? 'assistant.md.officer' : 'assistant.md.assistant')} · ${formatTime(m.time)}`, '', m.text || `_${translate('assistant.md.noText')}_`);
+    if (m.stopped) lines.push('', `_${translate('assistant.md.stopped')}_`);
+    if (m.citations.length > 0) {
+      lines.push('', `**${translate('assistant.md.sources')}**`, '');
+      m.citations.forEach(c => {
+        const args = Object.entries(c.args).map(([k, v]) => `${k}: ${String(v)}`).join(', ');
+        lines.push(`- ${toolLabel(c.tool)}${args ? ` (${args})` : ''}: ${c.summary}`);
+      });
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+};
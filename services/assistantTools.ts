@@ -0,0 +1,236 @@
+import { Factory, LlmToolCall, LlmToolDeclaration, Ward } from '../types';
+import { FACTORY_LEDGER } from '../data/factories';
+import { GRAP_SECTOR_LABELS } from '../data/grapMeasures';
+import { describeGrapState, getGrapMeasures, loadGrapState } from './grap';
+import { getDailySeries, getHourlySeries, getMonthlySeries, wardSeries } from './historyStore';
+import { RuntimeSchema, number, object, oneOf, optional, string } from './llmSchemas';
+import { forecastWard, getCityForecastPath } from './wardForecast';
+import { isMessageKey, translate } from './i18n';
+
+export interface AssistantToolContext {
+  wards: Ward[];
+  cityAqi?: number;
+}
+
+// What a tool hands back to the model; `summary` doubles as the citation text
+export interface AssistantToolOutput {
+  summary: string;
+  data?: unknown;
+  error?: string;
+}
+
+interface AssistantTool<A> {
+  description: string;
+  args: RuntimeSchema<A>;
+  run: (args: A, context: AssistantToolContext) => Promise<AssistantToolOutput> | AssistantToolOutput;
+}
+
+const REGIONS = ['North', 'South', 'East', 'West', 'Central'] as const;
+const COMPLIANCE = ['Active', 'Non-Compliant', 'Suspended', 'Under-Review'] as const;
+const GRAP_SECTORS = Object.keys(GRAP_SECTOR_LABELS) as (keyof typeof GRAP_SECTOR_LABELS)[];
+
+const wardSummary = (w: Ward) => ({
+  id: w.id,
+  no: w.no,
+  name: w.name,
+  zone: w.zone,
+  region: w.region,
+  aqi: w.aqi,
+  estimated: !!w.estimated, // No station in range; regional profile, not a measurement
+  status: w.status,
+  primarySource: w.primarySource
+});
+
+/**
+ * Ward by number ("42", "ward 42"), id, exact name, or else the first partial name match.
+ */
+export const resolveWard = (wards: Ward[], ref: string): Ward | undefined => {
+  const text = ref.trim().toLowerCase();
+  const number = text.match(/^(?:ward\s*(?:no\.?\s*)?)?(\d+)$/);
+  if (number) return wards.find(w => w.no === Number(number[1]));
+  return wards.find(w => w.id.toLowerCase() === text)
+    ?? wards.find(w => w.name.toLowerCase() === text)
+    ?? wards.find(w => w.name.toLowerCase().includes(text));
+};
+
+const notFound = (ref: string): AssistantToolOutput => ({ summary: `No ward matches "${ref}".`, error: 'ward-not-found' });
+
+const stats = (points: { aqi: number }[]) => {
+  const values = points.map(p => p.aqi);
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: Math.round(values.reduce((s, v) => s + v, 0) / values.length)
+  };
+};
+
+const findWard: AssistantTool<{ query: string }> = {
+  description: 'Look up wards by name, partial name or ward number. Returns current AQI, category, zone, region and main source; estimated wards have no station in range.',
+  args: object<{ query: string }>({ query: string() }),
+  run: ({ query }, { wards }) => {
+    const best = resolveWard(wards, query);
+    if (!best) return notFound(query);
+    const others = wards.filter(w => w !== best && w.name.toLowerCase().includes(query.trim().toLowerCase()));
+    const matches = [best, ...others.slice(0, 4)];
+    return {
+      summary: matches.map(w => `${w.name} (ward ${w.no}, ${w.zone}): AQI ${w.aqi}, ${w.status}, mainly ${w.primarySource}`).join('; '),
+      data: matches.map(wardSummary)
+    };
+  }
+};
+
+type RankArgs = { region?: typeof REGIONS[number]; zone?: string; order?: 'worst' | 'best'; limit?: number };
+
+const rankWards: AssistantTool<RankArgs> = {
+  description: 'Rank wards by current AQI, optionally within a region or zone. Use order "worst" for most polluted first.',
+  args: object<RankArgs>({
+    region: optional(oneOf(REGIONS)),
+    zone: optional(string()),
+    order: optional(oneOf(['worst', 'best'] as const)),
+    limit: optional(number({ min: 1, max: 20, integer: true }))
+  }),
+  run: ({ region, zone, order = 'worst', limit = 5 }, { wards }) => {
+    const pool = wards
+      .filter(w => !region || w.region === region)
+      .filter(w => !zone || w.zone.toLowerCase().includes(zone.toLowerCase()));
+    const scope = [region && `${region} region`, zone && `${zone}`].filter(Boolean).join(', ') || 'Delhi';
+    if (pool.length === 0) return { summary: `No wards found in ${scope}.`, data: [] };
+
+    const ranked = [...pool].sort((a, b) => (order === 'worst' ? b.aqi - a.aqi : a.aqi - b.aqi)).slice(0, limit);
+    return {
+      summary: `${order === 'worst' ? 'Most' : 'Least'} polluted in ${scope} (${pool.length} ward${pool.length === 1 ? '' : 's'}): `
+        + ranked.map((w, i) => `${i + 1}. ${w.name} ${w.aqi}`).join(', '),
+      data: ranked.map(wardSummary)
+    };
+  }
+};
+
+type HistoryArgs = { ward: string; range?: 'hourly' | 'daily' | 'monthly' };
+
+const getWardHistoryTool: AssistantTool<HistoryArgs> = {
+  description: 'Observed AQI history for one ward: last 24 hours (hourly), 7 days (daily) or 12 months (monthly).',
+  args: object<HistoryArgs>({
+    ward: string(),
+    range: optional(oneOf(['hourly', 'daily', 'monthly'] as const))
+  }),
+  run: async ({ ward: ref, range = 'daily' }, { wards }) => {
+    const ward = resolveWard(wards, ref);
+    if (!ward) return notFound(ref);
+    const series = wardSeries(ward.id);
+    const stored = range === 'hourly' ? await getHourlySeries(series, 24)
+      : range === 'daily' ? await getDailySeries(series, 7)
+      : await getMonthlySeries(series, 12);
+    const points: { time: string; aqi: number }[] = stored.length > 0 ? stored : ward.history[range];
+    if (points.length === 0) return { summary: `No ${range} history recorded for ${ward.name} yet.`, data: [] };
+
+    const { min, max, mean } = stats(points);
+    return {
+      summary: `${ward.name} ${range} history (${points.length} points): mean ${mean}, range ${min}–${max}, latest ${points[points.length - 1].aqi}.`,
+      data: points.map(p => ({ time: p.time, aqi: p.aqi }))
+    };
+  }
+};
+
+type ForecastArgs = { ward?: string; hours?: number };
+
+const getForecastTool: AssistantTool<ForecastArgs> = {
+  description: 'Statistical AQI forecast up to 72 hours ahead for the city or one ward, with 80% intervals and the peak hour.',
+  args: object<ForecastArgs>({
+    ward: optional(string()),
+    hours: optional(number({ min: 1, max: 72, integer: true }))
+  }),
+  run: async ({ ward: ref, hours = 24 }, { wards, cityAqi }) => {
+    const ward = ref ? resolveWard(wards, ref) : undefined;
+    if (ref && !ward) return notFound(ref);
+    const path = await getCityForecastPath(cityAqi);
+    if (!path) return { summary: 'No forecast is available: the history store has no recent city readings.', error: 'no-forecast' };
+
+    const series = (ward ? forecastWard(ward.aqi, path) : path.hours).filter(h => h.hoursAhead <= hours);
+    const end = series[series.length - 1];
+    const peak = series.reduce((p, h) => (h.aqi > p.aqi ? h : p), series[0]);
+    const place = ward ? ward.name : 'Delhi';
+    return {
+      summary: `${place} in ${end.hoursAhead}h: AQI ${end.aqi} (80% range ${end.lower}–${end.upper}); peak ${peak.aqi} at +${peak.hoursAhead}h.`,
+      data: series.filter(h => h.hoursAhead % 6 === 0 || h === end).map(h => ({ hoursAhead: h.hoursAhead, aqi: h.aqi, lower: h.lower, upper: h.upper }))
+    };
+  }
+};
+
+type GrapArgs = { stage?: number; sector?: typeof GRAP_SECTORS[number] };
+
+const getGrapMeasuresTool: AssistantTool<GrapArgs> = {
+  description: 'Current GRAP stage and the measures in force (or those of a given stage), optionally for one sector, with responsible agencies.',
+  args: object<GrapArgs>({
+    stage: optional(number({ min: 0, max: 4, integer: true })),
+    sector: optional(oneOf(GRAP_SECTORS))
+  }),
+  run: ({ stage, sector }) => {
+    const status = describeGrapState(loadGrapState());
+    const target = stage ?? status.stage;
+    const measures = getGrapMeasures(target).filter(m => !sector || m.sectors.includes(sector));
+    const head = stage !== undefined ? `Measures through GRAP stage ${target}:`
+      : status.stage > 0 ? `${status.label} is in force.` : 'No GRAP stage is in force.';
+    return {
+      summary: `${head} ${measures.length} measure${measures.length === 1 ? '' : 's'}${sector ? ` for ${GRAP_SECTOR_LABELS[sector].toLowerCase()}` : ''}`
+        + (measures.length > 0 ? `, e.g. ${measures.slice(-2).map(m => `${m.title} (${m.agency})`).join('; ')}.` : '.'),
+      data: { currentStage: status.stage, measures: measures.map(m => ({ stage: m.stage, title: m.title, agency: m.agency, sectors: m.sectors })) }
+    };
+  }
+};
+
+type FactoryArgs = { zone?: string; compliance?: Factory['compliance'] };
+
+const getFactoriesTool: AssistantTool<FactoryArgs> = {
+  description: 'Industrial compliance ledger: registered units with DPCC compliance status, emissions, last inspection and violation count.',
+  args: object<FactoryArgs>({
+    zone: optional(string()),
+    compliance: optional(oneOf(COMPLIANCE))
+  }),
+  run: ({ zone, compliance }) => {
+    const units = FACTORY_LEDGER
+      .filter(f => !zone || f.zone.toLowerCase().includes(zone.toLowerCase()))
+      .filter(f => !compliance || f.compliance === compliance);
+    if (units.length === 0) return { summary: 'No units in the ledger match.', data: [] };
+    return {
+      summary: units.map(f => `${f.name} (${f.zone}): ${f.compliance}, ${f.violationCount} violations, last inspected ${f.lastInspection}`).join('; '),
+      data: units
+    };
+  }
+};
+
+const TOOLS: Record<string, AssistantTool<any>> = {
+  find_ward: findWard,
+  rank_wards: rankWards,
+  get_ward_history: getWardHistoryTool,
+  get_forecast: getForecastTool,
+  get_grap_measures: getGrapMeasuresTool,
+  get_factories: getFactoriesTool
+};
+
+// Display name in the active language; unknown tools show their raw name
+export const toolLabel = (name: string): string => {
+  const key = `tool.${name}`;
+  return isMessageKey(key) ? translate(key) : name;
+};
+
+export const ASSISTANT_TOOLS: LlmToolDeclaration[] = Object.entries(TOOLS).map(([name, tool]) => ({
+  name,
+  description: tool.description,
+  parameters: tool.args.responseSchema
+}));
+
+/**
+ * Runs one tool call from the model. Arguments are checked against the tool's schema;
+ * bad arguments and failures come back as an error output the model can react to.
+ */
+export const runAssistantTool = async (call: LlmToolCall, context: AssistantToolContext): Promise<AssistantToolOutput> => {
+  const tool = TOOLS[call.name];
+  if (!tool) return { summary: `Unknown tool ${call.name}.`, error: 'unknown-tool' };
+  const args = tool.args.validate(call.args ?? {});
+  if (!args.ok) return { summary: `Invalid arguments for ${call.name}: ${args.issues.join('; ')}`, error: 'invalid-arguments' };
+  try {
+    return await tool.run(args.value, context);
+  } catch (e) {
+    return { summary: `${call.name} failed.`, error: e instanceof Error ? e.message : String(e) };
+  }
+};
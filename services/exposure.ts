@@ -0,0 +1,197 @@
+import { ExposureDay, ExposureDiary, ExposureDiaryEntry, ExposureSetting, HealthProfile, Ward } from '../types';
+import { concentrationForSubIndex } from './aqiCalculator';
+import { CITY_SERIES, getDailySeries, wardSeries } from './historyStore';
+
+const DIARY_KEY = 'pureair_exposure_diary';
+const PROFILE_KEY = 'pureair_health_profile';
+const MAX_ENTRIES = 120;
+const DAY_MS = 24 * 3600 * 1000;
+
+export const EXPOSURE_SETTINGS: ExposureSetting[] = ['home', 'work', 'commute', 'outdoor'];
+
+// WHO 2021 air quality guideline, 24h mean
+export const WHO_PM25_24H = 15;
+
+// Share of outdoor PM2.5 that reaches each microenvironment. Naturally ventilated
+// homes let in most of it; closed offices less; vehicles on arterial roads about as much as outside
+export const INFILTRATION: Record<ExposureSetting, number> = {
+  home: 0.7,
+  work: 0.5,
+  commute: 0.9,
+  outdoor: 1
+};
+
+// Daily-average inhalation rates (m³/h), after the US EPA Exposure Factors Handbook
+export const BREATHING_RATE: Record<HealthProfile['ageGroup'], number> = {
+  Child: 0.5,
+  Adult: 0.65,
+  Elderly: 0.55
+};
+
+const DEFAULT_PROFILE: HealthProfile = { ageGroup: 'Adult', condition: 'None', outdoorHours: 2 };
+const EMPTY_DIARY: ExposureDiary = { places: { home: null, work: null, commute: null }, entries: [] };
+
+export const loadHealthProfile = (): HealthProfile => {
+  try {
+    const raw = localStorage.getItem(PROFILE_KEY);
+    return raw ? { ...DEFAULT_PROFILE, ...JSON.parse(raw) } : DEFAULT_PROFILE;
+  } catch (e) {
+    return DEFAULT_PROFILE;
+  }
+};
+
+export const saveHealthProfile = (profile: HealthProfile) => {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (e) { console.warn("Health profile write error", e); }
+};
+
+export const loadExposureDiary = (): ExposureDiary => {
+  try {
+    const raw = localStorage.getItem(DIARY_KEY);
+    return raw ? { ...EMPTY_DIARY, ...JSON.parse(raw) } : EMPTY_DIARY;
+  } catch (e) {
+    return EMPTY_DIARY;
+  }
+};
+
+/**
+ * Persists the diary, keeping the most recent days.
+ */
+export const saveExposureDiary = (diary: ExposureDiary) => {
+  const entries = [...diary.entries].sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_ENTRIES);
+  try {
+    localStorage.setItem(DIARY_KEY, JSON.stringify({ ...diary, entries }));
+  } catch (e) { console.warn("Exposure diary write error", e); }
+};
+
+// Local calendar day, so a late-evening entry lands on the day it describes
+export const exposureDayKey = (time: number = Date.now()): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const dayStart = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+/**
+ * Diary with the entry for its day added or replaced.
+ */
+export const logExposure = (diary: ExposureDiary, entry: ExposureDiaryEntry): ExposureDiary => ({
+  ...diary,
+  entries: [...diary.entries.filter(e => e.date !== entry.date), entry].sort((a, b) => a.date.localeCompare(b.date))
+});
+
+/**
+ * A working day for the profile: its outdoor hours, an hour of commuting, eight at work
+ * and the rest at home.
+ */
+export const defaultExposureHours = (profile: HealthProfile): Record<ExposureSetting, number> => {
+  const outdoor = Math.min(profile.outdoorHours, 15);
+  return { home: 24 - 9 - outdoor, work: 8, commute: 1, outdoor };
+};
+
+/**
+ * PM2.5 concentration whose CPCB sub-index equals the AQI. History keeps AQI only;
+ * PM2.5 governs Delhi's AQI on most days, so this is a fair (slightly high) estimate.
+ */
+export const pm25FromAqi = (aqi: number): number => concentrationForSubIndex('pm25', aqi);
+
+/**
+ * Inhaled PM2.5 for one diary day. Hours left unlogged are counted at home.
+ */
+export const dailyDose = (
+  entry: ExposureDiaryEntry,
+  profile: HealthProfile,
+  concentration: (setting: ExposureSetting) => number
+): Omit<ExposureDay, 'date' | 'estimated'> => {
+  const rate = BREATHING_RATE[profile.ageGroup];
+  const logged = EXPOSURE_SETTINGS.reduce((sum, s) => sum + Math.max(0, entry.hours[s] || 0), 0);
+  const hours = { ...entry.hours, home: Math.max(0, entry.hours.home || 0) + Math.max(0, 24 - logged) };
+  const totalHours = Math.max(24, logged);
+
+  const bySetting = {} as Record<ExposureSetting, number>;
+  EXPOSURE_SETTINGS.forEach(s => {
+    bySetting[s] = concentration(s) * INFILTRATION[s] * Math.max(0, hours[s] || 0) * rate;
+  });
+  const dose = EXPOSURE_SETTINGS.reduce((sum, s) => sum + bySetting[s], 0);
+  return {
+    dose,
+    meanPm25: dose / (rate * totalHours),
+    whoDose: WHO_PM25_24H * rate * totalHours,
+    bySetting
+  };
+};
+
+/**
+ * Dose for every diary day in the last `days`, oldest first. Each place is read from its
+ * ward's daily history (the city series when unmapped); a day without history falls
+ * back to the latest reading and is flagged as estimated.
+ */
+export const getExposureDays = async (
+  diary: ExposureDiary,
+  profile: HealthProfile,
+  wards: Ward[],
+  cityAqi: number,
+  days: number = 28,
+  now: number = Date.now()
+): Promise<ExposureDay[]> => {
+  const from = exposureDayKey(now - (days - 1) * DAY_MS);
+  const entries = diary.entries.filter(e => e.date >= from);
+  if (entries.length === 0) return [];
+
+  const seriesFor = (setting: ExposureSetting) => {
+    const wardId = diary.places[setting === 'outdoor' ? 'home' : setting];
+    return wardId ? wardSeries(wardId) : CITY_SERIES;
+  };
+  const latest = (series: string) => {
+    const ward = series === CITY_SERIES ? undefined : wards.find(w => wardSeries(w.id) === series);
+    return ward && !ward.estimated ? ward.aqi : cityAqi;
+  };
+
+  const seriesIds = [...new Set(EXPOSURE_SETTINGS.map(seriesFor))];
+  const history = new Map<string, Map<string, number>>();
+  await Promise.all(seriesIds.map(async id => {
+    const points = await getDailySeries(id, days);
+    history.set(id, new Map(points.map(p => [exposureDayKey(p.timestamp), p.aqi])));
+  }));
+
+  return entries.map(entry => {
+    let estimated = false;
+    const result = dailyDose(entry, profile, setting => {
+      const series = seriesFor(setting);
+      const observed = history.get(series)?.get(entry.date);
+      if (observed === undefined) estimated = true;
+      return pm25FromAqi(observed ?? latest(series));
+    });
+    return { date: entry.date, ...result, estimated };
+  });
+};
+
+export interface ExposureWeek {
+  start: string; // First day of the seven-day window
+  dose: number;
+  whoDose: number;
+  daysLogged: number;
+  daysAboveWho: number;
+}
+
+/**
+ * Seven-day totals ending today, oldest first. The WHO reference sums only the logged
+ * days, so a partly logged week compares like for like.
+ */
+export const weeklyExposure = (days: ExposureDay[], weeks: number = 4, now: number = Date.now()): ExposureWeek[] =>
+  Array.from({ length: weeks }, (_, i) => {
+    const end = dayStart(exposureDayKey(now)) - (weeks - 1 - i) * 7 * DAY_MS;
+    const start = exposureDayKey(end - 6 * DAY_MS);
+    const inWeek = days.filter(d => d.date >= start && d.date <= exposureDayKey(end));
+    return {
+      start,
+      dose: inWeek.reduce((sum, d) => sum + d.dose, 0),
+      whoDose: inWeek.reduce((sum, d) => sum + d.whoDose, 0),
+      daysLogged: inWeek.length,
+      daysAboveWho: inWeek.filter(d => d.dose > d.whoDose).length
+    };
+  });
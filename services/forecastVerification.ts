@@ -0,0 +1,108 @@
+import { ArchivedForecast, AtmosphericPrediction, ForecastScore } from '../types';
+import { getAqiCategory } from './aqiCategories';
+import { CITY_SERIES, getHourlySeries } from './historyStore';
+
+const ARCHIVE_KEY = 'pureair_forecast_archive';
+const HOUR_MS = 3600 * 1000;
+const MATCH_TOLERANCE_MS = HOUR_MS;      // Nearest hourly observation within an hour of the valid time
+const RETENTION_MS = 90 * 24 * HOUR_MS;
+const MAX_RECORDS = 3000;
+
+export const loadForecastArchive = (): ArchivedForecast[] => {
+  try {
+    const raw = localStorage.getItem(ARCHIVE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveForecastArchive = (archive: ArchivedForecast[]) => {
+  try {
+    localStorage.setItem(ARCHIVE_KEY, JSON.stringify(archive.slice(-MAX_RECORDS)));
+  } catch (e) { console.warn("Forecast archive write error", e); }
+};
+
+/**
+ * Archives issued predictions. One record per model, horizon and issue hour:
+ * re-issuing within the same hour replaces the earlier record.
+ */
+export const archiveForecasts = (predictions: AtmosphericPrediction[], issuedAqi: number, issuedAt: number = Date.now()) => {
+  const hour = Math.floor(issuedAt / HOUR_MS) * HOUR_MS;
+  const records: ArchivedForecast[] = predictions
+    .filter(p => p.model && Number.isFinite(p.aqi))
+    .map(p => ({
+      id: `${p.model}|${p.hours}|${hour}`,
+      model: p.model!,
+      hours: p.hours,
+      issuedAt,
+      validAt: issuedAt + p.hours * HOUR_MS,
+      aqi: p.aqi,
+      issuedAqi
+    }));
+  if (records.length === 0) return;
+
+  const ids = new Set(records.map(r => r.id));
+  const kept = loadForecastArchive().filter(r => !ids.has(r.id) && issuedAt - r.issuedAt <= RETENTION_MS);
+  saveForecastArchive([...kept, ...records]);
+};
+
+/**
+ * Fills in observed AQI for every archived forecast whose valid time has passed,
+ * using the hourly city series from the history store. Matches are persisted so
+ * they outlive the hourly retention window.
+ */
+export const matchObservations = async (now: number = Date.now()): Promise<ArchivedForecast[]> => {
+  const archive = loadForecastArchive();
+  const pending = archive.filter(r => r.observed === undefined && r.validAt <= now);
+  if (pending.length === 0) return archive;
+
+  const oldest = Math.min(...pending.map(r => r.validAt));
+  const series = await getHourlySeries(CITY_SERIES, Math.ceil((now - oldest) / HOUR_MS) + 2);
+  if (series.length === 0) return archive;
+
+  let changed = false;
+  const matched = archive.map(r => {
+    if (r.observed !== undefined || r.validAt > now) return r;
+    const nearest = series.reduce((best, p) =>
+      Math.abs(p.timestamp - r.validAt) < Math.abs(best.timestamp - r.validAt) ? p : best);
+    if (Math.abs(nearest.timestamp - r.validAt) > MATCH_TOLERANCE_MS) return r;
+    changed = true;
+    return { ...r, observed: nearest.aqi };
+  });
+  if (changed) saveForecastArchive(matched);
+  return matched;
+};
+
+/**
+ * MAE, bias, category hit rate and skill against persistence for every
+ * model and horizon with at least one verified forecast.
+ */
+export const scoreForecasts = (archive: ArchivedForecast[]): ForecastScore[] => {
+  const groups = new Map<string, ArchivedForecast[]>();
+  archive.filter(r => r.observed !== undefined).forEach(r => {
+    const key = `${r.model}|${r.hours}`;
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+
+  return [...groups.values()].map(records => {
+    const n = records.length;
+    const errors = records.map(r => r.aqi - r.observed!);
+    const mae = errors.reduce((s, e) => s + Math.abs(e), 0) / n;
+    const persistenceMae = records.reduce((s, r) => s + Math.abs(r.issuedAqi - r.observed!), 0) / n;
+    const hits = records.filter(r => getAqiCategory(r.aqi).level === getAqiCategory(r.observed!).level).length;
+    return {
+      model: records[0].model,
+      hours: records[0].hours,
+      count: n,
+      mae,
+      bias: errors.reduce((s, e) => s + e, 0) / n,
+      categoryHitRate: hits / n,
+      persistenceMae,
+      skill: persistenceMae > 0 ? 1 - mae / persistenceMae : null
+    };
+  }).sort((a, b) => a.model.localeCompare(b.model) || a.hours - b.hours);
+};
+
+export const verifyForecasts = async (now: number = Date.now()): Promise<ForecastScore[]> =>
+  scoreForecasts(await matchObservations(now));
@@ -0,0 +1,272 @@
+import { AQILevel, AtmosphericPrediction, ForecastModelId, HistoryPoint, RiskLevel } from '../types';
+import { getStatusFromAQI } from './aqiCategories';
+
+const HOUR_MS = 3600 * 1000;
+const PERIOD = 24;             // Daily seasonality on hourly data
+const AR_ORDER = 3;
+export const Z_80 = 1.2816;    // Two-sided 80% prediction interval
+const BACKTEST_HOURS = 24;
+const PERSISTENCE_SPREAD = 0.25; // Relative half-width when there is no history to learn from
+
+export const DEFAULT_HORIZONS = [24, 48, 72];
+
+export const FORECAST_MODELS: { id: Exclude<ForecastModelId, 'llm' | 'rules'>; label: string; description: string; minHours: number }[] = [
+  { id: 'holt-winters', label: 'Holt-Winters', description: 'Level, trend and 24-hour seasonal cycle', minHours: 2 * PERIOD },
+  { id: 'autoregressive', label: 'Autoregressive', description: `AR(${AR_ORDER}) on hourly readings`, minHours: 12 },
+  { id: 'seasonal-naive', label: 'Seasonal Naive', description: 'Same hour on the previous day', minHours: PERIOD + 1 },
+  { id: 'persistence', label: 'Persistence', description: 'Latest reading carried forward', minHours: 1 }
+];
+
+type StatModel = (typeof FORECAST_MODELS)[number]['id'];
+
+export const getForecastModelLabel = (id?: ForecastModelId): string =>
+  id === 'llm' ? 'AI Model' : id === 'rules' ? 'Rule-Based Trend' : FORECAST_MODELS.find(m => m.id === id)?.label || 'Statistical';
+
+interface PointForecast {
+  mean: number;
+  sd: number;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const rms = (values: number[]) => (values.length ? Math.sqrt(values.reduce((s, v) => s + v * v, 0) / values.length) : 0);
+
+/**
+ * Regular hourly series ending at the last observation; gaps are filled linearly.
+ */
+export const toHourlyValues = (history: HistoryPoint[]): number[] => {
+  const points = [...history].filter(p => Number.isFinite(p.aqi)).sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length === 0) return [];
+  const values: number[] = [points[0].aqi];
+  for (let i = 1; i < points.length; i++) {
+    const steps = Math.max(1, Math.round((points[i].timestamp - points[i - 1].timestamp) / HOUR_MS));
+    for (let s = 1; s <= steps; s++) values.push(points[i - 1].aqi + ((points[i].aqi - points[i - 1].aqi) * s) / steps);
+  }
+  return values;
+};
+
+const persistence = (y: number[], horizon: number): PointForecast[] => {
+  const last = y[y.length - 1];
+  const diffs = y.slice(1).map((v, i) => v - y[i]);
+  // Random-walk spread from hourly changes; a fixed share of the level with no changes seen
+  const step = diffs.length >= 3 ? rms(diffs) : (last * PERSISTENCE_SPREAD) / Z_80 / Math.sqrt(DEFAULT_HORIZONS[0]);
+  return Array.from({ length: horizon }, (_, i) => ({ mean: last, sd: step * Math.sqrt(i + 1) }));
+};
+
+const seasonalNaive = (y: number[], horizon: number): PointForecast[] => {
+  const n = y.length;
+  const residuals = y.slice(PERIOD).map((v, i) => v - y[i]);
+  const sd = rms(residuals);
+  return Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    // Always the last observed day; the spread grows with each day carried forward
+    const k = Math.ceil(h / PERIOD);
+    return { mean: y[n - PERIOD + ((h - 1) % PERIOD)], sd: sd * Math.sqrt(k) };
+  });
+};
+
+const runHoltWinters = (y: number[], alpha: number, beta: number, gamma: number) => {
+  let level = mean(y.slice(0, PERIOD));
+  let trend = (mean(y.slice(PERIOD, 2 * PERIOD)) - level) / PERIOD;
+  const season = y.slice(0, PERIOD).map(v => v - level);
+  const residuals: number[] = [];
+
+  for (let t = PERIOD; t < y.length; t++) {
+    const s = season[t % PERIOD];
+    residuals.push(y[t] - (level + trend + s));
+    const prevLevel = level;
+    level = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    season[t % PERIOD] = gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+  return { level, trend, season, residuals };
+};
+
+/**
+ * Additive Holt-Winters, smoothing constants chosen by grid search on one-step error.
+ * The trend is damped so multi-day horizons do not run away.
+ */
+const holtWinters = (y: number[], horizon: number): PointForecast[] => {
+  const grid = [0.1, 0.3, 0.5, 0.7];
+  let best: { alpha: number; beta: number; gamma: number; sse: number } | null = null;
+  for (const alpha of grid) {
+    for (const beta of [0.01, 0.05, 0.1]) {
+      for (const gamma of [0.05, 0.1, 0.3]) {
+        const sse = runHoltWinters(y, alpha, beta, gamma).residuals.reduce((s, r) => s + r * r, 0);
+        if (!best || sse < best.sse) best = { alpha, beta, gamma, sse };
+      }
+    }
+  }
+  const { alpha, beta, gamma } = best!;
+  const { level, trend, season, residuals } = runHoltWinters(y, alpha, beta, gamma);
+  const sigma = rms(residuals);
+  const phi = 0.95;
+  const n = y.length;
+
+  let varSum = 0;
+  let damped = 0;
+  return Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    damped += Math.pow(phi, h);
+    // h-step error variance of undamped additive Holt-Winters; slightly conservative here
+    if (h > 1) {
+      const j = h - 1;
+      const c = alpha * (1 + j * beta) + (j % PERIOD === 0 ? gamma : 0);
+      varSum += c * c;
+    }
+    return { mean: level + damped * trend + season[(n + i) % PERIOD], sd: sigma * Math.sqrt(1 + varSum) };
+  });
+};
+
+/**
+ * AR(p) on the de-meaned series, fitted by least squares; intervals from the psi weights.
+ */
+const autoregressive = (y: number[], horizon: number): PointForecast[] => {
+  const p = Math.min(AR_ORDER, Math.floor(y.length / 4));
+  const mu = mean(y);
+  const x = y.map(v => v - mu);
+
+  // Normal equations X'X phi = X'y
+  const XtX = Array.from({ length: p }, () => new Array(p).fill(0));
+  const Xty = new Array(p).fill(0);
+  for (let t = p; t < x.length; t++) {
+    for (let i = 0; i < p; i++) {
+      Xty[i] += x[t - 1 - i] * x[t];
+      for (let j = 0; j < p; j++) XtX[i][j] += x[t - 1 - i] * x[t - 1 - j];
+    }
+  }
+  const phi = solve(XtX, Xty) || new Array(p).fill(0);
+
+  const residuals: number[] = [];
+  for (let t = p; t < x.length; t++) {
+    residuals.push(x[t] - phi.reduce((s, c, i) => s + c * x[t - 1 - i], 0));
+  }
+  const sigma = rms(residuals);
+
+  const path = [...x];
+  const psi = [1];
+  let psiSq = 0;
+  return Array.from({ length: horizon }, (_, i) => {
+    const next = phi.reduce((s, c, k) => s + c * path[path.length - 1 - k], 0);
+    path.push(next);
+    if (i > 0) psi.push(phi.reduce((s, c, k) => s + c * (psi[i - 1 - k] ?? 0), 0));
+    psiSq += psi[i] * psi[i];
+    return { mean: next + mu, sd: sigma * Math.sqrt(psiSq) };
+  });
+};
+
+const solve = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) < 1e-9) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  const out = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    out[r] = (M[r][n] - M[r].slice(r + 1, n).reduce((s, v, k) => s + v * out[r + 1 + k], 0)) / M[r][r];
+  }
+  return out;
+};
+
+const RUNNERS: Record<StatModel, (y: number[], horizon: number) => PointForecast[]> = {
+  'holt-winters': holtWinters,
+  'autoregressive': autoregressive,
+  'seasonal-naive': seasonalNaive,
+  'persistence': persistence
+};
+
+const isAvailable = (model: StatModel, hours: number) =>
+  hours >= (FORECAST_MODELS.find(m => m.id === model)?.minHours ?? Infinity);
+
+const RISK_BY_LEVEL: Record<AQILevel, RiskLevel> = {
+  [AQILevel.GOOD]: 'Low',
+  [AQILevel.SATISFACTORY]: 'Low',
+  [AQILevel.MODERATE]: 'Low',
+  [AQILevel.POOR]: 'Medium',
+  [AQILevel.VERY_POOR]: 'High',
+  [AQILevel.SEVERE]: 'Extreme'
+};
+
+export const riskFromAqi = (aqi: number): RiskLevel => RISK_BY_LEVEL[getStatusFromAQI(aqi)];
+
+const isFinitePath = (path: PointForecast[]) => path.every(p => Number.isFinite(p.mean) && Number.isFinite(p.sd));
+
+/**
+ * Picks the available model with the lowest error over the full horizon held out,
+ * or the last day when the history is too short for that; with too little history
+ * for a backtest, the most expressive available model. Models whose path over the
+ * horizon is not finite are never picked.
+ */
+export const selectForecastModel = (y: number[], horizon: number = BACKTEST_HOURS): StatModel => {
+  const available = FORECAST_MODELS.map(m => m.id)
+    .filter(id => isAvailable(id, y.length) && isFinitePath(RUNNERS[id](y, horizon)));
+  if (available.length === 0) return 'persistence';
+
+  const split = (holdout: number) => {
+    const train = y.slice(0, -holdout);
+    return { holdout, train, testable: available.filter(id => isAvailable(id, train.length)) };
+  };
+  const long = split(Math.max(BACKTEST_HOURS, horizon));
+  const { holdout, train, testable } = long.testable.length >= 2 ? long : split(BACKTEST_HOURS);
+  const test = y.slice(-holdout);
+  if (testable.length < 2) return available[0];
+
+  let best: { id: StatModel; mae: number } | null = null;
+  for (const id of testable) {
+    const fc = RUNNERS[id](train, holdout);
+    const mae = mean(test.map((v, i) => Math.abs(v - fc[i].mean)));
+    if (Number.isFinite(mae) && (!best || mae < best.mae)) best = { id, mae };
+  }
+  return best?.id ?? available[0];
+};
+
+interface StatisticalForecastOptions {
+  horizons?: number[];
+  model?: StatModel | 'auto';
+  primaryPollutant?: string;
+  currentAqi?: number;  // Used when the history store is empty
+}
+
+/**
+ * Statistical city forecast over the observed hourly history, no AI involved.
+ * Each prediction carries an 80% prediction interval and the model that produced it.
+ */
+export const getStatisticalForecast = (
+  history: HistoryPoint[],
+  options: StatisticalForecastOptions = {}
+): AtmosphericPrediction[] => {
+  const { horizons = DEFAULT_HORIZONS, model = 'auto', primaryPollutant = 'PM2.5', currentAqi } = options;
+  let y = toHourlyValues(history);
+  if (y.length === 0 && currentAqi && currentAqi > 0) y = [currentAqi];
+  if (y.length === 0) return [];
+
+  const maxHorizon = Math.max(...horizons);
+  const chosen = model === 'auto' ? selectForecastModel(y, maxHorizon) : isAvailable(model, y.length) ? model : 'persistence';
+  const path = RUNNERS[chosen](y, maxHorizon);
+  const label = FORECAST_MODELS.find(m => m.id === chosen)!.label;
+
+  return horizons.map(h => {
+    const { mean: m, sd } = path[h - 1];
+    const aqi = Math.max(0, Math.round(m));
+    const lower = Math.max(0, Math.round(m - Z_80 * sd));
+    const upper = Math.round(m + Z_80 * sd);
+    const relWidth = aqi > 0 ? (upper - lower) / (2 * aqi) : 1;
+    return {
+      hours: h,
+      aqi,
+      lower,
+      upper,
+      model: chosen,
+      primaryPollutant,
+      riskLevel: riskFromAqi(aqi),
+      confidence: Math.round(Math.min(95, Math.max(5, 100 * (1 - relWidth)))),
+      explanation: `${label} over ${y.length} observed hour${y.length === 1 ? '' : 's'}; 80% interval ${lower}–${upper}.`
+    };
+  });
+};
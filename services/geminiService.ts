@@ -1,5 +1,6 @@
-import { GoogleGenAI } from "@google/genai";
-import { 
+import {
+  AssistantCitation,
+  AssistantReply,
   Ward, 
   MitigationPlan, 
   GroundingChunk, 
@@ -9,39 +10,125 @@ import {
   HealthProfile,
   HealthRiskAssessment,
   DecisionMatrix,
-  LiveAqiData
+  LiveAqiData,
+  LlmCallOptions,
+  LlmError,
+  LlmMessage,
+  LlmRequest,
+  LlmResult,
+  LlmTask,
+  LlmToolResult,
+  Locale
 } from "../types";
+import { apportionSources, buildSourceAttribution } from "./sourceApportionment";
+import { getLlmProvider, getTaskModel } from "./llm";
+import { ASSISTANT_TOOLS, runAssistantTool } from "./assistantTools";
+import { getLocale, getLocaleInfo, translate } from "./i18n";
+import {
+  RuntimeSchema,
+  Validated,
+  atmosphericForecastSchema,
+  attributionNarrationSchema,
+  decisionMatrixSchema,
+  healthRiskAssessmentSchema,
+  mitigationInsightSchema,
+  mitigationPlanSchema,
+  sourceAttributionSchema,
+  visionAnalysisSchema
+} from "./llmSchemas";
 
 // Forecast Cache TTL: 15 minutes
 const FORECAST_CACHE_TTL = 15 * 60 * 1000;
 const forecastCache: Map<string, { data: AtmosphericPrediction[]; timestamp: number }> = new Map();
 
-/**
- * Helper to safely parse JSON from LLM text responses which might contain Markdown formatting.
- */
-const cleanAndParseJSON = (text: string | undefined): any => {
-  if (!text) return null;
+const MAX_ATTEMPTS = 3;
+
+const parseJson = (text: string | undefined): unknown => {
+  if (!text) return undefined;
+  // Grounded calls cannot use a response schema and may wrap the JSON in Markdown fences
+  const cleaned = text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
   try {
-    // Remove markdown code blocks if present
-    const cleaned = text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
     return JSON.parse(cleaned);
-  } catch (e) {
-    console.warn("Manual JSON Parse Failed", e);
-    return null;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * System text asking for free text in the reader's language while everything the app
+ * parses stays as given. English adds nothing, so recorded requests keep their keys.
+ */
+const withLanguage = (system: string | undefined, locale: Locale): string | undefined => {
+  if (locale === 'en') return system;
+  const { englishName, script } = getLocaleInfo(locale);
+  const instruction = `Write all free text for the reader in ${englishName} (${script} script). `
+    + 'Keep JSON keys, enum values, numbers, ward and place names, and pollutant symbols such as PM2.5 exactly as given.';
+  return system ? `${system}\n\n${instruction}` : instruction;
+};
+
+// A task request before the model is resolved from the registry
+type TaskCall = { [T in LlmTask]: Omit<Extract<LlmRequest, { task: T }>, 'model' | 'responseSchema'> }[LlmTask];
+
+/**
+ * Calls the active provider with the task's model and validates the reply against
+ * `schema`. Near-misses are repaired in place; anything else is sent back with the
+ * list of problems, up to MAX_ATTEMPTS calls in total.
+ */
+const generateStructured = async <T>(call: TaskCall & { schema: RuntimeSchema<T> }): Promise<LlmResult<T>> => {
+  const { schema, ...task } = call;
+  const locale = getLocale();
+  const provider = getLlmProvider();
+  const model = getTaskModel(task.task);
+  if (!provider.isConfigured()) return { ok: false, error: { kind: 'unavailable', message: `${provider.label} is not configured.`, attempts: 0 } };
+  if (task.image && !provider.supportsImages) return { ok: false, error: { kind: 'unsupported', message: `${provider.label} cannot analyse images.`, attempts: 0 } };
+
+  let feedback = '';
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let response;
+    try {
+      response = await provider.generate({
+        ...task,
+        model,
+        locale,
+        system: withLanguage(task.system, locale),
+        prompt: task.prompt + feedback,
+        responseSchema: schema.responseSchema
+      } as LlmRequest);
+    } catch (error) {
+      return { ok: false, error: { kind: 'request-failed', message: error instanceof Error ? error.message : String(error), attempts: attempt } };
+    }
+
+    const parsed = parseJson(response.text);
+    const result: Validated<T> = parsed === undefined
+      ? { ok: false, issues: ['response: not valid JSON'] }
+      : schema.validate(parsed);
+    if (result.ok) {
+      if (result.repairs.length > 0) console.info(`${model}: repaired response`, result.repairs);
+      return { ok: true, data: result.value, attempts: attempt, repairs: result.repairs };
+    }
+
+    issues = result.issues;
+    feedback = `\n\nYour previous reply was rejected:\n${issues.map(i => `- ${i}`).join('\n')}\n`
+      + `Previous reply: ${response.text.slice(0, 1500)}\n`
+      + 'Return the corrected JSON only, with every required field and allowed value.';
   }
+
+  return {
+    ok: false,
+    error: { kind: 'invalid-response', message: `The model did not return a valid response after ${MAX_ATTEMPTS} attempts.`, attempts: MAX_ATTEMPTS, issues }
+  };
 };
 
 /**
  * Generates decision-support mitigation insights for the dashboard.
  */
-export const getMitigationInsight = async (cityAqi: number, dominant: string): Promise<{ text: string; confidence: string }> => {
-  // Use new GoogleGenAI instance for fresh config
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format (string for simple prompts)
-      contents: `Perform environmental decision-support analysis for Delhi NCT.
+export const getMitigationInsight = (cityAqi: number, dominant: string): Promise<LlmResult<{ text: string; confidence: string }>> =>
+  generateStructured({
+    task: 'insight',
+    input: { aqi: cityAqi, dominant },
+    schema: mitigationInsightSchema,
+    prompt: `Perform environmental decision-support analysis for Delhi NCT.
                 Current Integrated AQI: ${cityAqi}
                 Dominant Pollutant: ${dominant}
                 
@@ -52,28 +139,45 @@ export const getMitigationInsight = async (cityAqi: number, dominant: string): P
                 - Max 2 short paragraphs.
                 - Include a confidence tag (High, Medium, or Experimental).
                 
-                OUTPUT: Return ONLY a JSON object with keys "text" and "confidence". Do not use Markdown blocks.`
-    });
-    
-    const data = cleanAndParseJSON(response.text);
-    return data || { text: "Intelligence node active. Awaiting fresh data streams...", confidence: "Medium" };
-  } catch (error) {
-    return { text: "Environmental reasoning engine temporarily unavailable.", confidence: "Low" };
-  }
-};
+                OUTPUT: A JSON object with keys "text" and "confidence".`
+  });
 
 export interface ChatContext {
   ward?: Ward | null;
   cityData?: LiveAqiData | null;
+  wards?: Ward[];
 }
 
+// Tool-calling rounds before the model must answer from what it has
+const MAX_TOOL_ROUNDS = 4;
+
+const ASSISTANT_INSTRUCTION = `You are the Delhi Atmospheric Intelligence Assistant.
+Only answer about:
+- AQI and pollution metrics
+- Health impacts of air quality
+- Delhi temperature and weather
+- GRAP (Graded Response Action Plan) stages
+- Government environmental policies
+- Emission reduction strategies
+
+Operational Rules:
+- Use the live data provided in the context.
+- Call the tools for ward figures, rankings, history, forecasts, GRAP measures and the factory ledger; never guess numbers they can provide.
+- Maintain an authoritative, structured tone.
+- Do NOT hallucinate "Offline Mode" responses.
+- If the query is outside these topics, politely redirect.`;
+
+/**
+ * Answers a chat turn, letting the model call the app's data tools. Every tool the
+ * model ran is returned as a citation alongside the text. `onText` receives the
+ * answer as it streams; aborting `signal` returns what had arrived, marked stopped.
+ */
 export const getAssistantResponse = async (
   query: string, 
   context: ChatContext,
-  history: { role: 'user' | 'model', parts: { text: string }[] }[]
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+  history: LlmMessage[],
+  { signal, onText }: LlmCallOptions = {}
+): Promise<AssistantReply> => {
   // Construct environmental context string
   let contextString = "--- LIVE ATMOSPHERIC DATA ---\n";
   if (context.cityData) {
@@ -81,248 +185,212 @@ export const getAssistantResponse = async (
     contextString += `GRAP Stage: ${context.cityData.intelligence?.grap?.label || 'IV'}\n`;
   }
   if (context.ward) {
-    contextString += `Selected Ward: ${context.ward.name}\n`;
+    contextString += `Selected Ward: ${context.ward.name} (ward ${context.ward.no})\n`;
     contextString += `Ward AQI: ${context.ward.aqi}\n`;
   }
   contextString += "------------------------------\n";
 
+  const locale = getLocale();
+  const toolContext = { wards: context.wards ?? [], cityAqi: context.cityData?.aqi };
+  const input = { query, cityAqi: context.cityData?.aqi, grapLabel: context.cityData?.intelligence?.grap?.label, ward: context.ward };
+  const turns = [...history];
+  const citations: AssistantCitation[] = [];
+  let prompt = `${contextString}\nUser Query: ${query}`;
+  let toolResults: LlmToolResult[] | undefined;
+  let streamed = '';
+  const stream = (text: string) => {
+    streamed = text;
+    onText?.(text);
+  };
+
   try {
-    const chat = ai.chats.create({
-      model: 'gemini-3-flash-preview',
-      history: history,
-      config: {
-        systemInstruction: `You are the Delhi Atmospheric Intelligence Assistant.
-Only answer about:
-- AQI and pollution metrics
-- Health impacts of air quality
-- Delhi temperature and weather
-- GRAP (Graded Response Action Plan) stages
-- Government environmental policies
-- Emission reduction strategies
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      streamed = '';
+      const result = await getLlmProvider().generate({
+        task: 'assistant',
+        model: getTaskModel('assistant'),
+        system: withLanguage(ASSISTANT_INSTRUCTION, locale),
+        locale,
+        history: turns,
+        prompt,
+        toolResults,
+        tools: round < MAX_TOOL_ROUNDS ? ASSISTANT_TOOLS : undefined,
+        input
+      }, { signal, onText: stream });
 
-Operational Rules:
-- Use the live data provided in the context.
-- Maintain an authoritative, structured tone.
-- Do NOT hallucinate "Offline Mode" responses.
-- If the query is outside these topics, politely redirect.`,
-      }
-    });
+      const calls = result.toolCalls ?? [];
+      if (calls.length === 0) return { text: result.text || translate('ai.assistant.unstable', {}, locale), citations };
 
-    const result = await chat.sendMessage({
-      message: `${contextString}\nUser Query: ${query}`
-    });
-    
-    return result.text || "Connection unstable. Retrying link...";
+      signal?.throwIfAborted();
+      const outputs = await Promise.all(calls.map(call => runAssistantTool(call, toolContext)));
+      calls.forEach((call, i) => citations.push({ tool: call.name, args: call.args, summary: outputs[i].summary, result: outputs[i].data ?? outputs[i].error }));
+      turns.push({ role: 'user', text: prompt, toolResults }, { role: 'model', text: result.text, toolCalls: calls });
+      toolResults = calls.map((call, i) => ({ id: call.id, name: call.name, result: outputs[i] }));
+      prompt = '';
+    }
+    return { text: translate('ai.assistant.toolLimit', {}, locale), citations };
   } catch (error) {
+    if (signal?.aborted) return { text: streamed, citations, stopped: true };
     console.error("Assistant Error", error);
-    return "Live AI connection error. Please try again in a few moments.";
+    return { text: translate('ai.assistant.error', {}, locale), citations };
   }
 };
 
+/**
+ * Source weights come from the receptor model (services/sourceApportionment); the
+ * LLM only rewrites the reasoning and snippet in plain language. Without a key, or
+ * if narration fails, the template wording is returned.
+ */
 export const getSourceAttribution = async (ward: Ward): Promise<SourceAttribution> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: `Analyze environmental data for ${ward.name} ward.
-                AQI: ${ward.aqi}
-                Pollutants: PM2.5(${ward.pollutants.pm25}), PM10(${ward.pollutants.pm10}), NO2(${ward.pollutants.no2})
-                
-                Identify primary/secondary pollution sources.
-                
-                OUTPUT: Return ONLY a JSON object:
-                {
-                  "dominantSource": { "label": "string", "type": "vehicular"|"industrial"|"construction"|"biomass"|"regional", "confidence": number },
-                  "secondarySources": [{ "label": "string", "weight": number }],
-                  "reasoning": ["string", "string"],
-                  "socialSnippet": "string",
-                  "confidenceScore": number
-                }`
-    });
-    
-    const data = cleanAndParseJSON(response.text);
-    if (!data) throw new Error("Parse Failure");
-    return data;
-  } catch (error) {
-    throw new Error("Source attribution link failed.");
+  const attribution = buildSourceAttribution(ward, apportionSources(ward));
+  const narration = await generateStructured({
+    task: 'attribution',
+    input: { ward, attribution },
+    schema: attributionNarrationSchema,
+    prompt: `Narrate this source apportionment for ${ward.name} ward (AQI ${ward.aqi}) for the public.
+                Do not change any source, percentage or number.
+                Dominant: ${attribution.dominantSource.label}
+                Other sources: ${attribution.secondarySources.map(s => `${s.label} ${s.weight}%`).join(', ')}
+                Evidence: ${attribution.reasoning.join(' ')}
+
+                OUTPUT: A JSON object with "reasoning" (2-4 short sentences) and "socialSnippet" (one sentence).`
+  });
+  if (!narration.ok) {
+    if (narration.error.kind !== 'unavailable') console.warn('Attribution narration failed, using template', narration.error);
+    return attribution;
+  }
+
+  // The local provider hands back the template wording unchanged
+  const narratedBy = getLlmProvider().id === 'local' ? 'template' : 'llm';
+  const narrated = sourceAttributionSchema.validate({ ...attribution, ...narration.data, narratedBy });
+  return narrated.ok ? narrated.value : attribution;
+};
+
+export const isLlmAvailable = (): boolean => getLlmProvider().isConfigured();
+
+/** One-line explanation of a failed structured call for display, in the active language. */
+export const describeLlmError = (error: LlmError): string => {
+  switch (error.kind) {
+    case 'unavailable': return translate('ai.error.unavailable');
+    case 'unsupported': return translate('ai.error.unsupported');
+    case 'request-failed': return translate('ai.error.requestFailed');
+    case 'invalid-response': return translate('ai.error.invalidResponse', { attempts: error.attempts });
   }
 };
 
-export const getAqiForecast = async (currentAqi: number, trendSlope: number): Promise<AtmosphericPrediction[]> => {
-  const cacheKey = `forecast_${currentAqi}_${trendSlope}`;
+/**
+ * LLM projection for 24/48/72h. Without a key or on failure the supplied statistical
+ * baseline is returned unchanged, so callers can tell the two apart by `model`; the
+ * label is always set here, never taken from the reply.
+ */
+export const getAqiForecast = async (
+  currentAqi: number,
+  trendSlope: number,
+  baseline: AtmosphericPrediction[] = [],
+  weatherContext: string = ''
+): Promise<AtmosphericPrediction[]> => {
+  if (!isLlmAvailable()) return baseline;
+  // The local rules only echo a non-empty baseline, which keeps its own labels
+  const local = getLlmProvider().id === 'local';
+  if (local && baseline.length > 0) return baseline;
+  const cacheKey = `forecast_${getLocale()}_${currentAqi}_${trendSlope}_${weatherContext}`;
   const now = Date.now();
   if (forecastCache.has(cacheKey)) {
     const cached = forecastCache.get(cacheKey)!;
     if (now - cached.timestamp < FORECAST_CACHE_TTL) return cached.data;
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: `Atmospheric projection for Delhi NCT. Current AQI: ${currentAqi}. Trend Slope: ${trendSlope}.
+  const result = await generateStructured({
+    task: 'forecast',
+    input: { currentAqi, trendSlope, baseline },
+    schema: atmosphericForecastSchema,
+    grounding: { kind: 'search' },
+    prompt: `Atmospheric projection for Delhi NCT. Current AQI: ${currentAqi}. Trend Slope: ${trendSlope}.
+                Meteorology: ${weatherContext || 'not available'}
                 Generate 3 predictions (24, 48, 72 hours).
                 
                 OUTPUT: Return ONLY a JSON array of objects:
-                { hours: number, aqi: number, primaryPollutant: string, riskLevel: string, confidence: number, explanation: string }`,
-      config: { tools: [{ googleSearch: {} }] }
-    });
-
-    const data = cleanAndParseJSON(response.text);
-    if (data && Array.isArray(data)) {
-      forecastCache.set(cacheKey, { data, timestamp: now });
-      return data;
-    }
-    throw new Error("Invalid Format");
-  } catch (error) {
-    return [24, 48, 72].map(h => ({
-      hours: h, aqi: Math.max(0, Math.round(currentAqi + trendSlope * h)),
-      primaryPollutant: "PM2.5", riskLevel: "High", confidence: 50, explanation: "Linear projection (AI model link failed)."
-    })) as AtmosphericPrediction[];
+                { "hours": number, "aqi": number, "primaryPollutant": string, "riskLevel": "Extreme"|"High"|"Medium"|"Low", "confidence": number 0-100, "explanation": string }`
+  });
+  if (!result.ok) {
+    console.warn("AI forecast failed, using statistical baseline", result.error);
+    return baseline;
   }
-};
 
-export const getMitigationPlan = async (ward: Ward): Promise<MitigationPlan> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: `Environmental mitigation plan for ${ward.name} ward (AQI: ${ward.aqi}).
-                OUTPUT: Return ONLY a JSON object: { summary: string, steps: string[], priority: "High"|"Medium"|"Low" }`
-    });
-    
-    const data = cleanAndParseJSON(response.text);
-    return data || { summary: "Awaiting analysis...", steps: ["Monitor local sensors"], priority: 'Medium' };
-  } catch (error) {
-    return { summary: "Live strategy link failed.", steps: ["Refer to standard GRAP protocols"], priority: 'High' };
-  }
+  const data: AtmosphericPrediction[] = result.data.map(p => ({ ...p, model: local ? 'rules' : 'llm' }));
+  forecastCache.set(cacheKey, { data, timestamp: now });
+  return data;
 };
 
-export const analyzeAtmosphereImage = async (base64Image: string): Promise<VisionAnalysisResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image', 
-      // Fix: Follow @google/genai guideline for multi-part (image + text) contents format
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: base64Image,
-            },
-          },
-          {
-            text: `Analyze pollution visibility in this image.
-                   OUTPUT: Return ONLY a JSON object:
-                   { visualPollutionScore: number, detectedSource: string, anomalyProbability: number, confidenceScore: number, reasoning: string }`,
-          },
-        ],
-      },
-    });
-    
-    const data = cleanAndParseJSON(response.text);
-    if (!data) throw new Error("Vision Analysis Failure");
-    return data;
-  } catch (error) {
-    return {
-      visualPollutionScore: 0,
-      detectedSource: "Analysis Interrupted",
-      anomalyProbability: 0,
-      confidenceScore: 0,
-      reasoning: "Vision processing link failed. Please retry."
-    };
-  }
-};
+export const getMitigationPlan = (ward: Ward): Promise<LlmResult<MitigationPlan>> =>
+  generateStructured({
+    task: 'plan',
+    input: { ward },
+    schema: mitigationPlanSchema,
+    prompt: `Environmental mitigation plan for ${ward.name} ward (AQI: ${ward.aqi}).
+                OUTPUT: A JSON object with a short "summary", 3-6 concrete "steps" and a "priority".`
+  });
 
-export const assessHealthRisk = async (profile: HealthProfile, currentAqi: number): Promise<HealthRiskAssessment> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: `Calculate health risk. Profile: ${profile.ageGroup}, ${profile.condition}. AQI: ${currentAqi}.
-                OUTPUT: Return ONLY a JSON object:
-                { dailyExposureRisk: string, recommendedOutdoorLimit: number, protectiveMeasure: string, personalizedWarning: string, confidence: number }`
-    });
-    
-    const data = cleanAndParseJSON(response.text);
-    return data || { dailyExposureRisk: "High", recommendedOutdoorLimit: 0, protectiveMeasure: "Stay Indoors", personalizedWarning: "Analysis failed.", confidence: 0 };
-  } catch (error) {
-    return { dailyExposureRisk: "High", recommendedOutdoorLimit: 0, protectiveMeasure: "System Error", personalizedWarning: "Risk assessment engine offline.", confidence: 0 };
-  }
-};
+export const analyzeAtmosphereImage = (base64Image: string): Promise<LlmResult<VisionAnalysisResult>> =>
+  generateStructured({
+    task: 'vision',
+    input: {},
+    schema: visionAnalysisSchema,
+    image: { mimeType: 'image/jpeg', data: base64Image },
+    prompt: `Analyze pollution visibility in this image.
+                   OUTPUT: A JSON object; visualPollutionScore, anomalyProbability and confidenceScore are 0-100.`
+  });
 
-export const runDecisionOrchestrator = async (currentAqi: number, trend: string): Promise<DecisionMatrix> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: `Environmental Risk Orchestrator. AQI: ${currentAqi}, Trend: ${trend}.
-                OUTPUT: Return ONLY a JSON object:
-                { overallRiskScore: number, recommendedAction: string, affectedGroups: string[], escalationLevel: string, reasoningSummary: string, confidenceScore: number }`
-    });
-
-    const data = cleanAndParseJSON(response.text);
-    return data || { overallRiskScore: 0, recommendedAction: "N/A", affectedGroups: [], escalationLevel: "Monitor", reasoningSummary: "Orchestration failed.", confidenceScore: 0 };
-  } catch (error) {
-    return { overallRiskScore: 0, recommendedAction: "System Offline", affectedGroups: [], escalationLevel: "Monitor", reasoningSummary: "Decision engine link failed.", confidenceScore: 0 };
-  }
-};
+export const assessHealthRisk = (profile: HealthProfile, currentAqi: number): Promise<LlmResult<HealthRiskAssessment>> =>
+  generateStructured({
+    task: 'health',
+    input: { profile, aqi: currentAqi },
+    schema: healthRiskAssessmentSchema,
+    prompt: `Calculate health risk. Profile: ${profile.ageGroup}, ${profile.condition}, ${profile.outdoorHours}h outdoors per day. AQI: ${currentAqi}.
+                OUTPUT: A JSON object; recommendedOutdoorLimit is in minutes per day and confidence is 0-100.`
+  });
 
-export const getSimulationReport = async (ward: Ward, hours: number): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: `Simulate atmosphere for ${ward.name} in ${hours} hours. AQI: ${ward.aqi}. Limit: 40 words.`
-    });
-    return response.text || "Simulation uplink stable.";
-  } catch (error) {
-    return "Projection engine link failed.";
-  }
-};
+export const runDecisionOrchestrator = (currentAqi: number, trend: string): Promise<LlmResult<DecisionMatrix>> =>
+  generateStructured({
+    task: 'decision',
+    input: { aqi: currentAqi, trend },
+    schema: decisionMatrixSchema,
+    prompt: `Environmental Risk Orchestrator. AQI: ${currentAqi}, Trend: ${trend}.
+                OUTPUT: A JSON object; overallRiskScore and confidenceScore are 0-100.`
+  });
 
 export const getLiveGovUpdates = async (): Promise<{ text: string; sources: GroundingChunk[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const locale = getLocale();
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: "Current Stage of GRAP active in Delhi today? List new bans or policy shifts in 24h.",
-      config: { tools: [{ googleSearch: {} }] }
+    const response = await getLlmProvider().generate({
+      task: 'policy-news',
+      model: getTaskModel('policy-news'),
+      system: withLanguage(undefined, locale),
+      locale,
+      prompt: "Current Stage of GRAP active in Delhi today? List new bans or policy shifts in 24h.",
+      input: {},
+      grounding: { kind: 'search' }
     });
-    return {
-      text: response.text || "GRAP monitoring online.",
-      sources: (response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[]) || [],
-    };
+    return { text: response.text || translate('ai.news.idle', {}, locale), sources: response.sources ?? [] };
   } catch (error) {
-    return { text: "Policy uplink failed. Refer to CPCB official site.", sources: [] };
+    return { text: translate('ai.news.failed', {}, locale), sources: [] };
   }
 };
 
 export const getNearbySafeZones = async (lat: number, lng: number): Promise<{ text: string; sources: GroundingChunk[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const locale = getLocale();
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      // Fix: Follow @google/genai guideline for simplified contents format
-      contents: "Find 3 large public parks or indoor 'Clean Air Hubs' within 5km. Recommend safe route.",
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: { retrievalConfig: { latLng: { latitude: lat, longitude: lng } } }
-      },
+    const response = await getLlmProvider().generate({
+      task: 'safe-zones',
+      model: getTaskModel('safe-zones'),
+      system: withLanguage(undefined, locale),
+      locale,
+      prompt: "Find 3 large public parks or indoor 'Clean Air Hubs' within 5km. Recommend safe route.",
+      input: { lat, lng },
+      grounding: { kind: 'maps', lat, lng }
     });
-    return {
-      text: response.text || "Mapping safe zones...",
-      sources: (response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[]) || [],
-    };
+    return { text: response.text || translate('ai.safeZones.pending', {}, locale), sources: response.sources ?? [] };
   } catch (error) {
-    return { text: "Safe zone mapping link failed.", sources: [] };
+    return { text: translate('ai.safeZones.failed', {}, locale), sources: [] };
   }
-};
\ No newline at end of file
+};
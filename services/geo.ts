@@ -0,0 +1,25 @@
+export const EARTH_RADIUS_KM = 6371;
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export const DELHI_BBOX: BoundingBox = { south: 28.3, west: 76.8, north: 29.0, east: 77.5 };
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance in kilometres between two [lat, lng] points.
+ */
+export const haversineKm = (a: [number, number], b: [number, number]): number => {
+  const dLat = toRad(b[0] - a[0]);
+  const dLng = toRad(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const isWithinBounds = (lat: number, lng: number, box: BoundingBox = DELHI_BBOX): boolean =>
+  lat >= box.south && lat <= box.north && lng >= box.west && lng <= box.east;
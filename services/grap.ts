@@ -0,0 +1,148 @@
+import { ForecastHour, GrapMeasure, GrapStage, GrapState, GrapStatus, GrapTransition } from '../types';
+import { GRAP_MEASURES } from '../data/grapMeasures';
+
+const STATE_KEY = 'pureair_grap_state';
+const HOUR_MS = 3600 * 1000;
+const MAX_HISTORY = 200;
+
+// A forecast invokes a stage only when the exceedance lasts this many consecutive hours
+const FORECAST_SUSTAINED_HOURS = 6;
+// Revocation: observed AQI must stay this far below the stage threshold for this long
+const REVOCATION_MARGIN = 25;
+const REVOCATION_HOURS = 24;
+
+/**
+ * Stage bands on the CPCB AQI. Lead time is how far ahead a forecast exceedance
+ * may invoke the stage; the more disruptive stages wait for nearer forecasts.
+ */
+export const GRAP_STAGES: { stage: Exclude<GrapStage, 0>; threshold: number; leadHours: number; label: string; level: string; description: string }[] = [
+  { stage: 1, threshold: 201, leadHours: 72, label: 'GRAP Stage I', level: 'Poor', description: 'Poor: Dust Control, Mechanized Sweeping' },
+  { stage: 2, threshold: 301, leadHours: 72, label: 'GRAP Stage II', level: 'Very Poor', description: 'Very Poor: Diesel Gen Set Ban, Parking Fee Hike' },
+  { stage: 3, threshold: 401, leadHours: 48, label: 'GRAP Stage III', level: 'Severe', description: 'Severe: Construction & Demolition Ban' },
+  { stage: 4, threshold: 451, leadHours: 24, label: 'GRAP Stage IV', level: 'Severe+', description: 'Severe+: Truck Entry Ban, Odd-Even Scheme' }
+];
+
+const INACTIVE = { label: 'No GRAP Active', description: 'Standard Pollution Control Measures' };
+
+const stageInfo = (stage: GrapStage) => GRAP_STAGES.find(s => s.stage === stage);
+
+export const grapStageForAqi = (aqi: number): GrapStage =>
+  [...GRAP_STAGES].reverse().find(s => aqi >= s.threshold)?.stage ?? 0;
+
+/**
+ * Measures in force at a stage: its own plus those of every lower stage.
+ */
+export const getGrapMeasures = (stage: number): GrapMeasure[] =>
+  GRAP_MEASURES.filter(m => m.stage <= stage);
+
+const initialState = (now: number): GrapState => ({
+  stage: 0,
+  basis: null,
+  since: now,
+  belowSince: null,
+  updatedAt: now,
+  history: []
+});
+
+export const loadGrapState = (): GrapState => {
+  try {
+    const raw = localStorage.getItem(STATE_KEY);
+    return raw ? JSON.parse(raw) : initialState(Date.now());
+  } catch (e) {
+    return initialState(Date.now());
+  }
+};
+
+const saveGrapState = (state: GrapState) => {
+  try {
+    localStorage.setItem(STATE_KEY, JSON.stringify(state));
+  } catch (e) { console.warn("GRAP state write error", e); }
+};
+
+/**
+ * Highest stage whose threshold the forecast exceeds for a sustained spell
+ * within that stage's lead time, with the hours until the spell starts.
+ */
+export const forecastGrapStage = (forecast: Pick<ForecastHour, 'hoursAhead' | 'aqi'>[]): { stage: GrapStage; leadHours?: number; aqi?: number } => {
+  const hours = [...forecast].sort((a, b) => a.hoursAhead - b.hoursAhead);
+  for (const info of [...GRAP_STAGES].reverse()) {
+    let run: typeof hours = [];
+    for (const h of hours) {
+      if (h.hoursAhead > info.leadHours) break;
+      run = h.aqi >= info.threshold ? [...run, h] : [];
+      if (run.length >= FORECAST_SUSTAINED_HOURS) {
+        return { stage: info.stage, leadHours: run[0].hoursAhead, aqi: Math.max(...run.map(r => r.aqi)) };
+      }
+    }
+  }
+  return { stage: 0 };
+};
+
+/**
+ * One step of the GRAP state machine.
+ * Escalation is immediate, on the observed AQI or on a sustained forecast exceedance.
+ * Revocation waits until the observed AQI has held below the current stage's
+ * threshold (less a margin) for a full day and the forecast no longer supports the stage.
+ */
+export const evaluateGrap = (
+  state: GrapState,
+  observedAqi: number,
+  forecast: Pick<ForecastHour, 'hoursAhead' | 'aqi'>[],
+  now: number = Date.now()
+): GrapState => {
+  const observedStage = grapStageForAqi(observedAqi);
+  const predicted = forecastGrapStage(forecast);
+  const target = Math.max(observedStage, predicted.stage) as GrapStage;
+
+  const current = stageInfo(state.stage);
+  const belowSince = current && observedAqi < current.threshold - REVOCATION_MARGIN
+    ? state.belowSince ?? now
+    : null;
+
+  const transition = (to: GrapStage, t: Omit<GrapTransition, 'at' | 'from' | 'to'>): GrapState => ({
+    stage: to,
+    basis: to === 0 ? null : observedStage >= to ? 'observed' : 'forecast',
+    since: now,
+    belowSince: null,
+    updatedAt: now,
+    history: [...state.history, { at: now, from: state.stage, to, ...t }].slice(-MAX_HISTORY)
+  });
+
+  if (target > state.stage) {
+    return observedStage >= target
+      ? transition(target, { basis: 'observed', aqi: observedAqi })
+      : transition(target, { basis: 'forecast', aqi: predicted.aqi!, leadHours: predicted.leadHours });
+  }
+
+  if (target < state.stage && belowSince !== null && now - belowSince >= REVOCATION_HOURS * HOUR_MS) {
+    return transition(target, { basis: 'revocation', aqi: observedAqi });
+  }
+
+  return { ...state, belowSince, updatedAt: now };
+};
+
+/**
+ * Advances the persisted state with a new observation and forecast path.
+ */
+export const updateGrapState = (
+  observedAqi: number,
+  forecast: Pick<ForecastHour, 'hoursAhead' | 'aqi'>[],
+  now: number = Date.now()
+): GrapState => {
+  const next = evaluateGrap(loadGrapState(), observedAqi, forecast, now);
+  saveGrapState(next);
+  return next;
+};
+
+export const describeGrapState = (state: GrapState): GrapStatus => {
+  const info = stageInfo(state.stage);
+  return {
+    stage: state.stage,
+    label: info?.label ?? INACTIVE.label,
+    description: info?.description ?? INACTIVE.description,
+    basis: state.basis,
+    since: state.stage > 0 ? state.since : undefined,
+    revocationDueAt: state.belowSince !== null ? state.belowSince + REVOCATION_HOURS * HOUR_MS : null,
+    measures: getGrapMeasures(state.stage)
+  };
+};
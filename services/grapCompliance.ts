@@ -0,0 +1,62 @@
+import { GrapCompletion, GrapComplianceRecord, GrapMeasure, Ward } from '../types';
+import { getGrapMeasures } from './grap';
+
+const COMPLIANCE_KEY = 'pureair_grap_compliance';
+// A ward counts as relevant to a measure when a source it targets makes up this share
+const RELEVANCE_SHARE = 25;
+
+export const loadGrapCompliance = (): GrapComplianceRecord => {
+  try {
+    const raw = localStorage.getItem(COMPLIANCE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * Marks a measure as implemented (or not) in a zone and returns the updated record.
+ */
+export const setMeasureImplemented = (zone: string, measureId: string, implemented: boolean, now: number = Date.now()): GrapComplianceRecord => {
+  const record = loadGrapCompliance();
+  const next = { ...record, [zone]: { ...record[zone], [measureId]: { implemented, updatedAt: now } } };
+  try {
+    localStorage.setItem(COMPLIANCE_KEY, JSON.stringify(next));
+  } catch (e) { console.warn("GRAP compliance write error", e); }
+  return next;
+};
+
+export const isImplemented = (record: GrapComplianceRecord, zone: string, measureId: string): boolean =>
+  !!record[zone]?.[measureId]?.implemented;
+
+const completion = (implemented: number, total: number): GrapCompletion => ({
+  implemented,
+  total,
+  rate: total > 0 ? implemented / total : 0
+});
+
+/**
+ * Share of the measures in force at a stage (cumulative) implemented in one zone.
+ */
+export const zoneCompletion = (record: GrapComplianceRecord, zone: string, stage: number): GrapCompletion => {
+  const measures = getGrapMeasures(stage);
+  return completion(measures.filter(m => isImplemented(record, zone, m.id)).length, measures.length);
+};
+
+/**
+ * Share of one stage's own measures implemented, across every zone.
+ */
+export const stageCompletion = (record: GrapComplianceRecord, zones: string[], stage: number): GrapCompletion => {
+  const measures = getGrapMeasures(stage).filter(m => m.stage === stage);
+  const implemented = zones.reduce((n, zone) => n + measures.filter(m => isImplemented(record, zone, m.id)).length, 0);
+  return completion(implemented, measures.length * zones.length);
+};
+
+export const isWardRelevant = (measure: GrapMeasure, ward: Ward): boolean =>
+  measure.wardRelevance === 'all' || measure.wardRelevance.some(source => (ward.breakdown[source] ?? 0) >= RELEVANCE_SHARE);
+
+/**
+ * The given wards (typically one zone) where the measure targets a significant share of emissions.
+ */
+export const relevantWards = (measure: GrapMeasure, wards: Ward[]): Ward[] =>
+  wards.filter(w => isWardRelevant(measure, w));
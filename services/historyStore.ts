@@ -0,0 +1,242 @@
+import { HistoryBackend, HistoryBucket, HistoryPoint, HistoryResolution, Station, Ward } from '../types';
+import { passesQc } from './stationQc';
+
+const DB_NAME = 'pureair_history';
+const DB_VERSION = 1;
+const HOUR_MS = 3600 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Hourly buckets feed the 72h context; daily buckets carry the long-term record
+const RETENTION_MS: Record<HistoryResolution, number> = {
+  hourly: 35 * DAY_MS,
+  daily: 400 * DAY_MS
+};
+
+// CPCB-average city series; the earlier 'city' series mixed aggregation methods and is no longer read
+export const CITY_SERIES = 'city:cpcb-average';
+export const stationSeries = (uid: number) => `station:${uid}`;
+export const wardSeries = (id: string) => `ward:${id}`;
+
+const bucketStart = (time: number, resolution: HistoryResolution) => {
+  const d = new Date(time);
+  if (resolution === 'hourly') d.setMinutes(0, 0, 0);
+  else d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const mergeBucket = (existing: HistoryBucket | undefined, add: HistoryBucket): HistoryBucket =>
+  existing
+    ? {
+        ...existing,
+        sum: existing.sum + add.sum,
+        count: existing.count + add.count,
+        min: Math.min(existing.min, add.min),
+        max: Math.max(existing.max, add.max)
+      }
+    : add;
+
+/**
+ * In-memory backend: used where IndexedDB is unavailable and for tests.
+ */
+export const createMemoryHistoryBackend = (): HistoryBackend => {
+  const stores: Record<HistoryResolution, Map<string, HistoryBucket>> = { hourly: new Map(), daily: new Map() };
+  const key = (b: { seriesId: string; start: number }) => `${b.seriesId}|${b.start}`;
+
+  return {
+    id: 'memory',
+    merge: async (resolution, buckets) => {
+      const store = stores[resolution];
+      buckets.forEach(b => store.set(key(b), mergeBucket(store.get(key(b)), b)));
+    },
+    query: async (resolution, seriesId, from) =>
+      [...stores[resolution].values()]
+        .filter(b => b.seriesId === seriesId && b.start >= from)
+        .sort((a, b) => a.start - b.start),
+    prune: async (resolution, before) => {
+      const store = stores[resolution];
+      [...store.entries()].forEach(([k, b]) => { if (b.start < before) store.delete(k); });
+    }
+  };
+};
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * IndexedDB backend: one object store per resolution keyed by [seriesId, start].
+ */
+export const createIndexedDbHistoryBackend = (dbName: string = DB_NAME): HistoryBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const req = indexedDB.open(dbName, DB_VERSION);
+      req.onupgradeneeded = () => {
+        (['hourly', 'daily'] as HistoryResolution[]).forEach(name => {
+          if (!req.result.objectStoreNames.contains(name)) {
+            req.result.createObjectStore(name, { keyPath: ['seriesId', 'start'] }).createIndex('start', 'start');
+          }
+        });
+      };
+      dbPromise = request(req);
+    }
+    return dbPromise;
+  };
+
+  return {
+    id: 'indexeddb',
+    merge: async (resolution, buckets) => {
+      const db = await open();
+      const tx = db.transaction(resolution, 'readwrite');
+      const store = tx.objectStore(resolution);
+      await Promise.all(buckets.map(async b => {
+        const existing = await request<HistoryBucket | undefined>(store.get([b.seriesId, b.start]));
+        store.put(mergeBucket(existing, b));
+      }));
+      await transactionDone(tx);
+    },
+    query: async (resolution, seriesId, from) => {
+      const db = await open();
+      const range = IDBKeyRange.bound([seriesId, from], [seriesId, Number.MAX_SAFE_INTEGER]);
+      return request<HistoryBucket[]>(db.transaction(resolution).objectStore(resolution).getAll(range));
+    },
+    prune: async (resolution, before) => {
+      const db = await open();
+      const tx = db.transaction(resolution, 'readwrite');
+      const index = tx.objectStore(resolution).index('start');
+      const cursorReq = index.openCursor(IDBKeyRange.upperBound(before, true));
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (cursor) { cursor.delete(); cursor.continue(); }
+      };
+      await transactionDone(tx);
+    }
+  };
+};
+
+let activeBackend: HistoryBackend | null = null;
+
+export const getHistoryBackend = (): HistoryBackend => {
+  if (!activeBackend) {
+    activeBackend = typeof indexedDB !== 'undefined' ? createIndexedDbHistoryBackend() : createMemoryHistoryBackend();
+  }
+  return activeBackend;
+};
+
+/**
+ * Swaps the storage backend at runtime (tests, server-side stores).
+ */
+export const setHistoryBackend = (backend: HistoryBackend) => {
+  activeBackend = backend;
+};
+
+/**
+ * Rolls readings into hourly and daily buckets and prunes expired ones.
+ * Failures are logged, never thrown: history must not break a live fetch.
+ */
+export const recordReadings = async (readings: { seriesId: string; aqi: number; time: number }[]) => {
+  const valid = readings.filter(r => Number.isFinite(r.aqi) && r.aqi > 0 && Number.isFinite(r.time));
+  if (valid.length === 0) return;
+  const backend = getHistoryBackend();
+  const now = Date.now();
+
+  try {
+    for (const resolution of ['hourly', 'daily'] as HistoryResolution[]) {
+      const grouped = new Map<string, HistoryBucket>();
+      valid.forEach(r => {
+        const b = { seriesId: r.seriesId, start: bucketStart(r.time, resolution), sum: r.aqi, count: 1, min: r.aqi, max: r.aqi };
+        const k = `${b.seriesId}|${b.start}`;
+        grouped.set(k, mergeBucket(grouped.get(k), b));
+      });
+      await backend.merge(resolution, [...grouped.values()]);
+      await backend.prune(resolution, now - RETENTION_MS[resolution]);
+    }
+  } catch (e) {
+    console.warn("History store write error", e);
+  }
+};
+
+const readingTime = (station: Station, now: number) => {
+  const t = station.updatedAt ? new Date(station.updatedAt).getTime() : NaN;
+  return Number.isFinite(t) ? t : now;
+};
+
+export const recordStationReadings = (stations: Station[], now: number = Date.now()) =>
+  recordReadings(stations.filter(passesQc).map(s => ({ seriesId: stationSeries(s.uid), aqi: s.aqi, time: readingTime(s, now) })));
+
+export const recordWardReadings = (wards: Ward[], now: number = Date.now()) =>
+  recordReadings(wards.map(w => ({ seriesId: wardSeries(w.id), aqi: w.aqi, time: now })));
+
+export const recordCityReading = (aqi: number, now: number = Date.now()) =>
+  recordReadings([{ seriesId: CITY_SERIES, aqi, time: now }]);
+
+const toPoint = (start: number, aqi: number, label: string): HistoryPoint => ({ time: label, aqi: Math.round(aqi), timestamp: start });
+
+/**
+ * Observed hourly series for the last `hours` hours. Hours without readings are omitted.
+ */
+export const getHourlySeries = async (seriesId: string, hours: number = 24): Promise<HistoryPoint[]> => {
+  try {
+    const buckets = await getHistoryBackend().query('hourly', seriesId, bucketStart(Date.now() - hours * HOUR_MS, 'hourly'));
+    return buckets.map(b => toPoint(b.start, b.sum / b.count, `${new Date(b.start).getHours()}:00`));
+  } catch (e) {
+    console.warn("History store read error", e);
+    return [];
+  }
+};
+
+export const getDailySeries = async (seriesId: string, days: number = 7): Promise<HistoryPoint[]> => {
+  try {
+    const buckets = await getHistoryBackend().query('daily', seriesId, bucketStart(Date.now() - days * DAY_MS, 'daily'));
+    return buckets.map(b => toPoint(b.start, b.sum / b.count, new Date(b.start).toLocaleDateString([], { weekday: 'short' })));
+  } catch (e) {
+    console.warn("History store read error", e);
+    return [];
+  }
+};
+
+/**
+ * Monthly means rolled up from daily buckets (each day weighted by its reading count).
+ */
+export const getMonthlySeries = async (seriesId: string, months: number = 12): Promise<HistoryPoint[]> => {
+  try {
+    const from = new Date();
+    from.setMonth(from.getMonth() - months + 1, 1);
+    const buckets = await getHistoryBackend().query('daily', seriesId, bucketStart(from.getTime(), 'daily'));
+
+    const byMonth = new Map<number, { sum: number; count: number }>();
+    buckets.forEach(b => {
+      const d = new Date(b.start);
+      const month = new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+      const acc = byMonth.get(month) || { sum: 0, count: 0 };
+      byMonth.set(month, { sum: acc.sum + b.sum, count: acc.count + b.count });
+    });
+
+    return [...byMonth.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([start, acc]) => toPoint(start, acc.sum / acc.count, new Date(start).toLocaleDateString([], { month: 'short' })));
+  } catch (e) {
+    console.warn("History store read error", e);
+    return [];
+  }
+};
+
+export const getWardHistory = async (id: string): Promise<Ward['history']> => {
+  const series = wardSeries(id);
+  const [hourly, daily, monthly] = await Promise.all([
+    getHourlySeries(series, 24),
+    getDailySeries(series, 7),
+    getMonthlySeries(series, 12)
+  ]);
+  return { hourly, daily, monthly };
+};
@@ -0,0 +1,113 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { Locale } from '../types';
+import { Catalogue, MessageKey, en } from '../data/locales/en';
+import { hi } from '../data/locales/hi';
+import { pa } from '../data/locales/pa';
+import { ur } from '../data/locales/ur';
+
+export type { MessageKey };
+
+export interface LocaleInfo {
+  id: Locale;
+  name: string;         // In its own script, for the language picker
+  englishName: string;
+  script: string;
+  tag: string;          // BCP 47 tag for Intl formatting
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', name: 'English', englishName: 'English', script: 'Latin', tag: 'en-IN', dir: 'ltr' },
+  { id: 'hi', name: 'हिन्दी', englishName: 'Hindi', script: 'Devanagari', tag: 'hi-IN', dir: 'ltr' },
+  { id: 'pa', name: 'ਪੰਜਾਬੀ', englishName: 'Punjabi', script: 'Gurmukhi', tag: 'pa-IN', dir: 'ltr' },
+  { id: 'ur', name: 'اردو', englishName: 'Urdu', script: 'Nastaliq (Perso-Arabic)', tag: 'ur-IN', dir: 'rtl' }
+];
+
+const CATALOGUES: Record<Locale, Catalogue> = { en, hi, pa, ur };
+
+const LOCALE_KEY = 'pureair_locale';
+
+export const getLocaleInfo = (locale: Locale): LocaleInfo => LOCALES.find(l => l.id === locale) ?? LOCALES[0];
+
+// Saved choice first, then the browser's preferred languages
+const initialLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (saved && LOCALES.some(l => l.id === saved)) return saved as Locale;
+  } catch (e) { /* storage unavailable */ }
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  const match = preferred.map(p => p.slice(0, 2).toLowerCase()).find(p => LOCALES.some(l => l.id === p));
+  return (match as Locale) ?? 'en';
+};
+
+// `lang` picks the script's font stack in index.html; `dir` flips the layout for Urdu
+const applyToDocument = (locale: Locale) => {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = locale;
+  document.documentElement.dir = getLocaleInfo(locale).dir;
+};
+
+let currentLocale: Locale = initialLocale();
+applyToDocument(currentLocale);
+
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (e) { console.warn("Locale write error", e); }
+  applyToDocument(locale);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}, locale: Locale = currentLocale): string =>
+  new Intl.NumberFormat(getLocaleInfo(locale).tag, options).format(value);
+
+export const formatDateTime = (time: number | string | Date, options: Intl.DateTimeFormatOptions = {}, locale: Locale = currentLocale): string =>
+  new Date(time).toLocaleString(getLocaleInfo(locale).tag, options);
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Message in the given locale, falling back to English. `{name}` placeholders are
+ * filled from `params`, numbers formatted for the locale. With a numeric `count`,
+ * a `key_one`/`key_other` variant is used when the catalogue has one.
+ */
+export const translate = (key: MessageKey, params: MessageParams = {}, locale: Locale = currentLocale): string => {
+  // A catalogue's own base message wins over the English plural variant
+  const variant = typeof params.count === 'number'
+    ? `${key}_${new Intl.PluralRules(getLocaleInfo(locale).tag).select(params.count)}` as MessageKey
+    : undefined;
+  const pick = (catalogue: Catalogue) => (variant && catalogue[variant]) ?? catalogue[key];
+  const template = pick(CATALOGUES[locale]) ?? pick(en) ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    return value === undefined ? match : typeof value === 'number' ? formatNumber(value, {}, locale) : value;
+  });
+};
+
+/**
+ * The active locale with translation and formatting bound to it; components
+ * re-render when the language changes.
+ */
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return useMemo(() => ({
+    locale,
+    dir: getLocaleInfo(locale).dir,
+    t: (key: MessageKey, params?: MessageParams) => translate(key, params, locale),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, options, locale),
+    formatDateTime: (time: number | string | Date, options?: Intl.DateTimeFormatOptions) => formatDateTime(time, options, locale)
+  }), [locale]);
+};
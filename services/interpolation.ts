@@ -0,0 +1,61 @@
+import { InterpolationResult, Station } from '../types';
+import { haversineKm } from './geo';
+import { passesQc } from './stationQc';
+
+export interface IdwOptions {
+  power?: number;        // Distance decay exponent
+  maxRadiusKm?: number;  // Stations further away are ignored
+  kNearest?: number;     // Upper bound on contributing stations
+}
+
+export const DEFAULT_IDW_OPTIONS: Required<IdwOptions> = { power: 2, maxRadiusKm: 25, kNearest: 8 };
+
+// Below this distance the station reading is used directly (avoids 1/0)
+const COLOCATED_KM = 0.05;
+
+/**
+ * Inverse distance weighting over great-circle distances.
+ * Uses the k nearest QC-passing stations inside the search radius; null when none
+ * are in range. Uncertainty is the weighted standard deviation of the contributing
+ * readings.
+ */
+export const idwInterpolate = (
+  point: [number, number],
+  allStations: Station[],
+  options: IdwOptions = {}
+): InterpolationResult | null => {
+  const { power, maxRadiusKm, kNearest } = { ...DEFAULT_IDW_OPTIONS, ...options };
+  const ranked = allStations
+    .filter(passesQc)
+    .map(station => ({ station, distanceKm: haversineKm(point, [station.lat, station.lon]) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  const inRange = ranked.filter(r => r.distanceKm <= maxRadiusKm).slice(0, kNearest);
+  if (inRange.length === 0) return null;
+
+  const nearest = inRange[0];
+  const base = {
+    nearest: nearest.station.stationName,
+    nearestDistanceKm: nearest.distanceKm,
+    method: 'idw' as const
+  };
+
+  if (nearest.distanceKm < COLOCATED_KM) {
+    return { ...base, aqi: nearest.station.aqi, uncertainty: 0, stationCount: 1, extrapolated: false };
+  }
+
+  const weights = inRange.map(r => 1 / Math.pow(r.distanceKm, power));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const estimate = inRange.reduce((sum, r, i) => sum + r.station.aqi * weights[i], 0) / total;
+  const variance = inRange.reduce((sum, r, i) => sum + weights[i] * (r.station.aqi - estimate) ** 2, 0) / total;
+
+  return {
+    ...base,
+    aqi: Math.round(estimate),
+    uncertainty: Math.round(Math.sqrt(variance)),
+    stationCount: inRange.length,
+    extrapolated: false
+  };
+};
+
+export const formatDistance = (km: number): string => `${km.toFixed(1)}km`;
@@ -0,0 +1,163 @@
+import { InterpolationResult, Station, VariogramModel } from '../types';
+import { haversineKm } from './geo';
+import { passesQc } from './stationQc';
+
+const LAG_BINS = 8;
+const MIN_PAIRS_PER_BIN = 3;
+const RANGE_CANDIDATES_KM = Array.from({ length: 30 }, (_, i) => 2 + i * 2); // 2..60 km
+const DEFAULT_NEIGHBOURS = 12;
+
+/**
+ * Spherical variogram: rises from the nugget to the sill at the range, flat after.
+ */
+export const sphericalVariogram = (model: VariogramModel, h: number): number => {
+  if (h <= 0) return 0;
+  if (h >= model.rangeKm) return model.nugget + model.partialSill;
+  const r = h / model.rangeKm;
+  return model.nugget + model.partialSill * (1.5 * r - 0.5 * r ** 3);
+};
+
+/**
+ * Fits a spherical variogram to the current readings.
+ * Empirical semivariances are binned by lag; for every candidate range the nugget and
+ * partial sill follow from pair-weighted least squares, and the best-fitting range wins.
+ */
+export const fitVariogram = (allStations: Station[]): VariogramModel | null => {
+  const stations = allStations.filter(passesQc);
+  if (stations.length < 4) return null;
+
+  const pairs: { h: number; gamma: number }[] = [];
+  for (let i = 0; i < stations.length; i++) {
+    for (let j = i + 1; j < stations.length; j++) {
+      const h = haversineKm([stations[i].lat, stations[i].lon], [stations[j].lat, stations[j].lon]);
+      pairs.push({ h, gamma: 0.5 * (stations[i].aqi - stations[j].aqi) ** 2 });
+    }
+  }
+
+  const maxLag = Math.max(...pairs.map(p => p.h)) / 2;
+  if (!(maxLag > 0)) return null;
+  const width = maxLag / LAG_BINS;
+
+  const bins = Array.from({ length: LAG_BINS }, (_, b) => {
+    const inBin = pairs.filter(p => p.h > b * width && p.h <= (b + 1) * width);
+    return {
+      h: inBin.reduce((s, p) => s + p.h, 0) / (inBin.length || 1),
+      gamma: inBin.reduce((s, p) => s + p.gamma, 0) / (inBin.length || 1),
+      count: inBin.length
+    };
+  }).filter(b => b.count >= MIN_PAIRS_PER_BIN);
+
+  if (bins.length < 2) {
+    // Too sparse to see structure: pure nugget at the sample variance
+    const mean = stations.reduce((s, st) => s + st.aqi, 0) / stations.length;
+    const variance = stations.reduce((s, st) => s + (st.aqi - mean) ** 2, 0) / stations.length;
+    return { nugget: variance, partialSill: 0, rangeKm: maxLag };
+  }
+
+  let best: (VariogramModel & { sse: number }) | null = null;
+
+  for (const rangeKm of RANGE_CANDIDATES_KM) {
+    // gamma = nugget + partialSill * shape(h), linear in (nugget, partialSill)
+    const shape = (h: number) => sphericalVariogram({ nugget: 0, partialSill: 1, rangeKm }, h);
+    let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+    bins.forEach(b => {
+      const x = shape(b.h);
+      sw += b.count; sx += b.count * x; sy += b.count * b.gamma;
+      sxx += b.count * x * x; sxy += b.count * x * b.gamma;
+    });
+    const det = sw * sxx - sx * sx;
+    let partialSill = det !== 0 ? (sw * sxy - sx * sy) / det : 0;
+    let nugget = (sy - partialSill * sx) / sw;
+    if (partialSill < 0) { partialSill = 0; nugget = sy / sw; }
+    if (nugget < 0) { nugget = 0; partialSill = sxx > 0 ? sxy / sxx : 0; }
+
+    const model = { nugget, partialSill, rangeKm };
+    const sse = bins.reduce((s, b) => s + b.count * (sphericalVariogram(model, b.h) - b.gamma) ** 2, 0);
+    if (!best || sse < best.sse) best = { ...model, sse };
+  }
+
+  if (!best) return null;
+  return { nugget: best.nugget, partialSill: best.partialSill, rangeKm: best.rangeKm };
+};
+
+/**
+ * Solves A x = b by Gaussian elimination with partial pivoting; null if singular.
+ */
+const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-10) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= factor * M[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+/**
+ * Ordinary kriging estimate and prediction variance at a point,
+ * using the nearest QC-passing stations and a fitted variogram.
+ */
+export const krigeInterpolate = (
+  point: [number, number],
+  allStations: Station[],
+  model: VariogramModel,
+  neighbours: number = DEFAULT_NEIGHBOURS
+): InterpolationResult | null => {
+  const ranked = allStations
+    .filter(passesQc)
+    .map(station => ({ station, distanceKm: haversineKm(point, [station.lat, station.lon]) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, neighbours);
+
+  if (ranked.length < 2) return null;
+  const n = ranked.length;
+
+  const A: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const h = haversineKm([ranked[i].station.lat, ranked[i].station.lon], [ranked[j].station.lat, ranked[j].station.lon]);
+      row.push(sphericalVariogram(model, h));
+    }
+    row.push(1);
+    A.push(row);
+  }
+  A.push([...new Array(n).fill(1), 0]);
+  const b = [...ranked.map(r => sphericalVariogram(model, r.distanceKm)), 1];
+
+  const solution = solveLinearSystem(A, b);
+  if (!solution) return null;
+
+  const lambdas = solution.slice(0, n);
+  const mu = solution[n];
+  const estimate = lambdas.reduce((s, l, i) => s + l * ranked[i].station.aqi, 0);
+  const variance = Math.max(0, lambdas.reduce((s, l, i) => s + l * b[i], 0) + mu);
+
+  return {
+    aqi: Math.max(0, Math.round(estimate)),
+    nearest: ranked[0].station.stationName,
+    nearestDistanceKm: ranked[0].distanceKm,
+    uncertainty: Math.round(Math.sqrt(variance)),
+    variance,
+    stationCount: n,
+    extrapolated: ranked[0].distanceKm > model.rangeKm,
+    method: 'kriging'
+  };
+};
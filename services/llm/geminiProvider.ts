@@ -0,0 +1,73 @@
+import { FunctionCall, GoogleGenAI, Part } from '@google/genai';
+import { GroundingChunk, LlmMessage, LlmProvider, LlmToolCall } from '../../types';
+
+// Tool results go first in a user turn and tool calls last in a model turn, as the API expects
+const toParts = ({ text, toolCalls = [], toolResults = [] }: LlmMessage): Part[] => [
+  ...toolResults.map(r => ({ functionResponse: { id: r.id, name: r.name, response: { result: r.result } } })),
+  ...(text ? [{ text }] : []),
+  ...toolCalls.map(c => ({ functionCall: { id: c.id, name: c.name, args: c.args } }))
+];
+
+const toToolCall = (c: FunctionCall): LlmToolCall => ({ id: c.id, name: c.name ?? '', args: c.args ?? {} });
+
+/**
+ * Google Gemini via @google/genai. Function tools, grounding (Search or Maps) and a
+ * response schema are mutually exclusive; they are used in that order of preference.
+ * With `onText` the reply is streamed.
+ */
+export const createGeminiProvider = ({ apiKey }: { apiKey?: string }): LlmProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    supportsImages: true,
+    isConfigured: () => Boolean(apiKey),
+    generate: async ({ model, prompt, system, history = [], image, responseSchema, grounding, tools, toolResults }, { signal, onText } = {}) => {
+      const grounded = grounding?.kind === 'search'
+        ? { tools: [{ googleSearch: {} }] }
+        : grounding?.kind === 'maps'
+          ? { tools: [{ googleMaps: {} }], toolConfig: { retrievalConfig: { latLng: { latitude: grounding.lat, longitude: grounding.lng } } } }
+          : null;
+      const output = tools?.length
+        ? { tools: [{ functionDeclarations: tools }] }
+        : grounded ?? (responseSchema ? { responseMimeType: 'application/json', responseSchema } : {});
+
+      const finalTurn: LlmMessage = { role: 'user', text: prompt, toolResults };
+      const params = {
+        model,
+        contents: [...history, finalTurn].map(m => ({
+          role: m.role,
+          parts: image && m === finalTurn ? [{ inlineData: image }, ...toParts(m)] : toParts(m)
+        })),
+        config: { systemInstruction: system, abortSignal: signal, ...output }
+      };
+
+      if (!onText) {
+        const response = await getClient().models.generateContent(params);
+        return {
+          text: response.text ?? '',
+          sources: (response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[]) ?? [],
+          toolCalls: response.functionCalls?.map(toToolCall)
+        };
+      }
+
+      let text = '';
+      let sources: GroundingChunk[] = [];
+      const toolCalls: LlmToolCall[] = [];
+      for await (const chunk of await getClient().models.generateContentStream(params)) {
+        if (chunk.text) {
+          text += chunk.text;
+          onText(text);
+        }
+        toolCalls.push(...(chunk.functionCalls ?? []).map(toToolCall));
+        sources = (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[]) ?? sources;
+      }
+      return { text, sources, toolCalls };
+    }
+  };
+};
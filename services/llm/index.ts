@@ -0,0 +1,63 @@
+import { LlmProvider, LlmTask } from '../../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalLlmProvider } from './localProvider';
+import { createRecordingProvider, createReplayProvider, recordingKey } from './replayProvider';
+
+export { createGeminiProvider, createLocalLlmProvider, createRecordingProvider, createReplayProvider, recordingKey };
+
+export const DEFAULT_TASK_MODELS: Record<LlmTask, string> = {
+  insight: 'gemini-3-flash-preview',
+  assistant: 'gemini-3-flash-preview',
+  attribution: 'gemini-3-flash-preview',
+  forecast: 'gemini-3-pro-preview',
+  plan: 'gemini-3-flash-preview',
+  vision: 'gemini-2.5-flash-image',
+  health: 'gemini-3-flash-preview',
+  decision: 'gemini-3-pro-preview',
+  'policy-news': 'gemini-3-flash-preview',
+  'safe-zones': 'gemini-2.5-flash'
+};
+
+// LLM_MODELS="forecast=gemini-2.5-pro,assistant=gemini-2.5-flash" overrides single tasks
+const parseModelOverrides = (spec: string | undefined): Partial<Record<LlmTask, string>> =>
+  Object.fromEntries((spec ?? '')
+    .split(',')
+    .map(pair => pair.split('=').map(s => s.trim()))
+    .filter(([task, model]) => model && task in DEFAULT_TASK_MODELS));
+
+const taskModels: Record<LlmTask, string> = { ...DEFAULT_TASK_MODELS, ...parseModelOverrides(process.env.LLM_MODELS) };
+
+export const getTaskModel = (task: LlmTask): string => taskModels[task];
+
+export const setTaskModel = (task: LlmTask, model: string) => {
+  taskModels[task] = model;
+};
+
+/**
+ * Picks the provider from build-time env (see vite.config.ts):
+ * LLM_PROVIDER = gemini | replay | local, with LLM_REPLAY_URL for recorded responses.
+ * Without a Gemini key the app runs on the local rule-based provider.
+ */
+const createDefaultProvider = (): LlmProvider => {
+  const gemini = createGeminiProvider({ apiKey: process.env.API_KEY });
+  switch (process.env.LLM_PROVIDER) {
+    case 'gemini': return gemini;
+    case 'replay': return createReplayProvider({ url: process.env.LLM_REPLAY_URL || '/fixtures/llm-recordings.json' });
+    case 'local': return createLocalLlmProvider();
+    default: return gemini.isConfigured() ? gemini : createLocalLlmProvider();
+  }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) activeProvider = createDefaultProvider();
+  return activeProvider;
+};
+
+/**
+ * Swaps the LLM backend at runtime (tests, offline demos, recording fixtures).
+ */
+export const setLlmProvider = (provider: LlmProvider) => {
+  activeProvider = provider;
+};
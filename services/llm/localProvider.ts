@@ -0,0 +1,273 @@
+import {
+  AtmosphericPrediction,
+  DecisionMatrix,
+  HealthRiskAssessment,
+  LlmCallOptions,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmToolCall,
+  LlmToolResult,
+  Locale,
+  MitigationPlan,
+  Ward
+} from '../../types';
+import { GREEN_SPACES } from '../../data/greenSpaces';
+import { getAqiCategory } from '../aqiCategories';
+import { describeGrapState, getGrapMeasures, grapStageForAqi, loadGrapState } from '../grap';
+import { haversineKm } from '../geo';
+import { MessageKey, MessageParams, formatDateTime, translate } from '../i18n';
+import { dominantSector } from '../sourceApportionment';
+import { riskFromAqi } from '../forecasting';
+
+// Typical local emission cut from enforcing each stage's measures
+const STAGE_REDUCTION = ['5-10%', '10-15%', '15-20%', '20-25%', '25-30%'];
+
+const json = (value: unknown): LlmResponse => ({ text: JSON.stringify(value) });
+
+const stageLabel = (stage: number, locale: Locale) => translate(`grap.label.${stage}` as MessageKey, {}, locale);
+
+const categoryLabel = (aqi: number, locale: Locale) => translate(`level.${getAqiCategory(aqi).level}`, {}, locale);
+
+const measureTitle = (id: string, locale: Locale) => translate(`grap.measure.${id}` as MessageKey, {}, locale);
+
+const sectorMeasures = (ward: Ward, count: number) => {
+  const sector = dominantSector(ward.breakdown);
+  return getGrapMeasures(Math.max(grapStageForAqi(ward.aqi), 1))
+    .filter(m => m.wardRelevance === 'all' || m.wardRelevance.includes(sector))
+    .sort((a, b) => b.stage - a.stage)
+    .slice(0, count);
+};
+
+const insight = (aqi: number, dominant: string, locale: Locale) => {
+  const stage = grapStageForAqi(aqi);
+  const category = categoryLabel(aqi, locale);
+  const [first, second] = getGrapMeasures(stage).filter(m => m.stage === stage).slice(0, 2).map(m => measureTitle(m.id, locale).toLowerCase());
+  const measures = second ? translate('local.and', { first, second }, locale) : first;
+  const text = stage > 0
+    ? translate('local.insight.stage', { aqi, category, dominant, stage: stageLabel(stage, locale), measures, reduction: STAGE_REDUCTION[stage] }, locale)
+    : translate('local.insight.none', { aqi, category, dominant, reduction: STAGE_REDUCTION[0] }, locale);
+  return { text, confidence: 'Medium' };
+};
+
+const forecast = (currentAqi: number, trendSlope: number, baseline: AtmosphericPrediction[], locale: Locale): AtmosphericPrediction[] =>
+  baseline.length > 0
+    ? baseline
+    : [24, 48, 72].map(hours => {
+        const aqi = Math.round(Math.min(999, Math.max(0, currentAqi + trendSlope * hours)));
+        return {
+          hours,
+          aqi,
+          primaryPollutant: 'PM2.5',
+          riskLevel: riskFromAqi(aqi),
+          confidence: Math.max(30, 70 - hours / 2),
+          explanation: translate('local.forecast.explanation', {}, locale),
+          model: 'rules' as const
+        };
+      });
+
+const mitigationPlan = (ward: Ward, locale: Locale): MitigationPlan => {
+  const sector = dominantSector(ward.breakdown);
+  const stage = grapStageForAqi(ward.aqi);
+  const risk = riskFromAqi(ward.aqi);
+  return {
+    summary: translate('local.plan.summary', {
+      source: translate(`source.${sector}`, {}, locale),
+      ward: ward.name,
+      aqi: ward.aqi,
+      stage: stage > 0 ? stageLabel(stage, locale) : translate('local.plan.preventive', {}, locale)
+    }, locale),
+    steps: sectorMeasures(ward, 5).map(m => `${measureTitle(m.id, locale)} (${m.agency})`),
+    priority: risk === 'Extreme' ? 'High' : risk
+  };
+};
+
+const healthRisk = (
+  { ageGroup, condition, outdoorHours = 2 }: { ageGroup: string; condition: string; outdoorHours?: number },
+  aqi: number,
+  locale: Locale
+): HealthRiskAssessment => {
+  const sensitive = condition !== 'None' || ageGroup !== 'Adult';
+  // Long days outdoors breathe unfiltered air for longer
+  const effective = aqi * (sensitive ? 1.3 : 1) * (outdoorHours > 4 ? 1.15 : 1);
+  const risk: HealthRiskAssessment['dailyExposureRisk'] =
+    effective <= 100 ? 'Low' : effective <= 200 ? 'Moderate' : effective <= 300 ? 'High' : 'Critical';
+  const limits = { Low: 240, Moderate: 120, High: sensitive ? 30 : 60, Critical: sensitive ? 0 : 15 };
+  const who = translate(`local.health.who.${condition !== 'None' ? condition : ageGroup}` as MessageKey, {}, locale);
+  return {
+    dailyExposureRisk: risk,
+    recommendedOutdoorLimit: limits[risk],
+    protectiveMeasure: translate(`local.health.protect.${risk === 'Critical' ? 'High' : risk}`, {}, locale),
+    personalizedWarning: translate('local.health.warning', {
+      aqi,
+      category: categoryLabel(aqi, locale),
+      who,
+      risk: translate(`risk.${risk}`, {}, locale).toLowerCase()
+    }, locale),
+    confidence: 70
+  };
+};
+
+const AFFECTED_GROUPS: MessageKey[] = ['local.group.children', 'local.group.elderly', 'local.group.respiratory', 'local.group.outdoor'];
+
+const decision = (aqi: number, trend: string, locale: Locale): DecisionMatrix => {
+  const stage = grapStageForAqi(aqi);
+  const worsening = /worsen|rising|up/i.test(trend);
+  const escalation: DecisionMatrix['escalationLevel'] = stage >= 4 ? 'Lockdown' : stage === 3 ? 'Emergency' : stage > 0 ? 'Alert' : 'Monitor';
+  const topMeasure = getGrapMeasures(stage).filter(m => m.stage === stage)[0];
+  return {
+    overallRiskScore: Math.min(100, Math.round(aqi / 5) + (worsening ? 10 : 0)),
+    recommendedAction: topMeasure ? measureTitle(topMeasure.id, locale) : translate('local.decision.monitor', {}, locale),
+    affectedGroups: AFFECTED_GROUPS.slice(0, Math.max(1, stage + (worsening ? 1 : 0))).map(key => translate(key, {}, locale)),
+    escalationLevel: escalation,
+    reasoningSummary: translate('local.decision.reasoning', { aqi, stage: stageLabel(stage, locale), trend: trend.toLowerCase() }, locale),
+    confidenceScore: 75
+  };
+};
+
+const assistantReply = (query: string, locale: Locale, cityAqi?: number, grapLabel?: string, ward?: Ward | null): string => {
+  const q = query.toLowerCase();
+  const t = (key: MessageKey, params?: MessageParams) => translate(key, params, locale);
+  const city = cityAqi !== undefined ? t('local.assistant.city', { aqi: cityAqi, category: categoryLabel(cityAqi, locale) }) : t('local.assistant.noCity');
+  const wardLine = ward
+    ? t('local.assistant.ward', { ward: ward.name, aqi: ward.aqi, source: t(`source.${dominantSector(ward.breakdown)}`).toLowerCase() })
+    : '';
+
+  if (/grap|stage|ban|restrict/.test(q)) {
+    const status = describeGrapState(loadGrapState());
+    const measures = (status.measures ?? []).filter(m => m.stage === status.stage).slice(0, 3).map(m => `- ${measureTitle(m.id, locale)}`);
+    // The city bulletin's label is English; other languages use the stage's own
+    const label = locale === 'en' && grapLabel ? grapLabel : stageLabel(status.stage, locale);
+    return [t('local.assistant.grap', { label, description: t(`grap.description.${status.stage}` as MessageKey) }), ...measures].join('\n');
+  }
+  if (/health|mask|outside|outdoor|run|exercise|child|asthma/.test(q)) {
+    const aqi = ward?.aqi ?? cityAqi;
+    if (aqi === undefined) return city;
+    const risk = healthRisk({ ageGroup: 'Adult', condition: 'None' }, aqi, locale);
+    return t('local.assistant.health', { city, measure: risk.protectiveMeasure, minutes: risk.recommendedOutdoorLimit });
+  }
+  if (/source|cause|why|where/.test(q) && ward) return wardLine;
+  return [city, wardLine, t('local.assistant.hint')].filter(Boolean).join(' ');
+};
+
+const NUMBER_WORDS: Record<string, number> = { three: 3, five: 5, ten: 10 };
+const REGION_PATTERN = /\b(north|south|east|west|central)\b/;
+
+const capitalise = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/**
+ * Keyword intents for the assistant's data tools: the tool call a question maps to,
+ * or none when plain rules can answer it.
+ */
+const assistantToolCalls = (query: string, ward?: Ward | null): LlmToolCall[] => {
+  const q = query.toLowerCase();
+  const region = q.match(REGION_PATTERN)?.[1];
+  const wardNo = q.match(/ward\s*(?:no\.?\s*)?(\d+)/)?.[1];
+  const wardRef = wardNo ?? ward?.name;
+  const count = Number(q.match(/\b(\d{1,2})\b(?!\s*h)/)?.[1]) || NUMBER_WORDS[q.match(/\b(three|five|ten)\b/)?.[1] ?? ''] || 5;
+  const call = (name: string, args: Record<string, unknown>): LlmToolCall[] => [{ id: `local-${name}`, name, args }];
+
+  if (/factor|industr|\bunits?\b|ledger|complian|violat/.test(q)) return call('get_factories', region ? { zone: region } : {});
+  if (/worst|best|\btop\b|rank|cleanest|most polluted|least polluted|highest|lowest|compare/.test(q)) {
+    return call('rank_wards', {
+      ...(region ? { region: capitalise(region) } : {}),
+      order: /best|cleanest|least|lowest/.test(q) ? 'best' : 'worst',
+      limit: count
+    });
+  }
+  if (/forecast|tomorrow|predict|outlook|\bnext\b|will\b/.test(q)) {
+    const hours = Number(q.match(/(\d+)\s*h/)?.[1]) || (/day after/.test(q) ? 48 : 24);
+    return call('get_forecast', { ...(wardRef ? { ward: wardRef } : {}), hours });
+  }
+  if (/history|past|last|yesterday|week|month|trend/.test(q) && wardRef) {
+    return call('get_ward_history', { ward: wardRef, range: /month|year/.test(q) ? 'monthly' : /today|hour|yesterday/.test(q) ? 'hourly' : 'daily' });
+  }
+  if (/grap|stage|measure|\bbans?\b|restrict/.test(q)) return call('get_grap_measures', {});
+  if (wardNo) return call('find_ward', { query: wardNo });
+  return [];
+};
+
+const summariseToolResults = (results: LlmToolResult[], locale: Locale): string =>
+  results
+    .map(r => (r.result && typeof r.result === 'object' && 'summary' in r.result ? String(r.result.summary) : ''))
+    .filter(Boolean)
+    .join('\n') || translate('local.assistant.noData', {}, locale);
+
+const safeZones = (lat: number, lng: number, locale: Locale): string => {
+  const nearest = GREEN_SPACES
+    .map(g => ({ ...g, distance: haversineKm([lat, lng], [g.lat, g.lng]) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3);
+  return [
+    translate('local.safeZones.title', {}, locale),
+    ...nearest.map(g => translate('local.safeZones.item', { name: g.name, distance: Math.round(g.distance * 10) / 10, area: g.areaHa }, locale)),
+    translate('local.safeZones.route', {}, locale)
+  ].join('\n');
+};
+
+const answer = (request: LlmRequest): LlmResponse => {
+  const locale = request.locale ?? 'en';
+  switch (request.task) {
+    case 'insight': return json(insight(request.input.aqi, request.input.dominant, locale));
+    case 'assistant': {
+      const { query, cityAqi, grapLabel, ward } = request.input;
+      if (request.toolResults?.length) return { text: summariseToolResults(request.toolResults, locale) };
+      const toolCalls = request.tools?.length ? assistantToolCalls(query, ward) : [];
+      return toolCalls.length > 0 ? { text: '', toolCalls } : { text: assistantReply(query, locale, cityAqi, grapLabel, ward) };
+    }
+    case 'attribution': {
+      const { reasoning, socialSnippet } = request.input.attribution;
+      return json({ reasoning, socialSnippet });
+    }
+    case 'forecast': {
+      const { currentAqi, trendSlope, baseline } = request.input;
+      return json(forecast(currentAqi, trendSlope, baseline, locale));
+    }
+    case 'plan': return json(mitigationPlan(request.input.ward, locale));
+    case 'health': return json(healthRisk(request.input.profile, request.input.aqi, locale));
+    case 'decision': return json(decision(request.input.aqi, request.input.trend, locale));
+    case 'policy-news': {
+      const status = describeGrapState(loadGrapState());
+      const since = status.since ? translate('local.policy.since', { time: formatDateTime(status.since, {}, locale) }, locale) : '';
+      return {
+        text: translate('local.policy.status', {
+          label: stageLabel(status.stage, locale),
+          since,
+          description: translate(`grap.description.${status.stage}` as MessageKey, {}, locale),
+          count: status.measures?.length ?? 0
+        }, locale),
+        sources: []
+      };
+    }
+    case 'safe-zones': return { text: safeZones(request.input.lat, request.input.lng, locale), sources: [] };
+    case 'vision': throw new Error('The local provider cannot analyse images.');
+  }
+};
+
+// Emits the answer a few words at a time so the chat UI streams as it does online
+const streamText = async (text: string, { signal, onText }: LlmCallOptions) => {
+  const words = text.split(/(?<=\s)/);
+  for (let i = 4; i < words.length + 4; i += 4) {
+    signal?.throwIfAborted();
+    onText?.(words.slice(0, i).join(''));
+    await new Promise(resolve => setTimeout(resolve, 15));
+  }
+};
+
+/**
+ * Deterministic rule-based answers built from the task inputs and the app's own
+ * GRAP, apportionment and category logic. Needs no network, so the whole app and
+ * its tests run offline.
+ */
+export const createLocalLlmProvider = (): LlmProvider => ({
+  id: 'local',
+  label: 'Local Rules',
+  supportsImages: false,
+  isConfigured: () => true,
+  generate: async (request, options = {}) => {
+    const response = answer(request);
+    if (options.onText && response.text) await streamText(response.text, options);
+    options.signal?.throwIfAborted();
+    return response;
+  }
+});
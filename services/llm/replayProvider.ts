@@ -0,0 +1,72 @@
+import { LlmProvider, LlmRecording, LlmRequest } from '../../types';
+
+// FNV-1a; stable across runs and cheap enough for prompts and small images
+const hash = (text: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+export const recordingKey = ({ model, prompt, system, history = [], image, toolResults }: LlmRequest): string =>
+  hash([
+    model,
+    system ?? '',
+    ...history.map(m => JSON.stringify(m)),
+    JSON.stringify(toolResults ?? []),
+    prompt,
+    image ? hash(image.data) : ''
+  ].join('\n'));
+
+/**
+ * Serves previously recorded responses, from `recordings` or a JSON file at `url`.
+ * A request matches on its key; when `strict` is off an unmatched request falls back
+ * to the latest recording for the same task, so fixtures survive small prompt changes.
+ */
+export const createReplayProvider = ({ recordings = [], url, strict = false }: { recordings?: LlmRecording[]; url?: string; strict?: boolean }): LlmProvider => {
+  let loaded: Promise<LlmRecording[]> | null = null;
+  const load = () => {
+    if (!loaded) {
+      loaded = url
+        ? fetch(url).then(res => (res.ok ? res.json() : [])).then(json => [...recordings, ...(Array.isArray(json) ? json : [])])
+        : Promise.resolve(recordings);
+    }
+    return loaded;
+  };
+
+  return {
+    id: 'replay',
+    label: 'Recorded Responses',
+    supportsImages: true,
+    isConfigured: () => true,
+    generate: async (request, { signal, onText } = {}) => {
+      const all = await load();
+      const key = recordingKey(request);
+      const match = all.find(r => r.key === key)
+        ?? (strict ? undefined : [...all].reverse().find(r => r.task === request.task));
+      if (!match) throw new Error(`No recorded response for ${request.task} (${key})`);
+      signal?.throwIfAborted();
+      if (match.response.text) onText?.(match.response.text);
+      return match.response;
+    }
+  };
+};
+
+/**
+ * Wraps a provider and keeps every request/response pair, for saving as replay fixtures.
+ */
+export const createRecordingProvider = (inner: LlmProvider): LlmProvider & { recordings: LlmRecording[] } => {
+  const recordings: LlmRecording[] = [];
+  return {
+    ...inner,
+    id: `${inner.id}-recording`,
+    recordings,
+    generate: async (request, options) => {
+      const response = await inner.generate(request, options);
+      recordings.push({ task: request.task, key: recordingKey(request), response });
+      return response;
+    }
+  };
+};
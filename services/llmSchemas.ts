@@ -0,0 +1,226 @@
+import { Schema, Type } from '@google/genai';
+import {
+  AtmosphericPrediction,
+  DecisionMatrix,
+  HealthRiskAssessment,
+  MitigationPlan,
+  SourceAttribution,
+  VisionAnalysisResult
+} from '../types';
+
+export type Validated<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; issues: string[] };
+
+/**
+ * Runtime check for one LLM response shape. `responseSchema` is the same shape in
+ * Gemini's structured-output format; `validate` coerces near-misses (numeric strings,
+ * out-of-range numbers, enum casing) and records each repair, and rejects the rest.
+ */
+export interface RuntimeSchema<T> {
+  responseSchema: Schema;
+  validate: (value: unknown, path?: string) => Validated<T>;
+  optional?: boolean;
+}
+
+const ok = <T>(value: T, repairs: string[] = []): Validated<T> => ({ ok: true, value, repairs });
+const fail = <T>(issue: string): Validated<T> => ({ ok: false, issues: [issue] });
+const at = (path: string) => path || 'response';
+
+export const string = (options: { minLength?: number } = {}): RuntimeSchema<string> => ({
+  responseSchema: { type: Type.STRING },
+  validate: (value, path = '') => {
+    if (typeof value === 'number' || typeof value === 'boolean') return ok(String(value), [`${at(path)}: converted to text`]);
+    if (typeof value !== 'string') return fail(`${at(path)}: expected text`);
+    if (value.trim().length < (options.minLength ?? 1)) return fail(`${at(path)}: must not be empty`);
+    return ok(value.trim());
+  }
+});
+
+export const number = (options: { min?: number; max?: number; integer?: boolean } = {}): RuntimeSchema<number> => ({
+  responseSchema: { type: options.integer ? Type.INTEGER : Type.NUMBER, minimum: options.min, maximum: options.max },
+  validate: (value, path = '') => {
+    const repairs: string[] = [];
+    let n = value;
+    if (typeof n === 'string' && n.trim() !== '' && Number.isFinite(Number(n.replace('%', '')))) {
+      n = Number(n.replace('%', ''));
+      repairs.push(`${at(path)}: parsed number from text`);
+    }
+    if (typeof n !== 'number' || !Number.isFinite(n)) return fail(`${at(path)}: expected a number`);
+    let v = options.integer ? Math.round(n) : n;
+    if (options.min !== undefined && v < options.min) {
+      repairs.push(`${at(path)}: ${v} raised to ${options.min}`);
+      v = options.min;
+    }
+    if (options.max !== undefined && v > options.max) {
+      repairs.push(`${at(path)}: ${v} lowered to ${options.max}`);
+      v = options.max;
+    }
+    return ok(v, repairs);
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): RuntimeSchema<T> => ({
+  responseSchema: { type: Type.STRING, enum: [...values] },
+  validate: (value, path = '') => {
+    if (typeof value !== 'string') return fail(`${at(path)}: expected one of ${values.join(', ')}`);
+    if ((values as readonly string[]).includes(value)) return ok(value as T);
+    const match = values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+    return match
+      ? ok(match, [`${at(path)}: "${value}" normalised to "${match}"`])
+      : fail(`${at(path)}: "${value}" is not one of ${values.join(', ')}`);
+  }
+});
+
+export const arrayOf = <T>(item: RuntimeSchema<T>, options: { minItems?: number; maxItems?: number } = {}): RuntimeSchema<T[]> => ({
+  responseSchema: {
+    type: Type.ARRAY,
+    items: item.responseSchema,
+    minItems: options.minItems !== undefined ? String(options.minItems) : undefined,
+    maxItems: options.maxItems !== undefined ? String(options.maxItems) : undefined
+  },
+  validate: (value, path = '') => {
+    if (!Array.isArray(value)) return fail(`${at(path)}: expected a list`);
+    const repairs: string[] = [];
+    let items = value;
+    if (options.maxItems !== undefined && items.length > options.maxItems) {
+      repairs.push(`${at(path)}: truncated to ${options.maxItems} items`);
+      items = items.slice(0, options.maxItems);
+    }
+    if (items.length < (options.minItems ?? 0)) return fail(`${at(path)}: expected at least ${options.minItems} items`);
+
+    const results = items.map((v, i) => item.validate(v, `${path}[${i}]`));
+    const issues = results.flatMap(r => (r.ok ? [] : r.issues));
+    if (issues.length > 0) return { ok: false, issues };
+    return ok(results.map(r => (r as { value: T }).value), [...repairs, ...results.flatMap(r => (r.ok ? r.repairs : []))]);
+  }
+});
+
+export const optional = <T>(schema: RuntimeSchema<T>): RuntimeSchema<T | undefined> => ({
+  ...schema,
+  optional: true,
+  validate: (value, path) => (value === undefined || value === null ? ok(undefined) : schema.validate(value, path))
+});
+
+/**
+ * Object schema; unknown keys are dropped. Pass the target type explicitly so the
+ * shape is checked against it at compile time.
+ */
+export const object = <T extends object>(shape: { [K in keyof T]-?: RuntimeSchema<T[K]> }): RuntimeSchema<T> => {
+  const keys = Object.keys(shape) as (keyof T & string)[];
+  return {
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(keys.map(k => [k, shape[k].responseSchema])),
+      required: keys.filter(k => !shape[k].optional),
+      propertyOrdering: keys
+    },
+    validate: (value, path = '') => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(`${at(path)}: expected an object`);
+      const out: Partial<T> = {};
+      const issues: string[] = [];
+      const repairs: string[] = [];
+      for (const key of keys) {
+        const result = shape[key].validate((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (!result.ok) {
+          issues.push(...result.issues);
+        } else {
+          if (result.value !== undefined) out[key] = result.value;
+          repairs.push(...result.repairs);
+        }
+      }
+      return issues.length > 0 ? { ok: false, issues } : ok(out as T, repairs);
+    }
+  };
+};
+
+// 0-100 score; a fraction such as 0.8 is read as 80%
+const percent = (): RuntimeSchema<number> => {
+  const base = number({ min: 0, max: 100, integer: true });
+  return {
+    ...base,
+    validate: (value, path = '') => {
+      if (typeof value !== 'number' || value <= 0 || value >= 1) return base.validate(value, path);
+      const result = base.validate(value * 100, path);
+      return result.ok ? { ...result, repairs: [`${at(path)}: fraction ${value} scaled to percent`, ...result.repairs] } : result;
+    }
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Response schemas
+
+export const sourceAttributionSchema = object<SourceAttribution>({
+  dominantSource: object<SourceAttribution['dominantSource']>({
+    label: string(),
+    type: oneOf(['vehicular', 'industrial', 'construction', 'biomass', 'regional'] as const),
+    confidence: percent()
+  }),
+  secondarySources: arrayOf(object<{ label: string; weight: number }>({ label: string(), weight: percent() }), { maxItems: 6 }),
+  reasoning: arrayOf(string(), { minItems: 1, maxItems: 6 }),
+  socialSnippet: string(),
+  confidenceScore: percent(),
+  factors: optional(arrayOf(object<NonNullable<SourceAttribution['factors']>[number]>({
+    sector: oneOf(['transport', 'construction', 'industry', 'waste'] as const),
+    indicator: oneOf(['prior', 'pm-ratio', 'no2-co', 'so2-no2', 'land-use', 'time-of-day'] as const),
+    multiplier: number({ min: 0 }),
+    note: string()
+  }))),
+  narratedBy: optional(oneOf(['llm', 'template'] as const))
+});
+
+// The part of an attribution the LLM is allowed to write
+export const attributionNarrationSchema = object<Pick<SourceAttribution, 'reasoning' | 'socialSnippet'>>({
+  reasoning: arrayOf(string(), { minItems: 1, maxItems: 6 }),
+  socialSnippet: string()
+});
+
+// The model label is set by the caller, never taken from the LLM
+export const atmosphericPredictionSchema = object<Omit<AtmosphericPrediction, 'model'>>({
+  hours: number({ min: 1, max: 168, integer: true }),
+  aqi: number({ min: 0, max: 999, integer: true }),
+  primaryPollutant: string(),
+  riskLevel: oneOf(['Extreme', 'High', 'Medium', 'Low'] as const),
+  confidence: percent(),
+  explanation: string(),
+  lower: optional(number({ min: 0, max: 999, integer: true })),
+  upper: optional(number({ min: 0, max: 999, integer: true }))
+});
+
+export const atmosphericForecastSchema = arrayOf(atmosphericPredictionSchema, { minItems: 1, maxItems: 6 });
+
+export const mitigationPlanSchema = object<MitigationPlan>({
+  summary: string(),
+  steps: arrayOf(string(), { minItems: 1, maxItems: 8 }),
+  priority: oneOf(['High', 'Medium', 'Low'] as const)
+});
+
+export const healthRiskAssessmentSchema = object<HealthRiskAssessment>({
+  dailyExposureRisk: oneOf(['Low', 'Moderate', 'High', 'Critical'] as const),
+  recommendedOutdoorLimit: number({ min: 0, max: 1440, integer: true }),
+  protectiveMeasure: string(),
+  personalizedWarning: string(),
+  confidence: percent()
+});
+
+export const decisionMatrixSchema = object<DecisionMatrix>({
+  overallRiskScore: percent(),
+  recommendedAction: string(),
+  affectedGroups: arrayOf(string(), { maxItems: 8 }),
+  escalationLevel: oneOf(['Monitor', 'Alert', 'Emergency', 'Lockdown'] as const),
+  reasoningSummary: string(),
+  confidenceScore: percent()
+});
+
+export const visionAnalysisSchema = object<VisionAnalysisResult>({
+  visualPollutionScore: percent(),
+  detectedSource: string(),
+  anomalyProbability: percent(),
+  confidenceScore: percent(),
+  reasoning: string()
+});
+
+export const mitigationInsightSchema = object<{ text: string; confidence: 'High' | 'Medium' | 'Experimental' }>({
+  text: string(),
+  confidence: oneOf(['High', 'Medium', 'Experimental'] as const)
+});
@@ -0,0 +1,206 @@
+import { AtmosphericPrediction, DispersionCategory, DispersionSummary, WeatherObservation, WeatherProvider } from '../types';
+import { MOCK_WEATHER_DAY } from '../data/mockWeather';
+import { riskFromAqi } from './forecasting';
+
+const HOUR_MS = 3600 * 1000;
+const CACHE_TTL = 30 * 60 * 1000;
+const OPEN_METEO_BASE = 'https://api.open-meteo.com/v1/forecast';
+
+export const DELHI_CENTRE: [number, number] = [28.6139, 77.2090];
+
+// Ventilation index bands (m²/s) used by the IITM/IMD air quality early warning bulletins
+const VENTILATION_BANDS: { max: number; category: DispersionCategory }[] = [
+  { max: 2000, category: 'stagnant' },
+  { max: 6000, category: 'poor' },
+  { max: 10000, category: 'moderate' },
+  { max: Infinity, category: 'good' }
+];
+const INVERSION_MIXING_HEIGHT_M = 300;
+const INVERSION_WIND_KMH = 7;
+const RAIN_WASHOUT_MM = 1;
+
+// How strongly AQI responds to a change in ventilation (AQI ∝ VI^-elasticity)
+const VENTILATION_ELASTICITY = 0.35;
+const MAX_MET_ADJUSTMENT = 0.4;
+
+export const DISPERSION_LABELS: Record<DispersionCategory, string> = {
+  stagnant: 'Stagnant',
+  poor: 'Poor Dispersion',
+  moderate: 'Moderate Dispersion',
+  good: 'Good Dispersion'
+};
+
+/**
+ * Offline fixture: repeats a representative diurnal cycle for the requested hours.
+ */
+export const createFixtureWeatherProvider = (): WeatherProvider => ({
+  id: 'fixture',
+  label: 'Offline Weather Fixture',
+  fetchHourly: async (_lat, _lng, hours) => {
+    const start = new Date();
+    start.setMinutes(0, 0, 0);
+    return Array.from({ length: hours }, (_, i) => {
+      const time = start.getTime() + i * HOUR_MS;
+      return { time, ...MOCK_WEATHER_DAY[new Date(time).getHours()] };
+    });
+  }
+});
+
+/**
+ * Open-Meteo adapter (no key). Boundary layer height comes from the ECMWF/GFS blend.
+ */
+export const createOpenMeteoProvider = (): WeatherProvider => ({
+  id: 'open-meteo',
+  label: 'Open-Meteo',
+  fetchHourly: async (lat, lng, hours) => {
+    const params = new URLSearchParams({
+      latitude: lat.toFixed(4),
+      longitude: lng.toFixed(4),
+      hourly: 'wind_speed_10m,wind_direction_10m,boundary_layer_height,temperature_2m,relative_humidity_2m,precipitation',
+      forecast_hours: String(hours),
+      timeformat: 'unixtime'
+    });
+    const res = await fetch(`${OPEN_METEO_BASE}?${params}`);
+    if (!res.ok) return [];
+    const { hourly } = await res.json();
+    if (!hourly || !Array.isArray(hourly.time)) return [];
+
+    return hourly.time.map((t: number, i: number) => ({
+      time: t * 1000,
+      windSpeed: hourly.wind_speed_10m?.[i] ?? 0,
+      windDirection: hourly.wind_direction_10m?.[i] ?? 0,
+      boundaryLayerHeight: hourly.boundary_layer_height?.[i] ?? 0,
+      temperature: hourly.temperature_2m?.[i] ?? 0,
+      humidity: hourly.relative_humidity_2m?.[i] ?? 0,
+      rainfall: hourly.precipitation?.[i] ?? 0
+    }));
+  }
+});
+
+/**
+ * WEATHER_PROVIDER = open-meteo | fixture (default) from build-time env.
+ */
+let activeProvider: WeatherProvider | null = null;
+
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!activeProvider) {
+    activeProvider = process.env.WEATHER_PROVIDER === 'open-meteo' ? createOpenMeteoProvider() : createFixtureWeatherProvider();
+  }
+  return activeProvider;
+};
+
+export const setWeatherProvider = (provider: WeatherProvider) => {
+  activeProvider = provider;
+  weatherCache = null;
+};
+
+let weatherCache: { data: WeatherObservation[]; timestamp: number } | null = null;
+
+/**
+ * Hourly weather for the city centre from the current hour, cached for 30 minutes.
+ * Empty when the provider is unreachable.
+ */
+export const fetchWeatherOutlook = async (hours: number = 72): Promise<WeatherObservation[]> => {
+  const now = Date.now();
+  if (weatherCache && now - weatherCache.timestamp < CACHE_TTL && weatherCache.data.length >= hours) {
+    return weatherCache.data.slice(0, hours);
+  }
+  try {
+    const data = await getWeatherProvider().fetchHourly(DELHI_CENTRE[0], DELHI_CENTRE[1], hours);
+    if (data.length > 0) weatherCache = { data, timestamp: now };
+    return data;
+  } catch (e) {
+    console.warn("Weather provider error", e);
+    return [];
+  }
+};
+
+export const fetchCurrentWeather = async (): Promise<WeatherObservation | null> =>
+  (await fetchWeatherOutlook(1))[0] || null;
+
+/**
+ * Ventilation index: wind speed (m/s) × mixing height (m).
+ */
+export const ventilationIndex = (obs: WeatherObservation): number =>
+  (obs.windSpeed / 3.6) * obs.boundaryLayerHeight;
+
+export const summarizeDispersion = (obs: WeatherObservation): DispersionSummary => {
+  const vi = ventilationIndex(obs);
+  return {
+    ventilationIndex: Math.round(vi),
+    category: VENTILATION_BANDS.find(b => vi < b.max)!.category,
+    inversion: obs.boundaryLayerHeight < INVERSION_MIXING_HEIGHT_M && obs.windSpeed < INVERSION_WIND_KMH,
+    rain: obs.rainfall >= RAIN_WASHOUT_MM
+  };
+};
+
+const meanVentilation = (obs: WeatherObservation[]) =>
+  obs.length ? obs.reduce((s, o) => s + ventilationIndex(o), 0) / obs.length : 0;
+
+/**
+ * Direction of travel over the next hours from the change in ventilation,
+ * onset of an inversion, or washout by rain.
+ */
+export const dispersionOutlook = (outlook: WeatherObservation[], hours: number = 6): 'increasing' | 'stable' | 'decreasing' => {
+  if (outlook.length < 2) return 'stable';
+  const now = summarizeDispersion(outlook[0]);
+  const ahead = outlook.slice(1, hours + 1);
+  if (ahead.some(o => o.rainfall >= RAIN_WASHOUT_MM)) return 'decreasing';
+
+  const ratio = meanVentilation(ahead) / Math.max(ventilationIndex(outlook[0]), 1);
+  const inversionForming = !now.inversion && ahead.some(o => summarizeDispersion(o).inversion);
+  if (ratio < 0.75 || inversionForming) return 'increasing';
+  if (ratio > 1.35) return 'decreasing';
+  return 'stable';
+};
+
+/**
+ * Scales statistical predictions by the change in ventilation between the coming day
+ * (the regime the model already reflects) and the day leading up to each valid time,
+ * hour for hour, so the diurnal cycle the model already carries cancels out. Within the
+ * first day that leaves only rain, which adds a washout reduction. Intervals scale with
+ * the estimate.
+ */
+export const applyMeteorology = (
+  predictions: AtmosphericPrediction[],
+  outlook: WeatherObservation[]
+): AtmosphericPrediction[] => {
+  if (outlook.length < 24) return predictions;
+  const referenceDay = outlook.slice(0, 24);
+
+  return predictions.map(p => {
+    const start = Math.max(0, p.hours - 24);
+    const window = outlook.slice(start, p.hours);
+    if (window.length === 0) return p;
+    const vi = Math.max(meanVentilation(window), 1);
+    const reference = Math.max(meanVentilation(window.map((_, i) => referenceDay[(start + i) % 24])), 1);
+    const rainHours = window.filter(o => o.rainfall >= RAIN_WASHOUT_MM).length;
+    const raw = Math.pow(vi / reference, -VENTILATION_ELASTICITY) * (1 - Math.min(0.3, rainHours * 0.03));
+    const factor = Math.min(1 + MAX_MET_ADJUSTMENT, Math.max(1 - MAX_MET_ADJUSTMENT, raw));
+    if (Math.abs(factor - 1) < 0.02) return p;
+
+    const scale = (v: number | undefined) => (v === undefined ? undefined : Math.round(v * factor));
+    const inversions = window.filter(o => summarizeDispersion(o).inversion).length;
+    const aqi = Math.round(p.aqi * factor);
+    return {
+      ...p,
+      aqi,
+      riskLevel: riskFromAqi(aqi),
+      lower: scale(p.lower),
+      upper: scale(p.upper),
+      explanation: `${p.explanation} Ventilation ${Math.round(vi).toLocaleString()} m²/s${inversions ? `, ${inversions}h inversion` : ''}${rainHours ? `, ${rainHours}h rain` : ''} (${factor > 1 ? '+' : ''}${Math.round((factor - 1) * 100)}%).`
+    };
+  });
+};
+
+/**
+ * One-line weather context for LLM prompts.
+ */
+export const describeWeather = (outlook: WeatherObservation[]): string => {
+  if (outlook.length === 0) return 'No meteorological data available.';
+  const now = outlook[0];
+  const d = summarizeDispersion(now);
+  return `Wind ${Math.round(now.windSpeed)} km/h from ${Math.round(now.windDirection)}°, mixing height ${Math.round(now.boundaryLayerHeight)} m, ` +
+    `ventilation index ${d.ventilationIndex} m²/s (${DISPERSION_LABELS[d.category]})${d.inversion ? ', surface inversion' : ''}, ` +
+    `${Math.round(now.temperature)}°C, RH ${Math.round(now.humidity)}%, rain ${now.rainfall} mm/h. Next 6h outlook: ${dispersionOutlook(outlook)}.`;
+};
@@ -0,0 +1,97 @@
+import { DataFreshness, Station } from '../types';
+
+export const WARD_GEOJSON_URL = 'https://raw.githubusercontent.com/datameet/Municipal_Spatial_Data/master/Delhi/Delhi_Wards.geojson';
+
+const SPATIAL_CACHE = 'pureair-spatial-v1';
+const STATION_SNAPSHOT_KEY = 'pureair_station_snapshot';
+
+// Readings older than this are shown with their age
+export const STALE_AFTER_MS = 30 * 60 * 1000;
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  return response.json();
+};
+
+const readCachedJson = async (url: string) => {
+  if (typeof caches === 'undefined') return null;
+  const cached = await caches.match(url);
+  return cached ? cached.json() : null;
+};
+
+let wardGeoJson: Promise<any> | null = null;
+
+/**
+ * Ward boundaries, network first with the last good copy kept in Cache Storage.
+ * Shared by every caller for the session; a total failure clears the memo so the
+ * next call retries.
+ */
+export const loadWardGeoJson = (): Promise<any> => {
+  if (!wardGeoJson) {
+    wardGeoJson = (async () => {
+      try {
+        const data = await fetchJson(WARD_GEOJSON_URL);
+        if (typeof caches !== 'undefined') {
+          caches.open(SPATIAL_CACHE)
+            .then(cache => cache.put(WARD_GEOJSON_URL, new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } })))
+            .catch(e => console.warn("Spatial cache write error", e));
+        }
+        return data;
+      } catch (networkError) {
+        const cached = await readCachedJson(WARD_GEOJSON_URL).catch(() => null);
+        if (cached) return cached;
+        throw networkError;
+      }
+    })().catch(e => {
+      wardGeoJson = null;
+      throw e;
+    });
+  }
+  return wardGeoJson;
+};
+
+export const saveStationSnapshot = (stations: Station[], savedAt: number = Date.now()) => {
+  try {
+    localStorage.setItem(STATION_SNAPSHOT_KEY, JSON.stringify({ stations, savedAt }));
+  } catch (e) { console.warn("Station snapshot write error", e); }
+};
+
+export const loadStationSnapshot = (): { stations: Station[]; savedAt: number } | null => {
+  try {
+    const raw = localStorage.getItem(STATION_SNAPSHOT_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && Array.isArray(parsed.stations) && Number.isFinite(parsed.savedAt) ? parsed : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Fixture readings are current but not observations; the UI labels them separately
+export const describeFreshness = (observedAt: number, source: DataFreshness['source'], now: number = Date.now()): DataFreshness => ({
+  observedAt,
+  source,
+  stale: source === 'snapshot' || source === 'cache' || now - observedAt > STALE_AFTER_MS
+});
+
+/**
+ * Compact age label: "45s", "12m", "3h 5m", "2d 4h".
+ */
+export const formatDataAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.max(0, Math.floor(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Registers the app-shell service worker (public/sw.js) in production builds.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.warn("Service worker registration failed", e));
+  });
+};
@@ -0,0 +1,73 @@
+import { Policy, ScenarioResult, Ward, WardProjection } from '../types';
+import { grapStageForAqi } from './grap';
+
+// Share of a ward's AQI from regional transport and secondary aerosol that local
+// policies cannot touch; Ward.breakdown splits the remainder between local sources.
+export const REGIONAL_SHARE = 0.35;
+
+/**
+ * Interventions modelled as a fractional cut in one local source sector.
+ */
+export const DEFAULT_POLICIES: Policy[] = [
+  { id: 'diesel-ban', label: 'Diesel Ban', sector: 'transport', impact: 0.25, active: false, description: 'Non-essential diesel goods vehicles and BS-IV diesel cars off the road' },
+  { id: 'odd-even', label: 'Odd-Even', sector: 'transport', impact: 0.12, active: false, description: 'Private cars restricted to alternate days by plate number' },
+  { id: 'construction-halt', label: 'Construction Halt', sector: 'construction', impact: 0.7, active: false, description: 'All non-essential construction and demolition stopped' },
+  { id: 'dust-suppression', label: 'Dust Suppression', sector: 'construction', impact: 0.25, active: false, description: 'Mechanised sweeping, sprinkling and anti-smog guns on dust hotspots' },
+  { id: 'industrial-shutdown', label: 'Industrial Shutdown', sector: 'industry', impact: 0.6, active: false, description: 'Units on unapproved fuels and stone crushers closed' }
+];
+
+/**
+ * Ward AQI after the active policies. Cuts in the same sector compound; AQI is
+ * treated as proportional to concentration, which holds within a CPCB band.
+ */
+export const projectWardAqi = (ward: Ward, policies: Policy[]): number => {
+  const totalShare = Object.values(ward.breakdown).reduce((s, v) => s + v, 0) || 1;
+  const remaining = policies.filter(p => p.active).reduce<Record<string, number>>((acc, p) => {
+    acc[p.sector] = (acc[p.sector] ?? 1) * (1 - p.impact);
+    return acc;
+  }, {});
+  const localReduction = Object.entries(remaining)
+    .reduce((s, [sector, left]) => s + ((ward.breakdown[sector as keyof Ward['breakdown']] ?? 0) / totalShare) * (1 - left), 0);
+  return Math.round(ward.aqi * (1 - (1 - REGIONAL_SHARE) * localReduction));
+};
+
+const populationWeightedMean = (wards: WardProjection[], key: 'baseline' | 'projected') => {
+  const weight = (w: WardProjection) => w.population || 1;
+  const total = wards.reduce((s, w) => s + weight(w), 0);
+  return total > 0 ? wards.reduce((s, w) => s + w[key] * weight(w), 0) / total : 0;
+};
+
+/**
+ * Projects every ward under the scenario. The city headline (if given) moves by the
+ * same ratio as the population-weighted ward mean; otherwise that mean is the city value.
+ * Wards without a station in range are projected but left out of the mean unless no
+ * ward has station coverage.
+ */
+export const simulateScenario = (wards: Ward[], policies: Policy[], cityAqi?: number): ScenarioResult => {
+  const projections: WardProjection[] = wards.map(w => ({
+    id: w.id,
+    name: w.name,
+    population: w.population,
+    baseline: w.aqi,
+    projected: projectWardAqi(w, policies),
+    estimated: !!w.estimated
+  }));
+
+  const observed = projections.filter(w => !w.estimated);
+  const basis = observed.length > 0 ? observed : projections;
+  const baselineMean = populationWeightedMean(basis, 'baseline');
+  const projectedMean = populationWeightedMean(basis, 'projected');
+  const ratio = baselineMean > 0 ? projectedMean / baselineMean : 1;
+  const cityBaseline = Math.round(cityAqi && cityAqi > 0 ? cityAqi : baselineMean);
+  const cityProjected = Math.round(cityBaseline * ratio);
+
+  return {
+    wards: projections,
+    cityBaseline,
+    cityProjected,
+    exposureReduction: 1 - ratio,
+    estimatedWards: projections.length - observed.length,
+    grapBaseline: grapStageForAqi(cityBaseline),
+    grapProjected: grapStageForAqi(cityProjected)
+  };
+};
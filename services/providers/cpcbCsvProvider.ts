@@ -0,0 +1,91 @@
+import { AqiProvider, PollutantConcentrations, Station } from '../../types';
+import { concentrationForSubIndex } from '../aqiCalculator';
+import { stationFromConcentrations, stationUid, toPollutantKey } from './normalize';
+
+interface CpcbCsvProviderConfig {
+  url: string;
+  // The data.gov.in real-time export publishes per-pollutant sub-indices, not raw concentrations
+  values?: 'subIndex' | 'concentration';
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF).
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+
+  if (rows.length < 2) return [];
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  return rows.slice(1).map(cells => Object.fromEntries(header.map((h, i) => [h, (cells[i] || '').trim()])));
+};
+
+// "19-10-2026 14:00:00" (IST) -> ISO
+const parseCpcbTimestamp = (value: string): string | undefined => {
+  const m = value.match(/^(\d{2})-(\d{2})-(\d{4})\s+(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!m) return value || undefined;
+  const [, dd, mm, yyyy, hh, mi, ss = '00'] = m;
+  return new Date(`${yyyy}-${mm}-${dd}T${hh}:${mi}:${ss}+05:30`).toISOString();
+};
+
+/**
+ * Groups the long-format CPCB export (one row per station and pollutant) into stations.
+ */
+export const parseCpcbStationCsv = (text: string, values: 'subIndex' | 'concentration' = 'subIndex'): Station[] => {
+  const grouped = new Map<string, { row: Record<string, string>; pollutants: Partial<PollutantConcentrations> }>();
+
+  parseCsv(text).forEach(row => {
+    const name = row.station;
+    const key = toPollutantKey(row.pollutant_id || '');
+    const value = parseFloat(row.pollutant_avg ?? row.avg_value);
+    if (!name || !key || !Number.isFinite(value)) return;
+
+    if (!grouped.has(name)) grouped.set(name, { row, pollutants: {} });
+    grouped.get(name)!.pollutants[key] = values === 'subIndex' ? concentrationForSubIndex(key, value) : value;
+  });
+
+  return Array.from(grouped.entries())
+    .map(([name, { row, pollutants }]) => stationFromConcentrations({
+      uid: stationUid(name),
+      lat: parseFloat(row.latitude),
+      lon: parseFloat(row.longitude),
+      stationName: name,
+      source: 'cpcb-csv',
+      updatedAt: parseCpcbTimestamp(row.last_update || '')
+    }, pollutants))
+    .filter(s => Number.isFinite(s.lat) && Number.isFinite(s.lon));
+};
+
+export const createCpcbCsvProvider = ({ url, values = 'subIndex' }: CpcbCsvProviderConfig): AqiProvider => ({
+  id: 'cpcb-csv',
+  label: 'CPCB CSV Export',
+  fetchStations: async () => {
+    const res = await fetch(url);
+    if (!res.ok) return [];
+    return parseCpcbStationCsv(await res.text(), values);
+  }
+});
@@ -0,0 +1,45 @@
+import { AqiProvider } from '../../types';
+import { createWaqiProvider } from './waqiProvider';
+import { createOpenAqProvider } from './openAqProvider';
+import { createCpcbCsvProvider } from './cpcbCsvProvider';
+import { createLocalFileProvider, createMockProvider } from './localProvider';
+import { DELHI_BBOX } from '../geo';
+
+export { createWaqiProvider, createOpenAqProvider, createCpcbCsvProvider, createLocalFileProvider, createMockProvider };
+
+export const DELHI_BOUNDS = `${DELHI_BBOX.south},${DELHI_BBOX.west},${DELHI_BBOX.north},${DELHI_BBOX.east}`;
+
+/**
+ * Picks the provider from build-time env (see vite.config.ts):
+ * AQI_PROVIDER = waqi | openaq | cpcb-csv | local-file | mock, with AQI_PROVIDER_URL
+ * for the URL-based adapters. Without a WAQI token the app runs on the offline fixture,
+ * whose readings carry the 'fixture' freshness source.
+ */
+const createDefaultProvider = (): AqiProvider => {
+  const kind = process.env.AQI_PROVIDER;
+  const url = process.env.AQI_PROVIDER_URL || '';
+  const waqiToken = process.env.WAQI_TOKEN;
+
+  switch (kind) {
+    case 'openaq': return createOpenAqProvider({ url, apiKey: process.env.OPENAQ_API_KEY });
+    case 'cpcb-csv': return createCpcbCsvProvider({ url });
+    case 'local-file': return createLocalFileProvider({ url });
+    case 'mock': return createMockProvider();
+    default:
+      return waqiToken ? createWaqiProvider({ token: waqiToken, bounds: DELHI_BOUNDS }) : createMockProvider();
+  }
+};
+
+let activeProvider: AqiProvider | null = null;
+
+export const getAqiProvider = (): AqiProvider => {
+  if (!activeProvider) activeProvider = createDefaultProvider();
+  return activeProvider;
+};
+
+/**
+ * Swaps the data source at runtime (tests, offline demos, analyst comparisons).
+ */
+export const setAqiProvider = (provider: AqiProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,39 @@
+import { AqiProvider, Station } from '../../types';
+import { MOCK_STATIONS, StationFixture } from '../../data/mockStations';
+import { stationFromConcentrations } from './normalize';
+
+/**
+ * Reads already-normalized Station[] JSON from a local path (e.g. /fixtures/stations.json).
+ */
+export const createLocalFileProvider = ({ url }: { url: string }): AqiProvider => ({
+  id: 'local-file',
+  label: 'Local File',
+  fetchStations: async () => {
+    const res = await fetch(url);
+    if (!res.ok) return [];
+    const json = await res.json();
+    return (Array.isArray(json) ? json : []).map((s: Station) => ({ ...s, source: s.source || 'local-file' }));
+  }
+});
+
+/**
+ * In-memory provider for offline development and tests. Readings are stamped with
+ * the current time but the provider is marked as a fixture, so they are labelled as
+ * demo data and never stored as observations.
+ */
+export const createMockProvider = (fixtures: StationFixture[] = MOCK_STATIONS): AqiProvider => ({
+  id: 'mock',
+  label: 'Offline Fixture',
+  fixture: true,
+  fetchStations: async () => {
+    const updatedAt = new Date().toISOString();
+    return fixtures.map(f => stationFromConcentrations({
+      uid: f.uid,
+      lat: f.lat,
+      lon: f.lon,
+      stationName: f.stationName,
+      source: 'mock',
+      updatedAt
+    }, f.pollutants));
+  }
+});
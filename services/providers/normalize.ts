@@ -0,0 +1,40 @@
+import { PollutantKey, PollutantConcentrations, Station } from '../../types';
+import { calculateAQI } from '../aqiCalculator';
+
+/**
+ * Stable numeric id for feeds that only identify stations by name.
+ */
+export const stationUid = (name: string): number => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Parameter spellings used by OpenAQ and CPCB exports
+const PARAMETER_ALIASES: Record<string, PollutantKey> = {
+  'pm25': 'pm25', 'pm2.5': 'pm25', 'pm2_5': 'pm25',
+  'pm10': 'pm10',
+  'no2': 'no2',
+  'so2': 'so2',
+  'co': 'co',
+  'o3': 'o3', 'ozone': 'o3',
+  'nh3': 'nh3',
+  'pb': 'pb'
+};
+
+export const toPollutantKey = (parameter: string): PollutantKey | null =>
+  PARAMETER_ALIASES[parameter.trim().toLowerCase()] || null;
+
+/**
+ * Builds a Station from raw concentrations, computing AQI with the CPCB tables.
+ */
+export const stationFromConcentrations = (
+  base: Omit<Station, 'aqi' | 'pollutants'>,
+  pollutants: Partial<PollutantConcentrations>
+): Station => ({
+  ...base,
+  aqi: calculateAQI(pollutants)?.aqi || 0,
+  pollutants
+});
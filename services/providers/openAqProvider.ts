@@ -0,0 +1,59 @@
+import { AqiProvider, PollutantConcentrations, Station } from '../../types';
+import { stationFromConcentrations, stationUid, toPollutantKey } from './normalize';
+
+interface OpenAqProviderConfig {
+  url: string; // e.g. an OpenAQ /latest query or a local JSON file with the same shape
+  apiKey?: string;
+}
+
+/**
+ * Converts OpenAQ units to the CPCB table units (µg/m³, CO in mg/m³).
+ */
+const toCpcbUnits = (parameter: string, value: number, unit: string = 'µg/m³'): number => {
+  const u = unit.toLowerCase();
+  if (parameter === 'co') return u.startsWith('µg') || u.startsWith('ug') ? value / 1000 : value;
+  return u.startsWith('mg') ? value * 1000 : value;
+};
+
+/**
+ * Parses OpenAQ-style "latest" JSON:
+ * { results: [{ location, coordinates: { latitude, longitude }, measurements: [{ parameter, value, unit, lastUpdated }] }] }
+ */
+export const parseOpenAqResults = (json: any): Station[] => {
+  const results: any[] = Array.isArray(json?.results) ? json.results : [];
+
+  return results
+    .filter(r => r.coordinates && Array.isArray(r.measurements))
+    .map(r => {
+      const pollutants: Partial<PollutantConcentrations> = {};
+      let updatedAt: string | undefined;
+
+      r.measurements.forEach((m: any) => {
+        const key = toPollutantKey(String(m.parameter));
+        const value = Number(m.value);
+        if (!key || !Number.isFinite(value) || value < 0) return;
+        pollutants[key] = toCpcbUnits(key, value, m.unit);
+        if (m.lastUpdated && (!updatedAt || m.lastUpdated > updatedAt)) updatedAt = m.lastUpdated;
+      });
+
+      const name = String(r.location || r.name || 'OpenAQ Location');
+      return stationFromConcentrations({
+        uid: typeof r.id === 'number' ? r.id : stationUid(name),
+        lat: r.coordinates.latitude,
+        lon: r.coordinates.longitude,
+        stationName: name,
+        source: 'openaq',
+        updatedAt
+      }, pollutants);
+    });
+};
+
+export const createOpenAqProvider = ({ url, apiKey }: OpenAqProviderConfig): AqiProvider => ({
+  id: 'openaq',
+  label: 'OpenAQ',
+  fetchStations: async () => {
+    const res = await fetch(url, apiKey ? { headers: { 'X-API-Key': apiKey } } : undefined);
+    if (!res.ok) return [];
+    return parseOpenAqResults(await res.json());
+  }
+});
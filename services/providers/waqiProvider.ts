@@ -0,0 +1,43 @@
+import { AqiProvider, Station } from '../../types';
+
+interface WaqiProviderConfig {
+  token: string;
+  bounds: string; // "lat1,lng1,lat2,lng2"
+}
+
+const WAQI_BASE = 'https://api.waqi.info';
+
+/**
+ * World Air Quality Index adapter (map/bounds for stations, feed/here for the city).
+ */
+export const createWaqiProvider = ({ token, bounds }: WaqiProviderConfig): AqiProvider => ({
+  id: 'waqi',
+  label: 'WAQI',
+
+  fetchStations: async (): Promise<Station[]> => {
+    const res = await fetch(`${WAQI_BASE}/map/bounds/?latlng=${bounds}&token=${token}`);
+    const json = await res.json();
+    if (json.status !== 'ok' || !Array.isArray(json.data)) return [];
+
+    return json.data.map((s: any) => ({
+      uid: s.uid,
+      lat: s.lat,
+      lon: s.lon,
+      aqi: parseInt(s.aqi) || 0,
+      stationName: s.station?.name || `WAQI ${s.uid}`,
+      source: 'waqi',
+      updatedAt: s.station?.time
+    }));
+  },
+
+  fetchCityFeed: async () => {
+    const res = await fetch(`${WAQI_BASE}/feed/here/?token=${token}`);
+    const json = await res.json();
+    if (json.status !== 'ok') return null;
+    return {
+      aqi: parseInt(json.data.aqi),
+      dominant: json.data.dominentpol,
+      city: json.data.city?.name
+    };
+  }
+});
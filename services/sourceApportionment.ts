@@ -0,0 +1,223 @@
+import { ApportionmentFactor, PollutantConcentrations, SourceApportionment, SourceAttribution, Station, Ward, WardSourceKey } from '../types';
+import { LAND_USE_ANCHORS } from '../data/landUse';
+import { haversineKm } from './geo';
+import { passesQc } from './stationQc';
+
+const SECTORS: WardSourceKey[] = ['transport', 'construction', 'industry', 'waste'];
+
+// Local PM2.5 shares from Delhi winter emission inventories, before any ward evidence
+const PRIORS: Record<WardSourceKey, number> = { transport: 0.35, construction: 0.25, industry: 0.2, waste: 0.2 };
+
+const LAND_USE_GAIN = 0.8;
+const RATIO_RADIUS_KM = 10;        // Stations beyond this do not inform a ward's ratios
+
+export const SOURCE_LABELS: Record<WardSourceKey, string> = {
+  transport: 'Vehicular Exhaust',
+  construction: 'Construction & Road Dust',
+  industry: 'Industrial Combustion',
+  waste: 'Biomass & Waste Burning'
+};
+
+const ATTRIBUTION_TYPES: Record<WardSourceKey, SourceAttribution['dominantSource']['type']> = {
+  transport: 'vehicular',
+  construction: 'construction',
+  industry: 'industrial',
+  waste: 'biomass'
+};
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Signed strength of a ratio relative to its typical value: ±1 at half or double
+const logSignal = (ratio: number, typical: number) => clamp(Math.log2(ratio / typical), -1, 1);
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Smallest weight change counted as evidence
+const MIN_EFFECT = 0.1;
+
+const describeSignal = (s: number, high: string, low: string) =>
+  Math.abs(s) < MIN_EFFECT ? 'typical' : s > 0 ? high : low;
+
+export interface SignatureRatios {
+  pmRatio?: number;   // PM2.5 / PM10
+  no2Co?: number;     // NO2 µg/m³ per CO mg/m³
+  so2No2?: number;
+}
+
+// Typical Delhi winter signatures; departures from these shift the weights
+export const TYPICAL_RATIOS: Required<SignatureRatios> = { pmRatio: 0.6, no2Co: 30, so2No2: 0.25 };
+
+const ratiosOf = (p: Partial<PollutantConcentrations>): SignatureRatios => ({
+  pmRatio: p.pm25 && p.pm10 && p.pm25 <= p.pm10 ? p.pm25 / p.pm10 : undefined,
+  no2Co: p.no2 && p.co ? p.no2 / p.co : undefined,
+  so2No2: p.so2 && p.no2 ? p.so2 / p.no2 : undefined
+});
+
+/**
+ * Inverse-distance weighted pollutant ratios from nearby QC-passing stations that
+ * report the species; a ratio is left out when no station within range has it.
+ */
+export const stationSignature = (point: [number, number], stations: Station[]): SignatureRatios => {
+  const nearby = stations
+    .filter(s => passesQc(s) && s.pollutants)
+    .map(s => ({ ratios: ratiosOf(s.pollutants!), d: haversineKm(point, [s.lat, s.lon]) }))
+    .filter(s => s.d <= RATIO_RADIUS_KM)
+    .map(s => ({ ...s, w: 1 / Math.max(s.d, 0.5) ** 2 }));
+
+  const blend = (key: keyof SignatureRatios) => {
+    const withKey = nearby.filter(s => s.ratios[key] !== undefined);
+    const total = withKey.reduce((sum, s) => sum + s.w, 0);
+    return total > 0 ? withKey.reduce((sum, s) => sum + s.ratios[key]! * s.w, 0) / total : undefined;
+  };
+  return { pmRatio: blend('pmRatio'), no2Co: blend('no2Co'), so2No2: blend('so2No2') };
+};
+
+const landUseFactors = (point: [number, number]): ApportionmentFactor[] =>
+  SECTORS.flatMap(sector => {
+    const influences = LAND_USE_ANCHORS
+      .filter(a => a.sector === sector)
+      .map(a => ({ anchor: a, distance: haversineKm(point, [a.lat, a.lng]) }))
+      .map(x => ({ ...x, influence: Math.exp(-x.distance / x.anchor.radiusKm) }))
+      .filter(x => x.influence > 0.2)
+      .sort((a, b) => b.influence - a.influence);
+    if (influences.length === 0) return [];
+    const strength = Math.min(1, influences.reduce((s, x) => s + x.influence, 0));
+    const nearest = influences[0];
+    return [{
+      sector,
+      indicator: 'land-use' as const,
+      multiplier: round2(1 + LAND_USE_GAIN * strength),
+      note: `${nearest.distance.toFixed(1)} km from ${nearest.anchor.name}`
+    }];
+  });
+
+const timeOfDayFactors = (hour: number): ApportionmentFactor[] => {
+  if ((hour >= 8 && hour < 11) || (hour >= 17 && hour < 21)) {
+    return [{ sector: 'transport', indicator: 'time-of-day', multiplier: 1.25, note: 'Peak traffic hours' }];
+  }
+  if (hour >= 22 || hour < 6) {
+    return [
+      { sector: 'waste', indicator: 'time-of-day', multiplier: 1.3, note: 'Night-time heating and refuse burning' },
+      { sector: 'transport', indicator: 'time-of-day', multiplier: 1.1, note: 'Night-time heavy goods vehicle entry' }
+    ];
+  }
+  if (hour >= 9 && hour < 18) {
+    return [{ sector: 'construction', indicator: 'time-of-day', multiplier: 1.2, note: 'Daytime construction activity' }];
+  }
+  return [];
+};
+
+const ratioFactors = (r: SignatureRatios): ApportionmentFactor[] => {
+  const factors: ApportionmentFactor[] = [];
+  if (r.pmRatio !== undefined) {
+    // Fine-dominated PM points to combustion, coarse-dominated PM to dust
+    const s = clamp((r.pmRatio - TYPICAL_RATIOS.pmRatio) / 0.25, -1, 1);
+    const note = `PM2.5/PM10 ratio ${r.pmRatio.toFixed(2)} (${describeSignal(s, 'fine, combustion', 'coarse, dust')})`;
+    factors.push({ sector: 'construction', indicator: 'pm-ratio', multiplier: round2(Math.exp(-0.6 * s)), note });
+    (['transport', 'industry', 'waste'] as WardSourceKey[]).forEach(sector =>
+      factors.push({ sector, indicator: 'pm-ratio', multiplier: round2(Math.exp(0.3 * s)), note }));
+  }
+  if (r.no2Co !== undefined) {
+    // NOx-rich air points to diesel traffic; CO-rich to smouldering combustion
+    const s = logSignal(r.no2Co, TYPICAL_RATIOS.no2Co);
+    const note = `NO2/CO ratio ${Math.round(r.no2Co)} (${describeSignal(s, 'NOx-rich, traffic', 'CO-rich, smouldering')})`;
+    factors.push({ sector: 'transport', indicator: 'no2-co', multiplier: round2(Math.exp(0.5 * s)), note });
+    factors.push({ sector: 'waste', indicator: 'no2-co', multiplier: round2(Math.exp(-0.5 * s)), note });
+  }
+  if (r.so2No2 !== undefined) {
+    const s = logSignal(r.so2No2, TYPICAL_RATIOS.so2No2);
+    factors.push({
+      sector: 'industry',
+      indicator: 'so2-no2',
+      multiplier: round2(Math.exp(0.5 * s)),
+      note: `SO2/NO2 ratio ${r.so2No2.toFixed(2)} (${describeSignal(s, 'coal and furnace oil', 'little fuel sulphur')})`
+    });
+  }
+  return factors;
+};
+
+// Integer percentages that sum to exactly 100 (largest remainder)
+const toPercentages = (weights: Record<WardSourceKey, number>): Record<WardSourceKey, number> => {
+  const total = SECTORS.reduce((s, k) => s + weights[k], 0);
+  const raw = SECTORS.map(k => ({ k, v: (weights[k] / total) * 100 }));
+  const out = Object.fromEntries(raw.map(r => [r.k, Math.floor(r.v)])) as Record<WardSourceKey, number>;
+  let left = 100 - SECTORS.reduce((s, k) => s + out[k], 0);
+  [...raw].sort((a, b) => (b.v % 1) - (a.v % 1)).forEach(r => { if (left-- > 0) out[r.k] += 1; });
+  return out;
+};
+
+export interface ApportionmentInput {
+  coordinates: { lat: number; lng: number };
+  pollutants: Partial<PollutantConcentrations>;
+  ratios?: SignatureRatios;   // Station-derived; falls back to the ward's own pollutants
+  time?: Date;
+}
+
+/**
+ * Receptor-style apportionment: inventory priors multiplied by evidence from
+ * pollutant ratios, land use around the ward and the hour of day. Every adjustment
+ * is kept as a factor so the weights can be explained.
+ */
+export const apportionSources = ({ coordinates, pollutants, ratios, time = new Date() }: ApportionmentInput): SourceApportionment => {
+  const own = ratiosOf(pollutants);
+  const signature = {
+    pmRatio: ratios?.pmRatio ?? own.pmRatio,
+    no2Co: ratios?.no2Co ?? own.no2Co,
+    so2No2: ratios?.so2No2 ?? own.so2No2
+  };
+  const point: [number, number] = [coordinates.lat, coordinates.lng];
+
+  const factors = [
+    ...SECTORS.map(sector => ({ sector, indicator: 'prior' as const, multiplier: PRIORS[sector], note: 'Delhi winter emission inventory' })),
+    ...ratioFactors(signature),
+    ...landUseFactors(point),
+    ...timeOfDayFactors(time.getHours())
+  ];
+
+  const weights = Object.fromEntries(SECTORS.map(sector => [
+    sector,
+    factors.filter(f => f.sector === sector).reduce((w, f) => w * f.multiplier, 1)
+  ])) as Record<WardSourceKey, number>;
+  const breakdown = toPercentages(weights);
+
+  // Confidence grows with the margin of the leading source and the independent evidence behind it
+  const [first, second] = SECTORS.map(k => breakdown[k]).sort((a, b) => b - a);
+  const evidence = new Set(factors.filter(f => f.indicator !== 'prior' && Math.abs(f.multiplier - 1) >= MIN_EFFECT).map(f => f.indicator)).size;
+  const confidence = Math.round(clamp(35 + (first - second) * 1.5 + evidence * 8, 20, 90));
+
+  return { breakdown, factors, confidence };
+};
+
+export const dominantSector = (breakdown: Record<WardSourceKey, number>): WardSourceKey =>
+  SECTORS.reduce((best, k) => (breakdown[k] > breakdown[best] ? k : best), SECTORS[0]);
+
+/**
+ * SourceAttribution from the apportionment, with template wording. The weights
+ * and reasoning are fixed here; narration may only rephrase the text fields.
+ */
+export const buildSourceAttribution = (ward: Ward, apportionment: SourceApportionment): SourceAttribution => {
+  const { breakdown, factors, confidence } = apportionment;
+  const dominant = dominantSector(breakdown);
+  const evidence = factors
+    .filter(f => f.indicator !== 'prior' && Math.abs(f.multiplier - 1) >= MIN_EFFECT)
+    .sort((a, b) => Math.abs(b.multiplier - 1) - Math.abs(a.multiplier - 1));
+
+  // One line per piece of evidence, naming the sectors it moved
+  const reasoning = [...new Set(evidence.map(f => f.note))].slice(0, 4).map(note => {
+    const moved = evidence.filter(f => f.note === note)
+      .map(f => `${SOURCE_LABELS[f.sector].toLowerCase()} ×${f.multiplier.toFixed(2)}`);
+    return `${note}: ${moved.join(', ')}.`;
+  });
+
+  return {
+    dominantSource: { label: SOURCE_LABELS[dominant], type: ATTRIBUTION_TYPES[dominant], confidence },
+    secondarySources: SECTORS.filter(k => k !== dominant)
+      .sort((a, b) => breakdown[b] - breakdown[a])
+      .map(k => ({ label: SOURCE_LABELS[k], weight: breakdown[k] })),
+    reasoning: reasoning.length > 0 ? reasoning : ['No local evidence beyond the citywide inventory priors.'],
+    socialSnippet: `${SOURCE_LABELS[dominant]} accounts for about ${breakdown[dominant]}% of local pollution in ${ward.name} right now.`,
+    confidenceScore: confidence,
+    factors,
+    narratedBy: 'template'
+  };
+};
@@ -0,0 +1,112 @@
+import { QcFlag, Station } from '../types';
+import { haversineKm, isWithinBounds } from './geo';
+
+// Thresholds tuned for Delhi's network density (~40 stations within 50 km)
+const NEIGHBOUR_RADIUS_KM = 12;
+const MIN_NEIGHBOURS = 3;
+const SPIKE_RATIO = 1.8;       // Reading vs neighbour median
+const SPIKE_MIN_DELTA = 120;   // Ignore ratio spikes on clean days
+const STUCK_HOURS = 6;
+const STUCK_MIN_SAMPLES = 4;
+const JUMP_LIMIT_PER_HOUR = 150;
+const HISTORY_HOURS = 24;
+
+const QC_HISTORY_KEY = 'pureair_station_qc_history';
+
+export const QC_FLAG_LABELS: Record<QcFlag, string> = {
+  'spike': 'Spike vs Neighbours',
+  'stuck': 'Frozen Reading',
+  'jump': 'Implausible Jump',
+  'out-of-bounds': 'Outside Delhi Bounds'
+};
+
+// Recent readings per station uid, used for the stuck and jump checks
+export type QcHistory = Record<number, { time: number; aqi: number }[]>;
+
+export const passesQc = (station: Station): boolean => !station.qcFlags || station.qcFlags.length === 0;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// The provider's own timestamp; null when the feed does not report one
+const providerTime = (station: Station): number | null => {
+  const t = station.updatedAt ? new Date(station.updatedAt).getTime() : NaN;
+  return Number.isFinite(t) ? t : null;
+};
+
+export interface QcOptions {
+  fixture?: boolean; // Bundled demo readings: constant by design, so never 'stuck'
+}
+
+/**
+ * Flags each station against its neighbours and its own recent history.
+ * Only readings with a distinct provider timestamp enter the history, so fetching
+ * the same report repeatedly cannot make it look frozen.
+ * Pure: returns new station objects and the updated history.
+ */
+export const applyQualityControl = (
+  stations: Station[],
+  history: QcHistory = {},
+  now: number = Date.now(),
+  { fixture = false }: QcOptions = {}
+): { stations: Station[]; history: QcHistory } => {
+  const nextHistory: QcHistory = {};
+
+  const checked = stations.map(station => {
+    const flags: QcFlag[] = [];
+    const reported = providerTime(station);
+    const time = reported ?? now;
+
+    if (!isWithinBounds(station.lat, station.lon)) flags.push('out-of-bounds');
+
+    // Spike: far above the median of nearby stations
+    const neighbours = stations.filter(o =>
+      o.uid !== station.uid && haversineKm([station.lat, station.lon], [o.lat, o.lon]) <= NEIGHBOUR_RADIUS_KM
+    );
+    if (neighbours.length >= MIN_NEIGHBOURS) {
+      const ref = median(neighbours.map(n => n.aqi));
+      if (station.aqi > ref * SPIKE_RATIO && station.aqi - ref > SPIKE_MIN_DELTA) flags.push('spike');
+    }
+
+    const past = (history[station.uid] || []).filter(h => now - h.time <= HISTORY_HOURS * 3600 * 1000);
+    const isNewReading = reported !== null && !past.some(h => h.time === reported);
+    const series = isNewReading ? [...past, { time, aqi: station.aqi }].sort((a, b) => a.time - b.time) : past;
+
+    // Jump: change against the previous distinct reading faster than physically plausible
+    const previous = series.filter(h => h.time < time).pop();
+    if (previous) {
+      const hours = Math.max((time - previous.time) / 3600 / 1000, 1);
+      if (Math.abs(station.aqi - previous.aqi) / hours > JUMP_LIMIT_PER_HOUR) flags.push('jump');
+    }
+
+    // Stuck: identical value across many hours of readings, or a timestamp that stopped advancing
+    const window = series.filter(h => time - h.time <= STUCK_HOURS * 3600 * 1000);
+    const span = window.length > 0 ? (time - window[0].time) / 3600 / 1000 : 0;
+    const frozenValue = window.length >= STUCK_MIN_SAMPLES && span >= STUCK_HOURS - 1 && window.every(h => h.aqi === station.aqi);
+    const staleTimestamp = now - time > STUCK_HOURS * 3600 * 1000;
+    if (!fixture && (frozenValue || staleTimestamp)) flags.push('stuck');
+
+    nextHistory[station.uid] = series;
+    return { ...station, qcFlags: flags };
+  });
+
+  return { stations: checked, history: nextHistory };
+};
+
+export const loadQcHistory = (): QcHistory => {
+  try {
+    const raw = localStorage.getItem(QC_HISTORY_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveQcHistory = (history: QcHistory) => {
+  try {
+    localStorage.setItem(QC_HISTORY_KEY, JSON.stringify(history));
+  } catch (e) { console.warn("QC history write error", e); }
+};
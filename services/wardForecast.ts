@@ -0,0 +1,75 @@
+import { ForecastHour } from '../types';
+import { getStatisticalForecast } from './forecasting';
+import { applyMeteorology, fetchWeatherOutlook } from './meteorology';
+import { CITY_SERIES, getHourlySeries } from './historyStore';
+
+export const FORECAST_GRID_HOURS = 72;
+const FIT_HOURS = 168;
+const CACHE_TTL = 30 * 60 * 1000;
+const HOUR_MS = 3600 * 1000;
+
+export interface CityForecastPath {
+  issuedAt: number;
+  baseAqi: number;          // City value the path starts from
+  hours: ForecastHour[];
+}
+
+let cached: { path: CityForecastPath; timestamp: number; fromHistory: boolean } | null = null;
+
+/**
+ * Hourly city forecast for the next 72 hours: the statistical model over the observed
+ * CPCB-average series, adjusted for ventilation, so it compares like for like with the
+ * GRAP input. `currentAqi` only anchors persistence while that series is empty.
+ * Cached for 30 minutes.
+ */
+export const getCityForecastPath = async (currentAqi?: number): Promise<CityForecastPath | null> => {
+  const now = Date.now();
+  if (cached && now - cached.timestamp < CACHE_TTL && (cached.fromHistory || cached.path.baseAqi === currentAqi)) return cached.path;
+
+  const [history, outlook] = await Promise.all([
+    getHourlySeries(CITY_SERIES, FIT_HOURS),
+    fetchWeatherOutlook(FORECAST_GRID_HOURS)
+  ]);
+  const horizons = Array.from({ length: FORECAST_GRID_HOURS }, (_, i) => i + 1);
+  const predictions = applyMeteorology(getStatisticalForecast(history, { horizons, currentAqi }), outlook);
+  if (predictions.length === 0) return null;
+
+  const baseAqi = history.length > 0 ? history[history.length - 1].aqi : currentAqi || predictions[0].aqi;
+  const hourStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const path: CityForecastPath = {
+    issuedAt: now,
+    baseAqi,
+    hours: predictions.map(p => ({
+      time: hourStart + p.hours * HOUR_MS,
+      hoursAhead: p.hours,
+      aqi: p.aqi,
+      lower: p.lower ?? p.aqi,
+      upper: p.upper ?? p.aqi
+    }))
+  };
+  cached = { path, timestamp: now, fromHistory: history.length > 0 };
+  return path;
+};
+
+/**
+ * Ward forecast: the city path scaled by the ward's current ratio to the city,
+ * i.e. the ward keeps its present anomaly over the horizon.
+ */
+export const forecastWard = (wardAqi: number, path: CityForecastPath): ForecastHour[] => {
+  const ratio = path.baseAqi > 0 ? wardAqi / path.baseAqi : 1;
+  return path.hours.map(h => ({
+    ...h,
+    aqi: Math.round(h.aqi * ratio),
+    lower: Math.round(h.lower * ratio),
+    upper: Math.round(h.upper * ratio)
+  }));
+};
+
+/**
+ * Forecast grid for many wards at once, keyed by ward id.
+ */
+export const buildWardForecastGrid = (
+  wards: { id: string; aqi: number }[],
+  path: CityForecastPath
+): Record<string, ForecastHour[]> =>
+  Object.fromEntries(wards.map(w => [w.id, forecastWard(w.aqi, path)]));
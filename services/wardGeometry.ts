@@ -0,0 +1,93 @@
+import { Ward } from '../types';
+import { EARTH_RADIUS_KM } from './geo';
+
+// GeoJSON positions are [lng, lat]
+type Ring = number[][];
+type Polygon = Ring[];
+
+const KM_PER_DEG = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+/**
+ * Every polygon of a Polygon or MultiPolygon geometry; other types yield none.
+ */
+export const polygonsOf = (geometry: any): Polygon[] => {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
+
+/**
+ * Signed shoelace area (km²) and centroid of a ring, on a local equirectangular
+ * projection around the ring's first vertex. Accurate to well under 1% at ward scale.
+ */
+const ringMoments = (ring: Ring) => {
+  if (!ring || ring.length < 3) return { area: 0, lat: 0, lng: 0 };
+  const [lng0, lat0] = ring[0];
+  const kx = KM_PER_DEG * Math.cos((lat0 * Math.PI) / 180);
+  const pts = ring.map(([lng, lat]) => [(lng - lng0) * kx, (lat - lat0) * KM_PER_DEG]);
+
+  let a = 0, cx = 0, cy = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const [x1, y1] = pts[i];
+    const [x2, y2] = pts[(i + 1) % pts.length];
+    const cross = x1 * y2 - x2 * y1;
+    a += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+  a /= 2;
+  if (a === 0) return { area: 0, lat: lat0, lng: lng0 };
+  return { area: a, lat: lat0 + cy / (6 * a) / KM_PER_DEG, lng: lng0 + cx / (6 * a) / kx };
+};
+
+/**
+ * Area of a ward in km², with holes removed, summed over all polygon parts.
+ */
+export const wardAreaKm2 = (geometry: any): number =>
+  polygonsOf(geometry).reduce((sum, [outer, ...holes]) =>
+    sum + Math.abs(ringMoments(outer).area) - holes.reduce((h, ring) => h + Math.abs(ringMoments(ring).area), 0), 0);
+
+/**
+ * Area-weighted centroid across all parts of a (Multi)Polygon, holes subtracted.
+ * Null when the geometry has no measurable area.
+ */
+export const wardCentroid = (geometry: any): { lat: number; lng: number } | null => {
+  let total = 0, lat = 0, lng = 0;
+  polygonsOf(geometry).forEach(([outer, ...holes]) => {
+    [outer, ...holes].forEach((ring, i) => {
+      const m = ringMoments(ring);
+      const weight = Math.abs(m.area) * (i === 0 ? 1 : -1);
+      total += weight;
+      lat += m.lat * weight;
+      lng += m.lng * weight;
+    });
+  });
+  return total > 0 ? { lat: lat / total, lng: lng / total } : null;
+};
+
+// Even-odd ray cast in lng/lat space
+const inRing = (lat: number, lng: number, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * True when the [lat, lng] point falls inside any part of the geometry and outside its holes.
+ */
+export const containsPoint = (geometry: any, point: [number, number]): boolean => {
+  const [lat, lng] = point;
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    inRing(lat, lng, outer) && !holes.some(ring => inRing(lat, lng, ring)));
+};
+
+/**
+ * The ward whose boundary contains the point, if any.
+ */
+export const findWardAt = (point: [number, number], wards: Ward[]): Ward | null =>
+  wards.find(w => w.geoJson && containsPoint(w.geoJson.geometry, point)) || null;
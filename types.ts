@@ -1,19 +1,29 @@
+import type { Schema } from '@google/genai';
+
 
 export enum AQILevel {
   GOOD = 'Good',
+  SATISFACTORY = 'Satisfactory',
   MODERATE = 'Moderate',
   POOR = 'Poor',
-  SEVERE = 'Severe',
-  HAZARDOUS = 'Hazardous'
+  VERY_POOR = 'Very Poor',
+  SEVERE = 'Severe'
 }
 
 export type DashboardTheme = 'dark' | 'light';
 
+// Interface languages: English, Hindi, Punjabi (Gurmukhi), Urdu (Nastaliq)
+export type Locale = 'en' | 'hi' | 'pa' | 'ur';
+
 export type AppView = 'home' | 'rankings' | 'analytics' | 'health' | 'methodology' | 'zone' | 'scan' | 'enforcement' | 'pulse' | 'forecast' | 'governance';
 
+// Public health advice tier behind IntelligentAnalysis' warning and recommendation
+export type AdvisoryBand = 'clean' | 'sensitive' | 'moderate' | 'high' | 'critical';
+
 export interface IntelligentAnalysis {
   riskLevel: string;
   trend: 'improving' | 'worsening' | 'stable';
+  advisory: AdvisoryBand;
   exposureMinutes: number | string; // 'Unlimited' or minutes
   sensitiveGroupWarning: string;
   recommendation: {
@@ -22,11 +32,105 @@ export interface IntelligentAnalysis {
     school: string;
   };
   prediction: 'increasing' | 'stable' | 'decreasing';
-  grap: {
-    stage: number;
-    label: string;
-    description: string;
-  };
+  grap: GrapStatus;
+  dispersion?: DispersionSummary;  // Current conditions behind the prediction
+}
+
+// Graded Response Action Plan (CAQM). Stage 0 = not in force.
+export type GrapStage = 0 | 1 | 2 | 3 | 4;
+export type GrapBasis = 'observed' | 'forecast';
+
+export type GrapSector = 'construction' | 'roads' | 'transport' | 'industry' | 'power' | 'waste' | 'commercial' | 'education' | 'offices';
+
+// Ward source shares a measure acts on (keys of Ward.breakdown); 'all' for citywide measures
+export type WardSourceKey = 'transport' | 'construction' | 'industry' | 'waste';
+
+export interface GrapMeasure {
+  id: string;
+  stage: Exclude<GrapStage, 0>;
+  title: string;
+  agency: string;             // Lead implementing agency
+  sectors: GrapSector[];
+  wardRelevance: WardSourceKey[] | 'all';
+}
+
+// Officer checklist: zone -> measure id -> when it was marked implemented
+export type GrapComplianceRecord = Record<string, Record<string, { implemented: boolean; updatedAt: number }>>;
+
+export interface GrapCompletion {
+  implemented: number;
+  total: number;
+  rate: number;               // 0-1
+}
+
+export interface GrapTransition {
+  at: number;              // Epoch ms
+  from: GrapStage;
+  to: GrapStage;
+  basis: GrapBasis | 'revocation';
+  aqi: number;             // Observed AQI, or the forecast peak that triggered it
+  leadHours?: number;      // Forecast invocations: hours until the forecast exceedance
+}
+
+export interface GrapState {
+  stage: GrapStage;
+  basis: GrapBasis | null;
+  since: number;                // When the current stage took effect
+  belowSince: number | null;    // Start of the current spell below the revocation level
+  updatedAt: number;
+  history: GrapTransition[];
+}
+
+export interface GrapStatus {
+  stage: number;
+  label: string;
+  description: string;
+  basis?: GrapBasis | null;
+  since?: number;
+  revocationDueAt?: number | null;   // Earliest revocation if observed AQI stays low
+  measures?: GrapMeasure[];          // Cumulative measures in force
+}
+
+export type PollutantKey = 'pm25' | 'pm10' | 'no2' | 'so2' | 'co' | 'o3' | 'nh3' | 'pb';
+
+export interface PollutantConcentrations {
+  pm25: number; // µg/m³, 24h
+  pm10: number; // µg/m³, 24h
+  no2: number;  // µg/m³, 24h
+  so2: number;  // µg/m³, 24h
+  co: number;   // mg/m³, 8h
+  o3?: number;  // µg/m³, 8h
+  nh3?: number; // µg/m³, 24h
+  pb?: number;  // µg/m³, 24h
+}
+
+export interface SubIndex {
+  pollutant: PollutantKey;
+  label: string;
+  concentration: number;
+  index: number;
+}
+
+export interface AqiComputation {
+  aqi: number;
+  dominant: string;
+  subIndices: SubIndex[];
+  isValid: boolean; // CPCB: >= 3 pollutants, at least one of PM2.5 / PM10
+}
+
+export type AggregationMethod = 'max' | 'mean' | 'median' | 'trimmed-percentile' | 'population-weighted' | 'cpcb-average';
+
+export interface AggregationResult {
+  aqi: number;
+  method: AggregationMethod;
+  stationCount: number; // Stations contributing to the headline number
+}
+
+// Where a reading came from and how old it is
+export interface DataFreshness {
+  observedAt: number;                      // Epoch ms of the underlying observation
+  source: 'live' | 'snapshot' | 'cache' | 'fixture'; // Provider, last station snapshot, last city result, or offline fixture
+  stale: boolean;
 }
 
 export interface LiveAqiData {
@@ -36,6 +140,10 @@ export interface LiveAqiData {
   city: string;
   time: string;
   intelligence: IntelligentAnalysis;
+  subIndices?: SubIndex[];
+  aggregation?: AggregationResult;
+  alternatives?: AggregationResult[]; // Same snapshot under every method
+  freshness?: DataFreshness;
 }
 
 export interface VisionAnalysisResult {
@@ -60,6 +168,197 @@ export interface HealthRiskAssessment {
   confidence: number;
 }
 
+// Microenvironments of the exposure diary; outdoor time is spent in the home ward
+export type ExposureSetting = 'home' | 'work' | 'commute' | 'outdoor';
+
+export interface ExposureDiaryEntry {
+  date: string; // Local day, YYYY-MM-DD
+  hours: Record<ExposureSetting, number>;
+}
+
+export interface ExposureDiary {
+  places: Record<Exclude<ExposureSetting, 'outdoor'>, string | null>; // Ward ids; null uses the city average
+  entries: ExposureDiaryEntry[];
+}
+
+export interface ExposureDay {
+  date: string;
+  dose: number; // Inhaled PM2.5, µg
+  meanPm25: number; // Time-weighted concentration breathed, µg/m³
+  whoDose: number; // Dose at the WHO 24h guideline for the same breathing rate
+  bySetting: Record<ExposureSetting, number>; // µg
+  estimated: boolean; // Some ward had no history that day; its current reading was used
+}
+
+// Outcome of a structured LLM call: validated data, or why there is none
+export type LlmErrorKind = 'unavailable' | 'unsupported' | 'request-failed' | 'invalid-response';
+
+export interface LlmError {
+  kind: LlmErrorKind;
+  message: string;
+  attempts: number;
+  issues?: string[];   // Validation problems from the last attempt
+}
+
+export type LlmResult<T> =
+  | { ok: true; data: T; attempts: number; repairs: string[] }
+  | { ok: false; error: LlmError };
+
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface LlmToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  id?: string;
+  name: string;
+  result: unknown;
+}
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  text: string;
+  toolCalls?: LlmToolCall[];      // Model turn that asked for tools
+  toolResults?: LlmToolResult[];  // User turn answering them
+}
+
+// A tool the assistant ran while answering, shown as a citation under the reply
+export interface AssistantCitation {
+  tool: string;
+  args: Record<string, unknown>;
+  summary: string;
+  result: unknown;
+}
+
+export interface AssistantReply {
+  text: string;
+  citations: AssistantCitation[];
+  stopped?: boolean;    // Cancelled by the user; text is what had streamed so far
+}
+
+export interface AssistantMessage extends AssistantReply {
+  role: 'user' | 'model';
+  time: number;
+}
+
+export interface AssistantThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: AssistantMessage[];
+}
+
+export interface AssistantThreadStore {
+  activeId: string | null;
+  threads: AssistantThread[];   // Most recently updated first
+}
+
+export type AlertTrigger = 'threshold' | 'category' | 'grap' | 'forecast-severe';
+
+export interface AlertSubscription {
+  id: string;
+  wardId: string | null;        // null: the city-wide reading
+  triggers: AlertTrigger[];
+  threshold: number;            // AQI level for the 'threshold' trigger
+  createdAt: number;
+}
+
+export interface AlertSettings {
+  subscriptions: AlertSubscription[];
+  quietHours: { enabled: boolean; start: number; end: number };   // Local hours, may wrap midnight
+}
+
+// Last reading seen for a subscription; triggers fire on a change from it
+export interface AlertObservation {
+  aqi: number;
+  level: AQILevel;
+  grapStage: number;
+  forecastSevere: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  subscriptionId: string;
+  trigger: AlertTrigger;
+  wardId: string | null;
+  dedupeKey: string;
+  title: string;
+  body: string;
+  aqi: number;
+  at: number;
+  silenced: boolean;            // Logged during quiet hours without a notification
+}
+
+/**
+ * Structured inputs behind each LLM task's prompt. Network providers only read the
+ * prompt; the local rule-based provider answers from these instead.
+ */
+export interface LlmTaskInputs {
+  insight: { aqi: number; dominant: string };
+  assistant: { query: string; cityAqi?: number; grapLabel?: string; ward?: Ward | null };
+  attribution: { ward: Ward; attribution: SourceAttribution };
+  forecast: { currentAqi: number; trendSlope: number; baseline: AtmosphericPrediction[] };
+  plan: { ward: Ward };
+  vision: Record<string, never>;
+  health: { profile: HealthProfile; aqi: number };
+  decision: { aqi: number; trend: string };
+  'policy-news': Record<string, never>;
+  'safe-zones': { lat: number; lng: number };
+}
+
+export type LlmTask = keyof LlmTaskInputs;
+
+export type LlmGrounding = { kind: 'search' } | { kind: 'maps'; lat: number; lng: number };
+
+interface LlmRequestBase {
+  model: string;
+  prompt: string;
+  system?: string;
+  history?: LlmMessage[];
+  image?: { mimeType: string; data: string };
+  responseSchema?: Schema;    // JSON output in this shape; ignored when grounded
+  grounding?: LlmGrounding;
+  tools?: LlmToolDeclaration[];
+  toolResults?: LlmToolResult[];  // Answers to the previous turn's tool calls, sent before the prompt
+  locale?: Locale;                // Language for free-text output; the prompt itself says so for remote models
+}
+
+export type LlmRequest = { [T in LlmTask]: LlmRequestBase & { task: T; input: LlmTaskInputs[T] } }[LlmTask];
+
+export interface LlmResponse {
+  text: string;
+  sources?: GroundingChunk[];
+  toolCalls?: LlmToolCall[];
+}
+
+export interface LlmCallOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void;   // Streams the text so far; providers that cannot stream call it once
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  supportsImages: boolean;
+  isConfigured: () => boolean;
+  generate: (request: LlmRequest, options?: LlmCallOptions) => Promise<LlmResponse>;
+}
+
+// One captured request/response pair for the replay provider
+export interface LlmRecording {
+  task: LlmTask;
+  key: string;        // Hash of model, prompt and history
+  response: LlmResponse;
+}
+
 export interface DecisionMatrix {
   overallRiskScore: number;
   recommendedAction: string;
@@ -75,16 +374,129 @@ export interface Policy {
   impact: number; // Percentage reduction (e.g., 0.15 for 15%)
   active: boolean;
   description: string;
+  sector: WardSourceKey;  // Ward.breakdown share the reduction applies to
+}
+
+export interface WardProjection {
+  id: string;
+  name: string;
+  population?: number;
+  baseline: number;
+  projected: number;
+  estimated?: boolean; // Baseline is a regional estimate, no station in range
+}
+
+export interface ScenarioResult {
+  wards: WardProjection[];
+  cityBaseline: number;
+  cityProjected: number;
+  exposureReduction: number;   // Population-weighted AQI reduction, 0-1
+  estimatedWards: number;      // Wards whose baseline is a regional estimate
+  grapBaseline: GrapStage;
+  grapProjected: GrapStage;
 }
 
+export type QcFlag = 'spike' | 'stuck' | 'jump' | 'out-of-bounds';
+
 export interface Station {
   uid: number;
   lat: number;
   lon: number;
   aqi: number;
   stationName: string;
+  source?: string;
+  updatedAt?: string; // ISO timestamp of the reading
+  pollutants?: Partial<PollutantConcentrations>;
+  qcFlags?: QcFlag[]; // Empty when the reading passed quality control
+}
+
+export interface InterpolationResult {
+  aqi: number;
+  nearest: string;
+  nearestDistanceKm: number;
+  uncertainty: number; // AQI points, one standard deviation
+  stationCount: number;
+  extrapolated: boolean; // Beyond the variogram range (kriging); IDW returns no estimate outside its radius
+  method: InterpolationMethod;
+  variance?: number; // Kriging prediction variance, AQI²
+}
+
+export type InterpolationMethod = 'idw' | 'kriging';
+
+export interface VariogramModel {
+  nugget: number;
+  partialSill: number;
+  rangeKm: number;
+}
+
+export interface CityFeedReading {
+  aqi: number;
+  dominant?: string;
+  city?: string;
+}
+
+export interface AqiProvider {
+  id: string;
+  label: string;
+  fixture?: boolean; // Bundled demo readings, not observations
+  fetchStations: () => Promise<Station[]>;
+  fetchCityFeed?: () => Promise<CityFeedReading | null>;
+}
+
+export interface WeatherObservation {
+  time: number;                 // Epoch ms of the (forecast) hour
+  windSpeed: number;            // km/h at 10 m
+  windDirection: number;        // Degrees, direction the wind blows from
+  boundaryLayerHeight: number;  // Mixing height, metres
+  temperature: number;          // °C at 2 m
+  humidity: number;             // Relative humidity, %
+  rainfall: number;             // mm in the hour
+}
+
+export interface WeatherProvider {
+  id: string;
+  label: string;
+  // Hourly observations/forecast from the current hour onwards
+  fetchHourly: (lat: number, lng: number, hours: number) => Promise<WeatherObservation[]>;
+}
+
+export type DispersionCategory = 'stagnant' | 'poor' | 'moderate' | 'good';
+
+export interface DispersionSummary {
+  ventilationIndex: number;     // m²/s: wind speed × mixing height
+  category: DispersionCategory;
+  inversion: boolean;
+  rain: boolean;
+}
+
+export type HistoryResolution = 'hourly' | 'daily';
+
+// Running aggregate of the readings that fell into one hour or day of a series
+export interface HistoryBucket {
+  seriesId: string;   // 'station:<uid>', 'ward:<id>' or 'city'
+  start: number;      // Bucket start, epoch ms
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+export interface HistoryBackend {
+  id: string;
+  merge: (resolution: HistoryResolution, buckets: HistoryBucket[]) => Promise<void>;
+  query: (resolution: HistoryResolution, seriesId: string, from: number) => Promise<HistoryBucket[]>;
+  prune: (resolution: HistoryResolution, before: number) => Promise<void>;
+}
+
+export interface HistoryPoint {
+  time: string;
+  aqi: number;
+  timestamp: number;
 }
 
+// 'rules' is the trend extrapolation of the local rule-based LLM fallback
+export type ForecastModelId = 'persistence' | 'seasonal-naive' | 'holt-winters' | 'autoregressive' | 'llm' | 'rules';
+
 export interface AtmosphericPrediction {
   hours: number;
   aqi: number;
@@ -92,6 +504,56 @@ export interface AtmosphericPrediction {
   riskLevel: RiskLevel;
   confidence: number;
   explanation: string;
+  lower?: number;           // 80% prediction interval, statistical models only
+  upper?: number;
+  model?: ForecastModelId;
+}
+
+export interface ForecastHour {
+  time: number;       // Epoch ms of the valid hour
+  hoursAhead: number;
+  aqi: number;
+  lower: number;      // 80% prediction interval
+  upper: number;
+}
+
+// An issued prediction kept for later verification against observed city AQI
+export interface ArchivedForecast {
+  id: string;
+  model: ForecastModelId;
+  hours: number;
+  issuedAt: number;
+  validAt: number;
+  aqi: number;
+  issuedAqi: number;     // Observed at issue time; the persistence reference
+  observed?: number;     // Filled in once the valid time has been observed
+}
+
+export interface ForecastScore {
+  model: ForecastModelId;
+  hours: number;
+  count: number;
+  mae: number;
+  bias: number;              // Mean forecast minus observed
+  categoryHitRate: number;   // Share with the correct CPCB category, 0-1
+  persistenceMae: number;
+  skill: number | null;      // 1 - MAE / persistence MAE
+}
+
+export type ApportionmentIndicator = 'prior' | 'pm-ratio' | 'no2-co' | 'so2-no2' | 'land-use' | 'time-of-day';
+
+// One multiplicative adjustment to a sector's weight, with the evidence behind it
+export interface ApportionmentFactor {
+  sector: WardSourceKey;
+  indicator: ApportionmentIndicator;
+  multiplier: number;
+  note: string;
+}
+
+export interface SourceApportionment {
+  breakdown: Record<WardSourceKey, number>;  // Percent, sums to 100
+  factors: ApportionmentFactor[];
+  confidence: number;                        // 0-100
 }
 
 export interface SourceAttribution {
@@ -104,6 +566,8 @@ export interface SourceAttribution {
   reasoning: string[];
   socialSnippet: string;
   confidenceScore: number;
+  factors?: ApportionmentFactor[];   // Receptor-model evidence behind the weights
+  narratedBy?: 'llm' | 'template';
 }
 
 export interface PollutionPost {
@@ -143,29 +607,21 @@ export interface Ward {
   nearestStation?: string;
   lastUpdated: string;
   coordinates: { lat: number; lng: number };
-  pollutants: {
-    pm25: number;
-    pm10: number;
-    no2: number;
-    so2: number;
-    co: number;
-  };
+  pollutants: PollutantConcentrations;
   windSpeed: number;
   humidity: number;
-  breakdown: {
-    transport: number;
-    construction: number;
-    industry: number;
-    waste: number;
-  };
+  breakdown: Record<WardSourceKey, number>;  // Percent share by source
   history: {
     hourly: { time: string; aqi: number }[];
     daily: { time: string; aqi: number }[];
     monthly: { time: string; aqi: number }[];
   };
   geoJson?: any;
+  population?: number;
+  areaKm2?: number;
   nearestSensor?: string;
   sensorDistance?: string;
+  estimated?: boolean; // No station in range: AQI from the regional profile, not interpolated
 }
 
 export interface MitigationPlan {
@@ -1,15 +1,29 @@
-
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    host: true,
-    port: 3000
-  },
-  build: {
-    outDir: 'dist',
-    sourcemap: true
-  }
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', '');
+
+  return {
+    plugins: [react()],
+    define: {
+      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.AQI_PROVIDER': JSON.stringify(env.AQI_PROVIDER),
+      'process.env.AQI_PROVIDER_URL': JSON.stringify(env.AQI_PROVIDER_URL),
+      'process.env.WAQI_TOKEN': JSON.stringify(env.WAQI_TOKEN),
+      'process.env.OPENAQ_API_KEY': JSON.stringify(env.OPENAQ_API_KEY),
+      'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER),
+      'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+      'process.env.LLM_REPLAY_URL': JSON.stringify(env.LLM_REPLAY_URL),
+      'process.env.LLM_MODELS': JSON.stringify(env.LLM_MODELS)
+    },
+    server: {
+      host: true,
+      port: 3000
+    },
+    build: {
+      outDir: 'dist',
+      sourcemap: true
+    }
+  };
 });